@@ -0,0 +1,326 @@
+import { NodeType, NodeData, EdgeData } from '../types';
+import type { DiagnosticSeverity } from '../validation/ValidationRuleRegistry';
+import { computeDominators, dominates } from './dominators';
+
+/**
+ * 网关分析所需的节点结构（FlowNode 满足该接口）
+ */
+export interface GatewayNode {
+  id: string;
+  type: NodeType;
+  getInputs(): GatewayNode[];
+  getOutputs(): GatewayNode[];
+}
+
+/**
+ * 并行/汇合网关配对
+ */
+export interface GatewayPair {
+  /** 并行节点ID */
+  fork: string;
+  /** 汇合节点ID */
+  join: string;
+  /** 每个分支包含的节点，直接连到汇合节点的分支为空数组 */
+  branches: string[][];
+  /** 区域内的全部节点（不含并行和汇合节点） */
+  nodes: string[];
+  /** 外层并行节点ID */
+  parent?: string;
+  /** 嵌套深度，最外层为 0 */
+  depth: number;
+}
+
+/**
+ * 网关问题代码
+ */
+export type GatewayIssueCode = 'unmatched-parallel' | 'unmatched-merge' | 'interleaved-gateways' | 'deadlock-merge';
+
+/**
+ * 网关问题
+ */
+export interface GatewayIssue {
+  code: GatewayIssueCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 问题所在节点 */
+  nodeId: string;
+  /** 相关节点 */
+  relatedNodeIds: string[];
+}
+
+/**
+ * 网关分析结果
+ */
+export interface GatewayAnalysis {
+  pairs: GatewayPair[];
+  issues: GatewayIssue[];
+  /** 直接支配节点（入口节点不在其中） */
+  dominators: Map<string, string>;
+  /** 直接后支配节点（出口节点不在其中） */
+  postDominators: Map<string, string>;
+  /** 按并行或汇合节点ID获取配对 */
+  getPair(nodeId: string): GatewayPair | undefined;
+  /** 获取包含节点的最内层配对 */
+  getEnclosingPair(nodeId: string): GatewayPair | undefined;
+}
+
+const ENTRY = '\u0000entry';
+const EXIT = '\u0000exit';
+
+/**
+ * 分析并行/汇合网关的对应关系
+ * 并行节点与其直接后支配节点配对，要求该节点是汇合节点且被并行节点支配
+ */
+export function analyzeGateways(source: Iterable<GatewayNode>): GatewayAnalysis {
+  const nodes = Array.from(source);
+  const types = new Map(nodes.map(node => [node.id, node.type]));
+  const successors = new Map<string, string[]>([[ENTRY, []], [EXIT, []]]);
+  const predecessors = new Map<string, string[]>([[ENTRY, []], [EXIT, []]]);
+  nodes.forEach(node => {
+    successors.set(node.id, unique(node.getOutputs().map(item => item.id).filter(id => types.has(id))));
+    predecessors.set(node.id, unique(node.getInputs().map(item => item.id).filter(id => types.has(id))));
+  });
+
+  // 虚拟入口连接所有起点，虚拟出口连接所有终点；无法到达的环路也补上连接
+  attachVirtual(nodes, ENTRY, successors, predecessors,
+    node => node.type === NodeType.START || predecessors.get(node.id)!.length === 0);
+  attachVirtual(nodes, EXIT, predecessors, successors,
+    node => node.type === NodeType.END || successors.get(node.id)!.length === 0);
+
+  const forward = (id: string) => successors.get(id) || [];
+  const backward = (id: string) => predecessors.get(id) || [];
+  const dominators = computeDominators(ENTRY, forward, backward);
+  const postDominators = computeDominators(EXIT, backward, forward);
+
+  const pairs: GatewayPair[] = [];
+  const issues: GatewayIssue[] = [];
+  const forks = nodes.filter(node => node.type === NodeType.PARALLEL);
+  const merges = nodes.filter(node => node.type === NodeType.MERGE);
+
+  forks.forEach(fork => {
+    const join = postDominators.get(fork.id);
+    if (join !== undefined && types.get(join) === NodeType.MERGE && dominates(dominators, fork.id, join)) {
+      pairs.push(createPair(fork.id, join, nodes, successors, dominators, postDominators));
+    }
+  });
+
+  const pairByNode = new Map<string, GatewayPair>();
+  pairs.forEach(pair => {
+    pairByNode.set(pair.fork, pair);
+    pairByNode.set(pair.join, pair);
+  });
+  const getEnclosingPair = (nodeId: string) => pairs
+    .filter(pair => pair.nodes.includes(nodeId))
+    .reduce<GatewayPair | undefined>(
+      (best, pair) => (!best || pair.nodes.length < best.nodes.length ? pair : best),
+      undefined
+    );
+
+  pairs.forEach(pair => {
+    pair.parent = getEnclosingPair(pair.fork)?.fork;
+  });
+  pairs.forEach(pair => {
+    let parent = pair.parent;
+    while (parent !== undefined) {
+      pair.depth++;
+      parent = pairByNode.get(parent)?.parent;
+    }
+  });
+
+  // 未配对的并行节点：区分分支交叉和缺少汇合
+  const firstMerges = new Map(forks.map(fork => [fork.id, findFirstMerges(fork.id, successors, types)]));
+  forks.filter(fork => !pairByNode.has(fork.id)).forEach(fork => {
+    const crossing = forks.filter(other => other.id !== fork.id
+      && Array.from(firstMerges.get(other.id)!).some(merge => firstMerges.get(fork.id)!.has(merge)
+        && pairByNode.get(other.id)?.join !== merge));
+    if (crossing.length > 0) {
+      const crossingIds = crossing.map(other => other.id);
+      const shared = Array.from(firstMerges.get(fork.id)!)
+        .filter(merge => crossing.some(other => firstMerges.get(other.id)!.has(merge)));
+      issues.push({
+        code: 'interleaved-gateways',
+        severity: 'error',
+        message: `Parallel node ${fork.id} interleaves with ${crossingIds.join(', ')} ` +
+          `at merge node ${shared.join(', ')}`,
+        nodeId: fork.id,
+        relatedNodeIds: [...crossingIds, ...shared]
+      });
+      return;
+    }
+
+    const join = postDominators.get(fork.id);
+    issues.push({
+      code: 'unmatched-parallel',
+      severity: 'error',
+      message: `Parallel node ${fork.id} has no matching merge node`,
+      nodeId: fork.id,
+      relatedNodeIds: join !== undefined && join !== EXIT ? [join] : []
+    });
+  });
+
+  // 条件分支在汇合节点重新汇聚时，汇合节点会一直等待未激活的分支
+  merges.forEach(merge => {
+    const conditions = nodes
+      .filter(node => node.type === NodeType.CONDITION && postDominators.get(node.id) === merge.id)
+      .map(node => node.id);
+    if (conditions.length > 0) {
+      issues.push({
+        code: 'deadlock-merge',
+        severity: 'error',
+        message: `Merge node ${merge.id} joins exclusive branches of condition node ${conditions.join(', ')} ` +
+          'and may wait forever',
+        nodeId: merge.id,
+        relatedNodeIds: conditions
+      });
+    } else if (!pairByNode.has(merge.id)) {
+      issues.push({
+        code: 'unmatched-merge',
+        severity: 'warning',
+        message: `Merge node ${merge.id} has no matching parallel node`,
+        nodeId: merge.id,
+        relatedNodeIds: []
+      });
+    }
+  });
+
+  return {
+    pairs,
+    issues,
+    dominators: withoutVirtual(dominators),
+    postDominators: withoutVirtual(postDominators),
+    getPair: nodeId => pairByNode.get(nodeId),
+    getEnclosingPair
+  };
+}
+
+/**
+ * 从节点和连线数据创建网关分析节点
+ */
+export function createGatewayNodes(nodes: NodeData[], edges: EdgeData[]): GatewayNode[] {
+  const inputs = new Map<string, GatewayNode[]>();
+  const outputs = new Map<string, GatewayNode[]>();
+  const result = new Map<string, GatewayNode>();
+  nodes.forEach(node => {
+    inputs.set(node.id, []);
+    outputs.set(node.id, []);
+    result.set(node.id, {
+      id: node.id,
+      type: node.type,
+      getInputs: () => [...inputs.get(node.id)!],
+      getOutputs: () => [...outputs.get(node.id)!]
+    });
+  });
+  edges.forEach(edge => {
+    const source = result.get(edge.source);
+    const target = result.get(edge.target);
+    if (source && target) {
+      outputs.get(source.id)!.push(target);
+      inputs.get(target.id)!.push(source);
+    }
+  });
+  return Array.from(result.values());
+}
+
+function createPair(
+  fork: string,
+  join: string,
+  nodes: GatewayNode[],
+  successors: Map<string, string[]>,
+  dominators: Map<string, string>,
+  postDominators: Map<string, string>
+): GatewayPair {
+  const region = new Set(nodes
+    .map(node => node.id)
+    .filter(id => id !== fork && id !== join
+      && dominates(dominators, fork, id) && dominates(postDominators, join, id)));
+
+  const branches = successors.get(fork)!.map(start => {
+    const branch: string[] = [];
+    const visited = new Set<string>();
+    const queue = region.has(start) ? [start] : [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+      branch.push(id);
+      successors.get(id)!.forEach(next => {
+        if (region.has(next)) {
+          queue.push(next);
+        }
+      });
+    }
+    return branch;
+  });
+
+  return { fork, join, branches, nodes: Array.from(region), depth: 0 };
+}
+
+/**
+ * 每个分支遇到的第一个汇合节点
+ */
+function findFirstMerges(fork: string, successors: Map<string, string[]>, types: Map<string, NodeType>): Set<string> {
+  const merges = new Set<string>();
+  const visited = new Set<string>([fork]);
+  const queue = [...successors.get(fork)!];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id) || !types.has(id)) {
+      continue;
+    }
+    visited.add(id);
+    if (types.get(id) === NodeType.MERGE) {
+      merges.add(id);
+    } else {
+      queue.push(...successors.get(id)!);
+    }
+  }
+  return merges;
+}
+
+/**
+ * 连接虚拟节点，保证所有节点都能从虚拟节点到达
+ */
+function attachVirtual(
+  nodes: GatewayNode[],
+  virtual: string,
+  forward: Map<string, string[]>,
+  backward: Map<string, string[]>,
+  isBoundary: (node: GatewayNode) => boolean
+): void {
+  const reached = new Set<string>();
+  const connect = (id: string) => {
+    forward.get(virtual)!.push(id);
+    backward.get(id)!.push(virtual);
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (!reached.has(current)) {
+        reached.add(current);
+        stack.push(...forward.get(current)!);
+      }
+    }
+  };
+
+  nodes.filter(isBoundary).forEach(node => connect(node.id));
+  nodes.forEach(node => {
+    if (!reached.has(node.id)) {
+      connect(node.id);
+    }
+  });
+}
+
+function withoutVirtual(idom: Map<string, string>): Map<string, string> {
+  const result = new Map<string, string>();
+  idom.forEach((dominator, id) => {
+    if (id !== ENTRY && id !== EXIT && dominator !== ENTRY && dominator !== EXIT) {
+      result.set(id, dominator);
+    }
+  });
+  return result;
+}
+
+function unique(ids: string[]): string[] {
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,466 @@
+import { NodeError, ValidationError } from '../utils/errors';
+import { computeDominators } from './dominators';
+
+/**
+ * 图数据（NodeData/EdgeData、GraphData 均满足）
+ */
+export interface GraphSourceData {
+  nodes: Array<{ id: string }>;
+  edges: Array<{ id?: string; source: string; target: string }>;
+}
+
+/**
+ * 图算法的数据来源：FlowChart、Graph 或图数据
+ */
+export type GraphSource = GraphSourceData | { toJSON(): GraphSourceData };
+
+/**
+ * 算法使用的连线
+ */
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * 连线权重函数
+ */
+export type EdgeWeight = (edge: GraphEdge) => number;
+
+const VIRTUAL_ROOT = '\u0000root';
+
+/**
+ * 图算法
+ * 基于创建时的快照计算，图变化后需要重新创建
+ */
+export class GraphAlgorithms {
+  private nodeIds: string[];
+  private nodeIndex: Map<string, number>;
+  private outgoing: Map<string, GraphEdge[]> = new Map();
+  private incoming: Map<string, GraphEdge[]> = new Map();
+
+  constructor(source: GraphSource) {
+    const data = 'toJSON' in source ? source.toJSON() : source;
+    this.nodeIds = data.nodes.map(node => node.id);
+    this.nodeIndex = new Map(this.nodeIds.map((id, index) => [id, index]));
+    this.nodeIds.forEach(id => {
+      this.outgoing.set(id, []);
+      this.incoming.set(id, []);
+    });
+
+    // 忽略端点不存在的连线
+    data.edges.forEach((edge, index) => {
+      if (this.nodeIndex.has(edge.source) && this.nodeIndex.has(edge.target)) {
+        const item = { id: edge.id || `${edge.source}->${edge.target}#${index}`, source: edge.source, target: edge.target };
+        this.outgoing.get(edge.source)!.push(item);
+        this.incoming.get(edge.target)!.push(item);
+      }
+    });
+  }
+
+  /**
+   * 获取所有节点ID
+   */
+  public getNodeIds(): string[] {
+    return [...this.nodeIds];
+  }
+
+  /**
+   * 获取后继节点（去重）
+   */
+  public getSuccessors(id: string): string[] {
+    return unique(this.getOutgoing(id).map(edge => edge.target));
+  }
+
+  /**
+   * 获取前驱节点（去重）
+   */
+  public getPredecessors(id: string): string[] {
+    return unique(this.getIncoming(id).map(edge => edge.source));
+  }
+
+  /**
+   * 拓扑排序（同层按节点顺序）
+   * 存在环时抛出 ValidationError，errors 为环上的节点
+   */
+  public topologicalSort(): string[] {
+    const inDegree = new Map(this.nodeIds.map(id => [id, this.getPredecessors(id).length]));
+    const queue = this.nodeIds.filter(id => inDegree.get(id) === 0);
+    const result: string[] = [];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      result.push(id);
+      this.getSuccessors(id).forEach(next => {
+        inDegree.set(next, inDegree.get(next)! - 1);
+        if (inDegree.get(next) === 0) {
+          queue.push(next);
+        }
+      });
+    }
+
+    if (result.length < this.nodeIds.length) {
+      const sorted = new Set(result);
+      const remaining = this.nodeIds.filter(id => !sorted.has(id));
+      throw new ValidationError('Graph contains a cycle', remaining);
+    }
+    return result;
+  }
+
+  /**
+   * 是否无环
+   */
+  public isAcyclic(): boolean {
+    return this.stronglyConnectedComponents().every(component => component.length === 1
+      && !this.getSuccessors(component[0]).includes(component[0]));
+  }
+
+  /**
+   * 强连通分量（Tarjan）
+   */
+  public stronglyConnectedComponents(): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+
+      this.getSuccessors(id).forEach(next => {
+        if (!index.has(next)) {
+          visit(next);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+        }
+      });
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+        components.push(component.reverse());
+      }
+    };
+
+    this.nodeIds.forEach(id => {
+      if (!index.has(id)) {
+        visit(id);
+      }
+    });
+    return components;
+  }
+
+  /**
+   * 枚举所有简单环（Johnson 算法）
+   * 每个环从其中顺序最靠前的节点开始，不重复首节点
+   */
+  public findCycles(limit: number = 1000): string[][] {
+    const cycles: string[][] = [];
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (id: string) => {
+      blocked.delete(id);
+      const dependents = blockedBy.get(id);
+      blockedBy.delete(id);
+      dependents?.forEach(dependent => {
+        if (blocked.has(dependent)) {
+          unblock(dependent);
+        }
+      });
+    };
+
+    for (let start = 0; start < this.nodeIds.length && cycles.length < limit; start++) {
+      const startId = this.nodeIds[start];
+      const allowed = (id: string) => this.nodeIndex.get(id)! >= start;
+      blocked.clear();
+      blockedBy.clear();
+
+      const circuit = (id: string): boolean => {
+        let found = false;
+        path.push(id);
+        blocked.add(id);
+
+        for (const next of this.getSuccessors(id)) {
+          if (cycles.length >= limit) {
+            break;
+          }
+          if (!allowed(next)) {
+            continue;
+          }
+          if (next === startId) {
+            cycles.push([...path]);
+            found = true;
+          } else if (!blocked.has(next) && circuit(next)) {
+            found = true;
+          }
+        }
+
+        if (found) {
+          unblock(id);
+        } else {
+          this.getSuccessors(id).filter(allowed).forEach(next => {
+            if (!blockedBy.has(next)) {
+              blockedBy.set(next, new Set());
+            }
+            blockedBy.get(next)!.add(id);
+          });
+        }
+        path.pop();
+        return found;
+      };
+
+      circuit(startId);
+    }
+    return cycles;
+  }
+
+  /**
+   * 两个节点之间的所有简单路径（最多 limit 条）
+   */
+  public findAllPaths(from: string, to: string, limit: number = 100): string[][] {
+    this.assertNode(from);
+    this.assertNode(to);
+    if (from === to) {
+      return [[from]];
+    }
+
+    const paths: string[][] = [];
+    const path = [from];
+    const onPath = new Set([from]);
+
+    const visit = (id: string) => {
+      for (const next of this.getSuccessors(id)) {
+        if (paths.length >= limit) {
+          return;
+        }
+        if (onPath.has(next)) {
+          continue;
+        }
+        path.push(next);
+        if (next === to) {
+          paths.push([...path]);
+        } else {
+          onPath.add(next);
+          visit(next);
+          onPath.delete(next);
+        }
+        path.pop();
+      }
+    };
+
+    visit(from);
+    return paths;
+  }
+
+  /**
+   * 最短路径，不可达时返回 null
+   * 不传权重时按连线数计算，权重不能为负（Dijkstra）
+   */
+  public shortestPath(from: string, to: string, weight?: EdgeWeight): string[] | null {
+    this.assertNode(from);
+    this.assertNode(to);
+
+    const distance = new Map<string, number>([[from, 0]]);
+    const previous = new Map<string, string>();
+    const settled = new Set<string>();
+
+    while (!settled.has(to)) {
+      let current: string | undefined;
+      distance.forEach((value, id) => {
+        if (!settled.has(id) && (current === undefined || value < distance.get(current)!)) {
+          current = id;
+        }
+      });
+      if (current === undefined) {
+        return null;
+      }
+      settled.add(current);
+
+      this.getOutgoing(current).forEach(edge => {
+        const cost = weight ? weight(edge) : 1;
+        if (cost < 0) {
+          throw new ValidationError(`Negative edge weight on ${edge.id}`);
+        }
+        const candidate = distance.get(current!)! + cost;
+        if (!settled.has(edge.target) && (!distance.has(edge.target) || candidate < distance.get(edge.target)!)) {
+          distance.set(edge.target, candidate);
+          previous.set(edge.target, current!);
+        }
+      });
+    }
+
+    return buildPath(previous, from, to);
+  }
+
+  /**
+   * 最长路径，不可达时返回 null
+   * 有环时忽略从 from 出发深度优先遍历得到的回边（例如驳回重走的连线）
+   */
+  public longestPath(from: string, to: string, weight?: EdgeWeight): string[] | null {
+    this.assertNode(from);
+    this.assertNode(to);
+
+    // 深度优先后序，同时识别回边
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const backEdges = new Set<GraphEdge>();
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      this.getOutgoing(id).forEach(edge => {
+        const status = state.get(edge.target);
+        if (status === 'visiting') {
+          backEdges.add(edge);
+        } else if (status === undefined) {
+          visit(edge.target);
+        }
+      });
+      state.set(id, 'done');
+      order.push(id);
+    };
+    visit(from);
+
+    if (!state.has(to)) {
+      return null;
+    }
+
+    const distance = new Map<string, number>([[from, 0]]);
+    const previous = new Map<string, string>();
+    order.reverse().forEach(id => {
+      if (!distance.has(id)) {
+        return;
+      }
+      this.getOutgoing(id).forEach(edge => {
+        if (backEdges.has(edge)) {
+          return;
+        }
+        const candidate = distance.get(id)! + (weight ? weight(edge) : 1);
+        if (!distance.has(edge.target) || candidate > distance.get(edge.target)!) {
+          distance.set(edge.target, candidate);
+          previous.set(edge.target, id);
+        }
+      });
+    });
+
+    return buildPath(previous, from, to);
+  }
+
+  /**
+   * 从指定节点可达的节点（包含自身）
+   */
+  public getReachable(from: string | string[]): Set<string> {
+    return this.traverse(Array.isArray(from) ? from : [from], id => this.getSuccessors(id));
+  }
+
+  /**
+   * 可以到达指定节点的节点（包含自身）
+   */
+  public getAncestors(to: string | string[]): Set<string> {
+    return this.traverse(Array.isArray(to) ? to : [to], id => this.getPredecessors(id));
+  }
+
+  /**
+   * 直接支配节点
+   * 不指定根节点时，以所有没有前驱的节点为入口（无法到达的环路同样作为入口）
+   */
+  public getDominators(root?: string): Map<string, string> {
+    return this.computeTree(root, id => this.getSuccessors(id), id => this.getPredecessors(id));
+  }
+
+  /**
+   * 直接后支配节点
+   * 不指定出口节点时，以所有没有后继的节点为出口
+   */
+  public getPostDominators(exit?: string): Map<string, string> {
+    return this.computeTree(exit, id => this.getPredecessors(id), id => this.getSuccessors(id));
+  }
+
+  private computeTree(
+    root: string | undefined,
+    forward: (id: string) => string[],
+    backward: (id: string) => string[]
+  ): Map<string, string> {
+    if (root !== undefined) {
+      this.assertNode(root);
+      return computeDominators(root, forward, backward);
+    }
+
+    const entries = this.nodeIds.filter(id => backward(id).length === 0);
+    const reached = this.traverse(entries, forward);
+    this.nodeIds.forEach(id => {
+      if (!reached.has(id)) {
+        entries.push(id);
+        this.traverse([id], forward).forEach(item => reached.add(item));
+      }
+    });
+    const entrySet = new Set(entries);
+
+    const idom = computeDominators(
+      VIRTUAL_ROOT,
+      id => (id === VIRTUAL_ROOT ? entries : forward(id)),
+      id => (entrySet.has(id) ? [...backward(id), VIRTUAL_ROOT] : backward(id))
+    );
+    idom.forEach((dominator, id) => {
+      if (dominator === VIRTUAL_ROOT) {
+        idom.delete(id);
+      }
+    });
+    return idom;
+  }
+
+  private traverse(from: string[], next: (id: string) => string[]): Set<string> {
+    const visited = new Set<string>();
+    const stack = [...from];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (!visited.has(id) && this.nodeIndex.has(id)) {
+        visited.add(id);
+        stack.push(...next(id));
+      }
+    }
+    return visited;
+  }
+
+  private getOutgoing(id: string): GraphEdge[] {
+    return this.outgoing.get(id) || [];
+  }
+
+  private getIncoming(id: string): GraphEdge[] {
+    return this.incoming.get(id) || [];
+  }
+
+  private assertNode(id: string): void {
+    if (!this.nodeIndex.has(id)) {
+      throw new NodeError(`Node not found: ${id}`, id);
+    }
+  }
+}
+
+function buildPath(previous: Map<string, string>, from: string, to: string): string[] | null {
+  if (from !== to && !previous.has(to)) {
+    return null;
+  }
+  const path = [to];
+  while (path[0] !== from) {
+    path.unshift(previous.get(path[0])!);
+  }
+  return path;
+}
+
+function unique(ids: string[]): string[] {
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,93 @@
+/**
+ * 支配树计算（Cooper-Harvey-Kennedy 迭代算法）
+ */
+
+/**
+ * 邻接关系访问器
+ */
+export type Adjacency = (id: string) => string[];
+
+/**
+ * 计算从根可达节点的直接支配节点
+ * 返回 节点 -> 直接支配节点，根节点和不可达节点不在结果中
+ */
+export function computeDominators(root: string, successors: Adjacency, predecessors: Adjacency): Map<string, string> {
+  const postOrder = computePostOrder(root, successors);
+  const order = new Map(postOrder.map((id, index) => [id, index]));
+  const reversePostOrder = [...postOrder].reverse();
+  const idom = new Map<string, string>([[root, root]]);
+
+  const intersect = (a: string, b: string): string => {
+    let left = a;
+    let right = b;
+    while (left !== right) {
+      while (order.get(left)! < order.get(right)!) {
+        left = idom.get(left)!;
+      }
+      while (order.get(right)! < order.get(left)!) {
+        right = idom.get(right)!;
+      }
+    }
+    return left;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    reversePostOrder.forEach(id => {
+      if (id === root) {
+        return;
+      }
+      let candidate: string | undefined;
+      predecessors(id).forEach(pred => {
+        if (!idom.has(pred)) {
+          return;
+        }
+        candidate = candidate === undefined ? pred : intersect(pred, candidate);
+      });
+      if (candidate !== undefined && idom.get(id) !== candidate) {
+        idom.set(id, candidate);
+        changed = true;
+      }
+    });
+  }
+
+  idom.delete(root);
+  return idom;
+}
+
+/**
+ * 判断 a 是否支配 b（节点支配自身）
+ */
+export function dominates(idom: Map<string, string>, a: string, b: string): boolean {
+  let current: string | undefined = b;
+  while (current !== undefined) {
+    if (current === a) {
+      return true;
+    }
+    current = idom.get(current);
+  }
+  return false;
+}
+
+/**
+ * 迭代深度优先后序遍历
+ */
+function computePostOrder(root: string, successors: Adjacency): string[] {
+  const visited = new Set<string>([root]);
+  const result: string[] = [];
+  const stack: Array<{ id: string; next: string[] }> = [{ id: root, next: [...successors(root)] }];
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const child = frame.next.shift();
+    if (child === undefined) {
+      result.push(frame.id);
+      stack.pop();
+    } else if (!visited.has(child)) {
+      visited.add(child);
+      stack.push({ id: child, next: [...successors(child)] });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,21 @@
+/**
+ * 流程图结构分析
+ */
+
+export {
+  analyzeGateways,
+  createGatewayNodes,
+  type GatewayNode,
+  type GatewayPair,
+  type GatewayIssueCode,
+  type GatewayIssue,
+  type GatewayAnalysis
+} from './GatewayAnalysis';
+export {
+  GraphAlgorithms,
+  type GraphSource,
+  type GraphSourceData,
+  type GraphEdge,
+  type EdgeWeight
+} from './GraphAlgorithms';
+export { computeDominators, dominates, type Adjacency } from './dominators';
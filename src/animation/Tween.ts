@@ -0,0 +1,134 @@
+import type { AnimationConfig, Cancellable } from '../types/advanced';
+import { EasingFunction, resolveEasing } from './easing';
+
+/**
+ * 帧调度器，默认使用 requestAnimationFrame（不可用时退化为定时器）
+ */
+export interface FrameScheduler {
+  request(callback: () => void): number;
+  cancel(id: number): void;
+  now(): number;
+}
+
+/**
+ * 补间动画选项
+ */
+export interface TweenOptions extends Omit<AnimationConfig, 'easing'> {
+  easing?: string | EasingFunction;
+  /** 每帧回调，progress 为缓动后的进度 */
+  onFrame: (progress: number) => void;
+  /** 结束回调，cancelled 表示是否被取消 */
+  onEnd?: (cancelled: boolean) => void;
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * 默认帧调度器
+ */
+export const defaultScheduler: FrameScheduler = {
+  request: callback => (typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(() => callback())
+    : setTimeout(callback, 16) as unknown as number),
+  cancel: id => (typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(id) : clearTimeout(id)),
+  now: () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+};
+
+/**
+ * 系统是否要求减少动画（prefers-reduced-motion）
+ */
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+/**
+ * 补间动画
+ * 创建后立即以进度 0 绘制第一帧，随后按帧推进；duration 为 0 时同步完成
+ * iterations 大于 1 时重复播放，结束时停在进度 1
+ */
+export class Tween implements Cancellable {
+  /** 动画结束时 resolve，完成为 true，被取消为 false */
+  public readonly finished: Promise<boolean>;
+  private options: TweenOptions;
+  private easing: EasingFunction;
+  private scheduler: FrameScheduler;
+  private startTime: number;
+  private frameId: number | null = null;
+  private cancelled = false;
+  private done = false;
+  private resolve!: (completed: boolean) => void;
+
+  constructor(options: TweenOptions) {
+    this.options = options;
+    this.easing = resolveEasing(options.easing ?? 'ease-in-out');
+    this.scheduler = options.scheduler ?? defaultScheduler;
+    this.startTime = this.scheduler.now() + (options.delay ?? 0);
+    this.finished = new Promise(resolve => {
+      this.resolve = resolve;
+    });
+
+    options.onFrame(0);
+    if (options.duration <= 0 && !options.delay) {
+      this.finish(false);
+    } else {
+      this.frameId = this.scheduler.request(() => this.tick());
+    }
+  }
+
+  /**
+   * 取消动画，停在当前帧
+   */
+  public cancel(): void {
+    if (this.done) {
+      return;
+    }
+    if (this.frameId !== null) {
+      this.scheduler.cancel(this.frameId);
+      this.frameId = null;
+    }
+    this.cancelled = true;
+    this.finish(true);
+  }
+
+  /**
+   * 是否已取消
+   */
+  public isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * 是否已结束（完成或取消）
+   */
+  public isFinished(): boolean {
+    return this.done;
+  }
+
+  private tick(): void {
+    this.frameId = null;
+    const { duration, iterations = 1 } = this.options;
+    const elapsed = this.scheduler.now() - this.startTime;
+    if (elapsed < 0) {
+      this.frameId = this.scheduler.request(() => this.tick());
+      return;
+    }
+
+    const total = duration * iterations;
+    if (duration <= 0 || elapsed >= total) {
+      this.finish(false);
+      return;
+    }
+    const progress = (elapsed % duration) / duration;
+    this.options.onFrame(this.easing(progress));
+    this.frameId = this.scheduler.request(() => this.tick());
+  }
+
+  private finish(cancelled: boolean): void {
+    if (!cancelled) {
+      this.options.onFrame(1);
+    }
+    this.done = true;
+    this.options.onEnd?.(cancelled);
+    this.resolve(!cancelled);
+  }
+}
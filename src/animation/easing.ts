@@ -0,0 +1,76 @@
+import { ConfigError } from '../utils/errors';
+
+/**
+ * 缓动函数：把 0~1 的时间进度映射为 0~1 的动画进度
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * 内置缓动函数（三次曲线）
+ */
+export const EASINGS: Record<string, EasingFunction> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+/**
+ * 三次贝塞尔缓动，与 CSS cubic-bezier(x1, y1, x2, y2) 一致
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const curve = (a: number, b: number, s: number) =>
+    3 * a * s * (1 - s) * (1 - s) + 3 * b * s * s * (1 - s) + s * s * s;
+  const slope = (a: number, b: number, s: number) =>
+    3 * a * (1 - s) * (1 - s) + 6 * (b - a) * s * (1 - s) + 3 * (1 - b) * s * s;
+
+  return t => {
+    if (t <= 0 || t >= 1) {
+      return t <= 0 ? 0 : 1;
+    }
+    // 先用牛顿迭代求参数 s，斜率过小时改用二分
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+      const error = curve(x1, x2, s) - t;
+      const d = slope(x1, x2, s);
+      if (Math.abs(error) < 1e-6) {
+        return curve(y1, y2, s);
+      }
+      if (Math.abs(d) < 1e-6) {
+        break;
+      }
+      s -= error / d;
+    }
+    let low = 0;
+    let high = 1;
+    s = t;
+    while (high - low > 1e-6) {
+      if (curve(x1, x2, s) < t) {
+        low = s;
+      } else {
+        high = s;
+      }
+      s = (low + high) / 2;
+    }
+    return curve(y1, y2, s);
+  };
+}
+
+/**
+ * 按名称获取缓动函数，支持内置名称和 cubic-bezier(x1, y1, x2, y2)
+ */
+export function resolveEasing(easing: string | EasingFunction): EasingFunction {
+  if (typeof easing === 'function') {
+    return easing;
+  }
+  if (EASINGS[easing]) {
+    return EASINGS[easing];
+  }
+  const match = /^cubic-bezier\(([^)]*)\)$/.exec(easing.replace(/\s/g, ''));
+  const values = match ? match[1].split(',').map(Number) : [];
+  if (values.length !== 4 || values.some(value => isNaN(value)) || values[0] < 0 || values[0] > 1
+    || values[2] < 0 || values[2] > 1) {
+    throw new ConfigError(`Unknown easing: ${easing}`);
+  }
+  return cubicBezier(values[0], values[1], values[2], values[3]);
+}
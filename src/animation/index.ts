@@ -0,0 +1,6 @@
+/**
+ * 动画
+ */
+
+export { Tween, defaultScheduler, prefersReducedMotion, type TweenOptions, type FrameScheduler } from './Tween';
+export { EASINGS, cubicBezier, resolveEasing, type EasingFunction } from './easing';
@@ -0,0 +1,182 @@
+import type { FlowChart } from '../core/FlowChart';
+import { NodeData, EdgeData, NodeType, Position } from '../types';
+import { getNodeEdgePoint } from '../utils/geometry';
+import { BPMN_NS, BPMN_ELEMENT_TYPES, NODE_TYPE_ELEMENTS, BPMN_SHAPE_SIZES } from './constants';
+
+/**
+ * BPMN 导出配置
+ */
+export interface BpmnExportOptions {
+  /** 流程ID */
+  processId?: string;
+  /** 流程名称 */
+  processName?: string;
+  /** 目标命名空间 */
+  targetNamespace?: string;
+}
+
+/**
+ * 将流程图导出为 BPMN 2.0 XML（含 BPMNDI 坐标）
+ */
+export function exportBPMN(
+  source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] },
+  options: BpmnExportOptions = {}
+): string {
+  const { nodes, edges } = 'toJSON' in source ? source.toJSON() : source;
+  const processId = options.processId || 'Process_1';
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+  edges.forEach(edge => {
+    pushTo(outgoing, edge.source, edge.id);
+    pushTo(incoming, edge.target, edge.id);
+  });
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(
+    `<bpmn:definitions xmlns:bpmn="${BPMN_NS.MODEL}" xmlns:bpmndi="${BPMN_NS.DI}" ` +
+    `xmlns:dc="${BPMN_NS.DC}" xmlns:di="${BPMN_NS.OMG_DI}" xmlns:xsi="${BPMN_NS.XSI}" ` +
+    `id="Definitions_1" targetNamespace="${escapeXml(options.targetNamespace || 'http://bpmn.io/schema/bpmn')}">`
+  );
+  lines.push(
+    `  <bpmn:process id="${escapeXml(processId)}"` +
+    (options.processName ? ` name="${escapeXml(options.processName)}"` : '') +
+    ' isExecutable="true">'
+  );
+
+  // 流程节点
+  nodes.forEach(node => {
+    const tag = getElementTag(node);
+    const attrs = [`id="${escapeXml(node.id)}"`];
+    if (node.label) {
+      attrs.push(`name="${escapeXml(node.label)}"`);
+    }
+    if (node.type === NodeType.PARALLEL || node.type === NodeType.MERGE) {
+      attrs.push(`gatewayDirection="${node.type === NodeType.MERGE ? 'Converging' : 'Diverging'}"`);
+    }
+
+    const refs = [
+      ...(incoming.get(node.id) || []).map(id => `      <bpmn:incoming>${escapeXml(id)}</bpmn:incoming>`),
+      ...(outgoing.get(node.id) || []).map(id => `      <bpmn:outgoing>${escapeXml(id)}</bpmn:outgoing>`)
+    ];
+
+    if (refs.length === 0) {
+      lines.push(`    <bpmn:${tag} ${attrs.join(' ')} />`);
+    } else {
+      lines.push(`    <bpmn:${tag} ${attrs.join(' ')}>`, ...refs, `    </bpmn:${tag}>`);
+    }
+  });
+
+  // 顺序流
+  edges.forEach(edge => {
+    const attrs = [
+      `id="${escapeXml(edge.id)}"`,
+      ...(edge.label ? [`name="${escapeXml(edge.label)}"`] : []),
+      `sourceRef="${escapeXml(edge.source)}"`,
+      `targetRef="${escapeXml(edge.target)}"`
+    ];
+
+    if (edge.condition) {
+      lines.push(
+        `    <bpmn:sequenceFlow ${attrs.join(' ')}>`,
+        '      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">' +
+        `${escapeXml(edge.condition)}</bpmn:conditionExpression>`,
+        '    </bpmn:sequenceFlow>'
+      );
+    } else {
+      lines.push(`    <bpmn:sequenceFlow ${attrs.join(' ')} />`);
+    }
+  });
+
+  lines.push('  </bpmn:process>');
+
+  // 图形交换信息
+  lines.push('  <bpmndi:BPMNDiagram id="BPMNDiagram_1">');
+  lines.push(`    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="${escapeXml(processId)}">`);
+
+  nodes.forEach(node => {
+    const size = BPMN_SHAPE_SIZES[node.type] || BPMN_SHAPE_SIZES[NodeType.PROCESS];
+    lines.push(
+      `      <bpmndi:BPMNShape id="${escapeXml(node.id)}_di" bpmnElement="${escapeXml(node.id)}">`,
+      `        <dc:Bounds x="${formatNumber(node.position.x - size.width / 2)}" ` +
+      `y="${formatNumber(node.position.y - size.height / 2)}" ` +
+      `width="${size.width}" height="${size.height}" />`,
+      '      </bpmndi:BPMNShape>'
+    );
+  });
+
+  edges.forEach(edge => {
+    const source = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!source || !target) {
+      return;
+    }
+
+    lines.push(`      <bpmndi:BPMNEdge id="${escapeXml(edge.id)}_di" bpmnElement="${escapeXml(edge.id)}">`);
+    getEdgeWaypoints(edge, source, target).forEach(point => {
+      lines.push(`        <di:waypoint x="${formatNumber(point.x)}" y="${formatNumber(point.y)}" />`);
+    });
+    lines.push('      </bpmndi:BPMNEdge>');
+  });
+
+  lines.push('    </bpmndi:BPMNPlane>');
+  lines.push('  </bpmndi:BPMNDiagram>');
+  lines.push('</bpmn:definitions>');
+
+  return lines.join('\n');
+}
+
+/**
+ * 获取节点对应的 BPMN 元素名（优先保留导入时的原始元素）
+ */
+function getElementTag(node: NodeData): string {
+  const original = node.data?.bpmnType;
+  if (typeof original === 'string') {
+    const mapped = BPMN_ELEMENT_TYPES[original];
+    const isGateway = node.type === NodeType.PARALLEL || node.type === NodeType.MERGE;
+    if (mapped === node.type || (isGateway && mapped === NodeType.PARALLEL)) {
+      return original;
+    }
+  }
+  return NODE_TYPE_ELEMENTS[node.type] || 'task';
+}
+
+/**
+ * 计算连线路径点：起点和终点落在节点边框上，中间为已有折点
+ */
+function getEdgeWaypoints(edge: EdgeData, source: NodeData, target: NodeData): Position[] {
+  const middle = edge.waypoints || [];
+  const first = middle[0] || target.position;
+  const last = middle[middle.length - 1] || source.position;
+
+  const start = getNodeEdgePoint(source.position, getShapeSize(source), first, source.type);
+  const end = getNodeEdgePoint(target.position, getShapeSize(target), last, target.type);
+
+  return [start, ...middle, end];
+}
+
+function getShapeSize(node: NodeData) {
+  return BPMN_SHAPE_SIZES[node.type] || BPMN_SHAPE_SIZES[NodeType.PROCESS];
+}
+
+function pushTo(map: Map<string, string[]>, key: string, value: string): void {
+  if (!map.has(key)) {
+    map.set(key, []);
+  }
+  map.get(key)!.push(value);
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,180 @@
+import { NodeData, EdgeData, NodeType, Position } from '../types';
+import { ValidationError } from '../utils/errors';
+import { BPMN_NS, BPMN_ELEMENT_TYPES } from './constants';
+
+/**
+ * BPMN 导入结果
+ */
+export interface BpmnImportResult {
+  /** 流程ID */
+  processId?: string;
+  /** 流程名称 */
+  processName?: string;
+  nodes: NodeData[];
+  edges: EdgeData[];
+  /** 被跳过的元素等非致命问题 */
+  warnings: string[];
+}
+
+/**
+ * 解析 BPMN 2.0 XML 为流程图数据
+ * 只读取第一个 process；有 BPMNDI 信息时使用其中的坐标
+ */
+export function parseBPMN(xml: string): BpmnImportResult {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new ValidationError('Invalid BPMN XML', [parseError.textContent || 'parse error']);
+  }
+
+  const process = doc.getElementsByTagNameNS(BPMN_NS.MODEL, 'process')[0];
+  if (!process) {
+    throw new ValidationError('BPMN document contains no process');
+  }
+
+  const shapes = readShapes(doc);
+  const waypoints = readWaypoints(doc);
+  const warnings: string[] = [];
+  const nodes: NodeData[] = [];
+  const edges: EdgeData[] = [];
+  const nodeIds = new Set<string>();
+
+  const elements = Array.from(process.children).filter(el => el.namespaceURI === BPMN_NS.MODEL);
+
+  // 节点
+  elements.forEach(element => {
+    const tag = element.localName;
+    if (tag === 'sequenceFlow' || !element.getAttribute('id')) {
+      return;
+    }
+
+    const type = BPMN_ELEMENT_TYPES[tag];
+    const id = element.getAttribute('id')!;
+    if (!type) {
+      if (tag.endsWith('Event') || tag.endsWith('Task') || tag.endsWith('Gateway') || tag === 'subProcess') {
+        warnings.push(`Unsupported element <${tag}> "${id}" skipped`);
+      }
+      return;
+    }
+
+    const shape = shapes.get(id);
+    const node: NodeData = {
+      id,
+      type: type === NodeType.PARALLEL && isConverging(element) ? NodeType.MERGE : type,
+      label: element.getAttribute('name') || '',
+      position: shape
+        ? { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 }
+        : { x: 0, y: nodes.length * 100 },
+      data: { bpmnType: tag }
+    };
+    nodes.push(node);
+    nodeIds.add(id);
+  });
+
+  // 连线
+  elements.forEach(element => {
+    if (element.localName !== 'sequenceFlow') {
+      return;
+    }
+
+    const id = element.getAttribute('id') || `flow_${edges.length}`;
+    const source = element.getAttribute('sourceRef') || '';
+    const target = element.getAttribute('targetRef') || '';
+    if (!nodeIds.has(source) || !nodeIds.has(target)) {
+      warnings.push(`Sequence flow "${id}" references an unknown node and was skipped`);
+      return;
+    }
+
+    const edge: EdgeData = { id, source, target };
+    const name = element.getAttribute('name');
+    if (name) {
+      edge.label = name;
+    }
+
+    const condition = element.getElementsByTagNameNS(BPMN_NS.MODEL, 'conditionExpression')[0];
+    if (condition && condition.textContent?.trim()) {
+      edge.condition = condition.textContent.trim();
+    }
+
+    const points = waypoints.get(id);
+    if (points && points.length > 2) {
+      // 首尾为连接点，只保留中间折点
+      edge.waypoints = points.slice(1, -1);
+    }
+
+    edges.push(edge);
+  });
+
+  return {
+    processId: process.getAttribute('id') || undefined,
+    processName: process.getAttribute('name') || undefined,
+    nodes,
+    edges,
+    warnings
+  };
+}
+
+/**
+ * 判断并行网关是否为汇聚网关
+ */
+function isConverging(element: Element): boolean {
+  const direction = element.getAttribute('gatewayDirection');
+  if (direction) {
+    return direction === 'Converging';
+  }
+
+  const incoming = element.getElementsByTagNameNS(BPMN_NS.MODEL, 'incoming').length;
+  const outgoing = element.getElementsByTagNameNS(BPMN_NS.MODEL, 'outgoing').length;
+  return incoming > 1 && outgoing <= 1;
+}
+
+/**
+ * 读取 BPMNShape 的边界
+ */
+function readShapes(doc: Document): Map<string, { x: number; y: number; width: number; height: number }> {
+  const shapes = new Map<string, { x: number; y: number; width: number; height: number }>();
+
+  Array.from(doc.getElementsByTagNameNS(BPMN_NS.DI, 'BPMNShape')).forEach(shape => {
+    const elementId = shape.getAttribute('bpmnElement');
+    const bounds = shape.getElementsByTagNameNS(BPMN_NS.DC, 'Bounds')[0];
+    if (!elementId || !bounds) {
+      return;
+    }
+
+    shapes.set(elementId, {
+      x: readNumber(bounds, 'x'),
+      y: readNumber(bounds, 'y'),
+      width: readNumber(bounds, 'width'),
+      height: readNumber(bounds, 'height')
+    });
+  });
+
+  return shapes;
+}
+
+/**
+ * 读取 BPMNEdge 的路径点
+ */
+function readWaypoints(doc: Document): Map<string, Position[]> {
+  const result = new Map<string, Position[]>();
+
+  Array.from(doc.getElementsByTagNameNS(BPMN_NS.DI, 'BPMNEdge')).forEach(edge => {
+    const elementId = edge.getAttribute('bpmnElement');
+    if (!elementId) {
+      return;
+    }
+
+    const points = Array.from(edge.getElementsByTagNameNS(BPMN_NS.OMG_DI, 'waypoint')).map(point => ({
+      x: readNumber(point, 'x'),
+      y: readNumber(point, 'y')
+    }));
+    result.set(elementId, points);
+  });
+
+  return result;
+}
+
+function readNumber(element: Element, name: string): number {
+  const value = parseFloat(element.getAttribute(name) || '0');
+  return isNaN(value) ? 0 : value;
+}
@@ -0,0 +1,62 @@
+/**
+ * BPMN 2.0 常量定义
+ */
+
+import { NodeType, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+
+/**
+ * XML 命名空间
+ */
+export const BPMN_NS = {
+  MODEL: 'http://www.omg.org/spec/BPMN/20100524/MODEL',
+  DI: 'http://www.omg.org/spec/BPMN/20100524/DI',
+  DC: 'http://www.omg.org/spec/DD/20100524/DC',
+  OMG_DI: 'http://www.omg.org/spec/DD/20100524/DI',
+  XSI: 'http://www.w3.org/2001/XMLSchema-instance'
+} as const;
+
+/**
+ * BPMN 元素到节点类型的映射（并行网关按方向区分 PARALLEL / MERGE）
+ */
+export const BPMN_ELEMENT_TYPES: Record<string, NodeType> = {
+  startEvent: NodeType.START,
+  endEvent: NodeType.END,
+  userTask: NodeType.APPROVAL,
+  serviceTask: NodeType.PROCESS,
+  task: NodeType.PROCESS,
+  manualTask: NodeType.PROCESS,
+  scriptTask: NodeType.PROCESS,
+  sendTask: NodeType.PROCESS,
+  receiveTask: NodeType.PROCESS,
+  businessRuleTask: NodeType.PROCESS,
+  exclusiveGateway: NodeType.CONDITION,
+  inclusiveGateway: NodeType.CONDITION,
+  parallelGateway: NodeType.PARALLEL
+};
+
+/**
+ * 节点类型到 BPMN 元素的映射
+ */
+export const NODE_TYPE_ELEMENTS: Record<NodeType, string> = {
+  [NodeType.START]: 'startEvent',
+  [NodeType.END]: 'endEvent',
+  [NodeType.APPROVAL]: 'userTask',
+  [NodeType.PROCESS]: 'serviceTask',
+  [NodeType.CONDITION]: 'exclusiveGateway',
+  [NodeType.PARALLEL]: 'parallelGateway',
+  [NodeType.MERGE]: 'parallelGateway'
+};
+
+/**
+ * 导出时各类节点的图形尺寸
+ */
+export const BPMN_SHAPE_SIZES: Record<NodeType, Size> = {
+  [NodeType.START]: { width: 36, height: 36 },
+  [NodeType.END]: { width: 36, height: 36 },
+  [NodeType.APPROVAL]: { width: DEFAULT_CONFIG.NODE_WIDTH, height: DEFAULT_CONFIG.NODE_HEIGHT },
+  [NodeType.PROCESS]: { width: DEFAULT_CONFIG.NODE_WIDTH, height: DEFAULT_CONFIG.NODE_HEIGHT },
+  [NodeType.CONDITION]: { width: 50, height: 50 },
+  [NodeType.PARALLEL]: { width: 50, height: 50 },
+  [NodeType.MERGE]: { width: 50, height: 50 }
+};
@@ -0,0 +1,7 @@
+/**
+ * BPMN 2.0 导入导出
+ */
+
+export { parseBPMN, type BpmnImportResult } from './BpmnImporter';
+export { exportBPMN, type BpmnExportOptions } from './BpmnExporter';
+export { BPMN_NS } from './constants';
@@ -1,4 +1,4 @@
-import { EdgeData, EdgeStyle } from '../types';
+import { EdgeData, EdgeStyle, Position } from '../types';
 import { FlowNode } from './Node';
 
 /**
@@ -11,6 +11,9 @@ export class FlowEdge {
   public label?: string;
   public condition?: string;
   public style?: EdgeStyle;
+  public waypoints?: Position[];
+  public sourcePort?: string;
+  public targetPort?: string;
 
   constructor(data: EdgeData, source: FlowNode, target: FlowNode) {
     this.id = data.id;
@@ -19,6 +22,9 @@ export class FlowEdge {
     this.label = data.label;
     this.condition = data.condition;
     this.style = data.style;
+    this.waypoints = data.waypoints ? data.waypoints.map(point => ({ ...point })) : undefined;
+    this.sourcePort = data.sourcePort;
+    this.targetPort = data.targetPort;
   }
 
   /**
@@ -52,7 +58,10 @@ export class FlowEdge {
       target: this.target.id,
       label: this.label,
       condition: this.condition,
-      style: this.style
+      style: this.style,
+      waypoints: this.waypoints ? this.waypoints.map(point => ({ ...point })) : undefined,
+      sourcePort: this.sourcePort,
+      targetPort: this.targetPort
     };
   }
 }
@@ -1,6 +1,7 @@
 import { FlowNode } from './Node';
 import { FlowEdge } from './Edge';
-import { LayoutEngine } from '../layout/LayoutEngine';
+import type { Layout } from '../layout/Layout';
+import { layoutRegistry } from '../layout/LayoutRegistry';
 import { Renderer } from '../renderer/Renderer';
 import {
   FlowChartConfig,
@@ -9,23 +10,35 @@ import {
   NodeType,
   NodeStatus,
   LayoutConfig,
-  RenderConfig
+  RenderConfig,
+  Position,
+  FlowChartAnimationConfig
 } from '../types';
 import { DEFAULT_NODE_STYLES } from '../styles/defaultStyles';
 import { DEFAULT_CONFIG } from '../utils/constants';
+import { toMermaid, MermaidExportOptions } from '../mermaid/MermaidSerializer';
+import { toDOT, DotExportOptions } from '../dot/DotSerializer';
+import { ValidationRuleRegistry, ValidationReport } from '../validation/ValidationRuleRegistry';
+import { analyzeGateways, GatewayAnalysis } from '../analysis/GatewayAnalysis';
+import { GraphAlgorithms } from '../analysis/GraphAlgorithms';
+import { EventEmitter, FlowChartEvents } from '../events/EventEmitter';
 
 /**
  * 流程图主类
+ * 布局开始和结束时触发 FlowChartEvents.LAYOUT_START / LAYOUT_END
  */
-export class FlowChart {
+export class FlowChart extends EventEmitter {
   private container: HTMLElement;
   private config: FlowChartConfig;
   private nodes: Map<string, FlowNode>;
   private edges: Map<string, FlowEdge>;
   private renderer: Renderer;
-  private layoutEngine: LayoutEngine;
+  private layoutAlgorithm: Layout;
+  private layoutConfig: LayoutConfig;
+  private validationRules = new ValidationRuleRegistry();
 
   constructor(config: FlowChartConfig) {
+    super();
     this.config = {
       nodeGap: DEFAULT_CONFIG.NODE_GAP,
       levelGap: DEFAULT_CONFIG.LEVEL_GAP,
@@ -66,13 +79,9 @@ export class FlowChart {
     this.nodes = new Map();
     this.edges = new Map();
 
-    // 初始化布局引擎
-    const layoutConfig: LayoutConfig = {
-      direction: 'TB',
-      nodeGap: this.config.nodeGap!,
-      levelGap: this.config.levelGap!
-    };
-    this.layoutEngine = new LayoutEngine(layoutConfig);
+    // 初始化布局
+    this.layoutConfig = this.createLayoutConfig(this.config.layout?.type || 'default', this.config.layout);
+    this.layoutAlgorithm = layoutRegistry.create(this.layoutConfig.type!, this.layoutConfig);
 
     // 初始化渲染器
     const renderConfig: RenderConfig = {
@@ -96,6 +105,11 @@ export class FlowChart {
       centerOnInit: this.config.zoom?.centerOnInit,
       onZoomChange: this.config.onZoomChange
     });
+    this.renderer.setDirection(this.layoutConfig.direction!);
+    this.renderer.setAnimation(this.config.animation);
+    this.renderer.setEdgeRouter(this.config.edgeRouter ?? null);
+    this.renderer.setEdgeNudging(this.config.edgeNudging ?? false);
+    this.renderer.setLineJumps(this.config.lineJumps ?? false);
     this.renderer.init();
   }
 
@@ -109,6 +123,7 @@ export class FlowChart {
 
     const node = new FlowNode(data);
     this.nodes.set(data.id, node);
+    this.emit(FlowChartEvents.NODE_ADDED, node);
     return node;
   }
 
@@ -137,6 +152,7 @@ export class FlowChart {
     source.addOutput(target);
     target.addInput(source);
 
+    this.emit(FlowChartEvents.EDGE_ADDED, edge);
     return edge;
   }
 
@@ -160,6 +176,7 @@ export class FlowChart {
     edgesToRemove.forEach(edgeId => this.removeEdge(edgeId));
 
     this.nodes.delete(id);
+    this.emit(FlowChartEvents.NODE_REMOVED, id);
     return true;
   }
 
@@ -177,9 +194,41 @@ export class FlowChart {
     edge.target.removeInput(edge.source);
 
     this.edges.delete(id);
+    this.emit(FlowChartEvents.EDGE_REMOVED, id);
     return true;
   }
 
+  /**
+   * 更新节点（标签、类型、业务数据、样式、端口等）并重新渲染
+   */
+  public updateNode(id: string, changes: Partial<Omit<NodeData, 'id'>>): FlowNode | undefined {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return undefined;
+    }
+    Object.assign(node, changes);
+    if (changes.position) {
+      node.position = { ...changes.position };
+    }
+    this.render();
+    this.emit(FlowChartEvents.NODE_UPDATED, node);
+    return node;
+  }
+
+  /**
+   * 更新连线（标签、条件、样式、端口等）并重新渲染
+   */
+  public updateEdge(id: string, changes: Partial<Omit<EdgeData, 'id' | 'source' | 'target'>>): FlowEdge | undefined {
+    const edge = this.edges.get(id);
+    if (!edge) {
+      return undefined;
+    }
+    Object.assign(edge, changes);
+    this.render();
+    this.emit(FlowChartEvents.EDGE_UPDATED, edge);
+    return edge;
+  }
+
   /**
    * 获取节点
    */
@@ -216,26 +265,101 @@ export class FlowChart {
     if (node) {
       node.updateStatus(status);
       this.render();
+      this.emit(FlowChartEvents.NODE_UPDATED, node);
     }
   }
 
+  /**
+   * 设置活动连线（模拟执行时显示流动动画）
+   */
+  public setActiveEdges(edgeIds: string[]): void {
+    this.renderer.setActiveEdges(edgeIds);
+  }
+
   /**
    * 执行自动布局
    */
   public layout(): void {
-    this.layoutEngine.layout(this.nodes);
+    // 布局基于节点的最终位置，先结束正在播放的动画
+    this.renderer.stopNodeAnimation();
+    const type = this.layoutConfig.type;
+    this.emit(FlowChartEvents.LAYOUT_START, { type });
+    this.layoutAlgorithm.layout(this.nodes);
+    this.emit(FlowChartEvents.LAYOUT_END, { type });
+  }
+
+  /**
+   * 切换布局算法并重新布局
+   * name 为 LayoutRegistry 中的布局名称，未指定的间距和流向取流程图配置
+   */
+  public setLayout(name: string, options: LayoutConfig = {}): void {
+    const layoutConfig = this.createLayoutConfig(name, options);
+    this.layoutAlgorithm = layoutRegistry.create(name, layoutConfig);
+    this.layoutConfig = layoutConfig;
+    this.renderer.setDirection(layoutConfig.direction!);
+    this.relayout();
+  }
+
+  /**
+   * 获取当前布局配置
+   */
+  public getLayoutConfig(): LayoutConfig {
+    return { ...this.layoutConfig };
+  }
+
+  /**
+   * 重新完整布局并渲染（不受 autoLayout 配置影响）
+   * 增量布局会先清除已放置的记录，因此所有节点都会重新排布
+   */
+  public relayout(): void {
+    const from = this.renderer.getDisplayedPositions();
+    this.layoutAlgorithm.reset?.();
+    this.layout();
+    this.draw();
+    this.renderer.animateNodes(from);
   }
 
   /**
    * 渲染流程图
    */
   public render(): void {
-    this.renderer.clear();
+    this.renderFrom(this.renderer.getDisplayedPositions());
+  }
 
+  /**
+   * 渲染流程图，位置发生变化的节点从 from 中的旧位置过渡
+   */
+  private renderFrom(from: Map<string, Position>): void {
     // 如果启用自动布局
     if (this.config.autoLayout) {
       this.layout();
     }
+    this.draw();
+    this.renderer.animateNodes(from);
+  }
+
+  /**
+   * 设置动画配置，传入 false 关闭动画
+   */
+  public setAnimation(animation: boolean | FlowChartAnimationConfig): void {
+    this.config.animation = animation;
+    this.renderer.setAnimation(animation);
+  }
+
+  /**
+   * 设置默认连线路由器并重新绘制，传入 null 恢复按连线类型选择
+   */
+  public setEdgeRouter(name: string | null): void {
+    this.renderer.setEdgeRouter(name);
+    this.config.edgeRouter = name ?? undefined;
+    this.draw();
+  }
+
+  /**
+   * 按当前节点位置绘制
+   */
+  private draw(): void {
+    this.renderer.clear();
 
     // 先设置所有节点（用于智能路由）
     this.renderer.setNodesForEdgeRouting(this.nodes);
@@ -245,9 +369,7 @@ export class FlowChart {
       ? (edge: FlowEdge) => this.config.onEdgeClick?.(edge.toJSON())
       : undefined;
     
-    this.edges.forEach(edge => {
-      this.renderer.renderEdge(edge, edgeClickHandler);
-    });
+    this.renderer.renderEdges(Array.from(this.edges.values()), edgeClickHandler);
 
     // 渲染所有节点
     this.nodes.forEach(node => {
@@ -271,6 +393,19 @@ export class FlowChart {
 
   private hasRendered = false;
 
+  /**
+   * 合并布局配置：流程图的流向和间距作为默认值
+   */
+  private createLayoutConfig(type: string, options: LayoutConfig = {}): LayoutConfig {
+    return {
+      direction: this.config.direction || 'TB',
+      nodeGap: this.config.nodeGap,
+      levelGap: this.config.levelGap,
+      ...options,
+      type
+    };
+  }
+
   /**
    * 清空流程图
    */
@@ -278,6 +413,8 @@ export class FlowChart {
     this.nodes.clear();
     this.edges.clear();
     this.renderer.clear();
+    this.layoutAlgorithm.reset?.();
+    this.emit(FlowChartEvents.CLEAR);
   }
 
   /**
@@ -290,10 +427,26 @@ export class FlowChart {
     };
   }
 
+  /**
+   * 导出 Mermaid flowchart 语法
+   */
+  public toMermaid(options?: MermaidExportOptions): string {
+    return toMermaid(this, options);
+  }
+
+  /**
+   * 导出 Graphviz DOT
+   */
+  public toDOT(options?: DotExportOptions): string {
+    return toDOT(this, options);
+  }
+
   /**
    * 从JSON数据加载
    */
   public fromJSON(data: { nodes: NodeData[]; edges: EdgeData[] }): void {
+    // 记录当前显示位置，同 id 的节点从旧位置过渡到新位置
+    const from = this.renderer.getDisplayedPositions();
     this.clear();
 
     // 添加所有节点
@@ -306,7 +459,7 @@ export class FlowChart {
       this.addEdge(edgeData);
     });
 
-    this.render();
+    this.renderFrom(from);
   }
 
   /**
@@ -359,39 +512,29 @@ export class FlowChart {
   /**
    * 验证流程图
    */
-  public validate(): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // 检查是否有起始节点
-    const startNodes = this.findStartNodes();
-    if (startNodes.length === 0) {
-      errors.push('No start node found');
-    }
-
-    // 检查是否有结束节点
-    const endNodes = this.findEndNodes();
-    if (endNodes.length === 0) {
-      errors.push('No end node found');
-    }
+  public validate(): ValidationReport {
+    return this.validationRules.validate(this);
+  }
 
-    // 检查是否有孤立节点
-    this.nodes.forEach(node => {
-      if (node.getInputs().length === 0 && node.getOutputs().length === 0) {
-        errors.push(`Isolated node found: ${node.id}`);
-      }
-    });
+  /**
+   * 获取图算法（基于当前节点和连线的快照）
+   */
+  public getGraphAlgorithms(): GraphAlgorithms {
+    return new GraphAlgorithms(this);
+  }
 
-    // 检查条件节点是否有多个输出
-    this.nodes.forEach(node => {
-      if (node.type === NodeType.CONDITION && node.getOutputs().length < 2) {
-        errors.push(`Condition node ${node.id} should have at least 2 outputs`);
-      }
-    });
+  /**
+   * 分析并行/汇合网关配对
+   */
+  public analyzeGateways(): GatewayAnalysis {
+    return analyzeGateways(this.nodes.values());
+  }
 
-    return {
-      valid: errors.length === 0,
-      errors
-    };
+  /**
+   * 获取验证规则注册表（用于注册自定义规则）
+   */
+  public getValidationRules(): ValidationRuleRegistry {
+    return this.validationRules;
   }
 
   /**
@@ -406,6 +549,7 @@ export class FlowChart {
    */
   public destroy(): void {
     this.clear();
+    this.removeAllListeners();
     this.container.innerHTML = '';
   }
 }
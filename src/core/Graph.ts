@@ -16,9 +16,20 @@ import { SelectController } from './controller/SelectController';
 import { EventBus } from '../utils/EventBus';
 import { IdGenerator } from '../utils/IdGenerator';
 import { Validator } from '../utils/Validator';
-import { GraphConfig, GraphEvent, GraphData, EventHandler } from '../types/graph';
+import {
+  GraphConfig,
+  GraphEvent,
+  GraphData,
+  EventHandler,
+  GraphUpdate,
+  GraphUpdateEvent,
+  GraphChange,
+  GraphChangeEvent,
+  GraphChangePayloads
+} from '../types/graph';
 import { NodeConfig, EdgeConfig } from '../types/model';
 import { Plugin } from '../types/plugin';
+import { GraphAlgorithms } from '../analysis/GraphAlgorithms';
 
 export class Graph {
   // 配置
@@ -48,6 +59,13 @@ export class Graph {
   private destroyed = false;
   private ready = false;
 
+  // 事务：每层嵌套事务在变更列表中的起始位置
+  private batchStack: number[] = [];
+  private batchChanges: GraphChange[] = [];
+  private dirtyNodes: Set<string> = new Set();
+  private dirtyEdges: Set<string> = new Set();
+  private reverting = false;
+
   constructor(config: GraphConfig) {
     this.config = this.normalizeConfig(config);
     this.container = this.getContainer(config.container);
@@ -59,7 +77,7 @@ export class Graph {
       minZoom: 0.1,
       maxZoom: 3,
       enableZoom: true,
-      enablePan: true,
+      enablePan: true
     });
 
     // 初始化控制器
@@ -89,7 +107,7 @@ export class Graph {
       ...config,
       autoLayout: config.autoLayout !== false,
       nodeGap: config.nodeGap || 80,
-      levelGap: config.levelGap || 120,
+      levelGap: config.levelGap || 120
     };
   }
 
@@ -154,12 +172,13 @@ export class Graph {
     // 创建模型
     const model = new NodeModel(config);
     this.nodes.set(model.id, model);
+    this.bindNodeModelEvents(model);
 
     // 渲染视图
-    this.renderer.renderNode(model);
+    this.syncNodeView(model.id);
 
     // 触发事件
-    this.eventBus.emit(GraphEvent.NODE_ADDED, { model });
+    this.emitChange(GraphEvent.NODE_ADDED, { model });
 
     return model;
   }
@@ -203,16 +222,17 @@ export class Graph {
     // 创建模型
     const model = new EdgeModel(config);
     this.edges.set(model.id, model);
+    this.bindEdgeModelEvents(model);
 
     // 更新节点的边关系
     sourceNode.addOutgoingEdge(model.id);
     targetNode.addIncomingEdge(model.id);
 
     // 渲染视图
-    this.renderer.renderEdge(model);
+    this.syncEdgeView(model.id);
 
     // 触发事件
-    this.eventBus.emit(GraphEvent.EDGE_ADDED, { model });
+    this.emitChange(GraphEvent.EDGE_ADDED, { model });
 
     return model;
   }
@@ -222,24 +242,30 @@ export class Graph {
    */
   removeNode(id: string): boolean {
     const model = this.nodes.get(id);
-    if (!model) return false;
+    if (!model) {
+      return false;
+    }
 
-    // 移除相关的边
+    // 移除相关的边（随节点一起移除，事件中标记 cascade）
     const incomingEdges = model.getIncomingEdges();
     const outgoingEdges = model.getOutgoingEdges();
+    const edges: EdgeModel[] = [];
     [...incomingEdges, ...outgoingEdges].forEach(edgeId => {
-      this.removeEdge(edgeId);
+      const edge = this.edges.get(edgeId);
+      if (edge && this.detachEdge(edgeId, true)) {
+        edges.push(edge);
+      }
     });
 
-    // 移除视图
-    this.renderer.removeNode(id);
-
     // 移除模型
     model.destroy();
     this.nodes.delete(id);
 
+    // 移除视图
+    this.syncNodeView(id);
+
     // 触发事件
-    this.eventBus.emit(GraphEvent.NODE_REMOVED, { id });
+    this.emitChange(GraphEvent.NODE_REMOVED, { id, model, edges });
 
     return true;
   }
@@ -248,8 +274,17 @@ export class Graph {
    * 移除边
    */
   removeEdge(id: string): boolean {
+    return this.detachEdge(id, false);
+  }
+
+  /**
+   * 移除边的内部实现
+   */
+  private detachEdge(id: string, cascade: boolean): boolean {
     const model = this.edges.get(id);
-    if (!model) return false;
+    if (!model) {
+      return false;
+    }
 
     // 更新节点的边关系
     const sourceNode = this.nodes.get(model.source);
@@ -263,19 +298,276 @@ export class Graph {
       targetNode.removeIncomingEdge(id);
     }
 
-    // 移除视图
-    this.renderer.removeEdge(id);
-
     // 移除模型
     model.destroy();
     this.edges.delete(id);
 
+    // 移除视图
+    this.syncEdgeView(id);
+
     // 触发事件
-    this.eventBus.emit(GraphEvent.EDGE_REMOVED, { id });
+    this.emitChange(GraphEvent.EDGE_REMOVED, { id, model, cascade });
 
     return true;
   }
 
+  /**
+   * 将节点模型的变更转发为图事件
+   */
+  private bindNodeModelEvents(model: NodeModel): void {
+    const forward = (update: GraphUpdate) => {
+      this.emitChange(GraphEvent.NODE_UPDATED, { id: model.id, model, ...update });
+    };
+
+    model.on('change:position', ({ position, oldPosition }) => {
+      forward({ property: 'position', value: { ...position }, oldValue: oldPosition });
+    });
+    model.on('change:size', ({ size, oldSize }) => {
+      forward({ property: 'size', value: { ...size }, oldValue: oldSize });
+    });
+    model.on('change:style', ({ style, oldStyle }) => {
+      forward({ property: 'style', value: { ...style }, oldValue: oldStyle });
+    });
+    model.on('change:data', ({ key, value, oldValue }) => {
+      forward({ property: 'data', key, value, oldValue });
+    });
+  }
+
+  /**
+   * 将边模型的变更转发为图事件
+   */
+  private bindEdgeModelEvents(model: EdgeModel): void {
+    const forward = (update: GraphUpdate) => {
+      this.emitChange(GraphEvent.EDGE_UPDATED, { id: model.id, model, ...update });
+    };
+
+    model.on('change:style', ({ style, oldStyle }) => {
+      forward({ property: 'style', value: { ...style }, oldValue: oldStyle });
+    });
+    model.on('change:waypoints', ({ waypoints, oldWaypoints }) => {
+      forward({ property: 'waypoints', value: [...waypoints], oldValue: oldWaypoints });
+    });
+    model.on('change:data', ({ key, value, oldValue }) => {
+      forward({ property: 'data', key, value, oldValue });
+    });
+  }
+
+  /**
+   * 同步节点视图（事务期间延迟到提交时）
+   */
+  private syncNodeView(id: string): void {
+    if (this.isBatching()) {
+      this.dirtyNodes.add(id);
+      return;
+    }
+
+    const model = this.nodes.get(id);
+    if (model) {
+      this.renderer.renderNode(model);
+    } else {
+      this.renderer.removeNode(id);
+    }
+  }
+
+  /**
+   * 同步边视图（事务期间延迟到提交时）
+   */
+  private syncEdgeView(id: string): void {
+    if (this.isBatching()) {
+      this.dirtyEdges.add(id);
+      return;
+    }
+
+    const model = this.edges.get(id);
+    if (model) {
+      this.renderer.renderEdge(model);
+    } else {
+      this.renderer.removeEdge(id);
+    }
+  }
+
+  /**
+   * 触发变更事件（事务期间暂存，提交时统一触发 batch:end）
+   */
+  private emitChange<E extends GraphChangeEvent>(event: E, payload: GraphChangePayloads[E]): void {
+    if (this.reverting) {
+      return;
+    }
+
+    if (this.isBatching()) {
+      this.batchChanges.push({ event, payload } as GraphChange);
+      return;
+    }
+
+    this.eventBus.emit(event, payload);
+  }
+
+  /**
+   * 在一个事务中执行变更，回调抛出异常时回滚
+   */
+  batch<T>(fn: () => T): T {
+    this.startBatch();
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.rollbackBatch();
+      throw error;
+    }
+
+    this.endBatch();
+    return result;
+  }
+
+  /**
+   * 开始事务（可嵌套）
+   */
+  startBatch(): void {
+    if (this.destroyed) {
+      throw new Error('Graph has been destroyed');
+    }
+
+    if (!this.isBatching()) {
+      this.eventBus.emit(GraphEvent.BATCH_START);
+    }
+    this.batchStack.push(this.batchChanges.length);
+  }
+
+  /**
+   * 提交事务，最外层事务提交时刷新视图并触发 batch:end
+   */
+  endBatch(): void {
+    if (!this.isBatching()) {
+      throw new Error('endBatch() called without a matching startBatch()');
+    }
+
+    this.batchStack.pop();
+    if (this.isBatching()) {
+      return;
+    }
+
+    const changes = this.batchChanges;
+    this.batchChanges = [];
+    this.flushViews();
+    this.eventBus.emit(GraphEvent.BATCH_END, { changes, rolledBack: false });
+  }
+
+  /**
+   * 回滚当前（最内层）事务中的所有变更
+   */
+  rollbackBatch(): void {
+    if (!this.isBatching()) {
+      throw new Error('rollbackBatch() called without a matching startBatch()');
+    }
+
+    const start = this.batchStack[this.batchStack.length - 1];
+    const changes = this.batchChanges.splice(start);
+
+    this.reverting = true;
+    try {
+      changes.reverse().forEach(change => this.revertChange(change));
+    } finally {
+      this.reverting = false;
+    }
+
+    this.batchStack.pop();
+    if (this.isBatching()) {
+      return;
+    }
+
+    this.batchChanges = [];
+    this.flushViews();
+    this.eventBus.emit(GraphEvent.BATCH_END, { changes: [], rolledBack: true });
+  }
+
+  /**
+   * 是否处于事务中
+   */
+  isBatching(): boolean {
+    return this.batchStack.length > 0;
+  }
+
+  /**
+   * 撤销单条变更（用于事务回滚）
+   */
+  private revertChange({ event, payload }: GraphChange): void {
+    switch (event) {
+      case GraphEvent.NODE_ADDED:
+        this.removeNode(payload.model.id);
+        break;
+      case GraphEvent.EDGE_ADDED:
+        this.removeEdge(payload.model.id);
+        break;
+      case GraphEvent.NODE_REMOVED:
+        this.addNode(payload.model.toConfig());
+        break;
+      case GraphEvent.EDGE_REMOVED:
+        this.addEdge(payload.model.toConfig());
+        break;
+      case GraphEvent.NODE_UPDATED:
+      case GraphEvent.EDGE_UPDATED: {
+        const model = event === GraphEvent.NODE_UPDATED
+          ? this.nodes.get(payload.id)
+          : this.edges.get(payload.id);
+        if (model) {
+          this.revertUpdate(model, payload);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  /**
+   * 恢复模型属性到变更前的值
+   */
+  private revertUpdate(model: NodeModel | EdgeModel, update: GraphUpdateEvent): void {
+    if (update.property === 'position' && model instanceof NodeModel) {
+      model.setPosition(update.oldValue);
+    } else if (update.property === 'size' && model instanceof NodeModel) {
+      model.setSize(update.oldValue);
+    } else if (update.property === 'waypoints' && model instanceof EdgeModel) {
+      model.setWaypoints(update.oldValue);
+    } else if (update.property === 'style') {
+      // setStyle 为合并语义，新增的样式键需要显式清除
+      const cleared: Record<string, any> = {};
+      Object.keys(update.value).forEach(k => {
+        cleared[k] = undefined;
+      });
+      model.setStyle({ ...cleared, ...update.oldValue });
+    } else if (update.property === 'data') {
+      model.setData(update.key, update.oldValue);
+    }
+  }
+
+  /**
+   * 提交事务时统一更新视图
+   */
+  private flushViews(): void {
+    const dirtyNodes = Array.from(this.dirtyNodes);
+    const dirtyEdges = Array.from(this.dirtyEdges);
+    this.dirtyNodes.clear();
+    this.dirtyEdges.clear();
+
+    // 先移除失效的边，再同步节点，最后渲染边（边视图依赖节点）
+    dirtyEdges.forEach(id => {
+      if (!this.edges.has(id)) {
+        this.renderer.removeEdge(id);
+      }
+    });
+    dirtyNodes.forEach(id => this.syncNodeView(id));
+    dirtyEdges.forEach(id => {
+      const model = this.edges.get(id);
+      if (model) {
+        this.renderer.renderEdge(model);
+      }
+    });
+
+    this.renderer.refresh();
+  }
+
   /**
    * 获取节点
    */
@@ -304,15 +596,24 @@ export class Graph {
     return Array.from(this.edges.values());
   }
 
+  /**
+   * 获取图算法（基于当前节点和边的快照）
+   */
+  getGraphAlgorithms(): GraphAlgorithms {
+    return new GraphAlgorithms(this);
+  }
+
   /**
    * 清空图
    */
   clear(): void {
-    // 移除所有边
-    Array.from(this.edges.keys()).forEach(id => this.removeEdge(id));
+    this.batch(() => {
+      // 移除所有边
+      Array.from(this.edges.keys()).forEach(id => this.removeEdge(id));
 
-    // 移除所有节点
-    Array.from(this.nodes.keys()).forEach(id => this.removeNode(id));
+      // 移除所有节点
+      Array.from(this.nodes.keys()).forEach(id => this.removeNode(id));
+    });
 
     // 清空渲染器
     this.renderer.clear();
@@ -328,17 +629,19 @@ export class Graph {
       throw new Error(`Invalid graph data: ${validation.errors.join(', ')}`);
     }
 
-    // 清空现有数据
-    this.clear();
+    this.batch(() => {
+      // 清空现有数据
+      this.clear();
 
-    // 添加节点
-    data.nodes.forEach(nodeConfig => {
-      this.addNode(nodeConfig);
-    });
+      // 添加节点
+      data.nodes.forEach(nodeConfig => {
+        this.addNode(nodeConfig);
+      });
 
-    // 添加边
-    data.edges.forEach(edgeConfig => {
-      this.addEdge(edgeConfig);
+      // 添加边
+      data.edges.forEach(edgeConfig => {
+        this.addEdge(edgeConfig);
+      });
     });
 
     // 如果启用自动布局，执行布局
@@ -357,7 +660,7 @@ export class Graph {
   toJSON(): GraphData {
     return {
       nodes: this.getNodes().map(node => node.toJSON()) as any,
-      edges: this.getEdges().map(edge => edge.toJSON()) as any,
+      edges: this.getEdges().map(edge => edge.toJSON()) as any
     };
   }
 
@@ -480,7 +783,9 @@ export class Graph {
    * 销毁图
    */
   destroy(): void {
-    if (this.destroyed) return;
+    if (this.destroyed) {
+      return;
+    }
 
     // 卸载所有插件
     this.plugins.forEach((plugin, name) => {
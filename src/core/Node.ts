@@ -1,4 +1,4 @@
-import { NodeData, NodeType, NodeStatus, Position, NodeStyle } from '../types';
+import { NodeData, NodeType, NodeStatus, Position, NodeStyle, PortDefinition } from '../types';
 
 /**
  * 流程图节点类
@@ -12,6 +12,7 @@ export class FlowNode {
   public data: Record<string, any>;
   public style?: NodeStyle;
   public manualPosition?: boolean;
+  public ports?: PortDefinition[];
   
   private inputs: FlowNode[] = [];
   private outputs: FlowNode[] = [];
@@ -25,6 +26,14 @@ export class FlowNode {
     this.data = data.data || {};
     this.style = data.style;
     this.manualPosition = data.manualPosition;
+    this.ports = data.ports ? data.ports.map(port => ({ ...port })) : undefined;
+  }
+
+  /**
+   * 获取端口定义
+   */
+  public getPort(id: string): PortDefinition | undefined {
+    return this.ports?.find(port => port.id === id);
   }
 
   /**
@@ -111,7 +120,8 @@ export class FlowNode {
       position: { ...this.position },
       status: this.status,
       data: { ...this.data },
-      style: this.style ? { ...this.style } : undefined
+      style: this.style ? { ...this.style } : undefined,
+      ports: this.ports
     });
   }
 
@@ -126,7 +136,8 @@ export class FlowNode {
       position: { ...this.position },
       status: this.status,
       data: { ...this.data },
-      style: this.style
+      style: this.style,
+      ports: this.ports ? this.ports.map(port => ({ ...port })) : undefined
     };
   }
 }
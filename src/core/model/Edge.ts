@@ -21,6 +21,12 @@ export class EdgeModel extends BaseModel {
   /** 路径点 */
   private waypoints: Position[];
 
+  /** 源节点端口ID */
+  public sourcePort?: string;
+
+  /** 目标节点端口ID */
+  public targetPort?: string;
+
   constructor(config: EdgeConfig) {
     super(config);
 
@@ -29,6 +35,8 @@ export class EdgeModel extends BaseModel {
     this.label = config.label || '';
     this.style = config.style || {};
     this.waypoints = config.waypoints || [];
+    this.sourcePort = config.sourcePort;
+    this.targetPort = config.targetPort;
   }
 
   /**
@@ -67,12 +75,13 @@ export class EdgeModel extends BaseModel {
    * 添加路径点
    */
   addWaypoint(point: Position, index?: number): void {
+    const oldWaypoints = this.getWaypoints();
     if (index === undefined || index >= this.waypoints.length) {
       this.waypoints.push(point);
     } else {
       this.waypoints.splice(index, 0, point);
     }
-    this.emit('change:waypoints', { waypoints: this.waypoints });
+    this.emit('change:waypoints', { waypoints: this.waypoints, oldWaypoints });
   }
 
   /**
@@ -80,8 +89,9 @@ export class EdgeModel extends BaseModel {
    */
   removeWaypoint(index: number): void {
     if (index >= 0 && index < this.waypoints.length) {
+      const oldWaypoints = this.getWaypoints();
       this.waypoints.splice(index, 1);
-      this.emit('change:waypoints', { waypoints: this.waypoints });
+      this.emit('change:waypoints', { waypoints: this.waypoints, oldWaypoints });
     }
   }
 
@@ -90,8 +100,9 @@ export class EdgeModel extends BaseModel {
    */
   updateWaypoint(index: number, point: Position): void {
     if (index >= 0 && index < this.waypoints.length) {
+      const oldWaypoints = this.getWaypoints();
       this.waypoints[index] = point;
-      this.emit('change:waypoints', { waypoints: this.waypoints });
+      this.emit('change:waypoints', { waypoints: this.waypoints, oldWaypoints });
     }
   }
 
@@ -106,10 +117,28 @@ export class EdgeModel extends BaseModel {
       label: this.label,
       style: { ...this.style },
       waypoints: [...this.waypoints],
-      data: { ...this.data },
+      sourcePort: this.sourcePort,
+      targetPort: this.targetPort,
+      data: { ...this.data }
     });
   }
 
+  /**
+   * 导出为可重新创建该边的配置
+   */
+  toConfig(): EdgeConfig {
+    return {
+      ...this.getData(),
+      ...this.toJSON(),
+      id: this.id,
+      source: this.source,
+      target: this.target,
+      style: { ...this.style },
+      waypoints: this.getWaypoints(),
+      data: this.getData('data')
+    };
+  }
+
   /**
    * 序列化为JSON
    */
@@ -121,9 +150,10 @@ export class EdgeModel extends BaseModel {
       label: this.label,
       style: this.style,
       waypoints: this.waypoints,
-      data: this.data,
+      sourcePort: this.sourcePort,
+      targetPort: this.targetPort,
+      data: this.data
     };
   }
 }
 
-
@@ -3,7 +3,7 @@
  */
 
 import { BaseModel } from './BaseModel';
-import { NodeConfig, Position, Size, NodeStyle, NodeType, NodeStatus } from '../../types/model';
+import { NodeConfig, Position, Size, NodeStyle, NodeType, NodeStatus, PortDefinition } from '../../types/model';
 
 export class NodeModel extends BaseModel {
   /** 节点类型 */
@@ -24,6 +24,9 @@ export class NodeModel extends BaseModel {
   /** 节点样式 */
   private style: NodeStyle;
 
+  /** 自定义端口 */
+  private ports: PortDefinition[];
+
   /** 输入边ID列表 */
   private incomingEdges: Set<string> = new Set();
 
@@ -37,15 +40,16 @@ export class NodeModel extends BaseModel {
     this.label = config.label || '';
     this.status = config.status;
     this.style = config.style || {};
+    this.ports = (config.ports || []).map(port => ({ ...port }));
 
     this.position = {
       x: config.x || 0,
-      y: config.y || 0,
+      y: config.y || 0
     };
 
     this.size = {
       width: config.width || 120,
-      height: config.height || 60,
+      height: config.height || 60
     };
   }
 
@@ -71,7 +75,7 @@ export class NodeModel extends BaseModel {
   move(dx: number, dy: number): void {
     this.setPosition({
       x: this.position.x + dx,
-      y: this.position.y + dy,
+      y: this.position.y + dy
     });
   }
 
@@ -107,13 +111,28 @@ export class NodeModel extends BaseModel {
     this.emit('change:style', { style: this.style, oldStyle });
   }
 
+  /**
+   * 获取端口定义
+   */
+  getPorts(): PortDefinition[] {
+    return this.ports.map(port => ({ ...port }));
+  }
+
+  /**
+   * 按ID获取端口
+   */
+  getPort(id: string): PortDefinition | undefined {
+    const port = this.ports.find(item => item.id === id);
+    return port ? { ...port } : undefined;
+  }
+
   /**
    * 获取中心点
    */
   getCenter(): Position {
     return {
       x: this.position.x + this.size.width / 2,
-      y: this.position.y + this.size.height / 2,
+      y: this.position.y + this.size.height / 2
     };
   }
 
@@ -127,7 +146,7 @@ export class NodeModel extends BaseModel {
       width: this.size.width,
       height: this.size.height,
       centerX: this.position.x + this.size.width / 2,
-      centerY: this.position.y + this.size.height / 2,
+      centerY: this.position.y + this.size.height / 2
     };
   }
 
@@ -187,7 +206,8 @@ export class NodeModel extends BaseModel {
       label: this.label,
       status: this.status,
       style: { ...this.style },
-      data: { ...this.data },
+      ports: this.getPorts(),
+      data: { ...this.data }
     });
   }
 
@@ -205,7 +225,21 @@ export class NodeModel extends BaseModel {
       label: this.label,
       status: this.status,
       style: this.style,
-      data: this.data,
+      ports: this.getPorts(),
+      data: this.data
+    };
+  }
+
+  /**
+   * 导出为可重新创建该节点的配置
+   */
+  toConfig(): NodeConfig {
+    return {
+      ...this.getData(),
+      ...this.toJSON(),
+      id: this.id,
+      style: { ...this.style },
+      data: this.getData('data')
     };
   }
 
@@ -219,4 +253,3 @@ export class NodeModel extends BaseModel {
   }
 }
 
-
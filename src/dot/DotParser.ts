@@ -0,0 +1,528 @@
+import { NodeData, EdgeData, NodeType, LayoutConfig } from '../types';
+import { ValidationError } from '../utils/errors';
+import { DOT_SHAPE_TYPES, DOT_KEYWORDS } from './constants';
+
+/**
+ * DOT 子图簇（名称以 cluster 开头的子图）
+ */
+export interface DotCluster {
+  id: string;
+  label: string;
+  /** 父簇ID */
+  parent?: string;
+  /** 直接包含的节点ID */
+  nodes: string[];
+}
+
+/**
+ * DOT 导入结果
+ */
+export interface DotImportResult {
+  /** 图ID */
+  graphId?: string;
+  /** 是否有向图 */
+  directed: boolean;
+  nodes: NodeData[];
+  edges: EdgeData[];
+  /** 布局配置（方向取自 rankdir） */
+  layout: LayoutConfig;
+  clusters: DotCluster[];
+  /** 非致命问题 */
+  warnings: string[];
+}
+
+type Attributes = Record<string, string>;
+
+interface Token {
+  type: 'id' | 'punct' | 'edgeop';
+  value: string;
+  /** 是否为带引号或 HTML 字符串（不作为关键字处理） */
+  quoted?: boolean;
+  line: number;
+}
+
+interface Scope {
+  nodeDefaults: Attributes;
+  edgeDefaults: Attributes;
+  cluster?: DotCluster;
+  /** 作用域内出现过的节点 */
+  members: string[];
+}
+
+/**
+ * 由其他字段表示、不需要保留在 dotAttributes 中的属性
+ */
+const NODE_CONSUMED = ['label', 'shape', 'pos'];
+
+/**
+ * 解析 Graphviz DOT 为流程图数据
+ * 支持 digraph/graph、属性列表、默认属性、rankdir 和子图簇；端口会被忽略
+ */
+export function parseDOT(source: string): DotImportResult {
+  return new DotReader(tokenize(source)).parse();
+}
+
+/**
+ * 词法分析
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new ValidationError('Invalid DOT', [`Line ${line}: ${message}`]);
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i) || (char === '#' && isLineStart(source, i))) {
+      while (i < source.length && source[i] !== '\n') {
+        i++;
+      }
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) {
+        fail('unterminated comment');
+      }
+      line += countLines(source.slice(i, end));
+      i = end + 2;
+    } else if (source.startsWith('->', i) || source.startsWith('--', i)) {
+      tokens.push({ type: 'edgeop', value: source.slice(i, i + 2), line });
+      i += 2;
+    } else if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, line });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && source[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (source[i] === '\\' && source[i + 1] === '\n') {
+          // 行尾续行
+          line++;
+          i += 2;
+        } else {
+          if (source[i] === '\n') {
+            line++;
+          }
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        fail('unterminated string');
+      }
+      i++;
+
+      // "a" + "b" 字符串拼接
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'punct' && previous.value === '+') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ type: 'id', value, quoted: true, line });
+      }
+    } else if (char === '+') {
+      tokens.push({ type: 'punct', value: '+', line });
+      i++;
+    } else if (char === '<') {
+      let depth = 0;
+      const start = i;
+      do {
+        if (source[i] === '<') {
+          depth++;
+        } else if (source[i] === '>') {
+          depth--;
+        } else if (source[i] === '\n') {
+          line++;
+        }
+        i++;
+      } while (i < source.length && depth > 0);
+      if (depth > 0) {
+        fail('unterminated HTML string');
+      }
+      tokens.push({ type: 'id', value: source.slice(start + 1, i - 1), quoted: true, line });
+    } else {
+      const match = /^(-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(i));
+      if (!match) {
+        fail(`unexpected character "${char}"`);
+      }
+      tokens.push({ type: 'id', value: match![0], line });
+      i += match![0].length;
+    }
+  }
+
+  return tokens;
+}
+
+function isLineStart(source: string, index: number): boolean {
+  const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+  return source.slice(lineStart, index).trim() === '';
+}
+
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * 语法分析
+ */
+class DotReader {
+  private pos = 0;
+  private directed = true;
+  private nodeAttrs = new Map<string, Attributes>();
+  private nodeClusters = new Map<string, string>();
+  private edges: Array<{ source: string; target: string; attrs: Attributes }> = [];
+  private clusters: DotCluster[] = [];
+  private graphAttrs: Attributes = {};
+  private warnings: string[] = [];
+  private anonymous = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): DotImportResult {
+    this.acceptKeyword('strict');
+    if (this.acceptKeyword('digraph')) {
+      this.directed = true;
+    } else if (this.acceptKeyword('graph')) {
+      this.directed = false;
+    } else {
+      this.fail('"digraph" or "graph" expected');
+    }
+
+    const graphId = this.peek()?.type === 'id' ? this.next().value : undefined;
+    this.expect('{');
+    this.parseStatements({ nodeDefaults: {}, edgeDefaults: {}, members: [] }, this.graphAttrs);
+    this.expect('}');
+    if (this.peek()) {
+      this.warnings.push('Only the first graph is imported');
+    }
+
+    return {
+      graphId,
+      directed: this.directed,
+      nodes: this.buildNodes(),
+      edges: this.buildEdges(),
+      layout: { direction: toDirection(this.graphAttrs.rankdir) },
+      clusters: this.clusters,
+      warnings: this.warnings
+    };
+  }
+
+  private parseStatements(scope: Scope, graphAttrs: Attributes): void {
+    while (this.peek() && !this.isPunct('}')) {
+      this.parseStatement(scope, graphAttrs);
+      this.acceptPunct(';');
+    }
+  }
+
+  private parseStatement(scope: Scope, graphAttrs: Attributes): void {
+    const token = this.peek()!;
+
+    if (this.isKeyword('graph') || this.isKeyword('node') || this.isKeyword('edge')) {
+      const kind = this.next().value.toLowerCase();
+      const attrs = this.parseAttributeLists();
+      if (kind === 'graph') {
+        Object.assign(graphAttrs, attrs);
+      } else if (kind === 'node') {
+        Object.assign(scope.nodeDefaults, attrs);
+      } else {
+        Object.assign(scope.edgeDefaults, attrs);
+      }
+      return;
+    }
+
+    // ID = ID 形式的图属性
+    const following = this.tokens[this.pos + 1];
+    if (token.type === 'id' && following?.type === 'punct' && following.value === '=') {
+      const key = this.next().value;
+      this.next();
+      graphAttrs[key] = this.expectId();
+      return;
+    }
+
+    const operands = [this.parseOperand(scope)];
+    while (this.peek()?.type === 'edgeop') {
+      this.next();
+      operands.push(this.parseOperand(scope));
+    }
+
+    const attrs = this.isPunct('[') ? this.parseAttributeLists() : {};
+    if (operands.length === 1) {
+      // 节点语句（子图单独出现时已处理）
+      if (operands[0].node) {
+        Object.assign(this.nodeAttrs.get(operands[0].node)!, attrs);
+      }
+      return;
+    }
+
+    for (let i = 0; i < operands.length - 1; i++) {
+      operands[i].ids.forEach(source => {
+        operands[i + 1].ids.forEach(target => {
+          this.edges.push({ source, target, attrs: { ...scope.edgeDefaults, ...attrs } });
+        });
+      });
+    }
+  }
+
+  /**
+   * 解析连线的一端：节点ID或子图
+   */
+  private parseOperand(scope: Scope): { ids: string[]; node?: string } {
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      return { ids: this.parseSubgraph(scope) };
+    }
+
+    const id = this.expectId();
+    // 端口 a:port:compass
+    while (this.acceptPunct(':')) {
+      this.expectId();
+    }
+    this.touchNode(id, scope);
+    return { ids: [id], node: id };
+  }
+
+  private parseSubgraph(parent: Scope): string[] {
+    let name: string | undefined;
+    if (this.acceptKeyword('subgraph') && this.peek()?.type === 'id') {
+      name = this.next().value;
+    }
+
+    const attrs: Attributes = {};
+    const scope: Scope = {
+      nodeDefaults: { ...parent.nodeDefaults },
+      edgeDefaults: { ...parent.edgeDefaults },
+      cluster: parent.cluster,
+      members: []
+    };
+
+    if (name && name.startsWith('cluster')) {
+      scope.cluster = { id: name, label: name, parent: parent.cluster?.id, nodes: [] };
+      this.clusters.push(scope.cluster);
+    } else if (!name) {
+      name = `subgraph_${++this.anonymous}`;
+    }
+
+    this.expect('{');
+    this.parseStatements(scope, attrs);
+    this.expect('}');
+
+    if (scope.cluster && scope.cluster.id === name && attrs.label !== undefined) {
+      scope.cluster.label = attrs.label;
+    }
+
+    scope.members.forEach(id => {
+      if (!parent.members.includes(id)) {
+        parent.members.push(id);
+      }
+    });
+    return scope.members;
+  }
+
+  /**
+   * 记录节点出现，首次出现时应用当前默认属性
+   */
+  private touchNode(id: string, scope: Scope): void {
+    if (!this.nodeAttrs.has(id)) {
+      this.nodeAttrs.set(id, { ...scope.nodeDefaults });
+    }
+    if (!scope.members.includes(id)) {
+      scope.members.push(id);
+    }
+    if (scope.cluster && !this.nodeClusters.has(id)) {
+      this.nodeClusters.set(id, scope.cluster.id);
+      scope.cluster.nodes.push(id);
+    }
+  }
+
+  private parseAttributeLists(): Attributes {
+    const attrs: Attributes = {};
+    while (this.acceptPunct('[')) {
+      while (!this.isPunct(']')) {
+        const key = this.expectId();
+        this.expect('=');
+        attrs[key] = this.expectId();
+        this.acceptPunct(',') || this.acceptPunct(';');
+      }
+      this.expect(']');
+    }
+    return attrs;
+  }
+
+  private buildNodes(): NodeData[] {
+    const ids = Array.from(this.nodeAttrs.keys());
+    return ids.map((id, index) => {
+      const attrs = this.nodeAttrs.get(id)!;
+      const node: NodeData = {
+        id,
+        type: this.resolveNodeType(id, attrs),
+        label: attrs.label !== undefined ? decodeLabel(attrs.label.replace(/\\N/g, id)) : id,
+        position: parsePosition(attrs.pos) || { x: 0, y: index * 100 }
+      };
+
+      const data: Record<string, any> = {};
+      if (attrs.shape) {
+        data.dotShape = attrs.shape;
+      }
+      const extra = omit(attrs, NODE_CONSUMED);
+      if (Object.keys(extra).length > 0) {
+        data.dotAttributes = extra;
+      }
+      if (this.nodeClusters.has(id)) {
+        data.cluster = this.nodeClusters.get(id);
+      }
+      if (Object.keys(data).length > 0) {
+        node.data = data;
+      }
+      return node;
+    });
+  }
+
+  private buildEdges(): EdgeData[] {
+    const ids = new Set<string>();
+    return this.edges.map(({ source, target, attrs }) => {
+      const edge: EdgeData = { id: attrs.id || uniqueEdgeId(ids, source, target), source, target };
+      ids.add(edge.id);
+
+      // 同时有 label 和 xlabel 时，label 为条件、xlabel 为标签（与 toDOT 对应）
+      if (attrs.label !== undefined && attrs.xlabel !== undefined) {
+        edge.condition = decodeLabel(attrs.label);
+        edge.label = decodeLabel(attrs.xlabel);
+      } else if (attrs.label !== undefined || attrs.xlabel !== undefined) {
+        edge.label = decodeLabel(attrs.label ?? attrs.xlabel);
+      }
+      if (attrs.style === 'dashed' || attrs.style === 'dotted') {
+        edge.style = { strokeDasharray: attrs.style === 'dashed' ? '5,5' : '2,2' };
+      }
+
+      return edge;
+    });
+  }
+
+  private resolveNodeType(id: string, attrs: Attributes): NodeType {
+    const shape = attrs.shape;
+    if (!shape) {
+      return NodeType.PROCESS;
+    }
+    const type = DOT_SHAPE_TYPES[shape] || NodeType.PROCESS;
+    if (type === NodeType.PROCESS && /\brounded\b/.test(attrs.style || '')) {
+      return NodeType.APPROVAL;
+    }
+    if (type === NodeType.START && shape === 'circle' && this.edges.some(edge => edge.target === id)) {
+      return this.edges.some(edge => edge.source === id) ? NodeType.PROCESS : NodeType.END;
+    }
+    return type;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      this.fail('unexpected end of input');
+    }
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) {
+      return false;
+    }
+    this.pos++;
+    return true;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) {
+      return false;
+    }
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string): void {
+    if (!this.acceptPunct(value)) {
+      this.fail(`"${value}" expected`);
+    }
+  }
+
+  private expectId(): string {
+    const token = this.peek();
+    if (token?.type !== 'id' || (!token.quoted && DOT_KEYWORDS.includes(token.value.toLowerCase()))) {
+      this.fail('identifier expected');
+    }
+    this.pos++;
+    return token!.value;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek() || this.tokens[this.tokens.length - 1];
+    const found = token ? ` but found "${token.value}"` : '';
+    throw new ValidationError('Invalid DOT', [`Line ${token?.line ?? 1}: ${message}${found}`]);
+  }
+}
+
+/**
+ * rankdir 转换为布局方向
+ */
+function toDirection(rankdir?: string): NonNullable<LayoutConfig['direction']> {
+  const value = (rankdir || 'TB').toUpperCase();
+  return (['TB', 'BT', 'LR', 'RL'].includes(value) ? value : 'TB') as NonNullable<LayoutConfig['direction']>;
+}
+
+/**
+ * 解析 pos 属性（Graphviz 坐标 y 轴向上，单位为点）
+ */
+function parsePosition(pos?: string): { x: number; y: number } | undefined {
+  if (!pos) {
+    return undefined;
+  }
+  const [x, y] = pos.replace(/!$/, '').split(',').map(Number);
+  return isNaN(x) || isNaN(y) ? undefined : { x, y: -y };
+}
+
+/**
+ * 转换标签中的换行转义（\n、\l、\r）
+ */
+function decodeLabel(label: string): string {
+  return label.replace(/\\[nlr]/g, '\n');
+}
+
+function uniqueEdgeId(ids: Set<string>, source: string, target: string): string {
+  const base = `edge_${source}_${target}`;
+  let id = base;
+  for (let index = 1; ids.has(id); index++) {
+    id = `${base}_${index}`;
+  }
+  return id;
+}
+
+function omit(attrs: Attributes, keys: string[]): Attributes {
+  const result: Attributes = {};
+  Object.keys(attrs).forEach(key => {
+    if (!keys.includes(key)) {
+      result[key] = attrs[key];
+    }
+  });
+  return result;
+}
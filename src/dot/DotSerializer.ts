@@ -0,0 +1,126 @@
+import type { FlowChart } from '../core/FlowChart';
+import { NodeData, EdgeData, NodeType, LayoutConfig } from '../types';
+import { DOT_SHAPE_TYPES, NODE_TYPE_DOT_SHAPES, DOT_KEYWORDS } from './constants';
+import type { DotCluster } from './DotParser';
+
+/**
+ * DOT 导出配置
+ */
+export interface DotExportOptions {
+  /** 图ID */
+  graphId?: string;
+  /** 方向（rankdir），默认取流程图的布局方向，数据对象默认 TB */
+  direction?: LayoutConfig['direction'];
+  /** 子图簇定义（提供标题和嵌套关系），节点通过 data.cluster 归属子图簇 */
+  clusters?: Array<Pick<DotCluster, 'id' | 'label' | 'parent'>>;
+}
+
+/**
+ * 将流程图序列化为 Graphviz DOT
+ * 节点类型输出为形状，连线条件输出为 label（此时原标签输出为 xlabel）
+ */
+export function toDOT(
+  source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] },
+  options: DotExportOptions = {}
+): string {
+  const { nodes, edges } = 'toJSON' in source ? source.toJSON() : source;
+  const direction = options.direction || ('toJSON' in source ? source.getLayoutConfig().direction : undefined) || 'TB';
+  const lines = [`digraph ${formatId(options.graphId || 'flowchart')} {`, `  rankdir=${direction};`];
+
+  // 子图簇树
+  const clusters = new Map<string, { label: string; parent?: string }>();
+  options.clusters?.forEach(cluster => {
+    clusters.set(cluster.id, { label: cluster.label, parent: cluster.parent });
+  });
+  nodes.forEach(node => {
+    const cluster = node.data?.cluster;
+    if (typeof cluster === 'string' && !clusters.has(cluster)) {
+      clusters.set(cluster, { label: cluster });
+    }
+  });
+  clusters.forEach(cluster => {
+    if (cluster.parent && !clusters.has(cluster.parent)) {
+      cluster.parent = undefined;
+    }
+  });
+
+  const writeScope = (scope: string | undefined, indent: string) => {
+    nodes
+      .filter(node => node.data?.cluster === scope)
+      .forEach(node => lines.push(`${indent}${formatId(node.id)}${formatAttributes(getNodeAttributes(node))};`));
+
+    clusters.forEach((cluster, id) => {
+      if (cluster.parent !== scope) {
+        return;
+      }
+      // 只有 cluster 前缀的子图会被 Graphviz 绘制为簇
+      const name = id.startsWith('cluster') ? id : `cluster_${id}`;
+      lines.push(`${indent}subgraph ${formatId(name)} {`);
+      lines.push(`${indent}  label=${formatId(cluster.label)};`);
+      writeScope(id, `${indent}  `);
+      lines.push(`${indent}}`);
+    });
+  };
+  writeScope(undefined, '  ');
+
+  edges.forEach(edge => {
+    const attrs: Record<string, string> = {};
+    if (edge.condition) {
+      attrs.label = edge.condition;
+      if (edge.label) {
+        attrs.xlabel = edge.label;
+      }
+    } else if (edge.label) {
+      attrs.label = edge.label;
+    }
+    if (edge.style?.strokeDasharray) {
+      attrs.style = 'dashed';
+    }
+    lines.push(`  ${formatId(edge.source)} -> ${formatId(edge.target)}${formatAttributes(attrs)};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * 节点属性：保留导入时的其他属性，形状由节点类型决定（兼容时保留原始形状）
+ */
+function getNodeAttributes(node: NodeData): Record<string, string> {
+  const { shape, style } = NODE_TYPE_DOT_SHAPES[node.type] || NODE_TYPE_DOT_SHAPES[NodeType.PROCESS];
+  const attrs: Record<string, string> = { ...(node.data?.dotAttributes || {}), label: node.label };
+
+  const original = node.data?.dotShape;
+  const originalType = typeof original === 'string' ? DOT_SHAPE_TYPES[original] || NodeType.PROCESS : undefined;
+  const keepOriginal = originalType === node.type
+    || (original === 'circle' && (node.type === NodeType.END || node.type === NodeType.PROCESS));
+  attrs.shape = keepOriginal ? original : shape;
+
+  // rounded 样式用于区分审批节点
+  const styles = (attrs.style || '').split(',').map(item => item.trim()).filter(item => item && item !== 'rounded');
+  if (style) {
+    styles.push(style);
+  }
+  if (styles.length > 0) {
+    attrs.style = styles.join(',');
+  } else {
+    delete attrs.style;
+  }
+  return attrs;
+}
+
+function formatAttributes(attrs: Record<string, string>): string {
+  const entries = Object.keys(attrs).map(key => `${key}=${formatId(attrs[key])}`);
+  return entries.length > 0 ? ` [${entries.join(', ')}]` : '';
+}
+
+/**
+ * 输出ID：合法标识符或数字直接输出，其余加引号
+ */
+function formatId(value: string): string {
+  const plain = /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) || /^-?(\.\d+|\d+(\.\d*)?)$/.test(value);
+  if (plain && !DOT_KEYWORDS.includes(value.toLowerCase())) {
+    return value;
+  }
+  return `"${value.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
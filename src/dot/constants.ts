@@ -0,0 +1,36 @@
+import { NodeType } from '../types';
+
+/**
+ * DOT 形状到节点类型的映射（未列出的形状视为 PROCESS）
+ * box 加 rounded 样式表示审批节点
+ */
+export const DOT_SHAPE_TYPES: Record<string, NodeType> = {
+  circle: NodeType.START,
+  Mdiamond: NodeType.START,
+  doublecircle: NodeType.END,
+  Msquare: NodeType.END,
+  diamond: NodeType.CONDITION,
+  trapezium: NodeType.PARALLEL,
+  invtrapezium: NodeType.MERGE,
+  box: NodeType.PROCESS,
+  rect: NodeType.PROCESS,
+  rectangle: NodeType.PROCESS
+};
+
+/**
+ * 节点类型对应的 DOT 形状
+ */
+export const NODE_TYPE_DOT_SHAPES: Record<NodeType, { shape: string; style?: string }> = {
+  [NodeType.START]: { shape: 'circle' },
+  [NodeType.END]: { shape: 'doublecircle' },
+  [NodeType.PROCESS]: { shape: 'box' },
+  [NodeType.APPROVAL]: { shape: 'box', style: 'rounded' },
+  [NodeType.CONDITION]: { shape: 'diamond' },
+  [NodeType.PARALLEL]: { shape: 'trapezium' },
+  [NodeType.MERGE]: { shape: 'invtrapezium' }
+};
+
+/**
+ * DOT 关键字（不区分大小写）
+ */
+export const DOT_KEYWORDS = ['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph'];
@@ -0,0 +1,6 @@
+/**
+ * Graphviz DOT 导入导出
+ */
+
+export { parseDOT, type DotImportResult, type DotCluster } from './DotParser';
+export { toDOT, type DotExportOptions } from './DotSerializer';
@@ -1,6 +1,10 @@
 import { FlowChart } from '../core/FlowChart';
-import { NodeData, EdgeData, EdgeType } from '../types';
+import { FlowNode } from '../core/Node';
+import { NodeData, EdgeData, EdgeType, Position, PortDefinition } from '../types';
 import { generateId } from '../utils/helpers';
+import { EdgeError } from '../utils/errors';
+import { getNodeSize } from '../layout/Layout';
+import { canConnectPort, getPortPosition } from '../router/ports';
 
 /**
  * 连线绘制器配置
@@ -9,9 +13,20 @@ export interface EdgeDrawerConfig {
   canvas: HTMLElement;
   flowChart: FlowChart;
   enabled: boolean;
+  /** 吸附到节点端口的距离，默认 20 */
+  snapDistance?: number;
   onEdgeAdd?: (edge: EdgeData) => void;
 }
 
+/**
+ * 吸附到的端口
+ */
+interface SnappedPort {
+  node: FlowNode;
+  port: PortDefinition;
+  position: Position;
+}
+
 /**
  * 连线绘制器
  * 处理节点之间的连线绘制
@@ -22,6 +37,9 @@ export class EdgeDrawer {
   private enabled: boolean;
   private config: EdgeDrawerConfig;
   private sourceNode: NodeData | null = null;
+  private sourcePort: SnappedPort | null = null;
+  private targetPort: SnappedPort | null = null;
+  private pointer: Position | null = null;
   private drawingLine: SVGLineElement | null = null;
   private isDrawing: boolean = false;
 
@@ -64,8 +82,18 @@ export class EdgeDrawer {
 
   /**
    * 开始绘制
+   * 节点定义了端口时从离鼠标最近的可用输出端口出发，没有可用端口则不开始
    */
   private startDrawing(node: NodeData): void {
+    const flowNode = this.flowChart.getNode(node.id);
+    if (flowNode?.ports?.length) {
+      this.sourcePort = this.findPort(flowNode, 'source', this.pointer ?? node.position);
+      if (!this.sourcePort) {
+        console.warn(`节点 ${node.id} 没有可用的输出端口`);
+        return;
+      }
+    }
+    const start = this.sourcePort?.position ?? node.position;
     this.sourceNode = node;
     this.isDrawing = true;
 
@@ -76,10 +104,11 @@ export class EdgeDrawer {
       this.drawingLine.setAttribute('stroke', '#2196f3');
       this.drawingLine.setAttribute('stroke-width', '2');
       this.drawingLine.setAttribute('stroke-dasharray', '5 5');
-      this.drawingLine.setAttribute('x1', String(node.position.x));
-      this.drawingLine.setAttribute('y1', String(node.position.y));
-      this.drawingLine.setAttribute('x2', String(node.position.x));
-      this.drawingLine.setAttribute('y2', String(node.position.y));
+      this.drawingLine.setAttribute('x1', String(start.x));
+      this.drawingLine.setAttribute('y1', String(start.y));
+      this.drawingLine.setAttribute('x2', String(start.x));
+      this.drawingLine.setAttribute('y2', String(start.y));
+      this.applyViewTransform();
       svg.appendChild(this.drawingLine);
     }
 
@@ -91,16 +120,80 @@ export class EdgeDrawer {
    * 处理鼠标移动
    */
   private handleMouseMove(e: MouseEvent): void {
+    // 鼠标位置换算到流程图坐标（去掉画布的平移和缩放）
+    const rect = this.canvas.getBoundingClientRect();
+    const pointer = this.flowChart.getRenderer().viewToFlowChart({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    this.pointer = pointer;
+
     if (!this.isDrawing || !this.drawingLine) {
       return;
     }
 
-    const rect = this.canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // 靠近可用的输入端口时吸附
+    this.targetPort = this.snapToPort(pointer);
+    const end = this.targetPort?.position ?? pointer;
+    this.drawingLine.setAttribute('x2', String(end.x));
+    this.drawingLine.setAttribute('y2', String(end.y));
+    this.applyViewTransform();
+  }
 
-    this.drawingLine.setAttribute('x2', String(x));
-    this.drawingLine.setAttribute('y2', String(y));
+  /**
+   * 临时线条使用流程图坐标，跟随画布的平移和缩放
+   */
+  private applyViewTransform(): void {
+    const { x, y, scale } = this.flowChart.getRenderer().getTransform();
+    this.drawingLine?.setAttribute('transform', `translate(${x}, ${y}) scale(${scale})`);
+  }
+
+  /**
+   * 吸附距离内最近的可用输入端口
+   */
+  private snapToPort(point: Position): SnappedPort | null {
+    const distance = this.config.snapDistance ?? 20;
+    let nearest: SnappedPort | null = null;
+    let nearestDistance = distance;
+    this.flowChart.getAllNodes().forEach(node => {
+      if (node.id === this.sourceNode?.id) {
+        return;
+      }
+      const port = this.findPort(node, 'target', point);
+      const d = port ? Math.hypot(port.position.x - point.x, port.position.y - point.y) : Infinity;
+      if (port && d <= nearestDistance) {
+        nearest = port;
+        nearestDistance = d;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * 节点上离 point 最近的可用端口：方向允许且未达到最大连接数
+   */
+  private findPort(node: FlowNode, end: 'source' | 'target', point: Position): SnappedPort | null {
+    const edges = this.flowChart.getAllEdges();
+    const geometry = { type: node.type, position: node.position, ...getNodeSize(node) };
+    let nearest: SnappedPort | null = null;
+    let nearestDistance = Infinity;
+
+    (node.ports || []).forEach(port => {
+      if (!canConnectPort(port, end)) {
+        return;
+      }
+      const used = edges.filter(edge =>
+        (edge.source === node && edge.sourcePort === port.id) || (edge.target === node && edge.targetPort === port.id)
+      ).length;
+      if (port.maxConnections !== undefined && used >= port.maxConnections) {
+        return;
+      }
+      const position = getPortPosition(geometry, port);
+      const d = Math.hypot(position.x - point.x, position.y - point.y);
+      if (d < nearestDistance) {
+        nearest = { node, port, position };
+        nearestDistance = d;
+      }
+    });
+
+    return nearest;
   }
 
   /**
@@ -119,20 +212,32 @@ export class EdgeDrawer {
       return;
     }
 
-    // 创建连线
-    const edge: EdgeData = {
-      id: generateId('edge'),
-      source: this.sourceNode.id,
-      target: targetNode.id,
-      style: {
-        type: EdgeType.POLYLINE,
-        strokeColor: '#666',
-        strokeWidth: 2,
-        radius: 8
+    try {
+      // 目标节点定义了端口时使用吸附到的端口，否则取离起点最近的可用输入端口
+      const flowNode = this.flowChart.getNode(targetNode.id);
+      let targetPort = this.targetPort?.node.id === targetNode.id ? this.targetPort : null;
+      if (!targetPort && flowNode?.ports?.length) {
+        targetPort = this.findPort(flowNode, 'target', this.pointer ?? this.sourcePort?.position ?? this.sourceNode.position);
+        if (!targetPort) {
+          throw new EdgeError(`节点 ${targetNode.id} 没有可用的输入端口`);
+        }
       }
-    };
 
-    try {
+      // 创建连线
+      const edge: EdgeData = {
+        id: generateId('edge'),
+        source: this.sourceNode.id,
+        target: targetNode.id,
+        sourcePort: this.sourcePort?.port.id,
+        targetPort: targetPort?.port.id,
+        style: {
+          type: EdgeType.POLYLINE,
+          strokeColor: '#666',
+          strokeWidth: 2,
+          radius: 8
+        }
+      };
+
       this.flowChart.addEdge(edge);
       this.flowChart.render();
       this.config.onEdgeAdd?.(edge);
@@ -153,6 +258,8 @@ export class EdgeDrawer {
     }
 
     this.sourceNode = null;
+    this.sourcePort = null;
+    this.targetPort = null;
     this.drawingLine = null;
     this.isDrawing = false;
     this.canvas.style.cursor = '';
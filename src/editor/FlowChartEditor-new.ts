@@ -284,14 +284,17 @@ export class FlowChartEditor {
     const selectedNodes = selectController.getSelectedNodes();
     const selectedEdges = selectController.getSelectedEdges();
 
-    // 删除选中的边
-    selectedEdges.forEach(id => {
-      this.graph.removeEdge(id);
-    });
+    // 作为一个事务删除，撤销时一步恢复
+    this.graph.batch(() => {
+      // 删除选中的边
+      selectedEdges.forEach(id => {
+        this.graph.removeEdge(id);
+      });
 
-    // 删除选中的节点
-    selectedNodes.forEach(id => {
-      this.graph.removeNode(id);
+      // 删除选中的节点
+      selectedNodes.forEach(id => {
+        this.graph.removeNode(id);
+      });
     });
   }
 
@@ -3,8 +3,11 @@ import { Toolbar } from './Toolbar';
 import { MaterialPanel } from './MaterialPanel';
 import { DragManager } from './DragManager';
 import { EdgeDrawer } from './EdgeDrawer';
+import { ValidationPanel, collectIssueMarkers } from './ValidationPanel';
 import { ComponentRegistry } from '../components/ComponentRegistry';
 import { ThemeManager } from '../theme/Theme';
+import { exportSVG, exportPNG } from '../export';
+import { ConfigError } from '../utils/errors';
 import {
   FlowChartConfig,
   NodeData,
@@ -12,6 +15,22 @@ import {
   EditorMode,
   MaterialItem,
 } from '../types';
+import type { ExportConfig } from '../types/advanced';
+import { FlowChartEvents } from '../events/EventEmitter';
+import type { ValidationDiagnostic, ValidationReport } from '../validation/ValidationRuleRegistry';
+
+/**
+ * 触发重新验证的流程图事件
+ */
+const VALIDATION_EVENTS = [
+  FlowChartEvents.NODE_ADDED,
+  FlowChartEvents.NODE_REMOVED,
+  FlowChartEvents.NODE_UPDATED,
+  FlowChartEvents.EDGE_ADDED,
+  FlowChartEvents.EDGE_REMOVED,
+  FlowChartEvents.EDGE_UPDATED,
+  FlowChartEvents.CLEAR
+];
 
 /**
  * 流程图编辑器配置
@@ -23,6 +42,8 @@ export interface EditorConfig extends FlowChartConfig {
   toolbarPosition?: 'top' | 'bottom'; // 工具栏位置
   materialPanelPosition?: 'left' | 'right'; // 物料面板位置
   theme?: 'default' | 'dark' | 'minimal'; // 主题
+  enableValidation?: boolean;  // 是否实时验证并在画布上标记问题
+  validationDelay?: number;    // 验证防抖延迟（毫秒）
 }
 
 /**
@@ -37,6 +58,8 @@ export class FlowChartEditor {
   private edgeDrawer: EdgeDrawer;
   private componentRegistry: ComponentRegistry;
   private themeManager: ThemeManager;
+  private validationPanel?: ValidationPanel;
+  private validationTimer: ReturnType<typeof setTimeout> | null = null;
   
   private container: HTMLElement;
   private editorContainer!: HTMLElement;
@@ -52,6 +75,8 @@ export class FlowChartEditor {
       materialPanelPosition: 'left',
       mode: EditorMode.EDIT,
       theme: 'default',
+      enableValidation: true,
+      validationDelay: 300,
       ...config
     };
 
@@ -74,6 +99,8 @@ export class FlowChartEditor {
     this.flowChart = new FlowChart({
       ...config,
       container: this.canvasContainer,
+      // 编辑时新增节点不打乱已有节点
+      layout: { incremental: true, ...config.layout },
       enableNodeDrag: this.mode === EditorMode.EDIT,
       onNodeClick: (node) => this.handleNodeClick(node),
       onEdgeClick: (edge) => this.handleEdgeClick(edge)
@@ -122,6 +149,18 @@ export class FlowChartEditor {
       enabled: this.mode === EditorMode.EDIT,
       onEdgeAdd: (edge) => this.handleEdgeAdd(edge)
     });
+
+    // 初始化验证面板
+    if (this.config.enableValidation) {
+      this.validationPanel = new ValidationPanel({
+        container: this.canvasContainer,
+        onIssueClick: diagnostic => this.focusIssue(diagnostic)
+      });
+    }
+
+    // 节点、连线的增删改和清空都会重新验证
+    VALIDATION_EVENTS.forEach(event => this.flowChart.on(event, () => this.scheduleValidation()));
+    this.scheduleValidation();
   }
 
   /**
@@ -344,10 +383,28 @@ export class FlowChartEditor {
   }
 
   /**
-   * 导出
+   * 导出（默认导出JSON数据）
+   * SVG、PNG 使用当前主题的强调色，默认透明背景，background 为 solid 时填充主题背景色
    */
-  public export(): any {
-    return this.flowChart.toJSON();
+  public export(config: ExportConfig = { format: 'json' }): any {
+    switch (config.format) {
+      case 'json':
+        return this.flowChart.toJSON();
+      case 'svg':
+        return exportSVG(this.flowChart, {
+          ...config,
+          background: config.background ?? 'transparent',
+          theme: this.themeManager.getCurrentTheme()
+        });
+      case 'png':
+        return exportPNG(this.flowChart, {
+          ...config,
+          background: config.background ?? 'transparent',
+          theme: this.themeManager.getCurrentTheme()
+        });
+      default:
+        throw new ConfigError(`Unsupported export format: ${config.format}`);
+    }
   }
 
   /**
@@ -357,6 +414,52 @@ export class FlowChartEditor {
     this.flowChart.load(nodes, edges);
   }
 
+  /**
+   * 防抖执行验证
+   */
+  private scheduleValidation(): void {
+    if (!this.config.enableValidation) {
+      return;
+    }
+    if (this.validationTimer) {
+      clearTimeout(this.validationTimer);
+    }
+    this.validationTimer = setTimeout(() => {
+      this.validationTimer = null;
+      this.validate();
+    }, this.config.validationDelay);
+  }
+
+  /**
+   * 立即验证并在画布上标记问题
+   */
+  public validate(): ValidationReport {
+    const report = this.flowChart.validate();
+    const { nodeIssues, edgeIssues } = collectIssueMarkers(report.diagnostics);
+    this.flowChart.getRenderer().setIssueMarkers(nodeIssues, edgeIssues);
+    this.validationPanel?.setDiagnostics(report.diagnostics);
+    return report;
+  }
+
+  /**
+   * 定位并放大到问题所在的节点或连线
+   */
+  public focusIssue(diagnostic: ValidationDiagnostic, scale: number = 1.5): void {
+    const edge = diagnostic.edgeId ? this.flowChart.getEdge(diagnostic.edgeId) : undefined;
+    if (edge) {
+      this.flowChart.getRenderer().focusPoint({
+        x: (edge.source.position.x + edge.target.position.x) / 2,
+        y: (edge.source.position.y + edge.target.position.y) / 2
+      }, scale);
+      return;
+    }
+
+    const node = diagnostic.nodeId ? this.flowChart.getNode(diagnostic.nodeId) : undefined;
+    if (node) {
+      this.flowChart.getRenderer().focusPoint(node.position, scale);
+    }
+  }
+
   /**
    * 切换主题
    */
@@ -403,6 +506,10 @@ export class FlowChartEditor {
    * 销毁编辑器
    */
   public destroy(): void {
+    if (this.validationTimer) {
+      clearTimeout(this.validationTimer);
+    }
+    this.validationPanel?.destroy();
     this.dragManager.destroy();
     this.edgeDrawer.destroy();
     this.toolbar?.destroy();
@@ -0,0 +1,197 @@
+import { ISSUE_COLORS } from '../styles/defaultStyles';
+import type { IssueMarker } from '../renderer/Renderer';
+import type { ValidationDiagnostic } from '../validation/ValidationRuleRegistry';
+
+const SEVERITY_ORDER: Record<IssueMarker['severity'], number> = { info: 0, warning: 1, error: 2 };
+
+/**
+ * 验证面板配置
+ */
+export interface ValidationPanelConfig {
+  container: HTMLElement;
+  collapsed?: boolean;
+  onIssueClick?: (diagnostic: ValidationDiagnostic) => void;
+}
+
+/**
+ * 按节点/连线汇总诊断，取最严重的级别
+ * 同时关联节点和连线的诊断只标记在连线上
+ */
+export function collectIssueMarkers(diagnostics: ValidationDiagnostic[]): {
+  nodeIssues: Map<string, IssueMarker>;
+  edgeIssues: Map<string, IssueMarker>;
+} {
+  const nodeIssues = new Map<string, IssueMarker>();
+  const edgeIssues = new Map<string, IssueMarker>();
+
+  const mark = (issues: Map<string, IssueMarker>, id: string, diagnostic: ValidationDiagnostic) => {
+    const issue = issues.get(id);
+    if (!issue) {
+      issues.set(id, { severity: diagnostic.severity, messages: [diagnostic.message] });
+      return;
+    }
+    issue.messages.push(diagnostic.message);
+    if (SEVERITY_ORDER[diagnostic.severity] > SEVERITY_ORDER[issue.severity]) {
+      issue.severity = diagnostic.severity;
+    }
+  };
+
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.edgeId) {
+      mark(edgeIssues, diagnostic.edgeId, diagnostic);
+    } else if (diagnostic.nodeId) {
+      mark(nodeIssues, diagnostic.nodeId, diagnostic);
+    }
+  });
+
+  return { nodeIssues, edgeIssues };
+}
+
+/**
+ * 验证问题面板组件
+ * 悬浮在画布右下角，列出验证问题，可折叠
+ */
+export class ValidationPanel {
+  private container: HTMLElement;
+  private config: ValidationPanelConfig;
+  private element: HTMLElement;
+  private diagnostics: ValidationDiagnostic[] = [];
+  private collapsed: boolean;
+
+  constructor(config: ValidationPanelConfig) {
+    this.config = config;
+    this.container = config.container;
+    this.collapsed = config.collapsed ?? false;
+
+    this.element = document.createElement('div');
+    this.element.className = 'flowchart-validation-panel';
+    this.element.style.cssText = `
+      position: absolute;
+      right: 15px;
+      bottom: 15px;
+      width: 320px;
+      max-height: 40%;
+      display: flex;
+      flex-direction: column;
+      background: #fff;
+      border: 1px solid #e0e0e0;
+      border-radius: 8px;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      font-size: 13px;
+      z-index: 10;
+    `;
+    this.container.appendChild(this.element);
+
+    this.render();
+  }
+
+  /**
+   * 更新问题列表
+   */
+  public setDiagnostics(diagnostics: ValidationDiagnostic[]): void {
+    this.diagnostics = diagnostics;
+    this.render();
+  }
+
+  /**
+   * 折叠/展开
+   */
+  public setCollapsed(collapsed: boolean): void {
+    this.collapsed = collapsed;
+    this.render();
+  }
+
+  /**
+   * 是否已折叠
+   */
+  public isCollapsed(): boolean {
+    return this.collapsed;
+  }
+
+  /**
+   * 渲染面板
+   */
+  private render(): void {
+    this.element.innerHTML = '';
+    this.element.style.display = this.diagnostics.length > 0 ? 'flex' : 'none';
+
+    const count = (severity: IssueMarker['severity']) =>
+      this.diagnostics.filter(item => item.severity === severity).length;
+    const infos = count('info');
+
+    // 标题栏（点击折叠）
+    const header = document.createElement('div');
+    header.className = 'validation-panel-header';
+    header.textContent = `${this.collapsed ? '▸' : '▾'} 问题 · ${count('error')} 个错误 · ${count('warning')} 个警告`
+      + (infos > 0 ? ` · ${infos} 个提示` : '');
+    header.style.cssText = `
+      padding: 8px 12px;
+      font-weight: 600;
+      color: #333;
+      cursor: pointer;
+      user-select: none;
+      border-bottom: ${this.collapsed ? 'none' : '1px solid #e0e0e0'};
+    `;
+    header.addEventListener('click', () => this.setCollapsed(!this.collapsed));
+    this.element.appendChild(header);
+
+    if (this.collapsed) {
+      return;
+    }
+
+    const list = document.createElement('div');
+    list.className = 'validation-panel-list';
+    list.style.cssText = `
+      overflow-y: auto;
+    `;
+    this.diagnostics.forEach(diagnostic => list.appendChild(this.createIssueItem(diagnostic)));
+    this.element.appendChild(list);
+  }
+
+  /**
+   * 创建问题项
+   */
+  private createIssueItem(diagnostic: ValidationDiagnostic): HTMLElement {
+    const item = document.createElement('div');
+    item.className = `validation-issue validation-${diagnostic.severity}`;
+    item.style.cssText = `
+      padding: 6px 12px;
+      border-left: 3px solid ${ISSUE_COLORS[diagnostic.severity]};
+      cursor: pointer;
+      transition: background 0.2s;
+    `;
+
+    const message = document.createElement('div');
+    message.textContent = diagnostic.message;
+    message.style.color = '#333';
+    item.appendChild(message);
+
+    if (diagnostic.fix) {
+      const fix = document.createElement('div');
+      fix.textContent = `💡 ${diagnostic.fix.description}`;
+      fix.style.cssText = `
+        margin-top: 2px;
+        font-size: 12px;
+        color: #999;
+      `;
+      item.appendChild(fix);
+    }
+
+    item.addEventListener('click', () => this.config.onIssueClick?.(diagnostic));
+    item.addEventListener('mouseenter', () => {
+      item.style.background = '#f5f5f5';
+    });
+    item.addEventListener('mouseleave', () => {
+      item.style.background = '';
+    });
+
+    return item;
+  }
+
+  /**
+   * 销毁
+   */
+  public destroy(): void {
+    this.element.remove();
+  }
+}
@@ -132,6 +132,14 @@ export enum FlowChartEvents {
   // 验证事件
   VALIDATE_START = 'validate:start',
   VALIDATE_END = 'validate:end',
-  VALIDATE_ERROR = 'validate:error'
+  VALIDATE_ERROR = 'validate:error',
+
+  // 模拟执行事件
+  SIMULATION_STEP = 'simulation:step',
+  SIMULATION_NODE_STATUS = 'simulation:node:status',
+  SIMULATION_PAUSE = 'simulation:pause',
+  SIMULATION_BLOCKED = 'simulation:blocked',
+  SIMULATION_COMPLETE = 'simulation:complete',
+  SIMULATION_RESET = 'simulation:reset'
 }
 
@@ -0,0 +1,247 @@
+import type { FlowChart } from '../core/FlowChart';
+import type { ExportConfig } from '../types/advanced';
+import { RenderError } from '../utils/errors';
+import { createExportSVG, ContentBounds, SvgExportOptions } from './SvgExporter';
+
+/**
+ * 导出用画布（HTMLCanvasElement 与 OffscreenCanvas 的公共部分）
+ */
+export interface ExportCanvas {
+  width: number;
+  height: number;
+  getContext(type: '2d'): ExportCanvasContext | null;
+  toBlob?(callback: (blob: Blob | null) => void, type?: string, quality?: number): void;
+  convertToBlob?(options?: { type?: string; quality?: number }): Promise<Blob>;
+  toDataURL?(type?: string, quality?: number): string;
+}
+
+/**
+ * 导出用画布上下文
+ */
+export interface ExportCanvasContext {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  drawImage(image: any, dx: number, dy: number, dw: number, dh: number): void;
+}
+
+/**
+ * 画布工厂
+ */
+export type CanvasFactory = (width: number, height: number) => ExportCanvas;
+
+/**
+ * SVG 图片加载器
+ */
+export type SvgImageLoader = (svg: string, width: number, height: number) => Promise<unknown>;
+
+/**
+ * PNG 导出配置
+ */
+export interface PngExportOptions extends Omit<ExportConfig, 'format'>, Pick<SvgExportOptions, 'theme' | 'primaryColor'> {
+  /** 输出格式 */
+  output?: 'blob' | 'dataURL';
+  /** 图片类型 */
+  mimeType?: string;
+  /** 单次栅格化的最大边长（像素），超出时分块绘制 */
+  tileSize?: number;
+  /** 单张画布的最大边长（像素） */
+  maxCanvasSize?: number;
+  /** 画布工厂（无浏览器环境时可替换） */
+  canvasFactory?: CanvasFactory;
+  /** SVG 图片加载器（无浏览器环境时可替换） */
+  imageLoader?: SvgImageLoader;
+}
+
+/**
+ * 分块导出结果
+ */
+export interface PngTile {
+  /** 在整图中的像素位置 */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Blob | string;
+}
+
+const DEFAULT_TILE_SIZE = 4096;
+const DEFAULT_MAX_CANVAS_SIZE = 16384;
+
+/**
+ * 将流程图导出为 PNG
+ * 背景色未设置时为透明；超过 tileSize 的图分块栅格化后拼接到同一画布
+ */
+export async function exportPNG(flowChart: FlowChart, options: PngExportOptions = {}): Promise<Blob | string> {
+  const { svg, bounds } = createPngSVG(flowChart, options);
+  const scale = options.scale ?? 1;
+  const width = Math.ceil(bounds.width * scale);
+  const height = Math.ceil(bounds.height * scale);
+  const maxCanvasSize = options.maxCanvasSize ?? DEFAULT_MAX_CANVAS_SIZE;
+
+  if (width > maxCanvasSize || height > maxCanvasSize) {
+    throw new RenderError(
+      `Image size ${width}x${height} exceeds the canvas limit ${maxCanvasSize}, use exportPNGTiles instead`
+    );
+  }
+
+  const canvas = createCanvas(options, width, height);
+  await drawRegion(canvas, svg, bounds, scale, { x: 0, y: 0, width, height }, options);
+  return encodeCanvas(canvas, options);
+}
+
+/**
+ * 将流程图分块导出为多张 PNG（用于超出画布尺寸限制的大图）
+ */
+export async function exportPNGTiles(flowChart: FlowChart, options: PngExportOptions = {}): Promise<PngTile[]> {
+  const { svg, bounds } = createPngSVG(flowChart, options);
+  const scale = options.scale ?? 1;
+  const width = Math.ceil(bounds.width * scale);
+  const height = Math.ceil(bounds.height * scale);
+  const tileSize = Math.min(options.tileSize ?? DEFAULT_TILE_SIZE, options.maxCanvasSize ?? DEFAULT_MAX_CANVAS_SIZE);
+
+  const tiles: PngTile[] = [];
+  for (const region of splitTiles(width, height, tileSize)) {
+    const canvas = createCanvas(options, region.width, region.height);
+    await drawRegion(canvas, svg, bounds, scale, region, { ...options, tileSize });
+    tiles.push({ ...region, data: await encodeCanvas(canvas, options) });
+  }
+  return tiles;
+}
+
+/**
+ * 创建栅格化用的 SVG，主题的背景色和强调色与 SVG 导出一致
+ */
+function createPngSVG(flowChart: FlowChart, options: PngExportOptions) {
+  return createExportSVG(flowChart, {
+    padding: options.padding,
+    backgroundColor: options.backgroundColor,
+    background: options.background,
+    theme: options.theme,
+    primaryColor: options.primaryColor
+  });
+}
+
+/**
+ * 在画布上绘制整图中的一个区域，区域超过 tileSize 时继续分块
+ */
+async function drawRegion(
+  canvas: ExportCanvas,
+  svg: SVGSVGElement,
+  bounds: ContentBounds,
+  scale: number,
+  region: { x: number; y: number; width: number; height: number },
+  options: PngExportOptions
+): Promise<void> {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new RenderError('Failed to get 2d context of export canvas');
+  }
+
+  if (options.backgroundColor) {
+    context.fillStyle = options.backgroundColor;
+    context.fillRect(0, 0, region.width, region.height);
+  }
+
+  const loadImage = options.imageLoader || loadSvgImage;
+  const tiles = splitTiles(region.width, region.height, options.tileSize ?? DEFAULT_TILE_SIZE);
+
+  for (const tile of tiles) {
+    const x = region.x + tile.x;
+    const y = region.y + tile.y;
+    const tileSvg = svg.cloneNode(true) as SVGSVGElement;
+    tileSvg.setAttribute(
+      'viewBox',
+      `${bounds.x + x / scale} ${bounds.y + y / scale} ${tile.width / scale} ${tile.height / scale}`
+    );
+    tileSvg.setAttribute('width', String(tile.width));
+    tileSvg.setAttribute('height', String(tile.height));
+
+    const image = await loadImage(new XMLSerializer().serializeToString(tileSvg), tile.width, tile.height);
+    context.drawImage(image, tile.x, tile.y, tile.width, tile.height);
+  }
+}
+
+/**
+ * 按最大边长切分区域
+ */
+function splitTiles(width: number, height: number, tileSize: number) {
+  const tiles: Array<{ x: number; y: number; width: number; height: number }> = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * 创建画布，默认优先使用 OffscreenCanvas
+ */
+function createCanvas(options: PngExportOptions, width: number, height: number): ExportCanvas {
+  if (options.canvasFactory) {
+    return options.canvasFactory(width, height);
+  }
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height) as unknown as ExportCanvas;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas as unknown as ExportCanvas;
+}
+
+/**
+ * 编码画布为 Blob 或 data URL
+ */
+async function encodeCanvas(canvas: ExportCanvas, options: PngExportOptions): Promise<Blob | string> {
+  const type = options.mimeType || 'image/png';
+
+  if (options.output === 'dataURL' && canvas.toDataURL) {
+    return canvas.toDataURL(type, options.quality);
+  }
+
+  const blob = await toBlob(canvas, type, options.quality);
+  return options.output === 'dataURL' ? blobToDataURL(blob) : blob;
+}
+
+function toBlob(canvas: ExportCanvas, type: string, quality?: number): Promise<Blob> {
+  if (canvas.convertToBlob) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    if (!canvas.toBlob) {
+      reject(new RenderError('Export canvas cannot be encoded'));
+      return;
+    }
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new RenderError('Failed to encode export canvas'));
+      }
+    }, type, quality);
+  });
+}
+
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new RenderError('Failed to read exported image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 通过 Image 加载 SVG
+ */
+function loadSvgImage(svg: string, width: number, height: number): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image(width, height);
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new RenderError('Failed to load SVG for rasterization'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
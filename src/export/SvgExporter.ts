@@ -0,0 +1,221 @@
+import type { FlowChart } from '../core/FlowChart';
+import type { ExportConfig } from '../types/advanced';
+import type { ThemeConfig } from '../theme/Theme';
+import { Position } from '../types';
+import { EDGE_CSS } from '../styles/edgeStyles';
+import { getNodeSize } from '../layout/Layout';
+import { calculateBounds } from '../utils/helpers';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * 仅用于交互的元素（折点、锚点、悬停热区、悬停动画）
+ */
+const INTERACTION_SELECTORS = [
+  '.waypoint',
+  '.connection-anchor',
+  '.edge-hover-path',
+  '.flow-animation-path'
+];
+
+/**
+ * SVG 导出配置
+ */
+export interface SvgExportOptions extends Pick<ExportConfig, 'scale' | 'backgroundColor' | 'background' | 'padding'> {
+  /** 主题，用于默认背景色和强调色 */
+  theme?: ThemeConfig;
+  /** 强调色（对应 CSS 变量 --flowchart-primary-color） */
+  primaryColor?: string;
+}
+
+/**
+ * 内容边界
+ */
+export interface ContentBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 将流程图导出为独立的 SVG 字符串
+ * 导出完整内容而非当前视口：去掉缩放平移变换，按内容边界设置 viewBox，并内联样式
+ */
+export function exportSVG(flowChart: FlowChart, options: SvgExportOptions = {}): string {
+  const { svg } = createExportSVG(flowChart, options);
+  return new XMLSerializer().serializeToString(svg);
+}
+
+/**
+ * 创建用于导出的 SVG 元素（不挂载到文档）
+ */
+export function createExportSVG(
+  flowChart: FlowChart,
+  options: SvgExportOptions = {}
+): { svg: SVGSVGElement; bounds: ContentBounds } {
+  const padding = options.padding ?? 20;
+  const scale = options.scale ?? 1;
+  const backgroundColor = options.backgroundColor
+    ?? (options.background === 'transparent' ? undefined : options.theme?.backgroundColor);
+  const source: SVGSVGElement = flowChart.getRenderer().getSVGElement();
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = getStyleSheet(flowChart, options);
+  svg.appendChild(style);
+
+  // 只保留边组和节点组，去掉视口变换
+  const groups = ['.edges-group', '.nodes-group']
+    .map(selector => source.querySelector(selector))
+    .filter((group): group is SVGGElement => !!group)
+    .map(group => {
+      const clone = group.cloneNode(true) as SVGGElement;
+      clone.removeAttribute('transform');
+      return clone;
+    });
+
+  groups.forEach(group => {
+    INTERACTION_SELECTORS.forEach(selector => {
+      group.querySelectorAll(selector).forEach(element => element.remove());
+    });
+    group.querySelectorAll<SVGElement>('[style]').forEach(element => {
+      element.style.removeProperty('cursor');
+      element.style.removeProperty('transition');
+      if (!element.getAttribute('style')) {
+        element.removeAttribute('style');
+      }
+    });
+  });
+
+  const labelBoxes = groups.flatMap(group => fixLabelBackgrounds(group));
+  const content = getContentBounds(flowChart, groups, labelBoxes);
+  const bounds = {
+    x: content.x - padding,
+    y: content.y - padding,
+    width: content.width + padding * 2,
+    height: content.height + padding * 2
+  };
+
+  svg.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+  svg.setAttribute('width', String(bounds.width * scale));
+  svg.setAttribute('height', String(bounds.height * scale));
+
+  if (backgroundColor) {
+    const background = document.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('x', String(bounds.x));
+    background.setAttribute('y', String(bounds.y));
+    background.setAttribute('width', String(bounds.width));
+    background.setAttribute('height', String(bounds.height));
+    background.setAttribute('fill', backgroundColor);
+    svg.appendChild(background);
+  }
+
+  groups.forEach(group => svg.appendChild(group));
+
+  return { svg, bounds };
+}
+
+/**
+ * 生成内联样式表
+ */
+function getStyleSheet(flowChart: FlowChart, options: SvgExportOptions): string {
+  const container = flowChart.getRenderer().getSVGElement().parentElement;
+  const primaryColor = options.primaryColor
+    || container?.style.getPropertyValue('--flowchart-primary-color')
+    || options.theme?.edgeStyle.strokeColor;
+
+  const variables = primaryColor ? `svg { --flowchart-primary-color: ${primaryColor}; }\n` : '';
+  return variables + EDGE_CSS;
+}
+
+/**
+ * 补全连线标签背景
+ * 渲染时背景尺寸依赖异步的 getBBox，导出时按文字估算，返回标签占用的区域
+ */
+function fixLabelBackgrounds(group: SVGGElement): ContentBounds[] {
+  const boxes: ContentBounds[] = [];
+
+  group.querySelectorAll('.edge-label').forEach(label => {
+    const text = label.querySelector('text');
+    const background = label.querySelector('rect');
+    if (!text) {
+      return;
+    }
+
+    const fontSize = parseFloat(text.getAttribute('font-size') || '12');
+    const width = estimateTextWidth(text.textContent || '', fontSize) + 12;
+    const height = fontSize + 12;
+    const x = parseFloat(text.getAttribute('x') || '0') - width / 2;
+    const y = parseFloat(text.getAttribute('y') || '0') - height / 2;
+
+    if (background && !background.getAttribute('width')) {
+      background.setAttribute('x', String(x));
+      background.setAttribute('y', String(y));
+      background.setAttribute('width', String(width));
+      background.setAttribute('height', String(height));
+    }
+    boxes.push({ x, y, width, height });
+  });
+
+  return boxes;
+}
+
+/**
+ * 估算文字宽度（全角字符按字号计算，其余按半个字号多一点）
+ */
+function estimateTextWidth(text: string, fontSize: number): number {
+  return Array.from(text).reduce(
+    (width, char) => width + (char.charCodeAt(0) > 0x2e80 ? fontSize : fontSize * 0.6),
+    0
+  );
+}
+
+/**
+ * 计算内容边界：节点外框、连线路径点和标签
+ */
+function getContentBounds(
+  flowChart: FlowChart,
+  groups: SVGGElement[],
+  labelBoxes: ContentBounds[]
+): ContentBounds {
+  const points = groups.flatMap(group =>
+    Array.from(group.querySelectorAll('.edge-path, .edge-arrow')).flatMap(getShapePoints)
+  );
+  const boxes = labelBoxes.map(box => ({
+    minX: box.x,
+    minY: box.y,
+    maxX: box.x + box.width,
+    maxY: box.y + box.height
+  }));
+
+  flowChart.getAllNodes().forEach(node => {
+    boxes.push(calculateBounds([node.position], getNodeSize(node)));
+  });
+  if (points.length > 0) {
+    boxes.push(calculateBounds(points, { width: 0, height: 0 }));
+  }
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const minX = Math.min(...boxes.map(box => box.minX));
+  const minY = Math.min(...boxes.map(box => box.minY));
+  const maxX = Math.max(...boxes.map(box => box.maxX));
+  const maxY = Math.max(...boxes.map(box => box.maxY));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * 读取路径或多边形中的坐标（渲染器只生成绝对坐标的 M/L/Q/C 命令）
+ */
+function getShapePoints(element: Element): Position[] {
+  const data = element.getAttribute('d') || element.getAttribute('points') || '';
+  const numbers = (data.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+  const points: Position[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  return points;
+}
@@ -0,0 +1,15 @@
+/**
+ * 导出模块
+ */
+
+export { exportSVG, createExportSVG, type SvgExportOptions, type ContentBounds } from './SvgExporter';
+export {
+  exportPNG,
+  exportPNGTiles,
+  type PngExportOptions,
+  type PngTile,
+  type ExportCanvas,
+  type ExportCanvasContext,
+  type CanvasFactory,
+  type SvgImageLoader
+} from './PngExporter';
@@ -0,0 +1,163 @@
+import { ExpressionError } from '../utils/errors';
+import { Expression } from './ast';
+import { EXPRESSION_FUNCTIONS } from './functions';
+import { parseExpression } from './ExpressionParser';
+
+/**
+ * 已解析表达式缓存
+ */
+const cache = new Map<string, Expression>();
+const CACHE_SIZE = 500;
+
+/**
+ * 解析表达式（带缓存）
+ */
+export function compileExpression(source: string): Expression {
+  let expression = cache.get(source);
+  if (!expression) {
+    expression = parseExpression(source);
+    if (cache.size >= CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(source, expression);
+  }
+  return expression;
+}
+
+/**
+ * 计算表达式的值
+ * 只读取上下文自身的属性，不会调用上下文中的函数
+ */
+export function evaluateExpression(expression: Expression | string, context: Record<string, unknown> = {}): unknown {
+  const ast = typeof expression === 'string' ? compileExpression(expression) : expression;
+  return evaluate(ast, context);
+}
+
+/**
+ * 计算条件表达式并转为布尔值
+ */
+export function evaluateCondition(condition: string, context: Record<string, unknown> = {}): boolean {
+  return Boolean(evaluateExpression(condition, context));
+}
+
+function evaluate(node: Expression, context: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+
+    case 'Array':
+      return node.elements.map(element => evaluate(element, context));
+
+    case 'Variable':
+      return node.path.reduce<unknown>((value, key) => getProperty(value, key), context);
+
+    case 'Member':
+      return getProperty(evaluate(node.object, context), evaluate(node.property, context));
+
+    case 'Unary': {
+      const value = evaluate(node.argument, context);
+      return node.operator === '!' ? !value : -toNumber(value, '-');
+    }
+
+    case 'Logical': {
+      const left = Boolean(evaluate(node.left, context));
+      if (node.operator === '&&') {
+        return left && Boolean(evaluate(node.right, context));
+      }
+      return left || Boolean(evaluate(node.right, context));
+    }
+
+    case 'Binary': {
+      const left = evaluate(node.left, context);
+      const right = evaluate(node.right, context);
+      switch (node.operator) {
+        case '==':
+          return equals(left, right);
+        case '!=':
+          return !equals(left, right);
+        case '<':
+          return compare(left, right) < 0;
+        case '<=':
+          return compare(left, right) <= 0;
+        case '>':
+          return compare(left, right) > 0;
+        case '>=':
+          return compare(left, right) >= 0;
+        case 'in':
+          if (Array.isArray(right)) {
+            return right.some(item => equals(item, left));
+          }
+          if (typeof right === 'string') {
+            return right.includes(String(left));
+          }
+          return isObject(right) && Object.prototype.hasOwnProperty.call(right, String(left));
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') {
+            return `${left ?? ''}${right ?? ''}`;
+          }
+          return toNumber(left, '+') + toNumber(right, '+');
+        case '-':
+          return toNumber(left, '-') - toNumber(right, '-');
+        case '*':
+          return toNumber(left, '*') * toNumber(right, '*');
+        case '/':
+          return toNumber(left, '/') / toNumber(right, '/');
+        case '%':
+          return toNumber(left, '%') % toNumber(right, '%');
+      }
+      break;
+    }
+
+    case 'Call':
+      return EXPRESSION_FUNCTIONS[node.name](...node.args.map(arg => evaluate(arg, context)));
+  }
+  throw new ExpressionError(`Unsupported expression: ${(node as Expression).type}`);
+}
+
+/**
+ * 读取自身属性（字符串和数组允许读取 length）
+ */
+function getProperty(value: unknown, key: unknown): unknown {
+  if (key === 'length' && (typeof value === 'string' || Array.isArray(value))) {
+    return value.length;
+  }
+  if (isObject(value) && Object.prototype.hasOwnProperty.call(value, String(key))) {
+    return (value as Record<string, unknown>)[String(key)];
+  }
+  return undefined;
+}
+
+/**
+ * 严格相等，null 与 undefined 视为相等
+ */
+function equals(left: unknown, right: unknown): boolean {
+  return left === right || (isNil(left) && isNil(right));
+}
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function isObject(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * 比较同类型的数字或字符串，返回负数、0 或正数；类型不同或无法比较时返回 NaN（所有比较均为 false）
+ */
+function compare(left: unknown, right: unknown): number {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left === right ? 0 : left < right ? -1 : left > right ? 1 : NaN;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+  return NaN;
+}
+
+function toNumber(value: unknown, operator: string): number {
+  if (typeof value !== 'number') {
+    throw new ExpressionError(`Operator "${operator}" expects numbers but got ${value === null ? 'null' : typeof value}`);
+  }
+  return value;
+}
@@ -0,0 +1,298 @@
+import { ExpressionError } from '../utils/errors';
+import { Expression, BinaryOperator } from './ast';
+import { EXPRESSION_FUNCTIONS } from './functions';
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', ',', '.'];
+
+/**
+ * 关键字形式的运算符
+ */
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' };
+
+/**
+ * 二元运算符优先级（数字越大优先级越高）
+ */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  in: 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6
+};
+
+/**
+ * 禁止访问的属性（防止原型链逃逸）
+ */
+const FORBIDDEN_PROPERTIES = ['__proto__', 'prototype', 'constructor'];
+
+/**
+ * 解析条件表达式
+ * 支持流程引擎的 ${...} 写法，如 "${amount > 5000}"
+ */
+export function parseExpression(source: string): Expression {
+  const parser = new ExpressionReader(tokenize(maskWrapper(source)));
+  const expression = parser.parseBinary(0);
+  parser.expectEnd();
+  return expression;
+}
+
+/**
+ * 把 ${...} 包装替换为空格，错误信息中的位置仍对应原始字符串
+ */
+function maskWrapper(source: string): string {
+  return source.replace(/^(\s*)\$\{([\s\S]*)\}(\s*)$/, (_, before, body, after) => `${before}  ${body} ${after}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] || ''))) {
+      const match = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(pos))!;
+      tokens.push({ type: 'number', value: match[0], position: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError(`Unterminated string at position ${start}`, start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[\p{L}_$]/u.test(char)) {
+      const match = /^[\p{L}\p{N}_$]+/u.exec(source.slice(pos))!;
+      const word = match[0];
+      tokens.push(
+        Object.prototype.hasOwnProperty.call(WORD_OPERATORS, word)
+          ? { type: 'operator', value: WORD_OPERATORS[word], position: pos }
+          : { type: 'identifier', value: word, position: pos }
+      );
+      pos += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(item => source.startsWith(item, pos));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}" at position ${pos}`, pos);
+    }
+    // === 和 !== 与 == 和 != 等价
+    tokens.push({ type: 'operator', value: operator.length === 3 ? operator.slice(0, 2) : operator, position: pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * 递归下降解析器（二元运算使用优先级爬升）
+ */
+class ExpressionReader {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      this.pos++;
+      const right = this.parseBinary(precedence);
+      left = token.value === '&&' || token.value === '||'
+        ? { type: 'Logical', operator: token.value, left, right }
+        : { type: 'Binary', operator: token.value as BinaryOperator, left, right };
+    }
+  }
+
+  public expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.unexpected(token);
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.pos++;
+      return { type: 'Unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'Literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'Literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { type: 'Literal', value: null };
+        }
+        if (this.isOperator('(')) {
+          return this.parseCall(token);
+        }
+        this.checkProperty(token);
+        return { type: 'Variable', path: [token.value] };
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.parseBinary(0);
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return { type: 'Array', elements: this.parseList(']') };
+        }
+        break;
+    }
+    throw this.unexpected(token);
+  }
+
+  /**
+   * 成员访问：字面量下标并入变量路径，其余生成动态成员访问
+   */
+  private parsePostfix(expression: Expression): Expression {
+    for (;;) {
+      if (this.isOperator('.')) {
+        this.pos++;
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          throw this.unexpected(token);
+        }
+        this.checkProperty(token);
+        expression = appendPath(expression, { type: 'Literal', value: token.value });
+      } else if (this.isOperator('[')) {
+        this.pos++;
+        const property = this.parseBinary(0);
+        this.expect(']');
+        if (property.type === 'Literal' && typeof property.value === 'string') {
+          this.checkProperty({ type: 'string', value: property.value, position: this.peek().position });
+        }
+        expression = appendPath(expression, property);
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCall(name: Token): Expression {
+    if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name.value)) {
+      throw new ExpressionError(`Unknown function "${name.value}" at position ${name.position}`, name.position);
+    }
+    this.expect('(');
+    return { type: 'Call', name: name.value, args: this.parseList(')') };
+  }
+
+  private parseList(close: string): Expression[] {
+    const items: Expression[] = [];
+    if (this.isOperator(close)) {
+      this.pos++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.parseBinary(0));
+      if (this.isOperator(',')) {
+        this.pos++;
+        continue;
+      }
+      this.expect(close);
+      return items;
+    }
+  }
+
+  private checkProperty(token: Token): void {
+    if (FORBIDDEN_PROPERTIES.includes(token.value)) {
+      throw new ExpressionError(`Access to "${token.value}" is not allowed`, token.position);
+    }
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw this.unexpected(token, value);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.type !== 'eof') {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private unexpected(token: Token, expected?: string): ExpressionError {
+    const found = token.type === 'eof' ? 'end of expression' : `"${token.value}"`;
+    const message = expected
+      ? `Expected "${expected}" but found ${found} at position ${token.position}`
+      : `Unexpected ${found} at position ${token.position}`;
+    return new ExpressionError(message, token.position);
+  }
+}
+
+function appendPath(object: Expression, property: Expression): Expression {
+  if (object.type === 'Variable' && property.type === 'Literal'
+    && (typeof property.value === 'string' || typeof property.value === 'number')) {
+    return { type: 'Variable', path: [...object.path, property.value] };
+  }
+  return { type: 'Member', object, property };
+}
@@ -0,0 +1,278 @@
+import type { FlowChart } from '../core/FlowChart';
+import { NodeData, EdgeData, NodeType } from '../types';
+import { Expression } from './ast';
+import { compileExpression, evaluateExpression } from './ExpressionEvaluator';
+
+/**
+ * 条件问题代码
+ */
+export type ConditionIssueCode = 'syntax-error' | 'overlapping-branches' | 'missing-default';
+
+/**
+ * 条件检查问题
+ */
+export interface ConditionIssue {
+  /** 问题代码 */
+  code: ConditionIssueCode;
+  /** 严重程度 */
+  severity: 'error' | 'warning';
+  /** 描述 */
+  message: string;
+  /** 相关节点ID */
+  nodeId?: string;
+  /** 相关连线ID */
+  edgeIds: string[];
+  /** 复现问题的示例上下文 */
+  example?: Record<string, unknown>;
+}
+
+/**
+ * 分支检查时最多尝试的上下文数量
+ */
+const MAX_SAMPLES = 4096;
+
+/**
+ * 列出表达式引用的变量路径（如 order.amount）
+ */
+export function getExpressionVariables(expression: Expression | string): string[] {
+  const ast = typeof expression === 'string' ? compileExpression(expression) : expression;
+  const variables = new Set<string>();
+  walk(ast, node => {
+    if (node.type === 'Variable') {
+      variables.add(node.path.join('.'));
+    }
+  });
+  return Array.from(variables);
+}
+
+/**
+ * 检查连线条件
+ * 报告语法错误，以及条件节点的出边条件是否互斥、是否缺少默认分支。
+ * 互斥与默认分支通过表达式中出现的常量构造示例上下文来检查，只在找到反例时报告
+ */
+export function validateConditions(source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] }): ConditionIssue[] {
+  const { nodes, edges } = 'toJSON' in source ? source.toJSON() : source;
+  const issues: ConditionIssue[] = [];
+  const compiled = new Map<string, Expression>();
+
+  edges.forEach(edge => {
+    if (!edge.condition) {
+      return;
+    }
+    try {
+      compiled.set(edge.id, compileExpression(edge.condition));
+    } catch (error) {
+      issues.push({
+        code: 'syntax-error',
+        severity: 'error',
+        message: `Invalid condition on edge ${edge.id}: ${(error as Error).message}`,
+        nodeId: edge.source,
+        edgeIds: [edge.id]
+      });
+    }
+  });
+
+  nodes
+    .filter(node => node.type === NodeType.CONDITION)
+    .forEach(node => {
+      const outgoing = edges.filter(edge => edge.source === node.id);
+      const conditional = outgoing.filter(edge => edge.condition);
+      // 只用标签区分的分支不做检查；有语法错误时跳过
+      if (conditional.length === 0 || conditional.some(edge => !compiled.has(edge.id))) {
+        return;
+      }
+      issues.push(...checkBranches(node.id, conditional, outgoing.filter(edge => !edge.condition), compiled));
+    });
+
+  return issues;
+}
+
+function checkBranches(
+  nodeId: string,
+  conditional: EdgeData[],
+  defaults: EdgeData[],
+  compiled: Map<string, Expression>
+): ConditionIssue[] {
+  const issues: ConditionIssue[] = [];
+
+  if (defaults.length > 1) {
+    issues.push({
+      code: 'overlapping-branches',
+      severity: 'warning',
+      message: `Condition node ${nodeId} has more than one default branch: ${defaults.map(edge => edge.id).join(', ')}`,
+      nodeId,
+      edgeIds: defaults.map(edge => edge.id)
+    });
+  }
+
+  const candidates = new Map<string, { path: Array<string | number>; values: unknown[] }>();
+  conditional.forEach(edge => collectCandidates(compiled.get(edge.id)!, candidates));
+  const variables = Array.from(candidates.values());
+  const total = variables.reduce((count, variable) => count * variable.values.length, 1);
+
+  const reported = new Set<string>();
+  let missingReported = defaults.length > 0;
+
+  for (let index = 0; index < Math.min(total, MAX_SAMPLES); index++) {
+    // 按混合进制把序号展开为一组取值
+    const example: Record<string, unknown> = {};
+    let rest = index;
+    variables.forEach(variable => {
+      setPath(example, variable.path, variable.values[rest % variable.values.length]);
+      rest = Math.floor(rest / variable.values.length);
+    });
+
+    let matched: string[];
+    try {
+      matched = conditional
+        .filter(edge => Boolean(evaluateExpression(compiled.get(edge.id)!, example)))
+        .map(edge => edge.id);
+    } catch (error) {
+      // 类型不匹配的示例没有意义
+      continue;
+    }
+
+    const key = matched.join(',');
+    if (matched.length > 1 && !reported.has(key)) {
+      reported.add(key);
+      issues.push({
+        code: 'overlapping-branches',
+        severity: 'warning',
+        message: `Condition node ${nodeId} has overlapping branches ${key} for ${JSON.stringify(example)}`,
+        nodeId,
+        edgeIds: matched,
+        example
+      });
+    }
+    if (matched.length === 0 && !missingReported) {
+      missingReported = true;
+      issues.push({
+        code: 'missing-default',
+        severity: 'warning',
+        message: `Condition node ${nodeId} has no default branch and no condition matches ${JSON.stringify(example)}`,
+        nodeId,
+        edgeIds: conditional.map(edge => edge.id),
+        example
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 根据与变量比较的常量生成候选取值（包括边界两侧和不相等的值）
+ */
+function collectCandidates(
+  ast: Expression,
+  candidates: Map<string, { path: Array<string | number>; values: unknown[] }>
+): void {
+  const add = (variable: Expression, values: unknown[]) => {
+    if (variable.type !== 'Variable') {
+      return;
+    }
+    const key = variable.path.join('.');
+    if (!candidates.has(key)) {
+      candidates.set(key, { path: variable.path, values: [] });
+    }
+    const entry = candidates.get(key)!;
+    values.forEach(value => {
+      if (!entry.values.some(item => JSON.stringify(item) === JSON.stringify(value))) {
+        entry.values.push(value);
+      }
+    });
+  };
+
+  walk(ast, node => {
+    if (node.type === 'Variable') {
+      add(node, []);
+    } else if (node.type === 'Binary' && node.operator === 'in') {
+      if (node.right.type === 'Array') {
+        const values = node.right.elements.filter(isLiteral).map(element => element.value);
+        add(node.left, [...values, otherValue(values)]);
+      } else if (isLiteral(node.left)) {
+        add(node.right, [[node.left.value], []]);
+      }
+    } else if (node.type === 'Binary' && ['==', '!=', '<', '<=', '>', '>='].includes(node.operator)) {
+      if (isLiteral(node.right)) {
+        add(node.left, around(node.right.value));
+      }
+      if (isLiteral(node.left)) {
+        add(node.right, around(node.left.value));
+      }
+    } else if (node.type === 'Call') {
+      const literals = node.args.filter(isLiteral).map(arg => arg.value);
+      node.args.forEach(arg => add(arg, literals.flatMap(value => [value, [value]]).concat(['', []])));
+    }
+  });
+
+  // 没有可用常量的变量按布尔值处理
+  candidates.forEach(entry => {
+    if (entry.values.length === 0) {
+      entry.values.push(true, false);
+    }
+  });
+}
+
+function around(value: unknown): unknown[] {
+  if (typeof value === 'number') {
+    return [value - 1, value, value + 1];
+  }
+  if (typeof value === 'boolean') {
+    return [true, false];
+  }
+  return [value, otherValue([value])];
+}
+
+function otherValue(values: unknown[]): unknown {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (numbers.length === values.length && numbers.length > 0) {
+    return Math.max(...numbers) + 1;
+  }
+  let other = 'other';
+  while (values.includes(other)) {
+    other += '_';
+  }
+  return other;
+}
+
+function isLiteral(node: Expression): node is Extract<Expression, { type: 'Literal' }> {
+  return node.type === 'Literal';
+}
+
+function setPath(target: Record<string, unknown>, path: Array<string | number>, value: unknown): void {
+  let current = target;
+  path.slice(0, -1).forEach(key => {
+    const next = current[key];
+    if (next !== null && typeof next === 'object') {
+      current = next as Record<string, unknown>;
+    } else {
+      current = current[key] = {};
+    }
+  });
+  current[path[path.length - 1]] = value;
+}
+
+function walk(node: Expression, visit: (node: Expression) => void): void {
+  visit(node);
+  switch (node.type) {
+    case 'Array':
+      node.elements.forEach(element => walk(element, visit));
+      break;
+    case 'Member':
+      walk(node.object, visit);
+      walk(node.property, visit);
+      break;
+    case 'Unary':
+      walk(node.argument, visit);
+      break;
+    case 'Binary':
+    case 'Logical':
+      walk(node.left, visit);
+      walk(node.right, visit);
+      break;
+    case 'Call':
+      node.args.forEach(arg => walk(arg, visit));
+      break;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * 条件表达式语法树
+ */
+
+/**
+ * 字面量
+ */
+export interface LiteralExpression {
+  type: 'Literal';
+  value: string | number | boolean | null;
+}
+
+/**
+ * 数组字面量
+ */
+export interface ArrayExpression {
+  type: 'Array';
+  elements: Expression[];
+}
+
+/**
+ * 变量（点号路径，如 order.amount）
+ */
+export interface VariableExpression {
+  type: 'Variable';
+  path: Array<string | number>;
+}
+
+/**
+ * 动态成员访问（如 items[index]）
+ */
+export interface MemberExpression {
+  type: 'Member';
+  object: Expression;
+  property: Expression;
+}
+
+/**
+ * 一元运算
+ */
+export interface UnaryExpression {
+  type: 'Unary';
+  operator: '!' | '-';
+  argument: Expression;
+}
+
+/**
+ * 二元运算符
+ */
+export type BinaryOperator =
+  | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in'
+  | '+' | '-' | '*' | '/' | '%';
+
+/**
+ * 二元运算
+ */
+export interface BinaryExpression {
+  type: 'Binary';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+/**
+ * 逻辑运算（短路求值）
+ */
+export interface LogicalExpression {
+  type: 'Logical';
+  operator: '&&' | '||';
+  left: Expression;
+  right: Expression;
+}
+
+/**
+ * 内置函数调用
+ */
+export interface CallExpression {
+  type: 'Call';
+  name: string;
+  args: Expression[];
+}
+
+/**
+ * 表达式
+ */
+export type Expression =
+  | LiteralExpression
+  | ArrayExpression
+  | VariableExpression
+  | MemberExpression
+  | UnaryExpression
+  | BinaryExpression
+  | LogicalExpression
+  | CallExpression;
@@ -0,0 +1,50 @@
+/**
+ * 表达式内置函数
+ * 表达式只能调用这里登记的函数
+ */
+
+function toList(values: unknown[]): number[] {
+  return values.flatMap(value => (Array.isArray(value) ? value : [value])).map(Number);
+}
+
+function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  // 字符串 / 数组
+  length: (value: unknown) => {
+    if (typeof value === 'string' || Array.isArray(value)) {
+      return value.length;
+    }
+    return value && typeof value === 'object' ? Object.keys(value).length : 0;
+  },
+  isEmpty: (value: unknown) => value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0),
+  contains: (collection: unknown, item: unknown) => {
+    if (typeof collection === 'string') {
+      return collection.includes(toText(item));
+    }
+    return Array.isArray(collection) ? collection.includes(item) : false;
+  },
+  startsWith: (value: unknown, prefix: unknown) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value: unknown, suffix: unknown) => toText(value).endsWith(toText(suffix)),
+  lower: (value: unknown) => toText(value).toLowerCase(),
+  upper: (value: unknown) => toText(value).toUpperCase(),
+  trim: (value: unknown) => toText(value).trim(),
+
+  // 数值
+  abs: (value: unknown) => Math.abs(Number(value)),
+  round: (value: unknown, digits: unknown = 0) => {
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value: unknown) => Math.floor(Number(value)),
+  ceil: (value: unknown) => Math.ceil(Number(value)),
+  min: (...values: unknown[]) => Math.min(...toList(values)),
+  max: (...values: unknown[]) => Math.max(...toList(values)),
+  sum: (...values: unknown[]) => toList(values).reduce((total, value) => total + value, 0),
+
+  // 类型转换
+  number: (value: unknown) => Number(value),
+  string: (value: unknown) => toText(value)
+};
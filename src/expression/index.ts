@@ -0,0 +1,25 @@
+/**
+ * 条件表达式
+ */
+
+export type {
+  Expression,
+  LiteralExpression,
+  ArrayExpression,
+  VariableExpression,
+  MemberExpression,
+  UnaryExpression,
+  BinaryExpression,
+  BinaryOperator,
+  LogicalExpression,
+  CallExpression
+} from './ast';
+export { parseExpression } from './ExpressionParser';
+export { compileExpression, evaluateExpression, evaluateCondition } from './ExpressionEvaluator';
+export { EXPRESSION_FUNCTIONS } from './functions';
+export {
+  getExpressionVariables,
+  validateConditions,
+  type ConditionIssue,
+  type ConditionIssueCode
+} from './analysis';
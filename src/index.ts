@@ -12,8 +12,22 @@ export { FlowEdge } from './core/Edge';
 export { LayoutEngine } from './layout/LayoutEngine';
 export { DagreLayout } from './layout/DagreLayout';
 export { ForceLayout, type ForceLayoutConfig } from './layout/ForceLayout';
+export { SugiyamaLayout, type SugiyamaLayoutConfig } from './layout/SugiyamaLayout';
+export { GridLayout, type GridLayoutConfig } from './layout/GridLayout';
+export { TreeLayout, type TreeLayoutConfig } from './layout/TreeLayout';
+export { CircularLayout, type CircularLayoutConfig } from './layout/CircularLayout';
+export { IncrementalLayout, type IncrementalLayoutConfig } from './layout/IncrementalLayout';
+export type { Layout } from './layout/Layout';
+export { LayoutRegistry, layoutRegistry, BUILT_IN_LAYOUTS, type LayoutFactory } from './layout/LayoutRegistry';
 export { Renderer } from './renderer/Renderer';
 export { EdgeRenderer } from './renderer/EdgeRenderer';
+export {
+  EdgeCrossingIndex,
+  addLineJumps,
+  type LineJumpConfig,
+  type LineJumpStyle,
+  type LineJumpYield
+} from './renderer/LineJumps';
 
 // 编辑器
 export {
@@ -28,6 +42,7 @@ export {
   EdgeDrawer,
   type EdgeDrawerConfig
 } from './editor';
+export { ValidationPanel, collectIssueMarkers, type ValidationPanelConfig } from './editor/ValidationPanel';
 
 // 类型定义
 export {
@@ -42,7 +57,11 @@ export {
   type Size,
   type NodeStyle,
   type EdgeStyle,
+  type PortDefinition,
+  type PortSide,
+  type PortDirection,
   type FlowChartConfig,
+  type FlowChartAnimationConfig,
   type LayoutConfig,
   type RenderConfig,
   type MaterialItem
@@ -50,6 +69,7 @@ export {
 
 // 样式配置
 export { DEFAULT_NODE_STYLES, STATUS_COLORS } from './styles/defaultStyles';
+export { EDGE_CSS } from './styles/edgeStyles';
 
 // 工具函数
 export {
@@ -75,6 +95,7 @@ export {
   getNodeEdgePoint,
   // 工作流转换
   convertWorkflowToFlowChart,
+  convertFlowChartToWorkflow,
   // 错误类
   FlowChartError,
   NodeError,
@@ -85,9 +106,126 @@ export {
   ConfigError
 } from './utils';
 
+// BPMN 导入导出
+export { parseBPMN, exportBPMN, type BpmnImportResult, type BpmnExportOptions } from './bpmn';
+
+// Mermaid 导入导出
+export {
+  parseMermaid,
+  toMermaid,
+  type MermaidImportResult,
+  type MermaidSubgraph,
+  type MermaidExportOptions
+} from './mermaid';
+
+// Graphviz DOT 导入导出
+export { parseDOT, toDOT, type DotImportResult, type DotCluster, type DotExportOptions } from './dot';
+
+// 图片导出
+export {
+  exportSVG,
+  exportPNG,
+  exportPNGTiles,
+  type SvgExportOptions,
+  type PngExportOptions,
+  type PngTile,
+  type CanvasFactory
+} from './export';
+
+// 条件表达式
+export {
+  parseExpression,
+  evaluateExpression,
+  evaluateCondition,
+  getExpressionVariables,
+  validateConditions,
+  EXPRESSION_FUNCTIONS,
+  type Expression,
+  type ConditionIssue,
+  type ConditionIssueCode
+} from './expression';
+export { ExpressionError } from './utils/errors';
+
+// 流程验证
+export {
+  ValidationRuleRegistry,
+  defineRule,
+  BUILT_IN_RULES,
+  type DiagnosticSeverity,
+  type ValidationFix,
+  type ValidationDiagnostic,
+  type ValidationContext,
+  type FlowValidationRule,
+  type ValidationReport
+} from './validation';
+
+// 结构分析
+export {
+  analyzeGateways,
+  createGatewayNodes,
+  computeDominators,
+  dominates,
+  GraphAlgorithms,
+  type GraphSource,
+  type GraphSourceData,
+  type GraphEdge,
+  type EdgeWeight,
+  type GatewayNode,
+  type GatewayPair,
+  type GatewayIssueCode,
+  type GatewayIssue,
+  type GatewayAnalysis
+} from './analysis';
+
+// 模拟执行
+export {
+  FlowSimulator,
+  type SimulationStatus,
+  type SimulationToken,
+  type SimulationChoice,
+  type SimulationStep,
+  type ConditionEvaluator,
+  type SimulatorOptions
+} from './simulation';
+
 // 事件管理
 export { EventEmitter, FlowChartEvents } from './events';
 
+// 动画
+export {
+  Tween,
+  prefersReducedMotion,
+  EASINGS,
+  cubicBezier,
+  resolveEasing,
+  type TweenOptions,
+  type FrameScheduler,
+  type EasingFunction
+} from './animation';
+
+// 连线路由
+export {
+  RouterFactory,
+  BUILT_IN_ROUTERS,
+  VisibilityRouter,
+  OrthogonalVisibilityGraph,
+  EdgeNudger,
+  createPolylinePath,
+  toRouteResult,
+  getDefaultPorts,
+  getPortPosition,
+  canConnectPort,
+  type RouterType,
+  type RouterConfig,
+  type VisibilityRouterConfig,
+  type EdgeNudgerConfig,
+  type RouteNode,
+  type RouteRequest,
+  type RouteResult,
+  type EdgeRouterStrategy,
+  type EdgeRouterFactory
+} from './router';
+
 // 性能监控
 export { PerformanceMonitor, type PerformanceMetrics } from './performance';
 
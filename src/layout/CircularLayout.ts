@@ -0,0 +1,95 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Position, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { LayoutDirection } from './direction';
+import { Layout, getNodeSize, sortByRank } from './Layout';
+
+/**
+ * 环形布局配置
+ */
+export interface CircularLayoutConfig extends LayoutConfig {
+  /** 半径，默认按节点尺寸和 nodeGap 计算，保证相邻节点不重叠 */
+  radius?: number;
+  /** 圆心，默认 (0, 0) */
+  center?: Position;
+  /** 第一个节点的角度（弧度），默认由流向决定：TB 顶部、BT 底部、LR 左侧、RL 右侧 */
+  startAngle?: number;
+  /** 是否顺时针排列，默认 true */
+  clockwise?: boolean;
+  /** 获取节点尺寸，默认读取 style.width/height，否则使用默认节点尺寸 */
+  getNodeSize?: (node: FlowNode) => Size;
+}
+
+/**
+ * 各流向下起始节点的角度
+ */
+const START_ANGLES: Record<LayoutDirection, number> = {
+  TB: -Math.PI / 2,
+  BT: Math.PI / 2,
+  LR: Math.PI,
+  RL: 0
+};
+
+/**
+ * 环形布局
+ * 节点按流程层级（同层保持插入顺序）等角度排列在圆周上
+ */
+export class CircularLayout implements Layout<CircularLayoutConfig> {
+  private config: CircularLayoutConfig;
+
+  constructor(config: CircularLayoutConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 执行布局
+   */
+  public layout(nodes: Map<string, FlowNode>): void {
+    if (nodes.size === 0) {
+      return;
+    }
+
+    const center = this.config.center ?? { x: 0, y: 0 };
+    const ordered = sortByRank(nodes);
+    if (ordered.length === 1) {
+      if (!ordered[0].manualPosition) {
+        ordered[0].updatePosition({ ...center });
+      }
+      return;
+    }
+
+    const radius = this.config.radius ?? this.getMinimumRadius(ordered);
+    const startAngle = this.config.startAngle ?? START_ANGLES[this.config.direction || 'TB'];
+    const step = (2 * Math.PI / ordered.length) * (this.config.clockwise === false ? -1 : 1);
+
+    ordered.forEach((node, index) => {
+      if (node.manualPosition) {
+        return;
+      }
+      const angle = startAngle + index * step;
+      node.updatePosition({
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle)
+      });
+    });
+  }
+
+  /**
+   * 更新配置
+   */
+  public updateConfig(config: Partial<CircularLayoutConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 最小半径：相邻节点的弦长不小于节点对角线长度加间距
+   */
+  private getMinimumRadius(nodes: FlowNode[]): number {
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const diagonal = Math.max(...nodes.map(node => {
+      const size = this.config.getNodeSize ? this.config.getNodeSize(node) : getNodeSize(node);
+      return Math.hypot(size.width, size.height);
+    }));
+    return (diagonal + nodeGap) / (2 * Math.sin(Math.PI / nodes.length));
+  }
+}
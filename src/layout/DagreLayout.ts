@@ -1,11 +1,14 @@
 import { FlowNode } from '../core/Node';
 import { LayoutConfig } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { fromFlowFrame } from './direction';
+import { Layout } from './Layout';
 
 /**
  * Dagre 布局引擎
  * 基于分层的有向图布局算法
  */
-export class DagreLayout {
+export class DagreLayout implements Layout {
   private config: LayoutConfig;
 
   constructor(config: LayoutConfig) {
@@ -166,9 +169,11 @@ export class DagreLayout {
 
   /**
    * 分配坐标
+   * 在流向坐标系中逐层向下排布，再转换到配置的方向
    */
   private assignCoordinates(layers: FlowNode[][]): void {
-    const { levelGap, nodeGap } = this.config;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
     const direction = this.config.direction || 'TB';
 
     layers.forEach((layer, layerIndex) => {
@@ -176,17 +181,14 @@ export class DagreLayout {
       const layerWidth = (layerSize - 1) * nodeGap;
 
       layer.forEach((node, nodeIndex) => {
-        if (direction === 'TB') {
-          // 从上到下
-          const x = -layerWidth / 2 + nodeIndex * nodeGap;
-          const y = layerIndex * levelGap;
-          node.position = { x, y };
-        } else {
-          // 从左到右
-          const x = layerIndex * levelGap;
-          const y = -layerWidth / 2 + nodeIndex * nodeGap;
-          node.position = { x, y };
+        // 跳过手动设置位置的节点
+        if (node.manualPosition) {
+          return;
         }
+        node.position = fromFlowFrame(direction, {
+          x: -layerWidth / 2 + nodeIndex * nodeGap,
+          y: layerIndex * levelGap
+        });
       });
     });
   }
@@ -1,23 +1,27 @@
 import { FlowNode } from '../core/Node';
-import { Position } from '../types';
+import { LayoutConfig, Position } from '../types';
+import { LayoutDirection, fromFlowFrame } from './direction';
+import { Layout } from './Layout';
 
 /**
  * 力导向布局配置
  */
-export interface ForceLayoutConfig {
+export interface ForceLayoutConfig extends LayoutConfig {
   iterations?: number;        // 迭代次数
   nodeRepulsion?: number;     // 节点斥力
   edgeAttraction?: number;    // 边吸引力
   damping?: number;           // 阻尼系数
   centerGravity?: number;     // 中心引力
+  direction?: LayoutDirection; // 流向，设置后按层级沿流向播种初始位置
+  seedSpacing?: number;       // 按流向播种时的节点间距
 }
 
 /**
  * 力导向布局引擎
  * 基于物理模拟的布局算法
  */
-export class ForceLayout {
-  private config: Required<ForceLayoutConfig>;
+export class ForceLayout implements Layout<ForceLayoutConfig> {
+  private config: Required<Omit<ForceLayoutConfig, 'direction'>> & Pick<ForceLayoutConfig, 'direction'>;
 
   constructor(config: ForceLayoutConfig = {}) {
     this.config = {
@@ -25,7 +29,9 @@ export class ForceLayout {
       nodeRepulsion: config.nodeRepulsion ?? 5000,
       edgeAttraction: config.edgeAttraction ?? 0.01,
       damping: config.damping ?? 0.9,
-      centerGravity: config.centerGravity ?? 0.1
+      centerGravity: config.centerGravity ?? 0.1,
+      direction: config.direction,
+      seedSpacing: config.seedSpacing ?? 100
     };
   }
 
@@ -54,13 +60,19 @@ export class ForceLayout {
 
   /**
    * 初始化节点位置
+   * 配置了流向时按层级沿流向排开，否则均匀分布在圆周上
    */
   private initializePositions(nodes: Map<string, FlowNode>): void {
     const nodeArray = Array.from(nodes.values());
     const radius = 100;
+    const seeds = this.config.direction ? this.seedByDirection(nodes, this.config.direction) : undefined;
 
     nodeArray.forEach((node, index) => {
-      if (!node.position || (node.position.x === 0 && node.position.y === 0)) {
+      if (!node.manualPosition && (!node.position || (node.position.x === 0 && node.position.y === 0))) {
+        if (seeds) {
+          node.position = seeds.get(node.id)!;
+          return;
+        }
         const angle = (index / nodeArray.length) * 2 * Math.PI;
         node.position = {
           x: Math.cos(angle) * radius,
@@ -70,6 +82,50 @@ export class ForceLayout {
     });
   }
 
+  /**
+   * 按广度优先层级计算沿流向的初始位置，层内节点居中排开
+   */
+  private seedByDirection(nodes: Map<string, FlowNode>, direction: LayoutDirection): Map<string, Position> {
+    const levels = new Map<string, number>();
+    const nodeArray = Array.from(nodes.values());
+    const queue = nodeArray.filter(node => node.getInputs().length === 0);
+    queue.forEach(node => levels.set(node.id, 0));
+
+    // 没有起点的环或孤立部分，从第一个未访问节点继续
+    for (let index = 0; levels.size < nodes.size; index++) {
+      if (index >= queue.length) {
+        const next = nodeArray.find(node => !levels.has(node.id))!;
+        levels.set(next.id, 0);
+        queue.push(next);
+      }
+      const node = queue[index];
+      node.getOutputs().forEach(output => {
+        if (nodes.has(output.id) && !levels.has(output.id)) {
+          levels.set(output.id, levels.get(node.id)! + 1);
+          queue.push(output);
+        }
+      });
+    }
+
+    const layers: FlowNode[][] = [];
+    queue.forEach(node => {
+      const level = levels.get(node.id)!;
+      (layers[level] = layers[level] || []).push(node);
+    });
+
+    const spacing = this.config.seedSpacing;
+    const seeds = new Map<string, Position>();
+    layers.forEach((layer, level) => {
+      layer.forEach((node, index) => {
+        seeds.set(node.id, fromFlowFrame(direction, {
+          x: (index - (layer.length - 1) / 2) * spacing,
+          y: level * spacing
+        }));
+      });
+    });
+    return seeds;
+  }
+
   /**
    * 单次迭代
    */
@@ -174,6 +230,10 @@ export class ForceLayout {
     forces: Map<string, Position>
   ): void {
     nodes.forEach((node, id) => {
+      // 手动定位的节点参与受力计算，但保持原位置
+      if (node.manualPosition) {
+        return;
+      }
       const velocity = velocities.get(id)!;
       const force = forces.get(id)!;
 
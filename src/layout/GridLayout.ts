@@ -0,0 +1,109 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { isHorizontal, isReversed } from './direction';
+import { Layout, getNodeSize, sortByRank } from './Layout';
+
+/**
+ * 网格布局配置
+ */
+export interface GridLayoutConfig extends LayoutConfig {
+  /** 每行（水平流向时为每列）的单元格数，默认取节点数的平方根 */
+  columns?: number;
+  /** 单元格宽度，默认取最大节点宽度加 nodeGap */
+  cellWidth?: number;
+  /** 单元格高度，默认取最大节点高度加 levelGap */
+  cellHeight?: number;
+  /** 获取节点尺寸，默认读取 style.width/height，否则使用默认节点尺寸 */
+  getNodeSize?: (node: FlowNode) => Size;
+}
+
+/**
+ * 网格布局
+ * 按流程顺序把节点依次放入单元格中心：TB/BT 逐行填充，LR/RL 逐列填充
+ * 手动定位的节点保持原位置，并占用其所在的单元格
+ */
+export class GridLayout implements Layout<GridLayoutConfig> {
+  private config: GridLayoutConfig;
+
+  constructor(config: GridLayoutConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 执行布局
+   */
+  public layout(nodes: Map<string, FlowNode>): void {
+    if (nodes.size === 0) {
+      return;
+    }
+
+    const { width: cellWidth, height: cellHeight } = this.getCellSize(nodes);
+    const direction = this.config.direction || 'TB';
+    const horizontal = isHorizontal(direction);
+    const columns = Math.max(1, Math.floor(this.config.columns ?? Math.ceil(Math.sqrt(nodes.size))));
+    const rows = Math.ceil(nodes.size / columns);
+
+    // 手动定位节点占用的单元格
+    const occupied = new Set<string>();
+    nodes.forEach(node => {
+      if (node.manualPosition) {
+        const column = Math.floor(node.position.x / cellWidth);
+        const row = Math.floor(node.position.y / cellHeight);
+        occupied.add(`${column},${row}`);
+      }
+    });
+
+    let slot = 0;
+    sortByRank(nodes).forEach(node => {
+      if (node.manualPosition) {
+        return;
+      }
+
+      let column: number;
+      let row: number;
+      do {
+        // 流向上的第几条（行/列）与条内第几个
+        const line = Math.floor(slot / columns);
+        const offset = slot % columns;
+        const along = isReversed(direction) ? rows - 1 - line : line;
+        column = horizontal ? along : offset;
+        row = horizontal ? offset : along;
+        slot++;
+      } while (occupied.has(`${column},${row}`));
+
+      node.updatePosition({
+        x: column * cellWidth + cellWidth / 2,
+        y: row * cellHeight + cellHeight / 2
+      });
+    });
+  }
+
+  /**
+   * 更新配置
+   */
+  public updateConfig(config: Partial<GridLayoutConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 单元格尺寸：未配置时按最大节点尺寸加间距计算
+   */
+  private getCellSize(nodes: Map<string, FlowNode>): Size {
+    let maxWidth = 0;
+    let maxHeight = 0;
+    nodes.forEach(node => {
+      const size = this.config.getNodeSize ? this.config.getNodeSize(node) : getNodeSize(node);
+      maxWidth = Math.max(maxWidth, size.width);
+      maxHeight = Math.max(maxHeight, size.height);
+    });
+
+    const horizontal = isHorizontal(this.config.direction || 'TB');
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    return {
+      width: this.config.cellWidth ?? maxWidth + (horizontal ? levelGap : nodeGap),
+      height: this.config.cellHeight ?? maxHeight + (horizontal ? nodeGap : levelGap)
+    };
+  }
+}
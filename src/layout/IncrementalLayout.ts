@@ -0,0 +1,269 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Position, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { isHorizontal, toFlowFrame, fromFlowFrame } from './direction';
+import { Layout, getNodeSize, sortByRank } from './Layout';
+import { LayoutEngine } from './LayoutEngine';
+
+/**
+ * 增量布局配置
+ */
+export interface IncrementalLayoutConfig extends LayoutConfig {
+  /** 首次布局（或 reset 之后）使用的完整布局，默认 LayoutEngine */
+  base?: Layout;
+  /** 节点之间的最小留白，用于判断重叠，默认 20 */
+  padding?: number;
+  /** 为新节点寻找空位时，在目标位置两侧尝试的次数，默认 6 */
+  searchSteps?: number;
+  /** 获取节点尺寸，默认读取 style.width/height，否则使用默认节点尺寸 */
+  getNodeSize?: (node: FlowNode) => Size;
+}
+
+/**
+ * 流向坐标系中的节点矩形（x 垂直流向，y 沿流向）
+ */
+interface FrameBox {
+  id: string;
+  x: number;
+  y: number;
+  /** 层内方向半尺寸 */
+  halfCross: number;
+  /** 层间方向半尺寸 */
+  halfAlong: number;
+  /** 是否可以被推开 */
+  movable: boolean;
+}
+
+/**
+ * 增量布局
+ * 首次布局交给完整布局；之后已放置的节点保持原位置，只放置新增或被标记为变化（invalidate）的节点：
+ * 新节点放在上游（或下游）邻居的下一层，优先使用附近的空位，
+ * 仍有重叠（包括拖动节点或节点尺寸变化造成的重叠）时沿层内方向最小幅度推开相邻节点；
+ * 手动定位的节点作为固定锚点不会被推动
+ */
+export class IncrementalLayout implements Layout<IncrementalLayoutConfig> {
+  private config: IncrementalLayoutConfig;
+  private base: Layout;
+  /** 已放置的节点及其上次布局后的位置和尺寸 */
+  private placed = new Map<string, string>();
+
+  constructor(config: IncrementalLayoutConfig = {}) {
+    this.config = config;
+    this.base = config.base ?? new LayoutEngine(config);
+  }
+
+  /**
+   * 执行布局
+   */
+  public layout(nodes: Map<string, FlowNode>): void {
+    // 删除的节点不再记录
+    this.placed.forEach((_, id) => {
+      if (!nodes.has(id)) {
+        this.placed.delete(id);
+      }
+    });
+
+    if (this.placed.size === 0) {
+      this.base.layout(nodes);
+      nodes.forEach(node => this.markPlaced(node));
+      return;
+    }
+
+    const direction = this.config.direction || 'TB';
+    const boxes = new Map<string, FrameBox>();
+    nodes.forEach((node, id) => boxes.set(id, this.toBox(node)));
+
+    // 被拖动或尺寸变化的节点保持原位，只推开与之重叠的相邻节点
+    const moved = Array.from(nodes.values())
+      .filter(node => this.placed.has(node.id) && this.placed.get(node.id) !== this.stateKey(node))
+      .map(node => node.id);
+    const pending = sortByRank(nodes).filter(node => !this.placed.has(node.id) && !node.manualPosition);
+    pending.forEach(node => {
+      const box = boxes.get(node.id)!;
+      const target = this.targetPosition(node, boxes, nodes);
+      const free = this.findFreePosition(box, target, boxes, nodes);
+      box.x = free.x;
+      box.y = free.y;
+      this.markPlaced(node);
+      moved.push(node.id);
+    });
+    nodes.forEach(node => {
+      if (node.manualPosition || this.placed.has(node.id)) {
+        this.markPlaced(node);
+      }
+    });
+
+    const nudged = this.resolveOverlaps(moved, boxes);
+    new Set([...moved, ...nudged]).forEach(id => {
+      const box = boxes.get(id)!;
+      const node = nodes.get(id)!;
+      if (box.movable) {
+        node.updatePosition(fromFlowFrame(direction, { x: box.x, y: box.y }));
+      }
+      this.markPlaced(node);
+    });
+  }
+
+  /**
+   * 更新配置
+   */
+  public updateConfig(config: Partial<IncrementalLayoutConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (config.base) {
+      this.base = config.base;
+    } else {
+      this.base.updateConfig(config);
+    }
+  }
+
+  /**
+   * 标记节点发生变化，下次布局时重新放置
+   */
+  public invalidate(nodeIds: string[]): void {
+    nodeIds.forEach(id => this.placed.delete(id));
+  }
+
+  /**
+   * 忘记所有已放置的节点，下次布局重新执行完整布局
+   */
+  public reset(): void {
+    this.placed.clear();
+  }
+
+  private getSize(node: FlowNode): Size {
+    return this.config.getNodeSize ? this.config.getNodeSize(node) : getNodeSize(node);
+  }
+
+  private stateKey(node: FlowNode): string {
+    const size = this.getSize(node);
+    return `${node.position.x},${node.position.y},${size.width}x${size.height}`;
+  }
+
+  private markPlaced(node: FlowNode): void {
+    this.placed.set(node.id, this.stateKey(node));
+  }
+
+  /**
+   * 转换为流向坐标系中的矩形
+   */
+  private toBox(node: FlowNode): FrameBox {
+    const direction = this.config.direction || 'TB';
+    const size = this.getSize(node);
+    const horizontal = isHorizontal(direction);
+    const position = toFlowFrame(direction, node.position);
+    return {
+      id: node.id,
+      x: position.x,
+      y: position.y,
+      halfCross: (horizontal ? size.height : size.width) / 2,
+      halfAlong: (horizontal ? size.width : size.height) / 2,
+      movable: !node.manualPosition
+    };
+  }
+
+  /**
+   * 新节点的目标位置：已放置上游节点的下一层，或已放置下游节点的上一层；
+   * 没有已放置的邻居时放在现有节点的一侧
+   */
+  private targetPosition(node: FlowNode, boxes: Map<string, FrameBox>, nodes: Map<string, FlowNode>): Position {
+    const box = boxes.get(node.id)!;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const placedBoxes = (neighbors: FlowNode[]) => neighbors
+      .filter(neighbor => neighbor.id !== node.id && nodes.has(neighbor.id) && this.placed.has(neighbor.id))
+      .map(neighbor => boxes.get(neighbor.id)!);
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const upstream = placedBoxes(node.getInputs());
+    if (upstream.length > 0) {
+      return {
+        x: mean(upstream.map(item => item.x)),
+        y: Math.max(...upstream.map(item => item.y + item.halfAlong)) + levelGap + box.halfAlong
+      };
+    }
+
+    const downstream = placedBoxes(node.getOutputs());
+    if (downstream.length > 0) {
+      return {
+        x: mean(downstream.map(item => item.x)),
+        y: Math.min(...downstream.map(item => item.y - item.halfAlong)) - levelGap - box.halfAlong
+      };
+    }
+
+    const others = Array.from(boxes.values()).filter(item => item.id !== node.id && this.placed.has(item.id));
+    return {
+      x: Math.max(...others.map(item => item.x + item.halfCross)) + nodeGap + box.halfCross,
+      y: Math.min(...others.map(item => item.y - item.halfAlong)) + box.halfAlong
+    };
+  }
+
+  /**
+   * 在目标位置两侧沿层内方向寻找不与已放置节点重叠的位置，找不到时返回目标位置
+   */
+  private findFreePosition(
+    box: FrameBox,
+    target: Position,
+    boxes: Map<string, FrameBox>,
+    nodes: Map<string, FlowNode>
+  ): Position {
+    const step = box.halfCross * 2 + (this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP);
+    const steps = this.config.searchSteps ?? 6;
+    const others = Array.from(boxes.values())
+      .filter(item => item.id !== box.id && (this.placed.has(item.id) || nodes.get(item.id)!.manualPosition));
+
+    for (let index = 0; index <= steps * 2; index++) {
+      // 0, +1, -1, +2, -2 ...
+      const offset = index === 0 ? 0 : Math.ceil(index / 2) * (index % 2 === 1 ? 1 : -1);
+      const candidate = { ...box, x: target.x + offset * step, y: target.y };
+      if (others.every(other => this.overlap(candidate, other) <= 0)) {
+        return candidate;
+      }
+    }
+    return target;
+  }
+
+  /**
+   * 逐个处理被移动的节点，把与之重叠的节点沿层内方向推开最小距离
+   * 固定节点不动时改为推动移动的节点；返回被推动过的节点
+   */
+  private resolveOverlaps(moved: string[], boxes: Map<string, FrameBox>): string[] {
+    const nudged = new Set<string>();
+    const queue = [...moved];
+    const all = Array.from(boxes.values());
+    let remaining = boxes.size * 20;
+
+    while (queue.length > 0 && remaining-- > 0) {
+      const current = boxes.get(queue.shift()!)!;
+      all.forEach(other => {
+        if (other === current) {
+          return;
+        }
+        const depth = this.overlap(current, other);
+        if (depth <= 0) {
+          return;
+        }
+        const side = other.x === current.x ? 1 : Math.sign(other.x - current.x);
+        const [pushed, sign] = other.movable ? [other, side] : [current, -side];
+        if (!pushed.movable) {
+          return;
+        }
+        pushed.x += sign * depth;
+        nudged.add(pushed.id);
+        queue.push(pushed.id);
+      });
+    }
+    return Array.from(nudged);
+  }
+
+  /**
+   * 两个矩形（含留白）在层内方向需要分开的距离，不重叠时返回 0 或负数
+   */
+  private overlap(a: FrameBox, b: FrameBox): number {
+    const padding = this.config.padding ?? 20;
+    const alongOverlap = a.halfAlong + b.halfAlong + padding - Math.abs(a.y - b.y);
+    if (alongOverlap <= 0) {
+      return 0;
+    }
+    return a.halfCross + b.halfCross + padding - Math.abs(a.x - b.x);
+  }
+}
@@ -0,0 +1,86 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+
+/**
+ * 布局算法接口
+ * 布局直接更新节点位置，手动定位（manualPosition）的节点保持原位置
+ */
+export interface Layout<C extends LayoutConfig = LayoutConfig> {
+  /** 执行布局 */
+  layout(nodes: Map<string, FlowNode>): void;
+  /** 更新配置 */
+  updateConfig(config: Partial<C>): void;
+  /** 清除布局记录的状态（流程图清空时调用） */
+  reset?(): void;
+}
+
+/**
+ * 节点尺寸：读取 style.width/height，否则使用默认节点尺寸
+ */
+export function getNodeSize(node: FlowNode): Size {
+  return {
+    width: Number(node.style?.width) || DEFAULT_CONFIG.NODE_WIDTH,
+    height: Number(node.style?.height) || DEFAULT_CONFIG.NODE_HEIGHT
+  };
+}
+
+/**
+ * 按流程顺序计算节点层级（最长路径）
+ * 从起始节点深度优先遍历，回边不参与计算，因此带驳回循环的流程也能得到稳定的顺序
+ */
+export function rankNodes(nodes: Map<string, FlowNode>): Map<string, number> {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const forward = new Map<string, string[]>();
+  const visit = (node: FlowNode) => {
+    state.set(node.id, 'visiting');
+    forward.set(node.id, []);
+    node.getOutputs().forEach(output => {
+      if (!nodes.has(output.id) || state.get(output.id) === 'visiting') {
+        return;
+      }
+      forward.get(node.id)!.push(output.id);
+      if (!state.has(output.id)) {
+        visit(output);
+      }
+    });
+    state.set(node.id, 'done');
+  };
+
+  const nodeArray = Array.from(nodes.values());
+  const starts = nodeArray.filter(node => node.getInputs().length === 0);
+  [...starts, ...nodeArray].forEach(node => {
+    if (!state.has(node.id)) {
+      visit(node);
+    }
+  });
+
+  // 在去掉回边后的有向无环图上求最长路径层级
+  const inDegree = new Map(nodeArray.map(node => [node.id, 0]));
+  forward.forEach(targets => targets.forEach(id => inDegree.set(id, inDegree.get(id)! + 1)));
+  const ranks = new Map<string, number>();
+  const queue = nodeArray.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+  queue.forEach(id => ranks.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    forward.get(id)!.forEach(target => {
+      ranks.set(target, Math.max(ranks.get(target) ?? 0, ranks.get(id)! + 1));
+      inDegree.set(target, inDegree.get(target)! - 1);
+      if (inDegree.get(target) === 0) {
+        queue.push(target);
+      }
+    });
+  }
+  return ranks;
+}
+
+/**
+ * 按流程层级排序节点，同层保持插入顺序
+ */
+export function sortByRank(nodes: Map<string, FlowNode>): FlowNode[] {
+  const ranks = rankNodes(nodes);
+  return Array.from(nodes.values())
+    .map((node, index) => ({ node, index }))
+    .sort((a, b) => ranks.get(a.node.id)! - ranks.get(b.node.id)! || a.index - b.index)
+    .map(item => item.node);
+}
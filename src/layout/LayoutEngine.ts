@@ -1,10 +1,13 @@
 import { FlowNode } from '../core/Node';
 import { LayoutConfig, Position } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { isHorizontal, fromFlowFrame } from './direction';
+import { Layout } from './Layout';
 
 /**
  * 自动布局引擎
  */
-export class LayoutEngine {
+export class LayoutEngine implements Layout {
   private config: LayoutConfig;
 
   constructor(config: LayoutConfig) {
@@ -78,15 +81,20 @@ export class LayoutEngine {
 
   /**
    * 根据层级布局节点
+   * 在流向坐标系中按从上到下排布，再转换到配置的方向
    */
   private layoutByLevels(levels: Map<number, FlowNode[]>): void {
-    const { direction, nodeGap, levelGap } = this.config;
-    const nodeWidth = 160;
-    const nodeHeight = 60;
+    const direction = this.config.direction || 'TB';
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    const horizontal = isHorizontal(direction);
+    // 层内方向与层间方向的节点尺寸
+    const crossSize = horizontal ? DEFAULT_CONFIG.NODE_HEIGHT : DEFAULT_CONFIG.NODE_WIDTH;
+    const rankSize = horizontal ? DEFAULT_CONFIG.NODE_WIDTH : DEFAULT_CONFIG.NODE_HEIGHT;
 
     levels.forEach((nodesInLevel, level) => {
-      const totalWidth = nodesInLevel.length * nodeWidth + (nodesInLevel.length - 1) * nodeGap;
-      let startX = -totalWidth / 2;
+      const totalSize = nodesInLevel.length * crossSize + (nodesInLevel.length - 1) * nodeGap;
+      const start = -totalSize / 2;
 
       nodesInLevel.forEach((node, index) => {
         // 跳过手动设置位置的节点
@@ -94,15 +102,10 @@ export class LayoutEngine {
           return;
         }
 
-        const position: Position = direction === 'TB' 
-          ? {
-              x: startX + index * (nodeWidth + nodeGap) + nodeWidth / 2,
-              y: level * (nodeHeight + levelGap) + nodeHeight / 2
-            }
-          : {
-              x: level * (nodeWidth + levelGap) + nodeWidth / 2,
-              y: startX + index * (nodeHeight + nodeGap) + nodeHeight / 2
-            };
+        const position: Position = fromFlowFrame(direction, {
+          x: start + index * (crossSize + nodeGap) + crossSize / 2,
+          y: level * (rankSize + levelGap) + rankSize / 2
+        });
 
         node.updatePosition(position);
       });
@@ -116,7 +119,3 @@ export class LayoutEngine {
     this.config = { ...this.config, ...config };
   }
 }
-
-
-
-
@@ -0,0 +1,102 @@
+import { LayoutConfig } from '../types';
+import { LayoutError } from '../utils/errors';
+import { Layout } from './Layout';
+import { LayoutEngine } from './LayoutEngine';
+import { DagreLayout } from './DagreLayout';
+import { SugiyamaLayout } from './SugiyamaLayout';
+import { ForceLayout } from './ForceLayout';
+import { GridLayout } from './GridLayout';
+import { TreeLayout } from './TreeLayout';
+import { CircularLayout } from './CircularLayout';
+import { IncrementalLayout } from './IncrementalLayout';
+
+/**
+ * 布局工厂：根据配置创建布局实例
+ */
+export type LayoutFactory = <C extends LayoutConfig>(config: C) => Layout<C>;
+
+/**
+ * 手动布局：保持节点现有位置
+ */
+class ManualLayout implements Layout {
+  public layout(): void {
+    // 不移动任何节点
+  }
+
+  public updateConfig(): void {
+    // 没有可配置项
+  }
+}
+
+/**
+ * 内置布局
+ */
+export const BUILT_IN_LAYOUTS: Record<string, LayoutFactory> = {
+  default: config => new LayoutEngine(config),
+  dagre: config => new DagreLayout(config),
+  sugiyama: config => new SugiyamaLayout(config),
+  force: config => new ForceLayout(config),
+  grid: config => new GridLayout(config),
+  tree: config => new TreeLayout(config),
+  circular: config => new CircularLayout(config),
+  manual: () => new ManualLayout()
+};
+
+/**
+ * 布局注册表
+ * 按名称管理布局算法，默认包含内置布局；第三方可以注册自定义布局
+ */
+export class LayoutRegistry {
+  private factories: Map<string, LayoutFactory> = new Map();
+
+  constructor(factories: Record<string, LayoutFactory> = BUILT_IN_LAYOUTS) {
+    Object.entries(factories).forEach(([name, factory]) => this.register(name, factory));
+  }
+
+  /**
+   * 注册布局（同名布局会被替换）
+   */
+  public register(name: string, factory: LayoutFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * 移除布局
+   */
+  public unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  /**
+   * 是否已注册
+   */
+  public has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * 获取所有布局名称
+   */
+  public getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * 创建布局实例
+   * 配置 incremental 时用 IncrementalLayout 包装，首次布局由该布局完成
+   */
+  public create(name: string, config: LayoutConfig = {}): Layout {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new LayoutError(`Unknown layout: ${name}`);
+    }
+    const layoutConfig = { ...config, type: name };
+    const layout = factory(layoutConfig);
+    return config.incremental ? new IncrementalLayout({ ...layoutConfig, base: layout }) : layout;
+  }
+}
+
+/**
+ * 全局布局注册表，FlowChart 默认从这里按名称创建布局
+ */
+export const layoutRegistry = new LayoutRegistry();
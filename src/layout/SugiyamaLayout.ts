@@ -0,0 +1,239 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { assignRanks, RankEdge, Ranker } from './sugiyama/ranking';
+import { orderLayers, OrderHeuristic, LayerAdjacency } from './sugiyama/ordering';
+import { assignCoordinates } from './sugiyama/brandesKoepf';
+import { isHorizontal, isReversed } from './direction';
+import { Layout, getNodeSize } from './Layout';
+
+/**
+ * 分层布局配置
+ */
+export interface SugiyamaLayoutConfig extends LayoutConfig {
+  /** 分层算法，默认 network-simplex */
+  ranker?: Ranker;
+  /** 交叉最小化启发式，默认 median */
+  heuristic?: OrderHeuristic;
+  /** 交叉最小化的扫描次数，默认 8 */
+  sweeps?: number;
+  /** 获取节点尺寸，默认读取 style.width/height，否则使用默认节点尺寸 */
+  getNodeSize?: (node: FlowNode) => Size;
+}
+
+/**
+ * 分层图中的节点（含长连线拆分出的虚拟节点）
+ */
+interface LayerNode {
+  id: string;
+  dummy: boolean;
+  /** 层内方向尺寸 */
+  crossSize: number;
+  /** 层间方向尺寸 */
+  rankSize: number;
+  rank: number;
+}
+
+/**
+ * Sugiyama 分层布局
+ * 去环 -> 分层（网络单纯形）-> 插入虚拟节点 -> 交叉最小化 -> Brandes-Köpf 坐标分配
+ * 手动定位的节点参与分层计算，但保持原位置
+ */
+export class SugiyamaLayout implements Layout<SugiyamaLayoutConfig> {
+  private config: SugiyamaLayoutConfig;
+
+  constructor(config: SugiyamaLayoutConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 执行布局
+   */
+  public layout(nodes: Map<string, FlowNode>): void {
+    if (nodes.size === 0) {
+      return;
+    }
+
+    const direction = this.config.direction || 'TB';
+    const horizontal = isHorizontal(direction);
+    const nodeIds = Array.from(nodes.keys());
+
+    // 1. 去环：反转深度优先遍历中的回边
+    const edges = this.removeCycles(nodes);
+
+    // 2. 分层
+    const ranks = assignRanks(nodeIds, edges, this.config.ranker || 'network-simplex');
+
+    // 3. 长连线拆分为虚拟节点，保证每条连线只跨一层
+    const layerNodes = new Map<string, LayerNode>();
+    nodes.forEach((node, id) => {
+      const size = this.getNodeSize(node);
+      layerNodes.set(id, {
+        id,
+        dummy: false,
+        crossSize: horizontal ? size.height : size.width,
+        rankSize: horizontal ? size.width : size.height,
+        rank: ranks.get(id)!
+      });
+    });
+    const upper = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+    const lower = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+    edges.forEach((edge, index) => {
+      let previous = edge.source;
+      for (let rank = ranks.get(edge.source)! + 1; rank < ranks.get(edge.target)!; rank++) {
+        const dummy = `\u0000dummy_${index}_${rank}`;
+        layerNodes.set(dummy, { id: dummy, dummy: true, crossSize: 0, rankSize: 0, rank });
+        upper.set(dummy, []);
+        lower.set(dummy, []);
+        lower.get(previous)!.push(dummy);
+        upper.get(dummy)!.push(previous);
+        previous = dummy;
+      }
+      lower.get(previous)!.push(edge.target);
+      upper.get(edge.target)!.push(previous);
+    });
+    const adjacency: LayerAdjacency = {
+      upper: id => upper.get(id) || [],
+      lower: id => lower.get(id) || []
+    };
+
+    // 4. 交叉最小化
+    const layers = orderLayers(
+      this.initialOrder(layerNodes, adjacency),
+      adjacency,
+      this.config.heuristic || 'median',
+      this.config.sweeps ?? 8
+    );
+
+    // 5. 坐标分配
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    const gap = (left: string, right: string) => {
+      const dummies = Number(layerNodes.get(left)!.dummy) + Number(layerNodes.get(right)!.dummy);
+      return nodeGap / Math.pow(2, dummies);
+    };
+    const crossSize = (id: string) => layerNodes.get(id)!.crossSize;
+    const cross = assignCoordinates(layers, {
+      adjacency,
+      isDummy: id => layerNodes.get(id)!.dummy,
+      size: crossSize,
+      gap,
+      align: this.config.align
+    });
+
+    // 平衡后可能出现重叠，逐层按顺序推开
+    layers.forEach(layer => {
+      for (let index = 1; index < layer.length; index++) {
+        const left = layer[index - 1];
+        const right = layer[index];
+        const minimum = cross.get(left)! + (crossSize(left) + crossSize(right)) / 2 + gap(left, right);
+        cross.set(right, Math.max(cross.get(right)!, minimum));
+      }
+    });
+
+    // 层间坐标：每层厚度取该层最大节点尺寸
+    const rankCenters: number[] = [];
+    let offset = 0;
+    layers.forEach((layer, index) => {
+      const thickness = Math.max(0, ...layer.map(id => layerNodes.get(id)!.rankSize));
+      rankCenters[index] = offset + thickness / 2;
+      offset += thickness + levelGap;
+    });
+    const rankExtent = offset - levelGap;
+    const crossMin = Math.min(...nodeIds.map(id => cross.get(id)! - crossSize(id) / 2));
+
+    nodes.forEach((node, id) => {
+      if (node.manualPosition) {
+        return;
+      }
+      const along = rankCenters[layerNodes.get(id)!.rank];
+      const rankPosition = isReversed(direction) ? rankExtent - along : along;
+      const crossPosition = cross.get(id)! - crossMin;
+      node.updatePosition(horizontal
+        ? { x: rankPosition, y: crossPosition }
+        : { x: crossPosition, y: rankPosition });
+    });
+  }
+
+  /**
+   * 更新配置
+   */
+  public updateConfig(config: Partial<SugiyamaLayoutConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 获取节点尺寸
+   */
+  private getNodeSize(node: FlowNode): Size {
+    return this.config.getNodeSize ? this.config.getNodeSize(node) : getNodeSize(node);
+  }
+
+  /**
+   * 去环：从起点开始深度优先遍历，把回边反转；自环和重复连线被忽略
+   */
+  private removeCycles(nodes: Map<string, FlowNode>): RankEdge[] {
+    const edges = new Map<string, RankEdge>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const addEdge = (source: string, target: string) => {
+      const key = `${source}\u0000${target}`;
+      const reverseKey = `${target}\u0000${source}`;
+      if (edges.has(key)) {
+        edges.get(key)!.weight++;
+      } else if (edges.has(reverseKey)) {
+        edges.get(reverseKey)!.weight++;
+      } else {
+        edges.set(key, { source, target, weight: 1, minLength: 1 });
+      }
+    };
+
+    const visit = (node: FlowNode) => {
+      state.set(node.id, 'visiting');
+      node.getOutputs().forEach(output => {
+        if (output.id === node.id || !nodes.has(output.id)) {
+          return;
+        }
+        const status = state.get(output.id);
+        if (status === 'visiting') {
+          addEdge(output.id, node.id);
+        } else {
+          addEdge(node.id, output.id);
+          if (status === undefined) {
+            visit(output);
+          }
+        }
+      });
+      state.set(node.id, 'done');
+    };
+
+    const roots = Array.from(nodes.values()).filter(node => node.getInputs().length === 0);
+    [...roots, ...nodes.values()].forEach(node => {
+      if (!state.has(node.id)) {
+        visit(node);
+      }
+    });
+    return Array.from(edges.values());
+  }
+
+  /**
+   * 初始排序：从第 0 层节点开始深度优先，按首次访问顺序放入各层
+   */
+  private initialOrder(layerNodes: Map<string, LayerNode>, adjacency: LayerAdjacency): string[][] {
+    const layers: string[][] = [];
+    const visited = new Set<string>();
+    const visit = (id: string) => {
+      if (visited.has(id)) {
+        return;
+      }
+      visited.add(id);
+      const rank = layerNodes.get(id)!.rank;
+      (layers[rank] = layers[rank] || []).push(id);
+      adjacency.lower(id).forEach(visit);
+    };
+
+    const ids = Array.from(layerNodes.keys());
+    ids.filter(id => layerNodes.get(id)!.rank === 0).forEach(visit);
+    ids.forEach(visit);
+    return Array.from(layers, layer => layer || []);
+  }
+}
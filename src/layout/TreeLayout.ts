@@ -0,0 +1,208 @@
+import { FlowNode } from '../core/Node';
+import { LayoutConfig, Size } from '../types';
+import { DEFAULT_CONFIG } from '../utils/constants';
+import { isHorizontal, fromFlowFrame } from './direction';
+import { Layout, getNodeSize } from './Layout';
+
+/**
+ * 树布局配置
+ */
+export interface TreeLayoutConfig extends LayoutConfig {
+  /** 根节点 ID，默认取没有输入的节点 */
+  root?: string;
+  /** 紧凑模式：子树按每层轮廓互相嵌入（默认 true）；关闭时每棵子树独占一段宽度 */
+  compact?: boolean;
+  /** 获取节点尺寸，默认读取 style.width/height，否则使用默认节点尺寸 */
+  getNodeSize?: (node: FlowNode) => Size;
+}
+
+/**
+ * 生成树中的节点
+ */
+interface TreeItem {
+  node: FlowNode;
+  depth: number;
+  children: TreeItem[];
+  /** 层内方向尺寸 */
+  crossSize: number;
+  /** 相对父节点的层内偏移 */
+  offset: number;
+}
+
+/**
+ * 子树轮廓：每个相对深度上相对子树根的左右边界
+ */
+interface Contour {
+  left: number[];
+  right: number[];
+}
+
+/**
+ * 树布局（Reingold–Tilford）
+ * 以广度优先生成树排布单根流程，汇聚和回退连线不参与排布；父节点位于首尾子节点中间
+ */
+export class TreeLayout implements Layout<TreeLayoutConfig> {
+  private config: TreeLayoutConfig;
+
+  constructor(config: TreeLayoutConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * 执行布局
+   */
+  public layout(nodes: Map<string, FlowNode>): void {
+    if (nodes.size === 0) {
+      return;
+    }
+
+    const direction = this.config.direction || 'TB';
+    const horizontal = isHorizontal(direction);
+    const nodeGap = this.config.nodeGap ?? DEFAULT_CONFIG.NODE_GAP;
+    const levelGap = this.config.levelGap ?? DEFAULT_CONFIG.LEVEL_GAP;
+    const roots = this.buildForest(nodes, node => (horizontal ? this.getSize(node).height : this.getSize(node).width));
+
+    // 自底向上计算子树轮廓和子节点偏移，多棵树依次向右排开
+    const forest = this.placeSiblings(roots.map(root => this.layoutSubtree(root, nodeGap)), nodeGap);
+    roots.forEach((root, index) => {
+      root.offset = forest.offsets[index];
+    });
+
+    // 每层厚度取该层最大节点尺寸
+    const thickness: number[] = [];
+    const collect = (item: TreeItem) => {
+      const size = this.getSize(item.node);
+      const rankSize = horizontal ? size.width : size.height;
+      thickness[item.depth] = Math.max(thickness[item.depth] ?? 0, rankSize);
+      item.children.forEach(collect);
+    };
+    roots.forEach(collect);
+    const centers: number[] = [];
+    let along = 0;
+    thickness.forEach((value, depth) => {
+      centers[depth] = along + value / 2;
+      along += value + levelGap;
+    });
+
+    const place = (item: TreeItem, parentCross: number) => {
+      const cross = parentCross + item.offset;
+      if (!item.node.manualPosition) {
+        item.node.updatePosition(fromFlowFrame(direction, { x: cross, y: centers[item.depth] }));
+      }
+      item.children.forEach(child => place(child, cross));
+    };
+    roots.forEach(root => place(root, 0));
+  }
+
+  /**
+   * 更新配置
+   */
+  public updateConfig(config: Partial<TreeLayoutConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 获取节点尺寸
+   */
+  private getSize(node: FlowNode): Size {
+    return this.config.getNodeSize ? this.config.getNodeSize(node) : getNodeSize(node);
+  }
+
+  /**
+   * 广度优先构造生成树，从根不可达的节点作为新的根
+   */
+  private buildForest(nodes: Map<string, FlowNode>, crossSize: (node: FlowNode) => number): TreeItem[] {
+    const configured = this.config.root ? nodes.get(this.config.root) : undefined;
+    const candidates = configured
+      ? [configured]
+      : Array.from(nodes.values()).filter(node => node.getInputs().length === 0);
+    const visited = new Set<string>();
+    const roots: TreeItem[] = [];
+
+    const grow = (start: FlowNode) => {
+      const root: TreeItem = { node: start, depth: 0, children: [], crossSize: crossSize(start), offset: 0 };
+      visited.add(start.id);
+      roots.push(root);
+      const queue = [root];
+      while (queue.length > 0) {
+        const item = queue.shift()!;
+        item.node.getOutputs().forEach(output => {
+          if (visited.has(output.id) || !nodes.has(output.id)) {
+            return;
+          }
+          visited.add(output.id);
+          const child: TreeItem = {
+            node: output,
+            depth: item.depth + 1,
+            children: [],
+            crossSize: crossSize(output),
+            offset: 0
+          };
+          item.children.push(child);
+          queue.push(child);
+        });
+      }
+    };
+
+    [...candidates, ...nodes.values()].forEach(node => {
+      if (!visited.has(node.id)) {
+        grow(node);
+      }
+    });
+    return roots;
+  }
+
+  /**
+   * 计算子树轮廓，并设置各子节点相对该节点的偏移
+   */
+  private layoutSubtree(item: TreeItem, gap: number): Contour {
+    const half = item.crossSize / 2;
+    if (item.children.length === 0) {
+      return { left: [-half], right: [half] };
+    }
+
+    const children = this.placeSiblings(item.children.map(child => this.layoutSubtree(child, gap)), gap);
+    // 父节点位于首尾子节点中间
+    const center = (children.offsets[0] + children.offsets[children.offsets.length - 1]) / 2;
+    item.children.forEach((child, index) => {
+      child.offset = children.offsets[index] - center;
+    });
+    return {
+      left: [-half, ...children.contour.left.map(value => value - center)],
+      right: [half, ...children.contour.right.map(value => value - center)]
+    };
+  }
+
+  /**
+   * 从左到右排列兄弟子树，返回各子树根的位置和合并后的轮廓
+   * 紧凑模式逐层比较轮廓，非紧凑模式比较整棵子树的包围范围
+   */
+  private placeSiblings(contours: Contour[], gap: number): { offsets: number[]; contour: Contour } {
+    const compact = this.config.compact ?? true;
+    const merged: Contour = { left: [...contours[0].left], right: [...contours[0].right] };
+    const offsets = [0];
+
+    contours.slice(1).forEach(contour => {
+      let shift = -Infinity;
+      if (compact) {
+        const depth = Math.min(merged.right.length, contour.left.length);
+        for (let level = 0; level < depth; level++) {
+          shift = Math.max(shift, merged.right[level] - contour.left[level] + gap);
+        }
+      } else {
+        shift = Math.max(...merged.right) - Math.min(...contour.left) + gap;
+      }
+      offsets.push(shift);
+
+      contour.left.forEach((value, level) => {
+        if (level >= merged.left.length) {
+          merged.left[level] = value + shift;
+        }
+      });
+      contour.right.forEach((value, level) => {
+        merged.right[level] = value + shift;
+      });
+    });
+    return { offsets, contour: merged };
+  }
+}
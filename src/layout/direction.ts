@@ -0,0 +1,53 @@
+import { LayoutConfig, Position } from '../types';
+
+/**
+ * 布局流向
+ */
+export type LayoutDirection = NonNullable<LayoutConfig['direction']>;
+
+/**
+ * 是否为水平流向（LR / RL）
+ */
+export function isHorizontal(direction: LayoutDirection): boolean {
+  return direction === 'LR' || direction === 'RL';
+}
+
+/**
+ * 是否为逆向流向（BT / RL）
+ */
+export function isReversed(direction: LayoutDirection): boolean {
+  return direction === 'BT' || direction === 'RL';
+}
+
+/**
+ * 画布坐标转换为流向坐标系：y 沿流向增大，x 为垂直流向的偏移
+ * 在流向坐标系中任何方向都可以按 TB 处理
+ */
+export function toFlowFrame(direction: LayoutDirection, position: Position): Position {
+  switch (direction) {
+    case 'BT':
+      return { x: position.x, y: -position.y };
+    case 'LR':
+      return { x: position.y, y: position.x };
+    case 'RL':
+      return { x: position.y, y: -position.x };
+    default:
+      return { x: position.x, y: position.y };
+  }
+}
+
+/**
+ * 流向坐标系转换回画布坐标
+ */
+export function fromFlowFrame(direction: LayoutDirection, position: Position): Position {
+  switch (direction) {
+    case 'BT':
+      return { x: position.x, y: -position.y };
+    case 'LR':
+      return { x: position.y, y: position.x };
+    case 'RL':
+      return { x: -position.y, y: position.x };
+    default:
+      return { x: position.x, y: position.y };
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * 分层布局 - Brandes-Köpf 坐标分配
+ * 计算层内（横向）坐标：对齐上下游节点形成垂直块，再紧凑排列
+ */
+
+import type { LayerAdjacency } from './ordering';
+
+/**
+ * 对齐方式：U/D 表示向上/向下对齐邻居，L/R 表示向左/向右紧凑
+ */
+export type Alignment = 'UL' | 'UR' | 'DL' | 'DR';
+
+/**
+ * 坐标分配所需信息
+ */
+export interface CoordinateOptions {
+  adjacency: LayerAdjacency;
+  /** 是否为虚拟节点 */
+  isDummy(id: string): boolean;
+  /** 节点在层内方向上的尺寸 */
+  size(id: string): number;
+  /** 相邻节点边界之间的最小间距 */
+  gap(left: string, right: string): number;
+  /** 指定对齐方式，不指定时取四种结果的平衡值 */
+  align?: Alignment;
+}
+
+const ALIGNMENTS: Alignment[] = ['UL', 'UR', 'DL', 'DR'];
+
+/**
+ * 计算层内坐标（节点中心）
+ */
+export function assignCoordinates(layers: string[][], options: CoordinateOptions): Map<string, number> {
+  const conflicts = findType1Conflicts(layers, options);
+  const results = new Map<Alignment, Map<string, number>>();
+
+  ALIGNMENTS.forEach(alignment => {
+    const upward = alignment[0] === 'U';
+    const leftward = alignment[1] === 'L';
+    let adjusted = upward ? layers : [...layers].reverse();
+    if (!leftward) {
+      adjusted = adjusted.map(layer => [...layer].reverse());
+    }
+
+    const neighbors = upward ? options.adjacency.upper : options.adjacency.lower;
+    const { root, align } = verticalAlignment(adjusted, conflicts, neighbors);
+    const xs = horizontalCompaction(adjusted, root, align, options);
+    if (!leftward) {
+      xs.forEach((x, id) => xs.set(id, -x));
+    }
+    results.set(alignment, xs);
+  });
+
+  alignToSmallest(results, options);
+
+  if (options.align) {
+    return results.get(options.align)!;
+  }
+
+  // 取四种结果中间两个值的平均
+  const balanced = new Map<string, number>();
+  layers.flat().forEach(id => {
+    const values = ALIGNMENTS.map(alignment => results.get(alignment)!.get(id)!).sort((a, b) => a - b);
+    balanced.set(id, (values[1] + values[2]) / 2);
+  });
+  return balanced;
+}
+
+/**
+ * 标记与内部线段（虚拟节点之间）交叉的非内部线段，这些线段不参与对齐
+ */
+function findType1Conflicts(layers: string[][], options: CoordinateOptions): Set<string> {
+  const conflicts = new Set<string>();
+
+  for (let index = 1; index < layers.length; index++) {
+    const previous = layers[index - 1];
+    const layer = layers[index];
+    const position = new Map(previous.map((id, order) => [id, order]));
+    let k0 = 0;
+    let scanPosition = 0;
+
+    layer.forEach((node, order) => {
+      const inner = options.isDummy(node)
+        ? options.adjacency.upper(node).find(id => options.isDummy(id))
+        : undefined;
+      const k1 = inner !== undefined ? position.get(inner)! : previous.length;
+
+      if (inner !== undefined || order === layer.length - 1) {
+        layer.slice(scanPosition, order + 1).forEach(scanNode => {
+          options.adjacency.upper(scanNode).forEach(upper => {
+            const upperPosition = position.get(upper)!;
+            if ((upperPosition < k0 || k1 < upperPosition) && !(options.isDummy(upper) && options.isDummy(scanNode))) {
+              conflicts.add(conflictKey(upper, scanNode));
+            }
+          });
+        });
+        scanPosition = order + 1;
+        k0 = k1;
+      }
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * 把节点与其邻居的中位数对齐成垂直块
+ */
+function verticalAlignment(
+  layers: string[][],
+  conflicts: Set<string>,
+  neighbors: (id: string) => string[]
+): { root: Map<string, string>; align: Map<string, string> } {
+  const root = new Map<string, string>();
+  const align = new Map<string, string>();
+  const position = new Map<string, number>();
+  layers.forEach(layer => layer.forEach((id, order) => {
+    root.set(id, id);
+    align.set(id, id);
+    position.set(id, order);
+  }));
+
+  layers.forEach(layer => {
+    let previousIndex = -1;
+    layer.forEach(node => {
+      const candidates = neighbors(node)
+        .filter(id => position.has(id))
+        .sort((a, b) => position.get(a)! - position.get(b)!);
+      if (candidates.length === 0) {
+        return;
+      }
+      const middle = (candidates.length - 1) / 2;
+      for (let index = Math.floor(middle); index <= Math.ceil(middle); index++) {
+        const candidate = candidates[index];
+        if (align.get(node) === node
+          && previousIndex < position.get(candidate)!
+          && !conflicts.has(conflictKey(node, candidate))) {
+          align.set(candidate, node);
+          root.set(node, root.get(candidate)!);
+          align.set(node, root.get(node)!);
+          previousIndex = position.get(candidate)!;
+        }
+      }
+    });
+  });
+  return { root, align };
+}
+
+/**
+ * 把垂直块向左紧凑排列
+ */
+function horizontalCompaction(
+  layers: string[][],
+  root: Map<string, string>,
+  align: Map<string, string>,
+  options: CoordinateOptions
+): Map<string, number> {
+  // 块之间的约束图：左侧块 -> 右侧块，权重为最小中心距
+  const blocks = new Set<string>();
+  const predecessors = new Map<string, Map<string, number>>();
+  const successors = new Map<string, Map<string, number>>();
+  layers.forEach(layer => {
+    layer.forEach((id, order) => {
+      const block = root.get(id)!;
+      blocks.add(block);
+      if (order === 0) {
+        return;
+      }
+      const left = layer[order - 1];
+      const leftBlock = root.get(left)!;
+      const separation = (options.size(left) + options.size(id)) / 2 + options.gap(left, id);
+      if (!successors.has(leftBlock)) {
+        successors.set(leftBlock, new Map());
+      }
+      if (!predecessors.has(block)) {
+        predecessors.set(block, new Map());
+      }
+      const weight = Math.max(separation, successors.get(leftBlock)!.get(block) ?? 0);
+      successors.get(leftBlock)!.set(block, weight);
+      predecessors.get(block)!.set(leftBlock, weight);
+    });
+  });
+
+  const order = topologicalBlocks(Array.from(blocks), successors);
+  const xs = new Map<string, number>();
+
+  // 第一遍：尽量靠左
+  order.forEach(block => {
+    let x = 0;
+    predecessors.get(block)?.forEach((weight, left) => {
+      x = Math.max(x, xs.get(left)! + weight);
+    });
+    xs.set(block, x);
+  });
+
+  // 第二遍：没有被左侧约束拉住的块向右靠拢
+  [...order].reverse().forEach(block => {
+    let limit = Infinity;
+    successors.get(block)?.forEach((weight, right) => {
+      limit = Math.min(limit, xs.get(right)! - weight);
+    });
+    if (limit !== Infinity) {
+      xs.set(block, Math.max(xs.get(block)!, limit));
+    }
+  });
+
+  const result = new Map<string, number>();
+  align.forEach((_, id) => result.set(id, xs.get(root.get(id)!)!));
+  return result;
+}
+
+function topologicalBlocks(blocks: string[], successors: Map<string, Map<string, number>>): string[] {
+  const inDegree = new Map(blocks.map(block => [block, 0]));
+  successors.forEach(targets => targets.forEach((_, target) => inDegree.set(target, inDegree.get(target)! + 1)));
+  const queue = blocks.filter(block => inDegree.get(block) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const block = queue.shift()!;
+    order.push(block);
+    successors.get(block)?.forEach((_, target) => {
+      inDegree.set(target, inDegree.get(target)! - 1);
+      if (inDegree.get(target) === 0) {
+        queue.push(target);
+      }
+    });
+  }
+  return order;
+}
+
+/**
+ * 以宽度最小的结果为基准对齐其它结果（左对齐结果对齐左边界，右对齐结果对齐右边界）
+ */
+function alignToSmallest(results: Map<Alignment, Map<string, number>>, options: CoordinateOptions): void {
+  const bounds = (xs: Map<string, number>) => {
+    let min = Infinity;
+    let max = -Infinity;
+    xs.forEach((x, id) => {
+      min = Math.min(min, x - options.size(id) / 2);
+      max = Math.max(max, x + options.size(id) / 2);
+    });
+    return { min, max };
+  };
+
+  let smallest = bounds(results.get('UL')!);
+  results.forEach(xs => {
+    const current = bounds(xs);
+    if (current.max - current.min < smallest.max - smallest.min) {
+      smallest = current;
+    }
+  });
+
+  results.forEach((xs, alignment) => {
+    const current = bounds(xs);
+    const delta = alignment[1] === 'L' ? smallest.min - current.min : smallest.max - current.max;
+    if (delta !== 0) {
+      xs.forEach((x, id) => xs.set(id, x + delta));
+    }
+  });
+}
+
+function conflictKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
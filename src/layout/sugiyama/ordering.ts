@@ -0,0 +1,193 @@
+/**
+ * 分层布局 - 交叉最小化
+ */
+
+/**
+ * 层内排序启发式
+ */
+export type OrderHeuristic = 'median' | 'barycenter';
+
+/**
+ * 相邻层的邻接关系
+ */
+export interface LayerAdjacency {
+  /** 上一层的邻居 */
+  upper(id: string): string[];
+  /** 下一层的邻居 */
+  lower(id: string): string[];
+}
+
+/**
+ * 逐层扫描排序并做相邻交换，返回交叉数最少的排序
+ */
+export function orderLayers(
+  layers: string[][],
+  adjacency: LayerAdjacency,
+  heuristic: OrderHeuristic,
+  sweeps: number
+): string[][] {
+  let current = layers.map(layer => [...layer]);
+  transpose(current, adjacency);
+  let best = current.map(layer => [...layer]);
+  let bestCrossings = countCrossings(best, adjacency);
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    current = current.map(layer => [...layer]);
+    if (sweep % 2 === 0) {
+      for (let index = 1; index < current.length; index++) {
+        current[index] = sortLayer(current[index], current[index - 1], adjacency.upper, heuristic);
+      }
+    } else {
+      for (let index = current.length - 2; index >= 0; index--) {
+        current[index] = sortLayer(current[index], current[index + 1], adjacency.lower, heuristic);
+      }
+    }
+    transpose(current, adjacency);
+
+    const crossings = countCrossings(current, adjacency);
+    if (crossings < bestCrossings) {
+      best = current.map(layer => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+}
+
+/**
+ * 统计所有相邻层之间的交叉数
+ */
+export function countCrossings(layers: string[][], adjacency: LayerAdjacency): number {
+  let total = 0;
+  for (let index = 0; index < layers.length - 1; index++) {
+    total += countLayerCrossings(layers[index], layers[index + 1], adjacency);
+  }
+  return total;
+}
+
+/**
+ * 两层之间的交叉数（按下层位置统计逆序对）
+ */
+function countLayerCrossings(upperLayer: string[], lowerLayer: string[], adjacency: LayerAdjacency): number {
+  const lowerPosition = new Map(lowerLayer.map((id, index) => [id, index]));
+  const targets: number[] = [];
+  upperLayer.forEach(id => {
+    adjacency.lower(id)
+      .map(next => lowerPosition.get(next))
+      .filter((position): position is number => position !== undefined)
+      .sort((a, b) => a - b)
+      .forEach(position => targets.push(position));
+  });
+
+  // 树状数组统计逆序对
+  const tree = new Array(lowerLayer.length + 1).fill(0);
+  let crossings = 0;
+  targets.forEach((position, count) => {
+    let seen = 0;
+    for (let index = position + 1; index > 0; index -= index & -index) {
+      seen += tree[index];
+    }
+    crossings += count - seen;
+    for (let index = position + 1; index <= lowerLayer.length; index += index & -index) {
+      tree[index]++;
+    }
+  });
+  return crossings;
+}
+
+/**
+ * 按参考层邻居的中位数/重心排序，没有邻居的节点保持原位
+ */
+function sortLayer(
+  layer: string[],
+  reference: string[],
+  neighbors: (id: string) => string[],
+  heuristic: OrderHeuristic
+): string[] {
+  const position = new Map(reference.map((id, index) => [id, index]));
+  const weights = new Map<string, number>();
+  layer.forEach(id => {
+    const positions = neighbors(id)
+      .map(next => position.get(next))
+      .filter((value): value is number => value !== undefined)
+      .sort((a, b) => a - b);
+    if (positions.length > 0) {
+      weights.set(id, heuristic === 'median'
+        ? median(positions)
+        : positions.reduce((sum, value) => sum + value, 0) / positions.length);
+    }
+  });
+
+  const movable = layer
+    .filter(id => weights.has(id))
+    .map((id, index) => ({ id, index }))
+    .sort((a, b) => weights.get(a.id)! - weights.get(b.id)! || a.index - b.index);
+
+  let next = 0;
+  return layer.map(id => (weights.has(id) ? movable[next++].id : id));
+}
+
+/**
+ * 中位数，偶数个时取中间两个的加权值（Gansner 等）
+ */
+function median(positions: number[]): number {
+  const middle = Math.floor(positions.length / 2);
+  if (positions.length % 2 === 1) {
+    return positions[middle];
+  }
+  if (positions.length === 2) {
+    return (positions[0] + positions[1]) / 2;
+  }
+  const left = positions[middle - 1] - positions[0];
+  const right = positions[positions.length - 1] - positions[middle];
+  return left + right === 0
+    ? (positions[middle - 1] + positions[middle]) / 2
+    : (positions[middle - 1] * right + positions[middle] * left) / (left + right);
+}
+
+/**
+ * 相邻节点交换能减少交叉时就交换，直到没有改进
+ */
+function transpose(layers: string[][], adjacency: LayerAdjacency): void {
+  let improved = true;
+  let rounds = 0;
+  while (improved && rounds < 10) {
+    improved = false;
+    rounds++;
+    layers.forEach((layer, index) => {
+      const upper = index > 0 ? positionsOf(layers[index - 1]) : undefined;
+      const lower = index < layers.length - 1 ? positionsOf(layers[index + 1]) : undefined;
+      const pairCrossings = (left: string, right: string) =>
+        (upper ? crossingsBetween(adjacency.upper(left), adjacency.upper(right), upper) : 0)
+        + (lower ? crossingsBetween(adjacency.lower(left), adjacency.lower(right), lower) : 0);
+
+      for (let position = 0; position < layer.length - 1; position++) {
+        const left = layer[position];
+        const right = layer[position + 1];
+        if (pairCrossings(right, left) < pairCrossings(left, right)) {
+          layer[position] = right;
+          layer[position + 1] = left;
+          improved = true;
+        }
+      }
+    });
+  }
+}
+
+function positionsOf(layer: string[]): Map<string, number> {
+  return new Map(layer.map((id, position) => [id, position]));
+}
+
+/**
+ * left 在 right 左侧时两者连线之间的交叉数
+ */
+function crossingsBetween(left: string[], right: string[], position: Map<string, number>): number {
+  let crossings = 0;
+  left.forEach(a => {
+    right.forEach(b => {
+      if (position.get(a)! > position.get(b)!) {
+        crossings++;
+      }
+    });
+  });
+  return crossings;
+}
@@ -0,0 +1,271 @@
+/**
+ * 分层布局 - 层级分配
+ */
+
+/**
+ * 参与分层的连线（已去除回边）
+ */
+export interface RankEdge {
+  source: string;
+  target: string;
+  /** 权重，越大越倾向于缩短 */
+  weight: number;
+  /** 最小层级跨度 */
+  minLength: number;
+}
+
+/**
+ * 分层算法
+ */
+export type Ranker = 'network-simplex' | 'longest-path';
+
+/**
+ * 计算节点层级，每个连通分量的最小层级为 0
+ */
+export function assignRanks(nodeIds: string[], edges: RankEdge[], ranker: Ranker): Map<string, number> {
+  const ranks = longestPathRanks(nodeIds, edges);
+  if (ranker === 'network-simplex') {
+    connectedComponents(nodeIds, edges).forEach(component => {
+      const members = new Set(component);
+      networkSimplex(component, edges.filter(edge => members.has(edge.source)), ranks);
+    });
+  }
+  normalize(nodeIds, edges, ranks);
+  return ranks;
+}
+
+/**
+ * 最长路径分层：起点在第 0 层，每个节点位于所有前驱之后
+ */
+function longestPathRanks(nodeIds: string[], edges: RankEdge[]): Map<string, number> {
+  const ranks = new Map<string, number>();
+  const incoming = new Map<string, RankEdge[]>(nodeIds.map(id => [id, []]));
+  const outgoing = new Map<string, RankEdge[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(edge => {
+    outgoing.get(edge.source)!.push(edge);
+    incoming.get(edge.target)!.push(edge);
+  });
+
+  const remaining = new Map(nodeIds.map(id => [id, incoming.get(id)!.length]));
+  const queue = nodeIds.filter(id => remaining.get(id) === 0);
+  queue.forEach(id => ranks.set(id, 0));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach(edge => {
+      ranks.set(edge.target, Math.max(ranks.get(edge.target) ?? 0, ranks.get(id)! + edge.minLength));
+      remaining.set(edge.target, remaining.get(edge.target)! - 1);
+      if (remaining.get(edge.target) === 0) {
+        queue.push(edge.target);
+      }
+    });
+  }
+  return ranks;
+}
+
+/**
+ * 网络单纯形法：在满足最小跨度的前提下最小化 Σ weight × 跨度
+ */
+function networkSimplex(component: string[], edges: RankEdge[], ranks: Map<string, number>): void {
+  if (component.length < 2) {
+    return;
+  }
+
+  const slack = (edge: RankEdge) => ranks.get(edge.target)! - ranks.get(edge.source)! - edge.minLength;
+  const incident = new Map<string, RankEdge[]>(component.map(id => [id, []]));
+  edges.forEach(edge => {
+    incident.get(edge.source)!.push(edge);
+    incident.get(edge.target)!.push(edge);
+  });
+
+  const tree = feasibleTree(component, edges, incident, ranks, slack);
+  const maxIterations = component.length * edges.length + 10;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let leaving: RankEdge | undefined;
+    let tail: Set<string> | undefined;
+    for (const edge of tree) {
+      const side = treeSide(edge, tree, incident);
+      if (cutValue(edges, side) < 0) {
+        leaving = edge;
+        tail = side;
+        break;
+      }
+    }
+    if (!leaving || !tail) {
+      return;
+    }
+
+    // 进入边：从头部分量指向尾部分量、松弛量最小的非树边
+    let entering: RankEdge | undefined;
+    edges.forEach(edge => {
+      if (!tree.has(edge) && !tail!.has(edge.source) && tail!.has(edge.target)
+        && (!entering || slack(edge) < slack(entering))) {
+        entering = edge;
+      }
+    });
+    if (!entering) {
+      return;
+    }
+
+    tree.delete(leaving);
+    tree.add(entering);
+    rankFromTree(component[0], tree, incident, ranks);
+  }
+}
+
+/**
+ * 构造紧致生成树（树边跨度都等于最小跨度）
+ */
+function feasibleTree(
+  component: string[],
+  edges: RankEdge[],
+  incident: Map<string, RankEdge[]>,
+  ranks: Map<string, number>,
+  slack: (edge: RankEdge) => number
+): Set<RankEdge> {
+  const tree = new Set<RankEdge>();
+  const inTree = new Set<string>([component[0]]);
+
+  const grow = () => {
+    const stack = Array.from(inTree);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      incident.get(id)!.forEach(edge => {
+        const other = edge.source === id ? edge.target : edge.source;
+        if (!inTree.has(other) && slack(edge) === 0) {
+          inTree.add(other);
+          tree.add(edge);
+          stack.push(other);
+        }
+      });
+    }
+  };
+
+  grow();
+  while (inTree.size < component.length) {
+    let closest: RankEdge | undefined;
+    edges.forEach(edge => {
+      if (inTree.has(edge.source) !== inTree.has(edge.target) && (!closest || slack(edge) < slack(closest))) {
+        closest = edge;
+      }
+    });
+    if (!closest) {
+      break;
+    }
+    const delta = inTree.has(closest.source) ? slack(closest) : -slack(closest);
+    inTree.forEach(id => ranks.set(id, ranks.get(id)! + delta));
+    grow();
+  }
+  return tree;
+}
+
+/**
+ * 删除树边后包含其起点的一侧
+ */
+function treeSide(removed: RankEdge, tree: Set<RankEdge>, incident: Map<string, RankEdge[]>): Set<string> {
+  const side = new Set<string>([removed.source]);
+  const stack = [removed.source];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    incident.get(id)!.forEach(edge => {
+      if (edge === removed || !tree.has(edge)) {
+        return;
+      }
+      const other = edge.source === id ? edge.target : edge.source;
+      if (!side.has(other)) {
+        side.add(other);
+        stack.push(other);
+      }
+    });
+  }
+  return side;
+}
+
+/**
+ * 割值：尾部指向头部的权重减去头部指向尾部的权重
+ */
+function cutValue(edges: RankEdge[], tail: Set<string>): number {
+  return edges.reduce((sum, edge) => {
+    const fromTail = tail.has(edge.source);
+    const toTail = tail.has(edge.target);
+    if (fromTail && !toTail) {
+      return sum + edge.weight;
+    }
+    if (!fromTail && toTail) {
+      return sum - edge.weight;
+    }
+    return sum;
+  }, 0);
+}
+
+/**
+ * 由树边重新计算层级
+ */
+function rankFromTree(
+  root: string,
+  tree: Set<RankEdge>,
+  incident: Map<string, RankEdge[]>,
+  ranks: Map<string, number>
+): void {
+  const visited = new Set<string>([root]);
+  const stack = [root];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    incident.get(id)!.forEach(edge => {
+      if (!tree.has(edge)) {
+        return;
+      }
+      if (edge.source === id && !visited.has(edge.target)) {
+        ranks.set(edge.target, ranks.get(id)! + edge.minLength);
+        visited.add(edge.target);
+        stack.push(edge.target);
+      } else if (edge.target === id && !visited.has(edge.source)) {
+        ranks.set(edge.source, ranks.get(id)! - edge.minLength);
+        visited.add(edge.source);
+        stack.push(edge.source);
+      }
+    });
+  }
+}
+
+function connectedComponents(nodeIds: string[], edges: RankEdge[]): string[][] {
+  const neighbors = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(edge => {
+    neighbors.get(edge.source)!.push(edge.target);
+    neighbors.get(edge.target)!.push(edge.source);
+  });
+
+  const visited = new Set<string>();
+  const components: string[][] = [];
+  nodeIds.forEach(id => {
+    if (visited.has(id)) {
+      return;
+    }
+    const component: string[] = [];
+    const stack = [id];
+    visited.add(id);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      component.push(current);
+      neighbors.get(current)!.forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+  return components;
+}
+
+/**
+ * 每个连通分量的层级从 0 开始
+ */
+function normalize(nodeIds: string[], edges: RankEdge[], ranks: Map<string, number>): void {
+  connectedComponents(nodeIds, edges).forEach(component => {
+    const min = Math.min(...component.map(id => ranks.get(id)!));
+    component.forEach(id => ranks.set(id, ranks.get(id)! - min));
+  });
+}
@@ -0,0 +1,423 @@
+import { NodeData, EdgeData, NodeType, LayoutConfig, EdgeStyle } from '../types';
+import { ValidationError } from '../utils/errors';
+import { MermaidShape, MERMAID_SHAPE_DELIMITERS, MERMAID_SHAPE_TYPES } from './constants';
+
+/**
+ * Mermaid 子图
+ */
+export interface MermaidSubgraph {
+  id: string;
+  label: string;
+  /** 父子图ID */
+  parent?: string;
+  /** 直接包含的节点ID */
+  nodes: string[];
+}
+
+/**
+ * Mermaid 导入结果
+ */
+export interface MermaidImportResult {
+  nodes: NodeData[];
+  edges: EdgeData[];
+  /** 布局配置（方向取自 flowchart 声明） */
+  layout: LayoutConfig;
+  subgraphs: MermaidSubgraph[];
+  /** 被忽略的语句等非致命问题 */
+  warnings: string[];
+}
+
+type Direction = NonNullable<LayoutConfig['direction']>;
+
+interface NodeRef {
+  id: string;
+  shape?: MermaidShape;
+  label?: string;
+}
+
+interface LinkToken {
+  label?: string;
+  style?: EdgeStyle;
+}
+
+const HEADER_PATTERN = /^(flowchart|graph)(?:\s+(TB|TD|BT|LR|RL))?$/i;
+const ID_PATTERN = /[\p{L}\p{N}_]+/uy;
+const CLASS_PATTERN = /:::[\w-]+/y;
+const ARROW_PATTERN = /-{2,}>|={2,}>|-\.+->|-{3,}|={3,}|-\.+-/y;
+const INLINE_LABEL_PATTERN = /(--|==|-\.)\s+/y;
+const INLINE_LABEL_CLOSE: Record<string, RegExp> = {
+  '--': /\s*(-{2,}>|-{3,})/g,
+  '==': /\s*(={2,}>|={3,})/g,
+  '-.': /\s*(\.-+>|\.-+)/g
+};
+const UNSUPPORTED_STATEMENTS = /^(classDef|class|style|linkStyle|click)\b/;
+
+/**
+ * 解析 Mermaid flowchart 语法为流程图数据
+ * 支持节点形状、连线标签、链式与 & 连线以及子图；样式类语句会被忽略
+ */
+export function parseMermaid(source: string): MermaidImportResult {
+  const statements = splitStatements(source);
+  const header = statements.shift();
+  const headerMatch = header ? HEADER_PATTERN.exec(header.text) : null;
+  if (!headerMatch) {
+    throw new ValidationError('Invalid Mermaid flowchart', ['Expected "flowchart <direction>" header']);
+  }
+
+  const direction = normalizeDirection(headerMatch[2]);
+  const warnings: string[] = [];
+  const nodeRefs = new Map<string, NodeRef & { subgraph?: string }>();
+  const edges: EdgeData[] = [];
+  const edgeIds = new Set<string>();
+  const subgraphs: MermaidSubgraph[] = [];
+  const stack: MermaidSubgraph[] = [];
+
+  const declare = (ref: NodeRef) => {
+    const current = stack[stack.length - 1];
+    const existing = nodeRefs.get(ref.id);
+    if (!existing) {
+      nodeRefs.set(ref.id, { ...ref, subgraph: current?.id });
+      current?.nodes.push(ref.id);
+      return;
+    }
+    if (ref.shape) {
+      existing.shape = ref.shape;
+      existing.label = ref.label;
+    }
+    if (!existing.subgraph && current) {
+      existing.subgraph = current.id;
+      current.nodes.push(ref.id);
+    }
+  };
+
+  statements.forEach(({ text, line }) => {
+    if (/^subgraph\b/.test(text)) {
+      const subgraph = parseSubgraphHeader(text.slice('subgraph'.length).trim(), subgraphs.length);
+      subgraph.parent = stack[stack.length - 1]?.id;
+      subgraphs.push(subgraph);
+      stack.push(subgraph);
+      return;
+    }
+    if (text === 'end') {
+      if (!stack.pop()) {
+        throw new ValidationError('Invalid Mermaid flowchart', [`Line ${line}: "end" without subgraph`]);
+      }
+      return;
+    }
+    if (/^direction\s+/.test(text)) {
+      return;
+    }
+    if (UNSUPPORTED_STATEMENTS.test(text)) {
+      warnings.push(`Line ${line}: unsupported statement "${text.split(/\s/)[0]}" ignored`);
+      return;
+    }
+
+    const { groups, links } = parseChain(text, line);
+    groups.forEach(group => group.forEach(declare));
+    links.forEach((link, index) => {
+      groups[index].forEach(source => {
+        groups[index + 1].forEach(target => {
+          const edge: EdgeData = { id: uniqueEdgeId(edgeIds, source.id, target.id), source: source.id, target: target.id };
+          if (link.label) {
+            edge.label = link.label;
+          }
+          if (link.style) {
+            edge.style = { ...link.style };
+          }
+          edges.push(edge);
+        });
+      });
+    });
+  });
+
+  if (stack.length > 0) {
+    throw new ValidationError('Invalid Mermaid flowchart', [`Subgraph "${stack[stack.length - 1].id}" is not closed`]);
+  }
+
+  const nodes = Array.from(nodeRefs.values()).map((ref, index) => {
+    const node: NodeData = {
+      id: ref.id,
+      type: resolveNodeType(ref, edges),
+      label: ref.label ?? ref.id,
+      position: { x: 0, y: index * 100 }
+    };
+    const data: Record<string, any> = {};
+    if (ref.shape) {
+      data.mermaidShape = ref.shape;
+    }
+    if (ref.subgraph) {
+      data.subgraph = ref.subgraph;
+    }
+    if (Object.keys(data).length > 0) {
+      node.data = data;
+    }
+    return node;
+  });
+
+  return { nodes, edges, layout: { direction }, subgraphs, warnings };
+}
+
+/**
+ * 按换行和分号拆分语句，去掉注释
+ */
+function splitStatements(source: string): Array<{ text: string; line: number }> {
+  const statements: Array<{ text: string; line: number }> = [];
+
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const content = raw.trim().startsWith('%%') ? '' : raw;
+    let current = '';
+    let quoted = false;
+
+    for (const char of content) {
+      if (char === '"') {
+        quoted = !quoted;
+      }
+      if (char === ';' && !quoted) {
+        statements.push({ text: current.trim(), line: index + 1 });
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    statements.push({ text: current.trim(), line: index + 1 });
+  });
+
+  return statements.filter(statement => statement.text.length > 0);
+}
+
+/**
+ * 解析子图声明：`id [标题]`、`id`、`"标题"` 或多个单词的标题
+ */
+function parseSubgraphHeader(text: string, index: number): MermaidSubgraph {
+  const withTitle = /^([\p{L}\p{N}_]+)\s*\[(.*)\]$/u.exec(text);
+  if (withTitle) {
+    return { id: withTitle[1], label: unquote(withTitle[2].trim()), nodes: [] };
+  }
+  if (/^[\p{L}\p{N}_]+$/u.test(text)) {
+    return { id: text, label: text, nodes: [] };
+  }
+  return { id: `subgraph_${index + 1}`, label: unquote(text), nodes: [] };
+}
+
+/**
+ * 解析链式语句：`A & B -->|x| C --> D`
+ */
+function parseChain(text: string, line: number): { groups: NodeRef[][]; links: LinkToken[] } {
+  const reader = new StatementReader(text, line);
+  const groups: NodeRef[][] = [readGroup(reader)];
+  const links: LinkToken[] = [];
+
+  reader.skipSpaces();
+  while (!reader.done()) {
+    links.push(readLink(reader));
+    groups.push(readGroup(reader));
+    reader.skipSpaces();
+  }
+
+  return { groups, links };
+}
+
+function readGroup(reader: StatementReader): NodeRef[] {
+  const group = [readNode(reader)];
+  reader.skipSpaces();
+  while (reader.consume('&')) {
+    group.push(readNode(reader));
+    reader.skipSpaces();
+  }
+  return group;
+}
+
+function readNode(reader: StatementReader): NodeRef {
+  reader.skipSpaces();
+  const id = reader.read(ID_PATTERN);
+  if (!id) {
+    reader.fail('node id expected');
+  }
+
+  const ref: NodeRef = { id };
+  const delimiter = MERMAID_SHAPE_DELIMITERS.find(item => reader.startsWith(item.open));
+  if (delimiter) {
+    reader.consume(delimiter.open);
+    ref.shape = delimiter.shape;
+    ref.label = reader.readText(delimiter.close);
+  }
+  reader.read(CLASS_PATTERN);
+  return ref;
+}
+
+function readLink(reader: StatementReader): LinkToken {
+  const link: LinkToken = {};
+  let arrow = '';
+
+  const open = reader.read(INLINE_LABEL_PATTERN);
+  if (open) {
+    const kind = open.trim();
+    const close = reader.readUntil(INLINE_LABEL_CLOSE[kind]);
+    link.label = unquote(close.text.trim());
+    arrow = close.match;
+  } else {
+    arrow = reader.read(ARROW_PATTERN) || '';
+    if (!arrow) {
+      reader.fail('link expected');
+    }
+  }
+
+  reader.skipSpaces();
+  if (reader.consume('|')) {
+    link.label = reader.readText('|');
+  }
+
+  if (arrow.includes('.')) {
+    link.style = { strokeDasharray: '5,5' };
+  } else if (arrow.includes('=')) {
+    link.style = { strokeWidth: 3 };
+  }
+  return link;
+}
+
+/**
+ * 语句读取器
+ */
+class StatementReader {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  skipSpaces(): void {
+    while (!this.done() && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  startsWith(value: string): boolean {
+    return this.text.startsWith(value, this.pos);
+  }
+
+  consume(value: string): boolean {
+    if (!this.startsWith(value)) {
+      return false;
+    }
+    this.pos += value.length;
+    return true;
+  }
+
+  /**
+   * 在当前位置匹配粘性正则
+   */
+  read(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      return null;
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * 读取到下一个匹配（全局正则）为止，返回之间的文本和匹配内容
+   */
+  readUntil(pattern: RegExp): { text: string; match: string } {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      this.fail('unterminated link');
+    }
+    const text = this.text.slice(this.pos, match.index);
+    this.pos = match.index + match[0].length;
+    return { text, match: match[1] };
+  }
+
+  /**
+   * 读取定界文本，支持双引号包裹
+   */
+  readText(close: string): string {
+    if (this.consume('"')) {
+      const end = this.text.indexOf('"', this.pos);
+      if (end === -1) {
+        this.fail('unterminated string');
+      }
+      const value = this.text.slice(this.pos, end);
+      this.pos = end + 1;
+      this.skipSpaces();
+      if (!this.consume(close)) {
+        this.fail(`"${close}" expected`);
+      }
+      return decodeEntities(value);
+    }
+
+    const end = this.text.indexOf(close, this.pos);
+    if (end === -1) {
+      this.fail(`"${close}" expected`);
+    }
+    const value = this.text.slice(this.pos, end);
+    this.pos = end + close.length;
+    return decodeEntities(value.trim());
+  }
+
+  fail(message: string): never {
+    throw new ValidationError('Invalid Mermaid flowchart', [
+      `Line ${this.line}, column ${this.pos + 1}: ${message}`
+    ]);
+  }
+}
+
+/**
+ * 根据形状和连线确定节点类型
+ */
+function resolveNodeType(ref: NodeRef, edges: EdgeData[]): NodeType {
+  if (!ref.shape) {
+    return NodeType.PROCESS;
+  }
+
+  const type = MERMAID_SHAPE_TYPES[ref.shape];
+  const incoming = edges.filter(edge => edge.target === ref.id).length;
+  const outgoing = edges.filter(edge => edge.source === ref.id).length;
+
+  if (type === NodeType.START) {
+    if (incoming === 0) {
+      return NodeType.START;
+    }
+    return outgoing === 0 ? NodeType.END : NodeType.PROCESS;
+  }
+  if (type === NodeType.PARALLEL && incoming > 1 && outgoing <= 1) {
+    return NodeType.MERGE;
+  }
+  return type;
+}
+
+function uniqueEdgeId(ids: Set<string>, source: string, target: string): string {
+  const base = `edge_${source}_${target}`;
+  let id = base;
+  for (let index = 1; ids.has(id); index++) {
+    id = `${base}_${index}`;
+  }
+  ids.add(id);
+  return id;
+}
+
+function normalizeDirection(value?: string): Direction {
+  const direction = (value || 'TB').toUpperCase();
+  return (direction === 'TD' ? 'TB' : direction) as Direction;
+}
+
+function unquote(value: string): string {
+  return decodeEntities(/^".*"$/.test(value) ? value.slice(1, -1) : value);
+}
+
+/**
+ * 解码 Mermaid 实体（#quot; 或 #35; 形式）
+ */
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { quot: '"', amp: '&', lt: '<', gt: '>' };
+  return value.replace(/#(\w+);/g, (match, code: string) => {
+    if (/^\d+$/.test(code)) {
+      return String.fromCharCode(Number(code));
+    }
+    return named[code] ?? match;
+  });
+}
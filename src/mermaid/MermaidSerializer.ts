@@ -0,0 +1,145 @@
+import type { FlowChart } from '../core/FlowChart';
+import { NodeData, EdgeData, NodeType, LayoutConfig } from '../types';
+import {
+  MermaidShape,
+  MERMAID_SHAPE_DELIMITERS,
+  MERMAID_SHAPE_TYPES,
+  NODE_TYPE_SHAPES,
+  MERMAID_RESERVED_IDS
+} from './constants';
+import type { MermaidSubgraph } from './MermaidParser';
+
+/**
+ * Mermaid 导出配置
+ */
+export interface MermaidExportOptions {
+  /** 方向，默认取流程图的布局方向，数据对象默认 TB */
+  direction?: LayoutConfig['direction'];
+  /** 子图定义（提供标题和嵌套关系），节点通过 data.subgraph 归属子图 */
+  subgraphs?: Array<Pick<MermaidSubgraph, 'id' | 'label' | 'parent'>>;
+}
+
+/**
+ * 将流程图序列化为 Mermaid flowchart 语法
+ */
+export function toMermaid(
+  source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] },
+  options: MermaidExportOptions = {}
+): string {
+  const { nodes, edges } = 'toJSON' in source ? source.toJSON() : source;
+  const direction = options.direction || ('toJSON' in source ? source.getLayoutConfig().direction : undefined) || 'TB';
+  const ids = createIdMap(nodes.map(node => node.id));
+  const lines = [`flowchart ${direction}`];
+
+  // 子图树
+  const subgraphs = new Map<string, { label: string; parent?: string }>();
+  options.subgraphs?.forEach(subgraph => {
+    subgraphs.set(subgraph.id, { label: subgraph.label, parent: subgraph.parent });
+  });
+  nodes.forEach(node => {
+    const subgraph = node.data?.subgraph;
+    if (typeof subgraph === 'string' && !subgraphs.has(subgraph)) {
+      subgraphs.set(subgraph, { label: subgraph });
+    }
+  });
+
+  subgraphs.forEach(subgraph => {
+    if (subgraph.parent && !subgraphs.has(subgraph.parent)) {
+      subgraph.parent = undefined;
+    }
+  });
+
+  const writeScope = (scope: string | undefined, indent: string) => {
+    nodes
+      .filter(node => node.data?.subgraph === scope)
+      .forEach(node => lines.push(`${indent}${ids.get(node.id)}${formatShape(node)}`));
+
+    subgraphs.forEach((subgraph, id) => {
+      if (subgraph.parent !== scope) {
+        return;
+      }
+      lines.push(`${indent}subgraph ${sanitizeId(id)} [${quote(subgraph.label)}]`);
+      writeScope(id, `${indent}  `);
+      lines.push(`${indent}end`);
+    });
+  };
+  writeScope(undefined, '  ');
+
+  edges.forEach(edge => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) {
+      return;
+    }
+    const label = edge.label ?? edge.condition;
+    const text = label ? `|${quote(label)}|` : '';
+    lines.push(`  ${source} ${getArrow(edge)}${text} ${target}`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * 为节点生成合法且唯一的 Mermaid ID
+ */
+function createIdMap(nodeIds: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  const used = new Set<string>();
+
+  nodeIds.forEach(id => {
+    const base = sanitizeId(id);
+    let candidate = base;
+    for (let index = 1; used.has(candidate); index++) {
+      candidate = `${base}_${index}`;
+    }
+    used.add(candidate);
+    map.set(id, candidate);
+  });
+
+  return map;
+}
+
+function sanitizeId(id: string): string {
+  const cleaned = id.replace(/[^\p{L}\p{N}_]/gu, '_') || '_';
+  return MERMAID_RESERVED_IDS.includes(cleaned.toLowerCase()) ? `${cleaned}_` : cleaned;
+}
+
+/**
+ * 获取节点形状文本，优先保留导入时的原始形状
+ */
+function formatShape(node: NodeData): string {
+  const shape = getShape(node);
+  const delimiter = MERMAID_SHAPE_DELIMITERS.find(item => item.shape === shape)!;
+  return `${delimiter.open}${quote(node.label)}${delimiter.close}`;
+}
+
+function getShape(node: NodeData): MermaidShape {
+  const original = node.data?.mermaidShape as MermaidShape | undefined;
+  if (original && original in MERMAID_SHAPE_TYPES) {
+    const mapped = MERMAID_SHAPE_TYPES[original];
+    const compatible = mapped === node.type
+      || (mapped === NodeType.START && (node.type === NodeType.END || node.type === NodeType.PROCESS))
+      || (mapped === NodeType.PARALLEL && node.type === NodeType.MERGE);
+    if (compatible) {
+      return original;
+    }
+  }
+  return NODE_TYPE_SHAPES[node.type] || 'rect';
+}
+
+function getArrow(edge: EdgeData): string {
+  if (edge.style?.strokeDasharray) {
+    return '-.->';
+  }
+  if ((edge.style?.strokeWidth || 0) >= 3) {
+    return '==>';
+  }
+  return '-->';
+}
+
+/**
+ * 文本统一加引号，# 和引号转为 Mermaid 实体
+ */
+function quote(text: string): string {
+  return `"${text.replace(/#/g, '#35;').replace(/"/g, '#quot;')}"`;
+}
@@ -0,0 +1,66 @@
+import { NodeType } from '../types';
+
+/**
+ * Mermaid 节点形状
+ */
+export type MermaidShape =
+  | 'rect'
+  | 'round'
+  | 'stadium'
+  | 'circle'
+  | 'rhombus'
+  | 'hexagon'
+  | 'subroutine'
+  | 'cylinder'
+  | 'asymmetric';
+
+/**
+ * 形状定界符（按匹配优先级排列，双字符定界符在前）
+ */
+export const MERMAID_SHAPE_DELIMITERS: Array<{ shape: MermaidShape; open: string; close: string }> = [
+  { shape: 'stadium', open: '([', close: '])' },
+  { shape: 'circle', open: '((', close: '))' },
+  { shape: 'hexagon', open: '{{', close: '}}' },
+  { shape: 'subroutine', open: '[[', close: ']]' },
+  { shape: 'cylinder', open: '[(', close: ')]' },
+  { shape: 'rect', open: '[', close: ']' },
+  { shape: 'round', open: '(', close: ')' },
+  { shape: 'rhombus', open: '{', close: '}' },
+  { shape: 'asymmetric', open: '>', close: ']' }
+];
+
+/**
+ * 形状到节点类型的映射
+ * stadium/circle 需要根据连线判断是开始还是结束，hexagon 需要区分并行与汇聚
+ */
+export const MERMAID_SHAPE_TYPES: Record<MermaidShape, NodeType> = {
+  rect: NodeType.PROCESS,
+  round: NodeType.APPROVAL,
+  stadium: NodeType.START,
+  circle: NodeType.START,
+  rhombus: NodeType.CONDITION,
+  hexagon: NodeType.PARALLEL,
+  subroutine: NodeType.PROCESS,
+  cylinder: NodeType.PROCESS,
+  asymmetric: NodeType.PROCESS
+};
+
+/**
+ * 节点类型对应的默认形状
+ */
+export const NODE_TYPE_SHAPES: Record<NodeType, MermaidShape> = {
+  [NodeType.START]: 'stadium',
+  [NodeType.END]: 'stadium',
+  [NodeType.PROCESS]: 'rect',
+  [NodeType.APPROVAL]: 'round',
+  [NodeType.CONDITION]: 'rhombus',
+  [NodeType.PARALLEL]: 'hexagon',
+  [NodeType.MERGE]: 'hexagon'
+};
+
+/**
+ * 不能直接作为节点ID的关键字
+ */
+export const MERMAID_RESERVED_IDS = [
+  'end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click', 'linkstyle'
+];
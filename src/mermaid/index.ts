@@ -0,0 +1,7 @@
+/**
+ * Mermaid flowchart 导入导出
+ */
+
+export { parseMermaid, type MermaidImportResult, type MermaidSubgraph } from './MermaidParser';
+export { toMermaid, type MermaidExportOptions } from './MermaidSerializer';
+export { type MermaidShape } from './constants';
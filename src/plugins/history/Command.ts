@@ -14,6 +14,9 @@ export interface Command {
 
   /** 重做命令 */
   redo(): void;
+
+  /** 尝试将后续命令合并到当前命令，返回是否合并成功 */
+  mergeWith?(command: Command): boolean;
 }
 
 /**
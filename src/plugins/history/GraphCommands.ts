@@ -0,0 +1,295 @@
+/**
+ * 图编辑命令 - 对 Graph 的每类变更提供可撤销的命令实现
+ */
+
+import { Graph } from '../../core/Graph';
+import { NodeModel } from '../../core/model/Node';
+import { EdgeModel } from '../../core/model/Edge';
+import { NodeConfig, EdgeConfig, Position, Size, NodeStyle, EdgeStyle } from '../../types/model';
+import { BaseCommand, Command } from './Command';
+
+/**
+ * 生成节点快照（可直接用于 graph.addNode 还原）
+ */
+export function snapshotNode(model: NodeModel): NodeConfig {
+  return model.toConfig();
+}
+
+/**
+ * 生成边快照（可直接用于 graph.addEdge 还原）
+ */
+export function snapshotEdge(model: EdgeModel): EdgeConfig {
+  return model.toConfig();
+}
+
+/**
+ * 获取节点或边模型
+ */
+function getModel(graph: Graph, kind: 'node' | 'edge', id: string): NodeModel | EdgeModel | undefined {
+  return kind === 'node' ? graph.getNode(id) : graph.getEdge(id);
+}
+
+/**
+ * 添加节点命令
+ */
+export class AddNodeCommand extends BaseCommand {
+  name = 'addNode';
+
+  constructor(private graph: Graph, private config: NodeConfig) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.addNode({ ...this.config });
+  }
+
+  undo(): void {
+    this.graph.removeNode(this.config.id);
+  }
+}
+
+/**
+ * 移除节点命令（撤销时同时恢复相连的边）
+ */
+export class RemoveNodeCommand extends BaseCommand {
+  name = 'removeNode';
+
+  constructor(
+    private graph: Graph,
+    private config: NodeConfig,
+    private edges: EdgeConfig[] = []
+  ) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.removeNode(this.config.id);
+  }
+
+  undo(): void {
+    this.graph.addNode({ ...this.config });
+    this.edges.forEach(edge => {
+      if (!this.graph.getEdge(edge.id)) {
+        this.graph.addEdge({ ...edge });
+      }
+    });
+  }
+}
+
+/**
+ * 添加边命令
+ */
+export class AddEdgeCommand extends BaseCommand {
+  name = 'addEdge';
+
+  constructor(private graph: Graph, private config: EdgeConfig) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.addEdge({ ...this.config });
+  }
+
+  undo(): void {
+    this.graph.removeEdge(this.config.id);
+  }
+}
+
+/**
+ * 移除边命令
+ */
+export class RemoveEdgeCommand extends BaseCommand {
+  name = 'removeEdge';
+
+  constructor(private graph: Graph, private config: EdgeConfig) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.removeEdge(this.config.id);
+  }
+
+  undo(): void {
+    this.graph.addEdge({ ...this.config });
+  }
+}
+
+/**
+ * 移动节点命令
+ */
+export class MoveNodeCommand extends BaseCommand {
+  name = 'moveNode';
+
+  constructor(
+    private graph: Graph,
+    public readonly nodeId: string,
+    private from: Position,
+    private to: Position
+  ) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.getNode(this.nodeId)?.setPosition(this.to);
+  }
+
+  undo(): void {
+    this.graph.getNode(this.nodeId)?.setPosition(this.from);
+  }
+
+  /**
+   * 合并同一节点的连续移动（如拖拽过程中的多次 mousemove）
+   */
+  mergeWith(command: Command): boolean {
+    if (!(command instanceof MoveNodeCommand) || command.nodeId !== this.nodeId) {
+      return false;
+    }
+    this.to = command.to;
+    return true;
+  }
+}
+
+/**
+ * 调整节点尺寸命令
+ */
+export class ResizeNodeCommand extends BaseCommand {
+  name = 'resizeNode';
+
+  constructor(
+    private graph: Graph,
+    public readonly nodeId: string,
+    private from: Size,
+    private to: Size
+  ) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.getNode(this.nodeId)?.setSize(this.to);
+  }
+
+  undo(): void {
+    this.graph.getNode(this.nodeId)?.setSize(this.from);
+  }
+
+  /**
+   * 合并同一节点的连续调整（如拖拽缩放过程中的多次 mousemove）
+   */
+  mergeWith(command: Command): boolean {
+    if (!(command instanceof ResizeNodeCommand) || command.nodeId !== this.nodeId) {
+      return false;
+    }
+    this.to = command.to;
+    return true;
+  }
+}
+
+/**
+ * 更新样式命令（节点或边）
+ */
+export class UpdateStyleCommand extends BaseCommand {
+  name = 'updateStyle';
+
+  constructor(
+    private graph: Graph,
+    private kind: 'node' | 'edge',
+    private id: string,
+    private style: NodeStyle | EdgeStyle,
+    private oldStyle: NodeStyle | EdgeStyle
+  ) {
+    super();
+  }
+
+  execute(): void {
+    getModel(this.graph, this.kind, this.id)?.setStyle(this.style);
+  }
+
+  undo(): void {
+    // setStyle 为合并语义，新增的样式键需要显式清除
+    const restored: Record<string, any> = {};
+    Object.keys(this.style).forEach(key => {
+      restored[key] = undefined;
+    });
+    getModel(this.graph, this.kind, this.id)?.setStyle({ ...restored, ...this.oldStyle });
+  }
+}
+
+/**
+ * 更新数据命令（节点或边）
+ */
+export class UpdateDataCommand extends BaseCommand {
+  name = 'updateData';
+
+  constructor(
+    private graph: Graph,
+    private kind: 'node' | 'edge',
+    private id: string,
+    private key: string,
+    private value: unknown,
+    private oldValue: unknown
+  ) {
+    super();
+  }
+
+  execute(): void {
+    getModel(this.graph, this.kind, this.id)?.setData(this.key, this.value);
+  }
+
+  undo(): void {
+    getModel(this.graph, this.kind, this.id)?.setData(this.key, this.oldValue);
+  }
+}
+
+/**
+ * 边路径点命令
+ */
+export class WaypointCommand extends BaseCommand {
+  name = 'waypoint';
+
+  constructor(
+    private graph: Graph,
+    private edgeId: string,
+    private waypoints: Position[],
+    private oldWaypoints: Position[]
+  ) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.getEdge(this.edgeId)?.setWaypoints(this.waypoints);
+  }
+
+  undo(): void {
+    this.graph.getEdge(this.edgeId)?.setWaypoints(this.oldWaypoints);
+  }
+}
+
+/**
+ * 批量命令 - 将一次事务中的多个命令作为一个撤销步骤
+ */
+export class BatchCommand extends BaseCommand {
+  name = 'batch';
+
+  constructor(private graph: Graph, private commands: Command[]) {
+    super();
+  }
+
+  execute(): void {
+    this.graph.batch(() => {
+      this.commands.forEach(command => command.redo());
+    });
+  }
+
+  undo(): void {
+    this.graph.batch(() => {
+      [...this.commands].reverse().forEach(command => command.undo());
+    });
+  }
+
+  /**
+   * 获取包含的命令
+   */
+  getCommands(): Command[] {
+    return [...this.commands];
+  }
+}
@@ -5,7 +5,29 @@
 import { Graph } from '../../core/Graph';
 import { Plugin, HistoryConfig } from '../../types/plugin';
 import { Command } from './Command';
-import { GraphEvent } from '../../types/graph';
+import { GraphEvent, GraphChange, GraphChangeEvent, GraphBatchEvent, GraphUpdateEvent } from '../../types/graph';
+import {
+  AddNodeCommand,
+  RemoveNodeCommand,
+  AddEdgeCommand,
+  RemoveEdgeCommand,
+  MoveNodeCommand,
+  ResizeNodeCommand,
+  UpdateStyleCommand,
+  UpdateDataCommand,
+  WaypointCommand,
+  BatchCommand
+} from './GraphCommands';
+
+/** 需要记录的图变更事件 */
+const RECORDED_EVENTS: GraphChangeEvent[] = [
+  GraphEvent.NODE_ADDED,
+  GraphEvent.NODE_REMOVED,
+  GraphEvent.NODE_UPDATED,
+  GraphEvent.EDGE_ADDED,
+  GraphEvent.EDGE_REMOVED,
+  GraphEvent.EDGE_UPDATED
+];
 
 export class HistoryPlugin implements Plugin {
   name = 'HistoryPlugin';
@@ -15,36 +37,190 @@ export class HistoryPlugin implements Plugin {
   private undoStack: Command[] = [];
   private redoStack: Command[] = [];
   private maxStack: number;
+  private mergeInterval: number;
+
+  // 执行撤销/重做期间产生的图事件不再记录
+  private applying = false;
+  private lastRecordTime = 0;
 
   constructor(config: HistoryConfig = {}) {
     this.config = config;
     this.maxStack = config.maxStack || 50;
+    this.mergeInterval = config.mergeInterval ?? 500;
   }
 
+  // 每个图事件对应的监听器，便于卸载
+  private listeners: Map<GraphEvent, (payload: unknown) => void> = new Map();
+
   install(graph: Graph): void {
     this.graph = graph;
 
-    // 监听图事件，记录命令
-    // 这里需要根据具体的事件类型创建相应的命令
-    // 由于时间关系，这里只提供基本框架
+    RECORDED_EVENTS.forEach(event => {
+      const listener = (payload: unknown) => {
+        const command = this.createCommand({ event, payload } as GraphChange);
+        if (command) {
+          this.record(command);
+        }
+      };
+      this.listeners.set(event, listener);
+      graph.on(event, listener);
+    });
+    graph.on(GraphEvent.BATCH_END, this.handleBatchEnd);
   }
 
   uninstall(): void {
+    if (this.graph) {
+      const graph = this.graph;
+      this.listeners.forEach((listener, event) => graph.off(event, listener));
+      graph.off(GraphEvent.BATCH_END, this.handleBatchEnd);
+    }
+    this.listeners.clear();
     this.clear();
     this.graph = null;
   }
 
+  /**
+   * 事务提交时将所有变更合并为一个命令
+   */
+  private handleBatchEnd = ({ changes, rolledBack }: GraphBatchEvent): void => {
+    if (!this.graph || rolledBack) {
+      return;
+    }
+
+    const commands: Command[] = [];
+    changes.forEach(change => {
+      const command = this.createCommand(change);
+      const last = commands[commands.length - 1];
+      if (command && !last?.mergeWith?.(command)) {
+        commands.push(command);
+      }
+    });
+
+    if (commands.length === 1) {
+      this.record(commands[0]);
+    } else if (commands.length > 1) {
+      this.record(new BatchCommand(this.graph, commands));
+    }
+  };
+
+  /**
+   * 根据图变更创建对应的命令
+   */
+  private createCommand({ event, payload }: GraphChange): Command | null {
+    const graph = this.graph;
+    if (!graph) {
+      return null;
+    }
+
+    switch (event) {
+      case GraphEvent.NODE_ADDED:
+        return this.config.ignoreAdd ? null : new AddNodeCommand(graph, payload.model.toConfig());
+
+      case GraphEvent.EDGE_ADDED:
+        return this.config.ignoreAdd ? null : new AddEdgeCommand(graph, payload.model.toConfig());
+
+      case GraphEvent.NODE_REMOVED:
+        if (this.config.ignoreRemove) {
+          return null;
+        }
+        return new RemoveNodeCommand(
+          graph,
+          payload.model.toConfig(),
+          payload.edges.map(edge => edge.toConfig())
+        );
+
+      case GraphEvent.EDGE_REMOVED:
+        // 随节点一起移除的边由 RemoveNodeCommand 负责恢复
+        if (this.config.ignoreRemove || payload.cascade) {
+          return null;
+        }
+        return new RemoveEdgeCommand(graph, payload.model.toConfig());
+
+      case GraphEvent.NODE_UPDATED:
+      case GraphEvent.EDGE_UPDATED:
+        return this.config.ignoreUpdate ? null : this.createUpdateCommand(graph, event, payload);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 创建更新类命令
+   */
+  private createUpdateCommand(graph: Graph, event: GraphEvent, update: GraphUpdateEvent): Command | null {
+    // 没有 property 的事件（如拖拽结束通知）不携带变更内容
+    const { id } = update;
+    const kind = event === GraphEvent.NODE_UPDATED ? 'node' : 'edge';
+
+    if (update.property === 'position' && kind === 'node') {
+      return new MoveNodeCommand(graph, id, update.oldValue, update.value);
+    }
+    if (update.property === 'size' && kind === 'node') {
+      return new ResizeNodeCommand(graph, id, update.oldValue, update.value);
+    }
+    if (update.property === 'waypoints' && kind === 'edge') {
+      return new WaypointCommand(graph, id, update.value, update.oldValue);
+    }
+    if (update.property === 'style') {
+      return new UpdateStyleCommand(graph, kind, id, update.value, update.oldValue);
+    }
+    if (update.property === 'data' && update.key) {
+      return new UpdateDataCommand(graph, kind, id, update.key, update.value, update.oldValue);
+    }
+    return null;
+  }
+
   /**
    * 执行命令并记录
    */
   execute(command: Command): void {
-    command.execute();
+    this.apply(() => command.execute());
+    this.pushCommand(command);
+    this.emitChange();
+  }
+
+  /**
+   * 记录已经发生的变更（不再执行）
+   */
+  record(command: Command): void {
+    if (this.applying) {
+      return;
+    }
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    const mergeable = last && this.redoStack.length === 0 && now - this.lastRecordTime < this.mergeInterval;
+    this.lastRecordTime = now;
+
+    if (mergeable && last.mergeWith?.(command)) {
+      return;
+    }
+
     this.pushCommand(command);
+    this.emitChange();
+  }
 
+  /**
+   * 执行命令期间屏蔽记录
+   */
+  private apply(fn: () => void): void {
+    this.applying = true;
+    try {
+      fn();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * 通知历史状态变化
+   */
+  private emitChange(): void {
     if (this.graph) {
       this.graph.emit(GraphEvent.HISTORY_CHANGE, {
         canUndo: this.canUndo(),
-        canRedo: this.canRedo(),
+        canRedo: this.canRedo()
       });
     }
   }
@@ -68,18 +244,14 @@ export class HistoryPlugin implements Plugin {
    * 撤销
    */
   undo(): boolean {
-    if (!this.canUndo()) return false;
+    if (!this.canUndo()) {
+      return false;
+    }
 
     const command = this.undoStack.pop()!;
-    command.undo();
+    this.apply(() => command.undo());
     this.redoStack.push(command);
-
-    if (this.graph) {
-      this.graph.emit(GraphEvent.HISTORY_CHANGE, {
-        canUndo: this.canUndo(),
-        canRedo: this.canRedo(),
-      });
-    }
+    this.emitChange();
 
     return true;
   }
@@ -88,18 +260,14 @@ export class HistoryPlugin implements Plugin {
    * 重做
    */
   redo(): boolean {
-    if (!this.canRedo()) return false;
+    if (!this.canRedo()) {
+      return false;
+    }
 
     const command = this.redoStack.pop()!;
-    command.redo();
+    this.apply(() => command.redo());
     this.undoStack.push(command);
-
-    if (this.graph) {
-      this.graph.emit(GraphEvent.HISTORY_CHANGE, {
-        canUndo: this.canUndo(),
-        canRedo: this.canRedo(),
-      });
-    }
+    this.emitChange();
 
     return true;
   }
@@ -124,13 +292,8 @@ export class HistoryPlugin implements Plugin {
   clear(): void {
     this.undoStack = [];
     this.redoStack = [];
-
-    if (this.graph) {
-      this.graph.emit(GraphEvent.HISTORY_CHANGE, {
-        canUndo: false,
-        canRedo: false,
-      });
-    }
+    this.lastRecordTime = 0;
+    this.emitChange();
   }
 
   /**
@@ -141,14 +304,13 @@ export class HistoryPlugin implements Plugin {
     redoStack: number;
     canUndo: boolean;
     canRedo: boolean;
-  } {
+    } {
     return {
       undoStack: this.undoStack.length,
       redoStack: this.redoStack.length,
       canUndo: this.canUndo(),
-      canRedo: this.canRedo(),
+      canRedo: this.canRedo()
     };
   }
 }
 
-
@@ -4,5 +4,19 @@
 
 export { Command, BaseCommand } from './Command';
 export { HistoryPlugin } from './History';
+export {
+  AddNodeCommand,
+  RemoveNodeCommand,
+  AddEdgeCommand,
+  RemoveEdgeCommand,
+  MoveNodeCommand,
+  ResizeNodeCommand,
+  UpdateStyleCommand,
+  UpdateDataCommand,
+  WaypointCommand,
+  BatchCommand,
+  snapshotNode,
+  snapshotEdge
+} from './GraphCommands';
 
 
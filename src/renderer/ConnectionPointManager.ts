@@ -1,6 +1,7 @@
 import { Position, NodeType } from '../types';
 import { FlowNode } from '../core/Node';
 import { FlowEdge } from '../core/Edge';
+import type { PortSpan } from '../router/EdgeNudger';
 
 /**
  * 连接点方向
@@ -26,12 +27,24 @@ export interface ConnectionPoint {
   priority: number;              // 优先级（用于排序）
 }
 
+/**
+ * 连线端口：所在边、位置和节点尺寸
+ */
+export interface EdgePort {
+  side: ConnectionSide;
+  position: Position;
+  width: number;
+  height: number;
+}
+
 /**
  * 节点形状接口
  */
 interface NodeShape {
   getConnectionPoints(node: FlowNode, width: number, height: number): ConnectionPoint[];
   getConnectionPoint(node: FlowNode, width: number, height: number, side: ConnectionSide, offset?: number): Position;
+  /** 只有顶点连接点的形状：某一侧轮廓上沿该侧方向坐标为 along 的点 */
+  getOutlinePoint?(node: FlowNode, width: number, height: number, side: ConnectionSide, along: number): Position;
 }
 
 /**
@@ -176,6 +189,21 @@ class DiamondShape implements NodeShape {
         return { x: x - halfW, y };
     }
   }
+
+  getOutlinePoint(node: FlowNode, width: number, height: number, side: ConnectionSide, along: number): Position {
+    const { x, y } = node.position;
+    const halfW = width / 2;
+    const halfH = height / 2;
+
+    if (side === ConnectionSide.TOP || side === ConnectionSide.BOTTOM) {
+      const dx = Math.min(halfW, Math.max(-halfW, along - x));
+      const depth = halfH * (1 - Math.abs(dx) / halfW);
+      return { x: x + dx, y: side === ConnectionSide.TOP ? y - depth : y + depth };
+    }
+    const dy = Math.min(halfH, Math.max(-halfH, along - y));
+    const depth = halfW * (1 - Math.abs(dy) / halfH);
+    return { x: side === ConnectionSide.LEFT ? x - depth : x + depth, y: y + dy };
+  }
 }
 
 /**
@@ -242,6 +270,25 @@ class CircleShape implements NodeShape {
       y: y + radius * Math.sin(rad)
     };
   }
+
+  getOutlinePoint(node: FlowNode, width: number, height: number, side: ConnectionSide, along: number): Position {
+    const { x, y } = node.position;
+    const radius = Math.min(width, height) / 2;
+    const vertical = side === ConnectionSide.TOP || side === ConnectionSide.BOTTOM;
+    const offset = Math.min(radius, Math.max(-radius, along - (vertical ? x : y)));
+    const depth = Math.sqrt(radius * radius - offset * offset);
+
+    switch (side) {
+      case ConnectionSide.TOP:
+        return { x: x + offset, y: y - depth };
+      case ConnectionSide.BOTTOM:
+        return { x: x + offset, y: y + depth };
+      case ConnectionSide.LEFT:
+        return { x: x - depth, y: y + offset };
+      case ConnectionSide.RIGHT:
+        return { x: x + depth, y: y + offset };
+    }
+  }
 }
 
 /**
@@ -342,6 +389,74 @@ export class ConnectionPointManager {
     };
   }
 
+  /**
+   * 端口在节点某一侧可以滑动的范围（两端各留 margin 比例）
+   * 菱形、圆形等只有顶点连接点的形状在顶点附近滑动，滑动后用 projectToOutline 落回轮廓
+   */
+  public getPortSpan(
+    node: FlowNode,
+    width: number,
+    height: number,
+    side: ConnectionSide,
+    margin: number = 0.2
+  ): PortSpan | null {
+    const shape: NodeShape = this.shapes.get(node.type) || new RectangleShape();
+    const axis = side === ConnectionSide.TOP || side === ConnectionSide.BOTTOM ? 'x' : 'y';
+    if (shape.getOutlinePoint) {
+      const vertex = shape.getConnectionPoint(node, width, height, side)[axis];
+      const half = Math.min(width, height) / 2 * (1 - margin * 2);
+      return half < 1 ? null : { axis, min: vertex - half, max: vertex + half };
+    }
+    const start = shape.getConnectionPoint(node, width, height, side, margin);
+    const end = shape.getConnectionPoint(node, width, height, side, 1 - margin);
+    if (Math.abs(end[axis] - start[axis]) < 1) {
+      return null;
+    }
+    return { axis, min: Math.min(start[axis], end[axis]), max: Math.max(start[axis], end[axis]) };
+  }
+
+  /**
+   * 沿某一侧滑动后的端口落回节点轮廓（矩形节点原样返回）
+   */
+  public projectToOutline(node: FlowNode, width: number, height: number, side: ConnectionSide, port: Position): Position {
+    const shape = this.shapes.get(node.type);
+    if (!shape?.getOutlinePoint) {
+      return port;
+    }
+    const along = side === ConnectionSide.TOP || side === ConnectionSide.BOTTOM ? port.x : port.y;
+    return shape.getOutlinePoint(node, width, height, side, along);
+  }
+
+  /**
+   * 记录连线实际使用的端口（连线分离后端口会沿所在边滑动）
+   */
+  public setEdgeConnection(edge: FlowEdge, source: EdgePort, target: EdgePort): void {
+    this.edgeConnections.set(edge.id, {
+      source: this.createEdgePoint(edge, edge.source, source),
+      target: this.createEdgePoint(edge, edge.target, target)
+    });
+  }
+
+  /**
+   * 连线占用的连接点，offset 为端口在所在边上的相对位置
+   */
+  private createEdgePoint(edge: FlowEdge, node: FlowNode, port: EdgePort): ConnectionPoint {
+    const { side, position, width, height } = port;
+    const offset = side === ConnectionSide.TOP || side === ConnectionSide.BOTTOM
+      ? (position.x - node.position.x) / width + 0.5
+      : (position.y - node.position.y) / height + 0.5;
+    return {
+      id: `${node.id}-${side}-${edge.id}`,
+      nodeId: node.id,
+      side,
+      position,
+      offset,
+      occupied: true,
+      edgeId: edge.id,
+      priority: 1
+    };
+  }
+
   /**
    * 计算最佳连接边
    */
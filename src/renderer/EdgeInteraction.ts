@@ -35,6 +35,16 @@ export interface DragEvent {
   originalPosition: Position;
 }
 
+/**
+ * 交互回调
+ */
+export interface EdgeInteractionCallbacks {
+  onWaypointDrag?: (edgeId: string, waypointIndex: number, position: Position) => void;
+  onAnchorDrag?: (edgeId: string, isSource: boolean, position: Position) => void;
+  onWaypointAdd?: (edgeId: string, position: Position, index: number) => void;
+  onWaypointDelete?: (edgeId: string, index: number) => void;
+}
+
 /**
  * 连线交互管理器
  * 参考 bpmn.js 的交互系统
@@ -54,12 +64,7 @@ export class EdgeInteraction {
   private onWaypointAdd?: (edgeId: string, position: Position, index: number) => void;
   private onWaypointDelete?: (edgeId: string, index: number) => void;
 
-  constructor(callbacks?: {
-    onWaypointDrag?: (edgeId: string, waypointIndex: number, position: Position) => void;
-    onAnchorDrag?: (edgeId: string, isSource: boolean, position: Position) => void;
-    onWaypointAdd?: (edgeId: string, position: Position, index: number) => void;
-    onWaypointDelete?: (edgeId: string, index: number) => void;
-  }) {
+  constructor(callbacks?: EdgeInteractionCallbacks) {
     this.onWaypointDrag = callbacks?.onWaypointDrag;
     this.onAnchorDrag = callbacks?.onAnchorDrag;
     this.onWaypointAdd = callbacks?.onWaypointAdd;
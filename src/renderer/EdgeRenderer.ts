@@ -1,9 +1,43 @@
 import { FlowEdge } from '../core/Edge';
 import { FlowNode } from '../core/Node';
-import { Position, EdgeStyle, EdgeType, EdgeAnimationType, NodeType } from '../types';
-import { DEFAULT_CONFIG } from '../utils/constants';
-import { ManhattanRouter } from './ManhattanRouter';
-import { EdgeInteraction } from './EdgeInteraction';
+import { Position, EdgeStyle, EdgeType, EdgeAnimationType } from '../types';
+import { ISSUE_COLORS } from '../styles/defaultStyles';
+import { EdgeInteraction, EdgeInteractionCallbacks } from './EdgeInteraction';
+import { ConnectionPointManager } from './ConnectionPointManager';
+import { getNodeSize } from '../layout/Layout';
+import { RouterFactory } from '../router/RouterFactory';
+import { EdgeNudger, EdgeNudgerConfig, PortSpan } from '../router/EdgeNudger';
+import { getPortPosition, getPortSide } from '../router/ports';
+import { simplifyPath } from '../router/path';
+import { EdgeCrossingIndex, LineJumpConfig, addLineJumps } from './LineJumps';
+import type { LayoutDirection } from '../layout/direction';
+import type { EdgeRouterStrategy, RouteNode, RouteResult } from '../router/types';
+
+/**
+ * 一条连线的路由结果
+ */
+interface RoutedEdge {
+  edge: FlowEdge;
+  router: EdgeRouterStrategy;
+  source: RouteNode;
+  target: RouteNode;
+  /** 连线指定的节点端口坐标，未指定时由路由器选择 */
+  sourcePort?: Position;
+  targetPort?: Position;
+  result: RouteResult;
+}
+
+/**
+ * 各连线类型默认使用的路由器
+ */
+const EDGE_TYPE_ROUTERS: Record<string, string> = {
+  [EdgeType.POLYLINE]: 'manhattan',
+  [EdgeType.ORTHOGONAL]: 'manhattan',
+  [EdgeType.STRAIGHT]: 'straight',
+  [EdgeType.BEZIER]: 'bezier',
+  [EdgeType.SMOOTH]: 'smooth',
+  [EdgeType.STEP]: 'step'
+};
 
 /**
  * 连线渲染器 - 参考主流流程图库的实现
@@ -11,7 +45,15 @@ import { EdgeInteraction } from './EdgeInteraction';
  */
 export class EdgeRenderer {
   private edgeElements: Map<string, SVGGElement> = new Map();
-  private manhattanRouter: ManhattanRouter = new ManhattanRouter();
+  private routers: Map<string, EdgeRouterStrategy> = new Map();
+  private defaultRouter: string | null = null;
+  private direction: LayoutDirection = 'TB';
+  private nodes: Map<string, FlowNode> = new Map();
+  private nudger: EdgeNudger | null = null;
+  private connectionPoints: ConnectionPointManager = new ConnectionPointManager();
+  private preparedRoutes: Map<string, RouteResult> = new Map();
+  private lineJumps: LineJumpConfig | null = null;
+  private crossings: EdgeCrossingIndex = new EdgeCrossingIndex();
   
   private edgeInteraction: EdgeInteraction | null = null;
   private interactionEnabled: boolean = false;
@@ -27,73 +69,211 @@ export class EdgeRenderer {
     loop: '#9c27b0'        // 回路/退回
   };
   /**
-   * 设置节点（预留接口）
+   * 设置节点，其余节点作为路由时需要避让的障碍物
    */
   public setNodes(nodes: Map<string, FlowNode>): void {
-    // 简化：不需要预处理
+    this.nodes = nodes;
   }
 
   /**
-   * 设置SVG元素（用于交互功能）
+   * 设置流向（正交连线从下游一侧出发）
    */
-  public setSVGElement(svg: SVGSVGElement): void {
-    this.svgElement = svg;
+  public setDirection(direction: LayoutDirection): void {
+    this.direction = direction;
   }
 
   /**
-   * 启用交互功能
+   * 设置默认路由器，null 表示按连线类型选择；单条连线可通过 style.router 覆盖
    */
-  public enableInteraction(enabled: boolean = true): void {
-    this.interactionEnabled = enabled;
+  public setDefaultRouter(name: string | null): void {
+    if (name !== null) {
+      this.getRouter(name);
+    }
+    this.defaultRouter = name;
+  }
 
-    if (enabled && !this.edgeInteraction) {
-      this.edgeInteraction = new EdgeInteraction({
-        onWaypointDrag: (edgeId, waypointIndex, position) => {
-          this.handleWaypointDrag(edgeId, waypointIndex, position);
-        },
-        onAnchorDrag: (edgeId, isSource, position) => {
-          this.handleAnchorDrag(edgeId, isSource, position);
-        },
-        onWaypointAdd: (edgeId, position, index) => {
-          this.handleWaypointAdd(edgeId, position, index);
-        },
-        onWaypointDelete: (edgeId, index) => {
-          this.handleWaypointDelete(edgeId, index);
-        }
-      });
+  /**
+   * 设置连线分离（平行重叠线段按间距展开），null 关闭
+   */
+  public setNudging(config: EdgeNudgerConfig | null): void {
+    this.nudger = config ? new EdgeNudger(config) : null;
+  }
+
+  /**
+   * 设置交叉处的跳线，null 关闭
+   */
+  public setLineJumps(config: LineJumpConfig | null): void {
+    this.lineJumps = config;
+    if (!config) {
+      this.crossings.clear();
+    }
+  }
+
+  /**
+   * 获取连接点管理器（记录每条连线实际使用的端口）
+   */
+  public getConnectionPointManager(): ConnectionPointManager {
+    return this.connectionPoints;
+  }
+
+  /**
+   * 预先计算一批连线的路径，分离重叠的平行线段并在交叉处加跳线，随后的 renderEdge 使用这些路径
+   */
+  public prepareRoutes(edges: FlowEdge[], getStyle: (edge: FlowEdge) => EdgeStyle): void {
+    this.preparedRoutes.clear();
+    const routeNodes = this.getRouteNodes();
+    const routed = edges.map(edge => this.routeEdge(edge, getStyle(edge), routeNodes));
+    routed.forEach(({ edge, result }) => this.preparedRoutes.set(edge.id, result));
+
+    // 只有折线路由器（能由路径点重建结果）的连线参与分离和跳线
+    const candidates = routed.filter(({ router, result }) => router.fromPoints && result.points.length > 1);
+    if (this.nudger && candidates.length > 1) {
+      this.nudgeRoutes(this.nudger, candidates);
+    }
+    if (this.lineJumps) {
+      this.addJumps(this.lineJumps, candidates);
     }
   }
 
   /**
-   * 处理折点拖拽
+   * 分离重叠的平行线段，并记录每条连线实际使用的端口
    */
-  private handleWaypointDrag(edgeId: string, waypointIndex: number, position: Position): void {
-    // 实现折点拖拽逻辑
-    // 需要重新渲染该连线
-    console.log('Waypoint dragged:', edgeId, waypointIndex, position);
+  private nudgeRoutes(nudger: EdgeNudger, candidates: RoutedEdge[]): void {
+    // 指定了端口的一端固定，其余端口可以沿节点边滑动
+    const nudged = nudger.nudge(candidates.map(({ edge, source, target, sourcePort, targetPort, result }) => ({
+      id: edge.id,
+      points: result.points,
+      sourceSpan: sourcePort ? null : this.getPortSpan(edge.source, source, result.points[0]),
+      targetSpan: targetPort ? null : this.getPortSpan(edge.target, target, result.points[result.points.length - 1])
+    })));
+
+    candidates.forEach(({ edge, router, source, target, result }) => {
+      const points = nudged.get(edge.id)!;
+      this.snapToOutline(edge.source, source, result.points[0], points, 0);
+      this.snapToOutline(edge.target, target, result.points[result.points.length - 1], points, points.length - 1);
+      const changed = points.length !== result.points.length ||
+        points.some((point, i) => point.x !== result.points[i].x || point.y !== result.points[i].y);
+      if (changed) {
+        this.preparedRoutes.set(edge.id, router.fromPoints!(points));
+      }
+
+      const sourcePort = points[0];
+      const targetPort = points[points.length - 1];
+      this.connectionPoints.setEdgeConnection(
+        edge,
+        { side: getPortSide(source, sourcePort), position: sourcePort, width: source.width, height: source.height },
+        { side: getPortSide(target, targetPort), position: targetPort, width: target.width, height: target.height }
+      );
+    });
   }
 
   /**
-   * 处理锚点拖拽
+   * 在连线交叉处加跳线（交叉索引只重新检测路径变化的连线）
    */
-  private handleAnchorDrag(edgeId: string, isSource: boolean, position: Position): void {
-    // 实现锚点拖拽逻辑
-    // 可能需要改变连接到的节点
-    console.log('Anchor dragged:', edgeId, isSource, position);
+  private addJumps(config: LineJumpConfig, candidates: RoutedEdge[]): void {
+    // 合并重复点和共线点，经过折点的交叉才能被检测到（分离连线时已经合并过）
+    candidates.forEach(({ edge, router }) => {
+      const { points } = this.preparedRoutes.get(edge.id)!;
+      const simplified = simplifyPath(points);
+      if (simplified.length !== points.length) {
+        this.preparedRoutes.set(edge.id, router.fromPoints!(simplified));
+      }
+    });
+    const jumps = this.crossings.update(
+      candidates.map(({ edge }) => ({ id: edge.id, points: this.preparedRoutes.get(edge.id)!.points })),
+      config.yield
+    );
+    jumps.forEach((points, edgeId) => {
+      const result = this.preparedRoutes.get(edgeId)!;
+      this.preparedRoutes.set(edgeId, { ...result, path: addLineJumps(result.path, points, config) });
+    });
   }
 
   /**
-   * 处理添加折点
+   * 圆形、菱形节点上滑动过的端口沿连线方向落回节点轮廓
    */
-  private handleWaypointAdd(edgeId: string, position: Position, index: number): void {
-    console.log('Waypoint added:', edgeId, position, index);
+  private snapToOutline(node: FlowNode, geometry: RouteNode, original: Position, points: Position[], index: number): void {
+    const point = points[index];
+    if (point.x !== original.x || point.y !== original.y) {
+      points[index] = this.connectionPoints.projectToOutline(node, geometry.width, geometry.height, getPortSide(geometry, original), point);
+    }
+  }
+
+  /**
+   * 端口沿所在边的滑动范围
+   */
+  private getPortSpan(node: FlowNode, geometry: RouteNode, port: Position): PortSpan | null {
+    const side = getPortSide(geometry, port);
+    return this.connectionPoints.getPortSpan(node, geometry.width, geometry.height, side);
   }
 
   /**
-   * 处理删除折点
+   * 所有节点的路由几何（每次渲染只计算一次，供该次渲染的所有连线共用）
    */
-  private handleWaypointDelete(edgeId: string, index: number): void {
-    console.log('Waypoint deleted:', edgeId, index);
+  private getRouteNodes(): Map<string, RouteNode> {
+    const routeNodes = new Map<string, RouteNode>();
+    this.nodes.forEach((node, id) => routeNodes.set(id, this.toRouteNode(node)));
+    return routeNodes;
+  }
+
+  /**
+   * 计算单条连线的路径，style.router 优先于默认路由器和连线类型
+   */
+  private routeEdge(edge: FlowEdge, style: EdgeStyle, routeNodes: Map<string, RouteNode> = this.getRouteNodes()): RoutedEdge {
+    const edgeType = style.type || EdgeType.POLYLINE;
+    const router = this.getRouter(style.router || this.defaultRouter || EDGE_TYPE_ROUTERS[edgeType] || 'manhattan');
+
+    const obstacles: RouteNode[] = [];
+    routeNodes.forEach((node, id) => {
+      if (id !== edge.source.id && id !== edge.target.id) {
+        obstacles.push(node);
+      }
+    });
+
+    const source = routeNodes.get(edge.source.id) ?? this.toRouteNode(edge.source);
+    const target = routeNodes.get(edge.target.id) ?? this.toRouteNode(edge.target);
+    const sourcePort = this.getDefinedPort(edge.source, source, edge.sourcePort);
+    const targetPort = this.getDefinedPort(edge.target, target, edge.targetPort);
+    const result = router.route({ edge, source, target, sourcePort, targetPort, obstacles, direction: this.direction, style });
+    return { edge, router, source, target, sourcePort, targetPort, result };
+  }
+
+  /**
+   * 连线指定的节点端口坐标（未指定或节点上没有该端口时返回 undefined）
+   */
+  private getDefinedPort(node: FlowNode, geometry: RouteNode, portId?: string): Position | undefined {
+    const port = portId ? node.getPort(portId) : undefined;
+    return port ? getPortPosition(geometry, port) : undefined;
+  }
+
+  /**
+   * 按名称获取路由器（同名路由器复用同一实例）
+   */
+  private getRouter(name: string): EdgeRouterStrategy {
+    let router = this.routers.get(name);
+    if (!router) {
+      router = RouterFactory.create(name);
+      this.routers.set(name, router);
+    }
+    return router;
+  }
+
+  /**
+   * 设置SVG元素（用于交互功能）
+   */
+  public setSVGElement(svg: SVGSVGElement): void {
+    this.svgElement = svg;
+  }
+
+  /**
+   * 启用交互功能，折点和锚点的拖拽、增删通过回调交给调用方更新连线
+   */
+  public enableInteraction(enabled: boolean = true, callbacks?: EdgeInteractionCallbacks): void {
+    this.interactionEnabled = enabled;
+
+    if (enabled && !this.edgeInteraction) {
+      this.edgeInteraction = new EdgeInteraction(callbacks);
+    }
   }
 
   /**
@@ -169,52 +349,16 @@ export class EdgeRenderer {
     group.setAttribute('data-edge-id', edge.id);
     group.style.cursor = 'pointer';
 
-    // 获取节点尺寸
-    const nodeWidth = DEFAULT_CONFIG.NODE_WIDTH;
-    const nodeHeight = DEFAULT_CONFIG.NODE_HEIGHT;
-
-    // 获取连线类型
+    // 正交连线智能判断连线颜色
     const edgeType = style.type || EdgeType.POLYLINE;
-
-    // 使用简单正交路由器（纯直角）
-    let pathData: { path: string; labelPosition: Position; arrowAngle?: number; points?: Position[] };
-
-    if (edgeType === EdgeType.POLYLINE || edgeType === EdgeType.ORTHOGONAL) {
-      // 使用Manhattan路由器
-      const result = this.manhattanRouter.route(
-        edge,
-        edge.source,
-        edge.target,
-        nodeWidth,
-        nodeHeight
-      );
-
-      // 智能判断连线颜色
-      if (!style.strokeColor) {
-        style.strokeColor = this.getEdgeColor(edge);
-      }
-
-      pathData = {
-        path: result.path,
-        labelPosition: result.labelPosition,
-        arrowAngle: result.arrowAngle,
-        points: result.points
-      };
-    } else {
-      // 其他类型保留原逻辑
-      const sourceCenter = edge.source.position;
-      const targetCenter = edge.target.position;
-
-      const { sourcePort, targetPort } = this.getSmartConnectionPorts(
-        edge.source,
-        edge.target,
-        nodeWidth,
-        nodeHeight
-      );
-
-      pathData = this.calculatePath(sourcePort, targetPort, edgeType, style);
+    if ((edgeType === EdgeType.POLYLINE || edgeType === EdgeType.ORTHOGONAL) && !style.strokeColor) {
+      style.strokeColor = this.getEdgeColor(edge);
     }
 
+    // 优先使用 prepareRoutes 预先计算（并分离过）的路径
+    const pathData = this.preparedRoutes.get(edge.id) ?? this.routeEdge(edge, style).result;
+    this.preparedRoutes.delete(edge.id);
+
     // 创建主路径
     const path = this.createPath(pathData.path, style);
     path.setAttribute('class', 'edge-path');
@@ -222,6 +366,7 @@ export class EdgeRenderer {
 
     // 创建悬停效果的路径（更粗的透明线条）
     const hoverPath = this.createHoverPath(pathData.path, style);
+    hoverPath.setAttribute('class', 'edge-hover-path');
     group.appendChild(hoverPath);
 
     // 添加箭头 - 使用路径的最后一个点作为箭头位置
@@ -242,6 +387,7 @@ export class EdgeRenderer {
     // 创建流动动画路径
     const flowPath = this.createFlowAnimationPath(pathData.path, style);
     if (flowPath) {
+      flowPath.setAttribute('class', 'flow-animation-path');
       group.appendChild(flowPath);
     }
 
@@ -314,560 +460,10 @@ export class EdgeRenderer {
   }
 
   /**
-   * 智能获取连接端口 - 根据节点类型选择最佳连接点
+   * 节点几何信息
    */
-  private getSmartConnectionPorts(
-    sourceNode: FlowNode,
-    targetNode: FlowNode,
-    width: number,
-    height: number
-  ): { sourcePort: Position; targetPort: Position } {
-    const source = sourceNode.position;
-    const target = targetNode.position;
-
-    // 检查是否是条件节点（菱形）
-    const isSourceDiamond = sourceNode.type === NodeType.CONDITION;
-    const isTargetDiamond = targetNode.type === NodeType.CONDITION;
-
-    if (isSourceDiamond || isTargetDiamond) {
-      return this.getDiamondConnectionPorts(
-        source,
-        target,
-        width,
-        height,
-        isSourceDiamond,
-        isTargetDiamond
-      );
-    }
-
-    // 普通节点使用原有逻辑
-    return this.getConnectionPorts(source, target, width, height);
-  }
-
-  /**
-   * 菱形节点的连接端口计算
-   * 菱形的四个顶点作为连接点
-   */
-  private getDiamondConnectionPorts(
-    source: Position,
-    target: Position,
-    width: number,
-    height: number,
-    isSourceDiamond: boolean,
-    isTargetDiamond: boolean
-  ): { sourcePort: Position; targetPort: Position } {
-    const dx = target.x - source.x;
-    const dy = target.y - source.y;
-    const halfW = width / 2;
-    const halfH = height / 2;
-
-    let sourcePort: Position;
-    let targetPort: Position;
-
-    // 计算源节点的连接点
-    if (isSourceDiamond) {
-      // 菱形节点 - 使用四个顶点
-      const angle = Math.atan2(dy, dx);
-
-      // 根据角度决定使用哪个顶点
-      if (angle >= -Math.PI / 4 && angle < Math.PI / 4) {
-        // 右顶点
-        sourcePort = { x: source.x + halfW, y: source.y };
-      } else if (angle >= Math.PI / 4 && angle < 3 * Math.PI / 4) {
-        // 下顶点
-        sourcePort = { x: source.x, y: source.y + halfH };
-      } else if (angle >= -3 * Math.PI / 4 && angle < -Math.PI / 4) {
-        // 上顶点
-        sourcePort = { x: source.x, y: source.y - halfH };
-      } else {
-        // 左顶点
-        sourcePort = { x: source.x - halfW, y: source.y };
-      }
-    } else {
-      // 普通节点 - 使用边的中点
-      if (Math.abs(dy) > Math.abs(dx)) {
-        sourcePort = dy > 0
-          ? { x: source.x, y: source.y + halfH }
-          : { x: source.x, y: source.y - halfH };
-      } else {
-        sourcePort = dx > 0
-          ? { x: source.x + halfW, y: source.y }
-          : { x: source.x - halfW, y: source.y };
-      }
-    }
-
-    // 计算目标节点的连接点
-    if (isTargetDiamond) {
-      // 菱形节点 - 使用四个顶点
-      const angle = Math.atan2(-dy, -dx); // 反向角度
-
-      // 根据角度决定使用哪个顶点
-      if (angle >= -Math.PI / 4 && angle < Math.PI / 4) {
-        // 右顶点
-        targetPort = { x: target.x + halfW, y: target.y };
-      } else if (angle >= Math.PI / 4 && angle < 3 * Math.PI / 4) {
-        // 下顶点
-        targetPort = { x: target.x, y: target.y + halfH };
-      } else if (angle >= -3 * Math.PI / 4 && angle < -Math.PI / 4) {
-        // 上顶点
-        targetPort = { x: target.x, y: target.y - halfH };
-      } else {
-        // 左顶点
-        targetPort = { x: target.x - halfW, y: target.y };
-      }
-    } else {
-      // 普通节点 - 使用边的中点
-      if (Math.abs(dy) > Math.abs(dx)) {
-        targetPort = dy > 0
-          ? { x: target.x, y: target.y - halfH }
-          : { x: target.x, y: target.y + halfH };
-      } else {
-        targetPort = dx > 0
-          ? { x: target.x - halfW, y: target.y }
-          : { x: target.x + halfW, y: target.y };
-      }
-    }
-
-    return { sourcePort, targetPort };
-  }
-
-  /**
-   * 获取连接端口（参考 ReactFlow 的做法）
-   * 固定在节点的上下左右四个中点
-   */
-  private getConnectionPorts(
-    source: Position,
-    target: Position,
-    width: number,
-    height: number
-  ): { sourcePort: Position; targetPort: Position } {
-    const dx = target.x - source.x;
-    const dy = target.y - source.y;
-
-    const halfW = width / 2;
-    const halfH = height / 2;
-
-    let sourcePort: Position;
-    let targetPort: Position;
-
-    // 根据相对位置选择最佳连接点
-    if (Math.abs(dy) > Math.abs(dx)) {
-      // 垂直方向主导
-      if (dy > 0) {
-        // 向下：source底部 → target顶部
-        sourcePort = { x: source.x, y: source.y + halfH };
-        targetPort = { x: target.x, y: target.y - halfH };
-      } else {
-        // 向上：source顶部 → target底部
-        sourcePort = { x: source.x, y: source.y - halfH };
-        targetPort = { x: target.x, y: target.y + halfH };
-      }
-    } else {
-      // 水平方向主导
-      if (dx > 0) {
-        // 向右：source右侧 → target左侧
-        sourcePort = { x: source.x + halfW, y: source.y };
-        targetPort = { x: target.x - halfW, y: target.y };
-      } else {
-        // 向左：source左侧 → target右侧
-        sourcePort = { x: source.x - halfW, y: source.y };
-        targetPort = { x: target.x + halfW, y: target.y };
-      }
-    }
-
-    return { sourcePort, targetPort };
-  }
-
-  /**
-   * 计算路径
-   */
-  private calculatePath(
-    source: Position,
-    target: Position,
-    type: EdgeType,
-    style: EdgeStyle
-  ): { path: string; labelPosition: Position; arrowAngle?: number } {
-    switch (type) {
-      case EdgeType.STRAIGHT:
-        return this.straightPath(source, target);
-      case EdgeType.BEZIER:
-        return this.bezierPath(source, target);
-      case EdgeType.SMOOTH:
-        return this.smoothPath(source, target);
-      case EdgeType.POLYLINE:
-        return this.manhattanPath(source, target, style);
-      case EdgeType.STEP:
-        return this.stepPath(source, target);
-      case EdgeType.ORTHOGONAL:
-        return this.manhattanPath(source, target, style);
-      default:
-        return this.manhattanPath(source, target, style);
-    }
-  }
-
-  /**
-   * 直线
-   */
-  private straightPath(source: Position, target: Position): { path: string; labelPosition: Position; arrowAngle: number } {
-    const angle = Math.atan2(target.y - source.y, target.x - source.x);
-
-    return {
-      path: `M ${source.x},${source.y} L ${target.x},${target.y}`,
-      labelPosition: {
-        x: (source.x + target.x) / 2,
-        y: (source.y + target.y) / 2
-      },
-      arrowAngle: angle
-    };
-  }
-
-  /**
-   * 贝塞尔曲线
-   */
-  private bezierPath(source: Position, target: Position): { path: string; labelPosition: Position; arrowAngle: number } {
-    const dy = target.y - source.y;
-    const offset = Math.abs(dy) * 0.5;
-
-    const cx1 = source.x;
-    const cy1 = source.y + offset;
-    const cx2 = target.x;
-    const cy2 = target.y - offset;
-
-    const angle = Math.atan2(target.y - cy2, target.x - cx2);
-
-    return {
-      path: `M ${source.x},${source.y} C ${cx1},${cy1} ${cx2},${cy2} ${target.x},${target.y}`,
-      labelPosition: {
-        x: (source.x + target.x) / 2,
-        y: (source.y + target.y) / 2
-      },
-      arrowAngle: angle
-    };
-  }
-
-  /**
-   * 平滑曲线
-   */
-  private smoothPath(source: Position, target: Position): { path: string; labelPosition: Position; arrowAngle: number } {
-    const dx = target.x - source.x;
-    const offset = Math.abs(dx) * 0.5;
-
-    const cx1 = source.x + offset;
-    const cy1 = source.y;
-    const cx2 = target.x - offset;
-    const cy2 = target.y;
-
-    const angle = Math.atan2(target.y - cy2, target.x - cx2);
-
-    return {
-      path: `M ${source.x},${source.y} C ${cx1},${cy1} ${cx2},${cy2} ${target.x},${target.y}`,
-      labelPosition: {
-        x: (source.x + target.x) / 2,
-        y: (source.y + target.y) / 2
-      },
-      arrowAngle: angle
-    };
-  }
-
-  /**
-   * Manhattan 路由（参考 draw.io 和 ReactFlow）
-   * 只使用垂直和水平线段
-   */
-  private manhattanPath(source: Position, target: Position, style: EdgeStyle): { path: string; labelPosition: Position; arrowAngle: number } {
-    const radius = style.radius || 10;
-    const dx = target.x - source.x;
-    const dy = target.y - source.y;
-
-    let points: Position[];
-    let arrowAngle: number;
-
-    // 最小间距，防止线条重叠
-    const minGap = 40;
-    const offset = style.offset || 30;
-
-    // 判断连接方向
-    const isSourceVertical = Math.abs(source.y - target.y) > 1; // 源节点是否在垂直方向
-    const isSourceHorizontal = Math.abs(source.x - target.x) > 1; // 源节点是否在水平方向
-
-    // 智能路由策略
-    if (Math.abs(dy) < 5 && Math.abs(dx) > minGap * 2) {
-      // 水平对齐
-      if (dx > 0) {
-        // 向右直连
-        points = [source, target];
-        arrowAngle = 0;
-      } else {
-        // 向左，需要绕过
-        const bypass = Math.max(minGap, Math.abs(dy) + offset);
-        points = [
-          source,
-          { x: source.x + minGap, y: source.y },
-          { x: source.x + minGap, y: source.y - bypass },
-          { x: target.x - minGap, y: source.y - bypass },
-          { x: target.x - minGap, y: target.y },
-          target
-        ];
-        arrowAngle = Math.PI;
-      }
-    } else if (Math.abs(dx) < 5 && Math.abs(dy) > minGap * 2) {
-      // 垂直对齐
-      if (dy > 0) {
-        // 向下直连
-        points = [source, target];
-        arrowAngle = Math.PI / 2;
-      } else {
-        // 向上，需要绕过
-        const bypass = Math.max(minGap, Math.abs(dx) + offset);
-        points = [
-          source,
-          { x: source.x, y: source.y + minGap },
-          { x: source.x - bypass, y: source.y + minGap },
-          { x: source.x - bypass, y: target.y - minGap },
-          { x: target.x, y: target.y - minGap },
-          target
-        ];
-        arrowAngle = -Math.PI / 2;
-      }
-    } else {
-      // 需要折线连接
-      const isVerticalConnection = Math.abs(dy) > Math.abs(dx);
-
-      if (isVerticalConnection) {
-        // 垂直方向优先
-        if (dy > 0) {
-          // 向下连接
-          if (dx > 0) {
-            // 右下方向
-            const midY = source.y + Math.abs(dy) / 2;
-            points = [
-              source,
-              { x: source.x, y: midY },
-              { x: target.x, y: midY },
-              target
-            ];
-          } else {
-            // 左下方向
-            const midY = source.y + Math.abs(dy) / 2;
-            points = [
-              source,
-              { x: source.x, y: midY },
-              { x: target.x, y: midY },
-              target
-            ];
-          }
-          arrowAngle = Math.PI / 2;
-        } else {
-          // 向上连接，需要绕过
-          const sideOffset = Math.max(minGap * 1.5, Math.abs(dx) / 2 + offset);
-          if (dx > 0) {
-            // 右上方向
-            points = [
-              source,
-              { x: source.x, y: source.y + minGap },
-              { x: source.x + sideOffset, y: source.y + minGap },
-              { x: source.x + sideOffset, y: target.y - minGap },
-              { x: target.x, y: target.y - minGap },
-              target
-            ];
-          } else {
-            // 左上方向
-            points = [
-              source,
-              { x: source.x, y: source.y + minGap },
-              { x: source.x - sideOffset, y: source.y + minGap },
-              { x: source.x - sideOffset, y: target.y - minGap },
-              { x: target.x, y: target.y - minGap },
-              target
-            ];
-          }
-          arrowAngle = -Math.PI / 2;
-        }
-      } else {
-        // 水平方向优先
-        if (dx > 0) {
-          // 向右连接
-          if (dy > 0) {
-            // 右下方向
-            const midX = source.x + Math.abs(dx) / 2;
-            points = [
-              source,
-              { x: midX, y: source.y },
-              { x: midX, y: target.y },
-              target
-            ];
-            arrowAngle = 0;
-          } else {
-            // 右上方向
-            const midX = source.x + Math.abs(dx) / 2;
-            points = [
-              source,
-              { x: midX, y: source.y },
-              { x: midX, y: target.y },
-              target
-            ];
-            arrowAngle = 0;
-          }
-        } else {
-          // 向左连接，需要绕过
-          const sideOffset = Math.max(minGap * 1.5, Math.abs(dy) / 2 + offset);
-          if (dy > 0) {
-            // 左下方向
-            points = [
-              source,
-              { x: source.x + minGap, y: source.y },
-              { x: source.x + minGap, y: source.y + sideOffset },
-              { x: target.x - minGap, y: source.y + sideOffset },
-              { x: target.x - minGap, y: target.y },
-              target
-            ];
-          } else {
-            // 左上方向
-            points = [
-              source,
-              { x: source.x + minGap, y: source.y },
-              { x: source.x + minGap, y: source.y - sideOffset },
-              { x: target.x - minGap, y: source.y - sideOffset },
-              { x: target.x - minGap, y: target.y },
-              target
-            ];
-          }
-          arrowAngle = Math.PI;
-        }
-      }
-    }
-
-    // 优化路径点，移除重复或共线的点
-    points = this.optimizePathPoints(points);
-
-    // 计算最终箭头角度
-    if (points.length >= 2) {
-      const lastTwo = points.slice(-2);
-      arrowAngle = Math.atan2(
-        lastTwo[1].y - lastTwo[0].y,
-        lastTwo[1].x - lastTwo[0].x
-      );
-    }
-
-    // 生成圆角路径
-    const path = this.createSmoothPath(points, radius);
-
-    return {
-      path,
-      labelPosition: this.calculateLabelPosition(points),
-      arrowAngle
-    };
-  }
-
-  /**
-   * 优化路径点，移除重复或共线的点
-   */
-  private optimizePathPoints(points: Position[]): Position[] {
-    if (points.length <= 2) return points;
-
-    const optimized: Position[] = [points[0]];
-
-    for (let i = 1; i < points.length - 1; i++) {
-      const prev = optimized[optimized.length - 1];
-      const curr = points[i];
-      const next = points[i + 1];
-
-      // 检查是否共线
-      const isHorizontallyAligned =
-        Math.abs(prev.y - curr.y) < 1 && Math.abs(curr.y - next.y) < 1;
-      const isVerticallyAligned =
-        Math.abs(prev.x - curr.x) < 1 && Math.abs(curr.x - next.x) < 1;
-
-      // 如果不共线或是拐点，保留该点
-      if (!isHorizontallyAligned && !isVerticallyAligned) {
-        optimized.push(curr);
-      }
-    }
-
-    optimized.push(points[points.length - 1]);
-    return optimized;
-  }
-
-  /**
-   * 阶梯线
-   */
-  private stepPath(source: Position, target: Position): { path: string; labelPosition: Position; arrowAngle: number } {
-    const midX = (source.x + target.x) / 2;
-    const angle = target.x > source.x ? 0 : Math.PI;
-
-    return {
-      path: `M ${source.x},${source.y} L ${midX},${source.y} L ${midX},${target.y} L ${target.x},${target.y}`,
-      labelPosition: { x: midX, y: (source.y + target.y) / 2 },
-      arrowAngle: angle
-    };
-  }
-
-  /**
-   * 创建平滑路径（带圆角）
-   */
-  private createSmoothPath(points: Position[], radius: number): string {
-    if (points.length < 2) {
-      return '';
-    }
-
-    if (points.length === 2) {
-      return `M ${points[0].x},${points[0].y} L ${points[1].x},${points[1].y}`;
-    }
-
-    let path = `M ${points[0].x},${points[0].y}`;
-
-    for (let i = 1; i < points.length - 1; i++) {
-      const prev = points[i - 1];
-      const curr = points[i];
-      const next = points[i + 1];
-
-      // 计算距离
-      const d1 = Math.sqrt((curr.x - prev.x) ** 2 + (curr.y - prev.y) ** 2);
-      const d2 = Math.sqrt((next.x - curr.x) ** 2 + (next.y - curr.y) ** 2);
-
-      if (d1 < 0.1 || d2 < 0.1) {
-        // 点重合，跳过
-        continue;
-      }
-
-      const r = Math.min(radius, d1 / 2, d2 / 2);
-
-      if (r > 0.5) {
-        // 计算圆角点
-        const ratio1 = r / d1;
-        const ratio2 = r / d2;
-
-        const x1 = curr.x - (curr.x - prev.x) * ratio1;
-        const y1 = curr.y - (curr.y - prev.y) * ratio1;
-        const x2 = curr.x + (next.x - curr.x) * ratio2;
-        const y2 = curr.y + (next.y - curr.y) * ratio2;
-
-        path += ` L ${x1},${y1} Q ${curr.x},${curr.y} ${x2},${y2}`;
-      } else {
-        path += ` L ${curr.x},${curr.y}`;
-      }
-    }
-
-    path += ` L ${points[points.length - 1].x},${points[points.length - 1].y}`;
-    return path;
-  }
-
-  /**
-   * 计算标签位置（路径的中心点）
-   */
-  private calculateLabelPosition(points: Position[]): Position {
-    if (points.length === 0) {
-      return { x: 0, y: 0 };
-    }
-
-    // 使用路径中间的点
-    const midIndex = Math.floor(points.length / 2);
-    const p1 = points[midIndex - 1] || points[0];
-    const p2 = points[midIndex] || points[points.length - 1];
-
-    return {
-      x: (p1.x + p2.x) / 2,
-      y: (p1.y + p2.y) / 2
-    };
+  private toRouteNode(node: FlowNode): RouteNode {
+    return { id: node.id, type: node.type, position: node.position, ...getNodeSize(node) };
   }
 
   /**
@@ -1103,11 +699,30 @@ export class EdgeRenderer {
     path.appendChild(animate);
   }
 
+  /**
+   * 标记有验证问题的连线（问题颜色虚线）
+   */
+  public markIssue(group: SVGGElement, severity: keyof typeof ISSUE_COLORS, message: string): void {
+    const color = ISSUE_COLORS[severity];
+    group.classList.add(`validation-${severity}`);
+    group.querySelectorAll('.edge-path').forEach(path => {
+      path.setAttribute('stroke', color);
+      path.setAttribute('stroke-dasharray', '6,4');
+    });
+    group.querySelectorAll('.edge-arrow').forEach(arrow => arrow.setAttribute('fill', color));
+
+    const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+    title.textContent = message;
+    group.appendChild(title);
+  }
+
   /**
    * 清空
    */
   public clear(): void {
     this.edgeElements.clear();
+    this.preparedRoutes.clear();
+    this.connectionPoints.clear();
     if (this.edgeInteraction) {
       this.edgeInteraction.clear();
     }
@@ -1,16 +1,22 @@
 import { FlowNode } from '../core/Node';
 import { Position, Size } from '../types';
+import { OrthogonalVisibilityGraph } from '../router/VisibilityGraph';
+
+/**
+ * 路由只需要节点的 id 和中心位置
+ */
+type RoutableNode = Pick<FlowNode, 'id' | 'position'>;
 
 /**
  * 连线路由器
  * 负责计算避开节点的智能路径
  */
 export class EdgeRouter {
-  private nodes: Map<string, FlowNode>;
+  private nodes: Map<string, RoutableNode>;
   private nodeSize: Size;
   private nodePadding: number = 20; // 节点周围的安全距离
 
-  constructor(nodes: Map<string, FlowNode>, nodeSize: Size) {
+  constructor(nodes: Map<string, RoutableNode>, nodeSize: Size) {
     this.nodes = nodes;
     this.nodeSize = nodeSize;
   }
@@ -19,8 +25,8 @@ export class EdgeRouter {
    * 计算智能路径（避开节点）
    */
   public calculateRoute(
-    source: FlowNode,
-    target: FlowNode,
+    source: RoutableNode,
+    target: RoutableNode,
     sourcePoint: Position,
     targetPoint: Position
   ): Position[] {
@@ -72,7 +78,7 @@ export class EdgeRouter {
   }
 
   /**
-   * A* 路径规划（简化版）
+   * A* 路径规划：在所有节点（含安全距离）的正交可见性图上寻找拐弯最少的路径
    */
   private aStarRoute(
     source: Position,
@@ -80,6 +86,26 @@ export class EdgeRouter {
     sourceId: string,
     targetId: string
   ): Position[] {
+    const nodes = Array.from(this.nodes.values());
+    const obstacles = nodes.map(node => ({
+      x: node.position.x - this.nodeSize.width / 2 - this.nodePadding,
+      y: node.position.y - this.nodeSize.height / 2 - this.nodePadding,
+      width: this.nodeSize.width + this.nodePadding * 2,
+      height: this.nodeSize.height + this.nodePadding * 2
+    }));
+    const path = new OrthogonalVisibilityGraph(obstacles).findPath(source, target, {
+      bendPenalty: 40,
+      lengthPenalty: 1,
+      ignore: [sourceId, targetId].map(id => nodes.findIndex(node => node.id === id))
+    });
+
+    return path || this.fallbackRoute(source, target);
+  }
+
+  /**
+   * 找不到可行路径时的绕行路径
+   */
+  private fallbackRoute(source: Position, target: Position): Position[] {
     const dx = target.x - source.x;
     const dy = target.y - source.y;
     
@@ -153,7 +179,7 @@ export class EdgeRouter {
   /**
    * 检查线段是否与节点相交
    */
-  private lineIntersectsNode(p1: Position, p2: Position, node: FlowNode): boolean {
+  private lineIntersectsNode(p1: Position, p2: Position, node: RoutableNode): boolean {
     const nodeRect = {
       x: node.position.x - this.nodeSize.width / 2 - this.nodePadding,
       y: node.position.y - this.nodeSize.height / 2 - this.nodePadding,
@@ -273,7 +299,7 @@ export class EdgeRouter {
   /**
    * 更新节点列表
    */
-  public updateNodes(nodes: Map<string, FlowNode>): void {
+  public updateNodes(nodes: Map<string, RoutableNode>): void {
     this.nodes = nodes;
   }
 }
@@ -0,0 +1,331 @@
+/**
+ * 连线跳线：两条连线交叉时，让其中一条在交叉处画出小弧（或断开），便于分辨各自的走向
+ */
+
+import { Position } from '../types';
+
+/**
+ * 跳线样式：arc 画半圆弧，gap 断开
+ */
+export type LineJumpStyle = 'arc' | 'gap';
+
+/**
+ * 交叉时哪条连线让行（画跳线）
+ * - horizontal / vertical：交叉处水平 / 垂直的线段让行
+ * - later / earlier：渲染顺序靠后 / 靠前的连线让行
+ */
+export type LineJumpYield = 'horizontal' | 'vertical' | 'later' | 'earlier';
+
+export interface LineJumpConfig {
+  /** 跳线样式，默认 arc */
+  style?: LineJumpStyle;
+  /** 跳线半径，默认 5 */
+  size?: number;
+  /** 让行规则，默认 horizontal */
+  yield?: LineJumpYield;
+}
+
+/**
+ * 参与交叉检测的连线
+ */
+export interface JumpEdge {
+  id: string;
+  points: Position[];
+}
+
+interface Segment {
+  edge: string;
+  start: Position;
+  end: Position;
+}
+
+/**
+ * 两条连线的一个交叉点
+ */
+interface Crossing {
+  point: Position;
+  /** 交叉处 first 连线的线段是否水平 */
+  firstHorizontal: boolean;
+  /** 交叉处 second 连线的线段是否水平 */
+  secondHorizontal: boolean;
+}
+
+const EPSILON = 1e-6;
+
+function isHorizontal(segment: Segment): boolean {
+  return Math.abs(segment.start.y - segment.end.y) < EPSILON;
+}
+
+/**
+ * 两条线段在内部的交点（端点处相接、平行或共线不算交叉）
+ */
+function intersect(a: Segment, b: Segment): Position | null {
+  const rx = a.end.x - a.start.x;
+  const ry = a.end.y - a.start.y;
+  const sx = b.end.x - b.start.x;
+  const sy = b.end.y - b.start.y;
+  const denominator = rx * sy - ry * sx;
+  if (Math.abs(denominator) < EPSILON) {
+    return null;
+  }
+  const qx = b.start.x - a.start.x;
+  const qy = b.start.y - a.start.y;
+  const t = (qx * sy - qy * sx) / denominator;
+  const u = (qx * ry - qy * rx) / denominator;
+  if (t <= EPSILON || t >= 1 - EPSILON || u <= EPSILON || u >= 1 - EPSILON) {
+    return null;
+  }
+  return { x: a.start.x + rx * t, y: a.start.y + ry * t };
+}
+
+/**
+ * 连线交叉索引
+ * 记录每对连线的交叉点；更新时只重新检测路径发生变化的连线，拖动节点时其余连线的交叉结果直接复用
+ */
+export class EdgeCrossingIndex {
+  private keys: Map<string, string> = new Map();
+  private segments: Map<string, Segment[]> = new Map();
+  /** 连线 -> 另一条连线 -> 交叉点（按 id 字典序较小的连线为 first） */
+  private crossings: Map<string, Map<string, Crossing[]>> = new Map();
+
+  constructor(private cellSize: number = 100) {}
+
+  /**
+   * 更新连线路径，返回每条连线需要画跳线的位置（按 edges 的顺序作为渲染顺序）
+   */
+  public update(edges: JumpEdge[], rule: LineJumpYield = 'horizontal'): Map<string, Position[]> {
+    const changed = this.sync(edges);
+    if (changed.length > 0) {
+      this.detect(changed);
+    }
+
+    const order = new Map(edges.map((edge, index) => [edge.id, index]));
+    const jumps = new Map<string, Position[]>();
+    this.crossings.forEach((others, first) => {
+      others.forEach((crossings, second) => {
+        if (first > second) {
+          return;
+        }
+        crossings.forEach(crossing => {
+          const edge = this.chooseYielding(first, second, crossing, rule, order);
+          const points = jumps.get(edge);
+          if (points) {
+            points.push(crossing.point);
+          } else {
+            jumps.set(edge, [crossing.point]);
+          }
+        });
+      });
+    });
+    return jumps;
+  }
+
+  /**
+   * 清空索引
+   */
+  public clear(): void {
+    this.keys.clear();
+    this.segments.clear();
+    this.crossings.clear();
+  }
+
+  /**
+   * 同步路径，移除已删除或变化连线的交叉记录，返回需要重新检测的连线
+   */
+  private sync(edges: JumpEdge[]): string[] {
+    const changed: string[] = [];
+    const seen = new Set<string>();
+
+    edges.forEach(edge => {
+      seen.add(edge.id);
+      const key = edge.points.map(point => `${point.x},${point.y}`).join(' ');
+      if (this.keys.get(edge.id) === key) {
+        return;
+      }
+      this.keys.set(edge.id, key);
+      this.segments.set(edge.id, this.toSegments(edge));
+      this.forget(edge.id);
+      changed.push(edge.id);
+    });
+
+    Array.from(this.keys.keys()).filter(id => !seen.has(id)).forEach(id => {
+      this.keys.delete(id);
+      this.segments.delete(id);
+      this.forget(id);
+    });
+
+    return changed;
+  }
+
+  private toSegments(edge: JumpEdge): Segment[] {
+    const segments: Segment[] = [];
+    for (let i = 0; i < edge.points.length - 1; i++) {
+      segments.push({ edge: edge.id, start: edge.points[i], end: edge.points[i + 1] });
+    }
+    return segments;
+  }
+
+  private forget(edgeId: string): void {
+    this.crossings.get(edgeId)?.forEach((_, other) => this.crossings.get(other)?.delete(edgeId));
+    this.crossings.delete(edgeId);
+  }
+
+  /**
+   * 用网格索引检测变化连线与其他连线的交叉
+   */
+  private detect(changed: string[]): void {
+    const buckets = new Map<string, Segment[]>();
+    this.segments.forEach(segments => segments.forEach(segment => {
+      this.getCells(segment).forEach(cell => {
+        const bucket = buckets.get(cell);
+        if (bucket) {
+          bucket.push(segment);
+        } else {
+          buckets.set(cell, [segment]);
+        }
+      });
+    }));
+
+    const changedSet = new Set(changed);
+    changed.forEach(edgeId => {
+      this.segments.get(edgeId)!.forEach(segment => {
+        const candidates = new Set<Segment>();
+        this.getCells(segment).forEach(cell => buckets.get(cell)?.forEach(other => candidates.add(other)));
+        candidates.forEach(other => {
+          // 两条都变化的连线只检测一次
+          if (other.edge === edgeId || (changedSet.has(other.edge) && other.edge < edgeId)) {
+            return;
+          }
+          const point = intersect(segment, other);
+          if (point) {
+            this.record(segment, other, point);
+          }
+        });
+      });
+    });
+  }
+
+  private getCells(segment: Segment): string[] {
+    const minX = Math.floor(Math.min(segment.start.x, segment.end.x) / this.cellSize);
+    const maxX = Math.floor(Math.max(segment.start.x, segment.end.x) / this.cellSize);
+    const minY = Math.floor(Math.min(segment.start.y, segment.end.y) / this.cellSize);
+    const maxY = Math.floor(Math.max(segment.start.y, segment.end.y) / this.cellSize);
+    const cells: string[] = [];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        cells.push(`${x},${y}`);
+      }
+    }
+    return cells;
+  }
+
+  private record(a: Segment, b: Segment, point: Position): void {
+    const [first, second] = a.edge < b.edge ? [a, b] : [b, a];
+    const crossing: Crossing = {
+      point,
+      firstHorizontal: isHorizontal(first),
+      secondHorizontal: isHorizontal(second)
+    };
+    let list = this.crossings.get(first.edge)?.get(second.edge);
+    if (!list) {
+      // 两个方向共用同一个列表
+      list = [];
+      this.link(first.edge, second.edge, list);
+      this.link(second.edge, first.edge, list);
+    }
+    list.push(crossing);
+  }
+
+  private link(from: string, to: string, list: Crossing[]): void {
+    let others = this.crossings.get(from);
+    if (!others) {
+      others = new Map();
+      this.crossings.set(from, others);
+    }
+    others.set(to, list);
+  }
+
+  private chooseYielding(
+    first: string,
+    second: string,
+    crossing: Crossing,
+    rule: LineJumpYield,
+    order: Map<string, number>
+  ): string {
+    if ((rule === 'horizontal' || rule === 'vertical') && crossing.firstHorizontal !== crossing.secondHorizontal) {
+      return crossing.firstHorizontal === (rule === 'horizontal') ? first : second;
+    }
+    const later = (order.get(first) ?? 0) > (order.get(second) ?? 0) ? first : second;
+    return rule === 'earlier' ? (later === first ? second : first) : later;
+  }
+}
+
+/**
+ * 在 SVG 路径的直线段上插入跳线
+ * 只处理 M/L/Q/C 组成的路径；跳线放不下（离线段端点太近或与前一个跳线重叠）时跳过
+ */
+export function addLineJumps(path: string, jumps: Position[], config: LineJumpConfig = {}): string {
+  if (jumps.length === 0) {
+    return path;
+  }
+  const size = config.size ?? 5;
+  const style = config.style ?? 'arc';
+  const commands = path.match(/[A-Za-z][^A-Za-z]*/g) || [];
+  let current: Position = { x: 0, y: 0 };
+  let result = '';
+
+  commands.forEach(command => {
+    const type = command[0];
+    const numbers = (command.slice(1).match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+    const end = { x: numbers[numbers.length - 2], y: numbers[numbers.length - 1] };
+
+    if (type === 'L') {
+      result += jumpSegment(current, end, jumps, size, style);
+    } else {
+      result += `${result ? ' ' : ''}${command.trim()}`;
+    }
+    if (numbers.length >= 2) {
+      current = end;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 一条直线段：按距离排序交叉点，依次画跳线
+ */
+function jumpSegment(start: Position, end: Position, jumps: Position[], size: number, style: LineJumpStyle): string {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  if (length < size * 2) {
+    return ` L ${end.x},${end.y}`;
+  }
+  const ux = dx / length;
+  const uy = dy / length;
+
+  const distances = jumps
+    .filter(point => Math.abs((point.x - start.x) * uy - (point.y - start.y) * ux) < 0.5)
+    .map(point => (point.x - start.x) * ux + (point.y - start.y) * uy)
+    .filter(distance => distance >= size && distance <= length - size)
+    .sort((a, b) => a - b);
+
+  // 水平线段的弧向上凸起，垂直线段的弧向右凸起
+  const sweep = ux > EPSILON || uy > EPSILON ? 1 : 0;
+  let path = '';
+  let last = -Infinity;
+  distances.forEach(distance => {
+    if (distance - last < size * 2) {
+      return;
+    }
+    last = distance;
+    const before = { x: start.x + ux * (distance - size), y: start.y + uy * (distance - size) };
+    const after = { x: start.x + ux * (distance + size), y: start.y + uy * (distance + size) };
+    path += ` L ${before.x},${before.y}`;
+    path += style === 'arc'
+      ? ` A ${size},${size} 0 0 ${sweep} ${after.x},${after.y}`
+      : ` M ${after.x},${after.y}`;
+  });
+  return `${path} L ${end.x},${end.y}`;
+}
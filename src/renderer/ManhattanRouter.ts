@@ -1,6 +1,8 @@
 import { Position } from '../types';
 import { FlowNode } from '../core/Node';
 import { FlowEdge } from '../core/Edge';
+import { LayoutDirection, isHorizontal, toFlowFrame, fromFlowFrame } from '../layout/direction';
+import type { RouteResult } from '../router/types';
 
 /**
  * Manhattan路由器 - 最终优化版本
@@ -11,6 +13,7 @@ import { FlowEdge } from '../core/Edge';
  * 3. ✅ 确保箭头显示 - 正确的角度计算
  * 4. ✅ 入口统一在顶部 - 视觉一致
  * 5. ✅ 纯直角线条 - 无斜线
+ * 6. ✅ 支持四个流向 - 在流向坐标系中按从上到下计算，再转换回画布坐标
  */
 export class ManhattanRouter {
   // 优化后的参数（更大的间距）
@@ -18,6 +21,15 @@ export class ManhattanRouter {
   private readonly LOOP_OFFSET = 220;    // 回路外边距（增大）
   private readonly CORNER_RADIUS = 10;   // 圆角半径
 
+  constructor(private direction: LayoutDirection = 'TB') {}
+
+  /**
+   * 设置流向（连线从下游一侧出发）
+   */
+  public setDirection(direction: LayoutDirection): void {
+    this.direction = direction;
+  }
+
   /**
    * 主路由方法
    */
@@ -27,17 +39,16 @@ export class ManhattanRouter {
     targetNode: FlowNode,
     nodeWidth: number,
     nodeHeight: number
-  ): {
-    points: Position[];
-    path: string;
-    labelPosition: Position;
-    arrowAngle: number;
-  } {
-    const halfW = nodeWidth / 2;
-    const halfH = nodeHeight / 2;
+  ): RouteResult {
+    // 流向坐标系中的节点半宽/半高
+    const horizontal = isHorizontal(this.direction);
+    const halfW = (horizontal ? nodeHeight : nodeWidth) / 2;
+    const halfH = (horizontal ? nodeWidth : nodeHeight) / 2;
+    const sourceCenter = this.toFrame(sourceNode.position);
+    const targetCenter = this.toFrame(targetNode.position);
 
     // 检测是否是回路
-    const isLoop = this.isLoop(edge, sourceNode, targetNode);
+    const isLoop = this.isLoop(edge, sourceCenter, targetCenter);
 
     // 计算连接点偏移
     const sourceOffset = this.calculateSourceOffset(sourceNode, targetNode, edge);
@@ -45,50 +56,56 @@ export class ManhattanRouter {
 
     // 确定连接点位置
     const source = this.getSourcePoint(
-      sourceNode.position,
+      sourceCenter,
       halfW,
       halfH,
       sourceOffset,
       isLoop,
-      targetNode.position
+      targetCenter
     );
 
     const target = this.getTargetPoint(
-      targetNode.position,
+      targetCenter,
       halfW,
       halfH,
       targetOffset
     );
 
-    // 计算路径（确保完整）
-    const points = isLoop ?
+    // 计算路径（确保完整），再转换回画布坐标
+    const points = (isLoop ?
       this.routeLoop(source, target) :
-      this.routeNormal(source, target);
+      this.routeNormal(source, target)
+    ).map(point => fromFlowFrame(this.direction, point));
 
     // 确保路径完整性
-    const validatedPoints = this.validatePath(points);
+    return this.fromPoints(this.validatePath(points));
+  }
 
+  /**
+   * 由路径点生成路由结果（路径、标签位置、箭头角度）
+   */
+  public fromPoints(points: Position[]): RouteResult {
     // 生成SVG路径
-    const path = this.generatePath(validatedPoints);
+    const path = this.generatePath(points);
 
     // 计算标签位置
-    const labelPosition = this.calculateLabelPosition(validatedPoints);
+    const labelPosition = this.calculateLabelPosition(points);
 
     // 计算箭头角度（确保正确）
-    const arrowAngle = this.calculateArrowAngle(validatedPoints);
+    const arrowAngle = this.calculateArrowAngle(points);
 
-    return { points: validatedPoints, path, labelPosition, arrowAngle };
+    return { points, path, labelPosition, arrowAngle };
   }
 
   /**
    * 检测是否是回路
    */
-  private isLoop(edge: FlowEdge, sourceNode: FlowNode, targetNode: FlowNode): boolean {
+  private isLoop(edge: FlowEdge, source: Position, target: Position): boolean {
     const label = (edge.label || '').toLowerCase();
     if (label.includes('退回') || label.includes('驳回') || label.includes('返回') || label.includes('撤回')) {
       return true;
     }
-    return targetNode.position.y < sourceNode.position.y - 10;
+    return target.y < source.y - 10;
   }
 
   /**
@@ -98,8 +115,8 @@ export class ManhattanRouter {
     const outputs = sourceNode.getOutputs();
     if (outputs.length <= 1) return 0;
 
-    // 按目标X坐标排序
-    const sorted = [...outputs].sort((a, b) => a.position.x - b.position.x);
+    // 按目标在层内方向的坐标排序
+    const sorted = [...outputs].sort((a, b) => this.toFrame(a.position).x - this.toFrame(b.position).x);
     const index = sorted.findIndex(n => n.id === targetNode.id);
     if (index < 0) return 0;
 
@@ -121,8 +138,8 @@ export class ManhattanRouter {
     const inputs = targetNode.getInputs();
     if (inputs.length <= 1) return 0;
 
-    // 按源X坐标排序
-    const sorted = [...inputs].sort((a, b) => a.position.x - b.position.x);
+    // 按源在层内方向的坐标排序
+    const sorted = [...inputs].sort((a, b) => this.toFrame(a.position).x - this.toFrame(b.position).x);
     const index = sorted.findIndex(n => n.id === sourceNode.id);
     if (index < 0) return 0;
 
@@ -468,6 +485,13 @@ export class ManhattanRouter {
     return valid;
   }
 
+  /**
+   * 画布坐标转换为流向坐标系
+   */
+  private toFrame(position: Position): Position {
+    return toFlowFrame(this.direction, position);
+  }
+
   private distance(p1: Position, p2: Position): number {
     return Math.sqrt((p2.x - p1.x) ** 2 + (p2.y - p1.y) ** 2);
   }
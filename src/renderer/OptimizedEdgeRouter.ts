@@ -1,15 +1,8 @@
 import { Position } from '../types';
 import { ConnectionSide } from './ConnectionPointManager';
+import type { RouteResult } from '../router/types';
 
-/**
- * 路由结果
- */
-export interface RouteResult {
-  points: Position[];           // 路径关键点
-  path: string;                 // SVG路径字符串
-  labelPosition: Position;      // 标签位置
-  arrowAngle: number;          // 箭头角度
-}
+export type { RouteResult };
 
 /**
  * 优化的边缘路由器
@@ -1,7 +1,34 @@
 import { FlowNode } from '../core/Node';
 import { FlowEdge } from '../core/Edge';
-import { RenderConfig, NodeType, NodeStatus, Position } from '../types';
+import { RenderConfig, NodeType, NodeStatus, Position, EdgeStyle, FlowChartAnimationConfig } from '../types';
+import type { Cancellable } from '../types/advanced';
 import { EdgeRenderer } from './EdgeRenderer';
+import { ISSUE_COLORS } from '../styles/defaultStyles';
+import { getNodeSize } from '../layout/Layout';
+import type { LayoutDirection } from '../layout/direction';
+import type { EdgeNudgerConfig } from '../router/EdgeNudger';
+import type { LineJumpConfig } from './LineJumps';
+import { Tween, prefersReducedMotion } from '../animation/Tween';
+
+/**
+ * 验证问题标记
+ */
+export interface IssueMarker {
+  severity: keyof typeof ISSUE_COLORS;
+  messages: string[];
+}
+
+/**
+ * 节点位置动画中的一个节点
+ */
+interface NodeMove {
+  node: FlowNode;
+  from: Position;
+  to: Position;
+  current: Position;
+}
+
+type ViewTransform = { x: number; y: number; scale: number };
 
 /**
  * SVG渲染器（支持缩放、拖拽、节点移动）
@@ -22,9 +49,17 @@ export class Renderer {
   private transformStart = { x: 0, y: 0, scale: 1 }; // 拖拽开始时的transform
   private draggedNode: FlowNode | null = null;
   private nodeElements = new Map<string, SVGGElement>();
+  private renderedNodes = new Map<string, FlowNode>();
   private edgeElements: FlowEdge[] = [];
   private onEdgeClickCallback?: (edge: FlowEdge) => void;
   private edgeRenderer: EdgeRenderer;
+  private activeEdgeIds = new Set<string>();
+  private nodeIssues = new Map<string, IssueMarker>();
+  private edgeIssues = new Map<string, IssueMarker>();
+  private animation: FlowChartAnimationConfig | null = null;
+  private nodeTween: Tween | null = null;
+  private nodeMoves: NodeMove[] = [];
+  private viewportTween: Tween | null = null;
   
   // 配置
   private enableZoom: boolean;
@@ -125,6 +160,7 @@ export class Renderer {
    */
   private handleWheel(event: WheelEvent): void {
     event.preventDefault();
+    this.viewportTween?.cancel();
     
     const delta = -event.deltaY;
     const newScale = delta > 0 
@@ -168,6 +204,7 @@ export class Renderer {
       return;
     }
     
+    this.viewportTween?.cancel();
     this.isDraggingCanvas = true;
     // 记录屏幕坐标
     this.canvasDragStart = { x: event.clientX, y: event.clientY };
@@ -280,6 +317,9 @@ export class Renderer {
     text.setAttribute('pointer-events', 'none'); // 文本不接收鼠标事件
     text.textContent = node.label;
     group.appendChild(text);
+
+    // 验证问题徽标
+    this.renderIssueBadge(group, node);
     
     // 设置节点可拖拽
     if (this.enableNodeDrag) {
@@ -298,6 +338,7 @@ export class Renderer {
     
     this.nodesGroup.appendChild(group);
     this.nodeElements.set(node.id, group);
+    this.renderedNodes.set(node.id, node);
     return group;
   }
 
@@ -306,6 +347,7 @@ export class Renderer {
    */
   private handleNodeMouseDown(event: MouseEvent, node: FlowNode): void {
     event.stopPropagation();
+    this.stopNodeAnimation();
     this.isDraggingNode = true;
     this.draggedNode = node;
     this.svg.style.cursor = 'move';
@@ -314,10 +356,154 @@ export class Renderer {
   /**
    * 更新节点元素位置
    */
-  private updateNodeElement(node: FlowNode): void {
+  private updateNodeElement(node: FlowNode, position: Position = node.position): void {
     const element = this.nodeElements.get(node.id);
     if (element) {
-      element.setAttribute('transform', `translate(${node.position.x}, ${node.position.y})`);
+      element.setAttribute('transform', `translate(${position.x}, ${position.y})`);
+    }
+  }
+
+  /**
+   * 设置动画配置，传入 false 关闭动画
+   */
+  public setAnimation(config?: FlowChartAnimationConfig | boolean): void {
+    if (!config) {
+      this.animation = null;
+    } else {
+      this.animation = config === true ? {} : config;
+    }
+  }
+
+  /**
+   * 当前是否播放动画（考虑减少动画设置）
+   */
+  private shouldAnimate(): boolean {
+    if (!this.animation || this.animation.enabled === false || this.animation.duration === 0) {
+      return false;
+    }
+    const reducedMotion = this.animation.reducedMotion ?? 'system';
+    return reducedMotion === 'system' ? !prefersReducedMotion() : !reducedMotion;
+  }
+
+  /**
+   * 创建补间动画
+   */
+  private createTween(onFrame: (progress: number) => void, onEnd: (cancelled: boolean) => void): Tween {
+    const { duration = 300, easing = 'ease-in-out', delay, iterations } = this.animation!;
+    return new Tween({ duration, easing, delay, iterations, onFrame, onEnd });
+  }
+
+  /**
+   * 获取节点当前显示的位置（动画过程中为插值位置）
+   */
+  public getDisplayedPositions(): Map<string, Position> {
+    const positions = new Map<string, Position>();
+    this.renderedNodes.forEach((node, id) => positions.set(id, { ...node.position }));
+    this.nodeMoves.forEach(move => positions.set(move.node.id, { ...move.current }));
+    return positions;
+  }
+
+  /**
+   * 把已渲染的节点从旧位置动画移动到当前位置，连线逐帧重新路由
+   * 节点数据始终保持目标位置，只有显示位置参与插值；未开启动画或没有节点移动时返回 null
+   */
+  public animateNodes(from: Map<string, Position>): Cancellable | null {
+    this.stopNodeAnimation();
+    if (!this.shouldAnimate()) {
+      return null;
+    }
+
+    const moves: NodeMove[] = [];
+    this.renderedNodes.forEach((node, id) => {
+      const start = from.get(id);
+      if (start && (start.x !== node.position.x || start.y !== node.position.y)) {
+        moves.push({ node, from: { ...start }, to: { ...node.position }, current: { ...start } });
+      }
+    });
+    if (moves.length === 0) {
+      return null;
+    }
+
+    this.nodeMoves = moves;
+    const tween = this.createTween(
+      progress => this.renderNodeFrame(moves, progress),
+      cancelled => {
+        if (this.nodeTween === tween) {
+          this.nodeTween = null;
+          this.nodeMoves = [];
+        }
+        // 取消时直接跳到最终位置
+        if (cancelled) {
+          this.renderNodeFrame(moves, 1);
+        }
+      }
+    );
+    if (!tween.isFinished()) {
+      this.nodeTween = tween;
+    }
+    return tween;
+  }
+
+  /**
+   * 结束正在播放的节点动画，节点直接显示在最终位置
+   */
+  public stopNodeAnimation(): void {
+    this.nodeTween?.cancel();
+    this.nodeTween = null;
+    this.nodeMoves = [];
+  }
+
+  /**
+   * 按插值位置绘制一帧：临时替换节点位置以重新路由连线，绘制后恢复
+   */
+  private renderNodeFrame(moves: NodeMove[], progress: number): void {
+    moves.forEach(move => {
+      move.current = {
+        x: move.from.x + (move.to.x - move.from.x) * progress,
+        y: move.from.y + (move.to.y - move.from.y) * progress
+      };
+      move.node.position = move.current;
+      this.updateNodeElement(move.node);
+    });
+    this.updateAllEdges();
+    moves.forEach(move => {
+      move.node.position = { ...move.to };
+    });
+  }
+
+  /**
+   * 切换视图变换，开启动画时从当前变换过渡到目标，结束后调用 apply
+   * 动画过程中用户拖拽或滚轮缩放会取消动画
+   */
+  private transitionTo(target: ViewTransform, apply: () => void): void {
+    this.viewportTween?.cancel();
+    this.viewportTween = null;
+    if (!this.shouldAnimate() || this.animation!.viewport === false) {
+      apply();
+      return;
+    }
+
+    const start = { ...this.transform };
+    const tween = this.createTween(
+      progress => {
+        this.transform = {
+          x: start.x + (target.x - start.x) * progress,
+          y: start.y + (target.y - start.y) * progress,
+          scale: start.scale + (target.scale - start.scale) * progress
+        };
+        this.applyTransform();
+      },
+      cancelled => {
+        if (this.viewportTween === tween) {
+          this.viewportTween = null;
+        }
+        if (!cancelled) {
+          apply();
+        }
+      }
+    );
+    if (!tween.isFinished()) {
+      this.viewportTween = tween;
     }
   }
 
@@ -326,9 +512,7 @@ export class Renderer {
    */
   private updateAllEdges(): void {
     this.edgesGroup.innerHTML = '';
-    this.edgeElements.forEach(edge => {
-      this.renderEdge(edge, this.onEdgeClickCallback);
-    });
+    this.renderEdges(this.edgeElements, this.onEdgeClickCallback);
   }
 
   /**
@@ -400,6 +584,16 @@ export class Renderer {
     return statusColors[status] || defaultColor || '#fff';
   }
 
+  /**
+   * 渲染一批边：先统一路由并分离重叠的平行线段，再逐条渲染
+   */
+  public renderEdges(edges: FlowEdge[], onClick?: (edge: FlowEdge) => void): void {
+    this.edgeRenderer.prepareRoutes(edges, edge => this.getEdgeStyle(edge));
+    edges.forEach(edge => {
+      this.renderEdge(edge, onClick);
+    });
+  }
+
   /**
    * 渲染边
    */
@@ -413,10 +607,97 @@ export class Renderer {
     }
     
     // 合并样式
-    const style = { ...this.config.edgeDefaultStyle, ...edge.style };
+    const style = this.getEdgeStyle(edge);
     
     // 使用新的 EdgeRenderer 渲染
-    return this.edgeRenderer.renderEdge(edge, this.edgesGroup, style, onClick);
+    const group = this.edgeRenderer.renderEdge(edge, this.edgesGroup, style, onClick);
+    if (this.activeEdgeIds.has(edge.id)) {
+      group.classList.add('animated');
+    }
+    const issue = this.edgeIssues.get(edge.id);
+    if (issue) {
+      this.edgeRenderer.markIssue(group, issue.severity, issue.messages.join('\n'));
+    }
+    return group;
+  }
+
+  /**
+   * 合并默认样式和边的样式
+   */
+  private getEdgeStyle(edge: FlowEdge): EdgeStyle {
+    return { ...this.config.edgeDefaultStyle, ...edge.style };
+  }
+
+  /**
+   * 设置验证问题标记：节点显示徽标，连线显示为问题颜色虚线
+   */
+  public setIssueMarkers(nodeIssues: Map<string, IssueMarker>, edgeIssues: Map<string, IssueMarker>): void {
+    this.nodeIssues = nodeIssues;
+    this.edgeIssues = edgeIssues;
+    this.renderedNodes.forEach((node, id) => this.renderIssueBadge(this.nodeElements.get(id)!, node));
+    this.updateAllEdges();
+  }
+
+  /**
+   * 渲染节点右上角的问题徽标
+   */
+  private renderIssueBadge(group: SVGGElement, node: FlowNode): void {
+    group.querySelector('.validation-badge')?.remove();
+    const issue = this.nodeIssues.get(node.id);
+    if (!issue) {
+      return;
+    }
+
+    const badge = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    badge.setAttribute('class', `validation-badge validation-${issue.severity}`);
+    const { width, height } = getNodeSize(node);
+    badge.setAttribute('transform', `translate(${width / 2}, ${-height / 2})`);
+
+    const circle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+    circle.setAttribute('r', '9');
+    circle.setAttribute('fill', ISSUE_COLORS[issue.severity]);
+    circle.setAttribute('stroke', '#fff');
+    circle.setAttribute('stroke-width', '2');
+    badge.appendChild(circle);
+
+    const mark = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+    mark.setAttribute('text-anchor', 'middle');
+    mark.setAttribute('dominant-baseline', 'central');
+    mark.setAttribute('fill', '#fff');
+    mark.setAttribute('font-size', '12');
+    mark.setAttribute('font-weight', 'bold');
+    mark.textContent = issue.severity === 'info' ? 'i' : '!';
+    badge.appendChild(mark);
+
+    const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+    title.textContent = issue.messages.join('\n');
+    badge.appendChild(title);
+
+    group.appendChild(badge);
+  }
+
+  /**
+   * 将指定点移动到视图中心
+   */
+  public focusPoint(position: Position, scale: number = this.transform.scale): void {
+    const rect = this.container.getBoundingClientRect();
+    const clampedScale = Math.max(this.minScale, Math.min(this.maxScale, scale));
+    const target = {
+      x: rect.width / 2 - position.x * clampedScale,
+      y: rect.height / 2 - position.y * clampedScale,
+      scale: clampedScale
+    };
+    this.transitionTo(target, () => this.setTransform(target.x, target.y, target.scale));
+  }
+
+  /**
+   * 设置活动连线（显示流动动画）
+   */
+  public setActiveEdges(edgeIds: string[]): void {
+    this.activeEdgeIds = new Set(edgeIds);
+    this.edgesGroup.querySelectorAll('.flow-edge').forEach(group => {
+      group.classList.toggle('animated', this.activeEdgeIds.has(group.getAttribute('data-edge-id') || ''));
+    });
   }
 
   /**
@@ -426,6 +707,41 @@ export class Renderer {
     this.edgeRenderer.setNodes(nodes);
   }
 
+  /**
+   * 设置流向，连线按流向选择出入端口
+   */
+  public setDirection(direction: LayoutDirection): void {
+    this.edgeRenderer.setDirection(direction);
+  }
+
+  /**
+   * 设置默认连线路由器
+   */
+  public setEdgeRouter(name: string | null): void {
+    this.edgeRenderer.setDefaultRouter(name);
+  }
+
+  /**
+   * 设置连线分离，false 关闭，true 使用默认间距
+   */
+  public setEdgeNudging(config: boolean | EdgeNudgerConfig = true): void {
+    this.edgeRenderer.setNudging(config === false ? null : config === true ? {} : config);
+  }
+
+  /**
+   * 设置连线交叉处的跳线，false 关闭，true 使用默认样式
+   */
+  public setLineJumps(config: boolean | LineJumpConfig = true): void {
+    this.edgeRenderer.setLineJumps(config === false ? null : config === true ? {} : config);
+  }
+
+  /**
+   * 获取SVG根元素
+   */
+  public getSVGElement(): SVGSVGElement {
+    return this.svg;
+  }
+
   /**
    * 获取当前的 transform 信息
    */
@@ -433,6 +749,16 @@ export class Renderer {
     return { ...this.transform };
   }
 
+  /**
+   * 将相对画布左上角的坐标转换为流程图坐标（逆向应用画布的平移和缩放）
+   */
+  public viewToFlowChart(point: Position): Position {
+    return {
+      x: (point.x - this.transform.x) / this.transform.scale,
+      y: (point.y - this.transform.y) / this.transform.scale
+    };
+  }
+
   /**
    * 将屏幕坐标转换为流程图坐标（供外部使用）
    */
@@ -476,9 +802,11 @@ export class Renderer {
    * 清空画布
    */
   public clear(): void {
+    this.stopNodeAnimation();
     this.nodesGroup.innerHTML = '';
     this.edgesGroup.innerHTML = '';
     this.nodeElements.clear();
+    this.renderedNodes.clear();
     this.edgeElements = [];
     this.edgeRenderer.clear();
   }
@@ -508,6 +836,7 @@ export class Renderer {
    * 设置缩放和平移
    */
   public setTransform(x: number, y: number, scale: number): void {
+    this.viewportTween?.cancel();
     const clampedScale = Math.max(this.minScale, Math.min(this.maxScale, scale));
     this.transform = { x, y, scale: clampedScale };
     this.applyTransform();
@@ -521,6 +850,7 @@ export class Renderer {
    * 设置缩放比例
    */
   public setScale(scale: number, centerX?: number, centerY?: number): void {
+    this.viewportTween?.cancel();
     const clampedScale = Math.max(this.minScale, Math.min(this.maxScale, scale));
     
     if (centerX !== undefined && centerY !== undefined) {
@@ -549,21 +879,29 @@ export class Renderer {
    * 放大
    */
   public zoomIn(): void {
-    this.setScale(this.transform.scale * (1 + this.scaleStep));
+    this.zoomTo(this.transform.scale * (1 + this.scaleStep));
   }
   
   /**
    * 缩小
    */
   public zoomOut(): void {
-    this.setScale(this.transform.scale * (1 - this.scaleStep));
+    this.zoomTo(this.transform.scale * (1 - this.scaleStep));
+  }
+
+  /**
+   * 缩放到指定比例（开启动画时过渡）
+   */
+  private zoomTo(scale: number): void {
+    const clampedScale = Math.max(this.minScale, Math.min(this.maxScale, scale));
+    this.transitionTo({ ...this.transform, scale: clampedScale }, () => this.setScale(clampedScale));
   }
   
   /**
    * 重置缩放
    */
   public resetZoom(): void {
-    this.setTransform(0, 0, 1);
+    this.transitionTo({ x: 0, y: 0, scale: 1 }, () => this.setTransform(0, 0, 1));
   }
 
   /**
@@ -586,7 +924,10 @@ export class Renderer {
     const centerX = bbox.x + bbox.width / 2;
     const centerY = bbox.y + bbox.height / 2;
     
-    this.setTransform(-centerX * scale, -centerY * scale, scale);
+    this.transitionTo(
+      { x: -centerX * scale, y: -centerY * scale, scale },
+      () => this.setTransform(-centerX * scale, -centerY * scale, scale)
+    );
   }
   
   /**
@@ -720,8 +1061,6 @@ export class Renderer {
    */
   public updateEdges(edges: FlowEdge[], onClick?: (edge: FlowEdge) => void): void {
     this.edgesGroup.innerHTML = '';
-    edges.forEach(edge => {
-      this.renderEdge(edge, onClick);
-    });
+    this.renderEdges(edges, onClick);
   }
 }
@@ -1,4 +1,6 @@
 import { Position, NodeType } from '../types';
+import { LayoutDirection, toFlowFrame } from '../layout/direction';
+import type { RouteResult } from '../router/types';
 
 /**
  * 连接方向枚举
@@ -44,16 +46,7 @@ interface RouterConfig {
   symmetricOffset?: number;  // 对称分布的偏移量
   sourcePortOffset?: number; // 源端口的偏移量
   targetPortOffset?: number; // 目标端口的偏移量
-}
-
-/**
- * 路径结果
- */
-interface PathResult {
-  path: string;              // SVG路径字符串
-  points: Position[];        // 路径关键点
-  labelPosition: Position;   // 标签位置
-  arrowAngle: number;       // 箭头角度
+  direction?: LayoutDirection; // 流向：顺流连线从下游一侧出发、从上游一侧进入
 }
 
 /**
@@ -75,20 +68,22 @@ export class SmartEdgeRouter {
       offset: config.offset ?? 0,
       symmetricOffset: config.symmetricOffset ?? 0,
       sourcePortOffset: config.sourcePortOffset ?? 0,
-      targetPortOffset: config.targetPortOffset ?? 0
+      targetPortOffset: config.targetPortOffset ?? 0,
+      direction: config.direction
     } as Required<RouterConfig>;
   }
 
   /**
    * 计算两个节点之间的最优路径
    */
-  public route(source: NodeInfo, target: NodeInfo, allNodes?: NodeInfo[], options?: RouterConfig): PathResult {
+  public route(source: NodeInfo, target: NodeInfo, allNodes?: NodeInfo[], options?: RouterConfig): RouteResult {
     // 合并配置选项
     const config = { ...this.config, ...options };
     
-    // 获取最佳连接端口
-    let sourcePort = this.getBestPort(source, target, true, config.preferredSourcePort);
-    let targetPort = this.getBestPort(target, source, false, config.preferredTargetPort);
+    // 获取最佳连接端口（未指定优先方向时按流向选择）
+    const flowPorts = config.direction ? this.getFlowPorts(source, target, config.direction) : undefined;
+    let sourcePort = this.getBestPort(source, target, true, config.preferredSourcePort ?? flowPorts?.source);
+    let targetPort = this.getBestPort(target, source, false, config.preferredTargetPort ?? flowPorts?.target);
     
     // 应用端口偏移
     if (config.sourcePortOffset && config.sourcePortOffset !== 0) {
@@ -190,6 +185,31 @@ export class SmartEdgeRouter {
     return { position, direction };
   }
 
+  /**
+   * 按流向确定顺流连线的端口方向，逆流连线返回 undefined 由几何关系决定
+   */
+  private getFlowPorts(
+    source: NodeInfo,
+    target: NodeInfo,
+    direction: LayoutDirection
+  ): { source: PortDirection; target: PortDirection } | undefined {
+    const downstream = toFlowFrame(direction, target.position).y - toFlowFrame(direction, source.position).y;
+    if (downstream <= 0) {
+      return undefined;
+    }
+
+    switch (direction) {
+      case 'BT':
+        return { source: PortDirection.TOP, target: PortDirection.BOTTOM };
+      case 'LR':
+        return { source: PortDirection.RIGHT, target: PortDirection.LEFT };
+      case 'RL':
+        return { source: PortDirection.LEFT, target: PortDirection.RIGHT };
+      default:
+        return { source: PortDirection.BOTTOM, target: PortDirection.TOP };
+    }
+  }
+
   /**
    * 获取菱形节点的连接端口
    */
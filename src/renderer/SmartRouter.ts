@@ -1,5 +1,6 @@
 import { Position, NodeType } from '../types';
 import { FlowNode } from '../core/Node';
+import type { RouteResult } from '../router/types';
 
 /**
  * 方向枚举
@@ -48,7 +49,7 @@ export class SmartRouter {
     nodeWidth: number,
     nodeHeight: number,
     options: RouterOptions = {}
-  ): { path: string; labelPosition: Position; arrowAngle: number } {
+  ): RouteResult {
     const padding = options.padding ?? this.DEFAULT_PADDING;
     const cornerRadius = options.cornerRadius ?? this.DEFAULT_CORNER_RADIUS;
     const minGap = options.minGap ?? this.DEFAULT_MIN_GAP;
@@ -82,7 +83,7 @@ export class SmartRouter {
     // 计算箭头角度
     const arrowAngle = this.calculateArrowAngle(waypoints);
 
-    return { path, labelPosition, arrowAngle };
+    return { points: waypoints, path, labelPosition, arrowAngle };
   }
 
   /**
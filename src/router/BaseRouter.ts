@@ -4,6 +4,7 @@
 
 import { Position } from '../types/model';
 import { BBox } from '../types/view';
+import type { LayoutDirection } from '../layout/direction';
 
 export interface RouterConfig {
   /** 网格大小（用于对齐） */
@@ -12,16 +13,22 @@ export interface RouterConfig {
   padding?: number;
   /** 是否避障 */
   avoidObstacles?: boolean;
+  /** 拐角圆角半径 */
+  cornerRadius?: number;
+  /** 流向，曲线沿流向弯曲；不指定时按水平方向弯曲 */
+  direction?: LayoutDirection;
 }
 
 export abstract class BaseRouter {
-  protected config: Required<RouterConfig>;
+  protected config: Required<Omit<RouterConfig, 'direction'>> & Pick<RouterConfig, 'direction'>;
 
   constructor(config: RouterConfig = {}) {
     this.config = {
       gridSize: config.gridSize || 10,
       padding: config.padding || 20,
       avoidObstacles: config.avoidObstacles !== false,
+      cornerRadius: config.cornerRadius ?? 0,
+      direction: config.direction,
     };
   }
 
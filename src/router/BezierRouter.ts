@@ -5,6 +5,7 @@
 import { BaseRouter, RouterConfig } from './BaseRouter';
 import { Position } from '../types/model';
 import { BBox } from '../types/view';
+import { isHorizontal } from '../layout/direction';
 
 export class BezierRouter extends BaseRouter {
   constructor(config?: RouterConfig) {
@@ -14,6 +15,7 @@ export class BezierRouter extends BaseRouter {
   /**
    * 计算贝塞尔曲线路径
    * 注意：返回的是控制点，实际绘制时需要使用SVG的贝塞尔曲线命令
+   * 配置了纵向流向（TB/BT）时控制点沿纵向偏移
    */
   route(
     source: Position,
@@ -24,6 +26,17 @@ export class BezierRouter extends BaseRouter {
     const dx = target.x - source.x;
     const dy = target.y - source.y;
 
+    if (this.config.direction && !isHorizontal(this.config.direction)) {
+      const offset = Math.abs(dy) * 0.5;
+      const sign = dy >= 0 ? 1 : -1;
+      return [
+        source,
+        { x: source.x, y: source.y + sign * offset },
+        { x: target.x, y: target.y - sign * offset },
+        target
+      ];
+    }
+
     // 计算控制点偏移量
     const offsetX = Math.abs(dx) * 0.5;
     const offsetY = Math.abs(dy) * 0.5;
@@ -0,0 +1,254 @@
+/**
+ * 连线分离（nudging）
+ * 路由完成后检查所有连线的正交线段，找出共用同一通道（共线且重叠）的线段，
+ * 按统一的顺序以固定间距展开，端点所在的端口随之沿节点边滑动
+ */
+
+import { Position } from '../types/model';
+import { simplifyPath } from './path';
+
+/**
+ * 端口可以滑动的范围：沿 axis 轴的坐标区间
+ */
+export interface PortSpan {
+  axis: 'x' | 'y';
+  min: number;
+  max: number;
+}
+
+/**
+ * 参与分离的连线
+ */
+export interface NudgeEdge {
+  id: string;
+  points: Position[];
+  /** 起点端口的滑动范围，不指定时起点固定 */
+  sourceSpan?: PortSpan | null;
+  /** 终点端口的滑动范围，不指定时终点固定 */
+  targetSpan?: PortSpan | null;
+}
+
+export interface EdgeNudgerConfig {
+  /** 平行线段之间的间距，默认 10 */
+  gap?: number;
+}
+
+/**
+ * 正交线段
+ */
+interface Segment {
+  edge: number;
+  /** 起点在路径中的下标，线段为 points[index] -> points[index + 1] */
+  index: number;
+  /** horizontal 时线段平移 y，否则平移 x */
+  horizontal: boolean;
+  /** 线段所在直线的坐标 */
+  position: number;
+  min: number;
+  max: number;
+  /** 偏移的允许范围 */
+  lower: number;
+  upper: number;
+  /** 排序键：相邻线段伸向哪一侧 */
+  side: number;
+  spread: number;
+}
+
+/** 坐标差小于该值视为共线 */
+const TOLERANCE = 0.5;
+/** 平移后相邻线段至少保留的长度 */
+const MIN_LENGTH = 1;
+
+export class EdgeNudger {
+  private gap: number;
+
+  constructor(config: EdgeNudgerConfig = {}) {
+    this.gap = config.gap ?? 10;
+  }
+
+  /**
+   * 分离重叠的平行线段，返回每条连线调整后的路径点（未调整的连线原样返回）
+   */
+  public nudge(edges: NudgeEdge[]): Map<string, Position[]> {
+    const paths = edges.map(edge => simplifyPath(edge.points));
+    const segments = this.collectSegments(edges, paths);
+    const offsets = new Map<Segment, number>();
+
+    this.groupChannels(segments).forEach(channel => {
+      this.findOverlaps(channel).forEach(cluster => this.spread(cluster, offsets));
+    });
+
+    const result = new Map<string, Position[]>();
+    const shifted = paths.map(points => points.map(point => ({ ...point })));
+    offsets.forEach((offset, segment) => {
+      const points = shifted[segment.edge];
+      const axis = segment.horizontal ? 'y' : 'x';
+      points[segment.index][axis] += offset;
+      points[segment.index + 1][axis] += offset;
+    });
+    edges.forEach((edge, index) => result.set(edge.id, shifted[index]));
+    return result;
+  }
+
+  /**
+   * 收集所有正交线段及其偏移范围
+   */
+  private collectSegments(edges: NudgeEdge[], paths: Position[][]): Segment[] {
+    const segments: Segment[] = [];
+
+    paths.forEach((points, edge) => {
+      for (let index = 0; index < points.length - 1; index++) {
+        const a = points[index];
+        const b = points[index + 1];
+        const horizontal = Math.abs(a.y - b.y) < TOLERANCE;
+        if (!horizontal && Math.abs(a.x - b.x) >= TOLERANCE) {
+          continue;
+        }
+        const along = horizontal ? 'x' : 'y';
+        const across = horizontal ? 'y' : 'x';
+        if (Math.abs(a[along] - b[along]) < TOLERANCE) {
+          continue;
+        }
+
+        const segment: Segment = {
+          edge,
+          index,
+          horizontal,
+          position: a[across],
+          min: Math.min(a[along], b[along]),
+          max: Math.max(a[along], b[along]),
+          lower: -Infinity,
+          upper: Infinity,
+          side: 0,
+          spread: 0
+        };
+
+        // 相邻线段不能因平移而反向
+        [points[index - 1], points[index + 2]].forEach(neighbor => {
+          if (!neighbor) {
+            return;
+          }
+          const delta = neighbor[across] - segment.position;
+          segment.side += Math.sign(delta);
+          segment.spread += delta;
+          if (delta > 0) {
+            segment.upper = Math.min(segment.upper, delta - MIN_LENGTH);
+          } else if (delta < 0) {
+            segment.lower = Math.max(segment.lower, delta + MIN_LENGTH);
+          }
+        });
+
+        if (index === 0) {
+          this.limitPort(segment, edges[edge].sourceSpan, across);
+        }
+        if (index + 1 === points.length - 1) {
+          this.limitPort(segment, edges[edge].targetSpan, across);
+        }
+
+        segments.push(segment);
+      }
+    });
+
+    return segments;
+  }
+
+  /**
+   * 端口只能沿所在边滑动，没有滑动范围的端口固定
+   */
+  private limitPort(segment: Segment, span: PortSpan | null | undefined, axis: 'x' | 'y'): void {
+    if (!span || span.axis !== axis) {
+      segment.lower = Math.max(segment.lower, 0);
+      segment.upper = Math.min(segment.upper, 0);
+      return;
+    }
+    segment.lower = Math.max(segment.lower, span.min - segment.position);
+    segment.upper = Math.min(segment.upper, span.max - segment.position);
+  }
+
+  /**
+   * 按所在直线分组：同方向的线段按坐标排序，与组内第一条线段的坐标差不超过 TOLERANCE 的归为一组
+   */
+  private groupChannels(segments: Segment[]): Segment[][] {
+    const channels: Segment[][] = [];
+    [true, false].forEach(horizontal => {
+      let current: Segment[] = [];
+      segments
+        .filter(segment => segment.horizontal === horizontal)
+        .sort((a, b) => a.position - b.position)
+        .forEach(segment => {
+          if (current.length > 0 && segment.position - current[0].position <= TOLERANCE) {
+            current.push(segment);
+            return;
+          }
+          current = [segment];
+          channels.push(current);
+        });
+    });
+    return channels.filter(channel => channel.length > 1);
+  }
+
+  /**
+   * 同一直线上互相重叠（传递）的线段
+   */
+  private findOverlaps(channel: Segment[]): Segment[][] {
+    const sorted = channel.slice().sort((a, b) => a.min - b.min);
+    const clusters: Segment[][] = [];
+    let current: Segment[] = [];
+    let end = -Infinity;
+
+    sorted.forEach(segment => {
+      if (current.length > 0 && segment.min < end - TOLERANCE) {
+        current.push(segment);
+        end = Math.max(end, segment.max);
+        return;
+      }
+      if (current.length > 1) {
+        clusters.push(current);
+      }
+      current = [segment];
+      end = segment.max;
+    });
+    if (current.length > 1) {
+      clusters.push(current);
+    }
+
+    return clusters.filter(cluster => new Set(cluster.map(segment => segment.edge)).size > 1);
+  }
+
+  /**
+   * 等间距展开一组重叠线段
+   * 相邻线段伸向坐标较小一侧的排在前面，两端都交换不了顺序时至多产生一个交叉
+   */
+  private spread(cluster: Segment[], offsets: Map<Segment, number>): void {
+    const ordered = cluster.slice().sort((a, b) =>
+      a.side - b.side || a.spread - b.spread || a.edge - b.edge || a.index - b.index
+    );
+    const center = (ordered.length - 1) / 2;
+    let wanted = ordered.map((_, i) => (i - center) * this.gap);
+
+    // 固定的线段保持原位，其余线段以它为中心展开
+    const anchor = ordered.findIndex(segment => segment.lower === 0 && segment.upper === 0);
+    if (anchor >= 0) {
+      const shift = wanted[anchor];
+      wanted = wanted.map(offset => offset - shift);
+    }
+
+    // 超出允许范围时整体按比例收拢，保持顺序
+    let scale = 1;
+    ordered.forEach((segment, i) => {
+      const offset = wanted[i];
+      if (offset > segment.upper) {
+        scale = Math.min(scale, Math.max(0, segment.upper) / offset);
+      } else if (offset < segment.lower) {
+        scale = Math.min(scale, Math.min(0, segment.lower) / offset);
+      }
+    });
+
+    ordered.forEach((segment, i) => {
+      const offset = wanted[i] * scale;
+      if (Math.abs(offset) > 0.01) {
+        offsets.set(segment, offset);
+      }
+    });
+  }
+}
@@ -1,40 +1,52 @@
 /**
- * 路由工厂 - 创建不同类型的路由器
+ * 路由工厂 - 按名称创建连线路由策略
  */
 
-import { BaseRouter, RouterConfig } from './BaseRouter';
-import { OrthogonalRouter } from './OrthogonalRouter';
-import { PolylineRouter } from './PolylineRouter';
-import { BezierRouter } from './BezierRouter';
+import { RouterConfig } from './BaseRouter';
+import { EdgeRouterFactory, EdgeRouterStrategy } from './types';
+import { BUILT_IN_ROUTERS } from './strategies';
+import { ConfigError } from '../utils/errors';
 
-export type RouterType = 'orthogonal' | 'polyline' | 'bezier';
+export type RouterType =
+  | 'manhattan'
+  | 'smart'
+  | 'smart-edge'
+  | 'optimized'
+  | 'astar'
+  | 'visibility'
+  | 'orthogonal'
+  | 'polyline'
+  | 'bezier'
+  | 'smooth'
+  | 'straight'
+  | 'step';
 
 export class RouterFactory {
-  private static routers: Map<string, new (config?: RouterConfig) => BaseRouter> = new Map([
-    ['orthogonal', OrthogonalRouter],
-    ['polyline', PolylineRouter],
-    ['bezier', BezierRouter],
-  ]);
+  private static routers: Map<string, EdgeRouterFactory> = new Map(Object.entries(BUILT_IN_ROUTERS));
 
   /**
    * 创建路由器
    */
-  static create(type: RouterType = 'orthogonal', config?: RouterConfig): BaseRouter {
-    const RouterClass = this.routers.get(type);
-    if (!RouterClass) {
-      throw new Error(`Unknown router type: ${type}`);
+  static create(type: RouterType | string = 'manhattan', config: RouterConfig = {}): EdgeRouterStrategy {
+    const factory = this.routers.get(type);
+    if (!factory) {
+      throw new ConfigError(`Unknown router type: ${type}`);
     }
-    return new RouterClass(config);
+    return factory(config);
   }
 
   /**
-   * 注册自定义路由器
+   * 注册自定义路由器（同名路由器会被替换）
    */
-  static register(
-    type: string,
-    RouterClass: new (config?: RouterConfig) => BaseRouter
-  ): void {
-    this.routers.set(type, RouterClass);
+  static register(type: string, factory: EdgeRouterFactory): void {
+    this.routers.set(type, factory);
+  }
+
+  /**
+   * 移除路由器
+   */
+  static unregister(type: string): boolean {
+    return this.routers.delete(type);
   }
 
   /**
@@ -51,5 +63,3 @@ export class RouterFactory {
     return this.routers.has(type);
   }
 }
-
-
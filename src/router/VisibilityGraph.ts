@@ -0,0 +1,310 @@
+/**
+ * 正交可见性图
+ * 以障碍（节点边界框加留白）的四条边所在直线为网格线，网格线交点中不在障碍内部的点为图的顶点，
+ * 相邻顶点之间的线段不穿过障碍时相连。顶点由 A* 按需展开，大图中也只访问路径附近的顶点
+ */
+
+import { Position } from '../types/model';
+import { BBox } from '../types/view';
+import { ConnectionSide } from '../renderer/ConnectionPointManager';
+import { simplifyPath } from './path';
+
+/**
+ * 矩形障碍
+ */
+export type Rect = Pick<BBox, 'x' | 'y' | 'width' | 'height'>;
+
+/**
+ * 寻路选项
+ */
+export interface VisibilityPathOptions {
+  /** 每个拐弯的代价（相当于多少像素长度） */
+  bendPenalty: number;
+  /** 单位长度的代价 */
+  lengthPenalty: number;
+  /** 离开起点时的行进方向，不指定时任意 */
+  startHeading?: ConnectionSide;
+  /** 到达终点时的行进方向，不指定时任意 */
+  endHeading?: ConnectionSide;
+  /** 忽略的障碍下标（连线两端的节点） */
+  ignore?: number[];
+}
+
+/** 行进方向，下标即状态中的方向编号 */
+const HEADINGS = [ConnectionSide.TOP, ConnectionSide.RIGHT, ConnectionSide.BOTTOM, ConnectionSide.LEFT];
+const STEPS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+const EPSILON = 1e-6;
+const GOAL = -1;
+
+/**
+ * 反方向
+ */
+export function oppositeSide(side: ConnectionSide): ConnectionSide {
+  return HEADINGS[(HEADINGS.indexOf(side) + 2) % 4];
+}
+
+/**
+ * 沿某一侧方向的单位向量
+ */
+export function sideVector(side: ConnectionSide): Position {
+  const [x, y] = STEPS[HEADINGS.indexOf(side)];
+  return { x, y };
+}
+
+interface HeapItem {
+  state: number;
+  f: number;
+  g: number;
+}
+
+/**
+ * 最小堆，f 相同时优先 g 较大（离终点更近）的状态
+ */
+class MinHeap {
+  private items: HeapItem[] = [];
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public push(item: HeapItem): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(items[i], items[parent])) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  public pop(): HeapItem | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.less(items[left], items[smallest])) {
+          smallest = left;
+        }
+        if (right < items.length && this.less(items[right], items[smallest])) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private less(a: HeapItem, b: HeapItem): boolean {
+    return a.f < b.f || (a.f === b.f && a.g > b.g);
+  }
+}
+
+/**
+ * 有序坐标数组中插入新坐标（去重）
+ */
+function withCoordinates(sorted: number[], values: number[]): number[] {
+  const result = sorted.slice();
+  values.forEach(value => {
+    const index = lowerBound(result, value);
+    if (result[index] !== value) {
+      result.splice(index, 0, value);
+    }
+  });
+  return result;
+}
+
+function lowerBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+export class OrthogonalVisibilityGraph {
+  private xs: number[];
+  private ys: number[];
+  /** 空间索引：网格单元 -> 覆盖该单元的障碍下标 */
+  private buckets: Map<string, number[]> = new Map();
+
+  constructor(private obstacles: Rect[], private cellSize: number = 200) {
+    this.xs = uniqueSorted(obstacles.flatMap(rect => [rect.x, rect.x + rect.width]));
+    this.ys = uniqueSorted(obstacles.flatMap(rect => [rect.y, rect.y + rect.height]));
+
+    obstacles.forEach((rect, index) => {
+      const minX = Math.floor(rect.x / cellSize);
+      const maxX = Math.floor((rect.x + rect.width) / cellSize);
+      const minY = Math.floor(rect.y / cellSize);
+      const maxY = Math.floor((rect.y + rect.height) / cellSize);
+      for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+          const key = `${cx},${cy}`;
+          const bucket = this.buckets.get(key);
+          if (bucket) {
+            bucket.push(index);
+          } else {
+            this.buckets.set(key, [index]);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * 在点内部（不含边界）的障碍下标
+   */
+  public getObstaclesAt(point: Position): number[] {
+    const key = `${Math.floor(point.x / this.cellSize)},${Math.floor(point.y / this.cellSize)}`;
+    return (this.buckets.get(key) || []).filter(index => {
+      const rect = this.obstacles[index];
+      return point.x > rect.x + EPSILON && point.x < rect.x + rect.width - EPSILON &&
+        point.y > rect.y + EPSILON && point.y < rect.y + rect.height - EPSILON;
+    });
+  }
+
+  /**
+   * 与正交线段内部相交的障碍下标（只接触边界不算相交）
+   */
+  public getObstaclesOn(a: Position, b: Position): number[] {
+    const minX = Math.min(a.x, b.x);
+    const maxX = Math.max(a.x, b.x);
+    const minY = Math.min(a.y, b.y);
+    const maxY = Math.max(a.y, b.y);
+    const found = new Set<number>();
+    for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+      for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) {
+        (this.buckets.get(`${cx},${cy}`) || []).forEach(index => {
+          const rect = this.obstacles[index];
+          if (maxX > rect.x + EPSILON && minX < rect.x + rect.width - EPSILON &&
+            maxY > rect.y + EPSILON && minY < rect.y + rect.height - EPSILON) {
+            found.add(index);
+          }
+        });
+      }
+    }
+    return Array.from(found);
+  }
+
+  /**
+   * 用 A* 计算起点到终点的正交路径，代价为长度和拐弯数的加权和
+   * 只有 ignore 中的障碍可以被穿过；起点或终点落在其他障碍内部时找不到路径，返回 null
+   */
+  public findPath(start: Position, end: Position, options: VisibilityPathOptions): Position[] | null {
+    const xs = withCoordinates(this.xs, [start.x, end.x]);
+    const ys = withCoordinates(this.ys, [start.y, end.y]);
+    const ignored = new Set(options.ignore);
+    const { bendPenalty, lengthPenalty } = options;
+    const endX = lowerBound(xs, end.x);
+    const endY = lowerBound(ys, end.y);
+    const endHeading = options.endHeading === undefined ? -1 : HEADINGS.indexOf(options.endHeading);
+    const rows = ys.length;
+
+    const encode = (i: number, j: number, heading: number) => (i * rows + j) * 4 + heading;
+    const heuristic = (i: number, j: number) => {
+      const dx = Math.abs(xs[i] - end.x);
+      const dy = Math.abs(ys[j] - end.y);
+      return (dx + dy) * lengthPenalty + (dx > EPSILON && dy > EPSILON ? bendPenalty : 0);
+    };
+    const isBlocked = (x: number, y: number) => this.getObstaclesAt({ x, y }).some(index => !ignored.has(index));
+
+    const best = new Map<number, number>();
+    const parents = new Map<number, number>();
+    const open = new MinHeap();
+    const startX = lowerBound(xs, start.x);
+    const startY = lowerBound(ys, start.y);
+    const startHeadings = options.startHeading === undefined ? [0, 1, 2, 3] : [HEADINGS.indexOf(options.startHeading)];
+    startHeadings.forEach(heading => {
+      const state = encode(startX, startY, heading);
+      best.set(state, 0);
+      open.push({ state, f: heuristic(startX, startY), g: 0 });
+    });
+
+    while (open.size > 0) {
+      const { state, g } = open.pop()!;
+      if (state === GOAL) {
+        return this.buildPath(parents, xs, ys, rows);
+      }
+      if (g > (best.get(state) ?? Infinity)) {
+        continue;
+      }
+
+      const heading = state % 4;
+      const cell = (state - heading) / 4;
+      const i = Math.floor(cell / rows);
+      const j = cell % rows;
+
+      if (i === endX && j === endY) {
+        const cost = g + (endHeading >= 0 && heading !== endHeading ? bendPenalty : 0);
+        if (cost < (best.get(GOAL) ?? Infinity)) {
+          best.set(GOAL, cost);
+          parents.set(GOAL, state);
+          open.push({ state: GOAL, f: cost, g: cost });
+        }
+        continue;
+      }
+
+      for (let next = 0; next < 4; next++) {
+        if (next === (heading + 2) % 4) {
+          continue;
+        }
+        const ni = i + STEPS[next][0];
+        const nj = j + STEPS[next][1];
+        if (ni < 0 || nj < 0 || ni >= xs.length || nj >= rows) {
+          continue;
+        }
+        // 网格线来自障碍的边，相邻顶点间的线段要么整段在障碍内部，要么不相交
+        if (isBlocked((xs[i] + xs[ni]) / 2, (ys[j] + ys[nj]) / 2)) {
+          continue;
+        }
+        const length = Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]);
+        const cost = g + length * lengthPenalty + (next === heading ? 0 : bendPenalty);
+        const nextState = encode(ni, nj, next);
+        if (cost < (best.get(nextState) ?? Infinity)) {
+          best.set(nextState, cost);
+          parents.set(nextState, state);
+          open.push({ state: nextState, f: cost + heuristic(ni, nj), g: cost });
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 由父状态链还原路径点并合并共线点
+   */
+  private buildPath(parents: Map<number, number>, xs: number[], ys: number[], rows: number): Position[] {
+    const points: Position[] = [];
+    let state = parents.get(GOAL);
+    while (state !== undefined) {
+      const cell = (state - state % 4) / 4;
+      points.push({ x: xs[Math.floor(cell / rows)], y: ys[cell % rows] });
+      state = parents.get(state);
+    }
+    return simplifyPath(points.reverse());
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * 可见性图路由器 - 全局避障的正交连线
+ * 在所有节点的正交可见性图上用 A* 寻找拐弯最少、长度最短的路径，路径不会穿过端点以外的节点
+ */
+
+import { Position } from '../types/model';
+import { RouterConfig } from './BaseRouter';
+import { EdgeRouterStrategy, RouteNode, RouteRequest, RouteResult } from './types';
+import { simplifyPath, toRouteResult } from './path';
+import { getPortSide, resolvePorts, toBBox } from './ports';
+import { ConnectionSide } from '../renderer/ConnectionPointManager';
+import { OrthogonalVisibilityGraph, Rect, oppositeSide, sideVector } from './VisibilityGraph';
+
+export interface VisibilityRouterConfig extends RouterConfig {
+  /** 每个拐弯的代价（相当于多少像素长度），默认 40 */
+  bendPenalty?: number;
+  /** 单位长度的代价，默认 1 */
+  lengthPenalty?: number;
+}
+
+/**
+ * 缓存的路径
+ */
+interface CachedRoute {
+  /** 端点和端口，变化时需要重新路由 */
+  key: string;
+  /** 计算时的节点版本 */
+  version: number;
+  points: Position[];
+  /** 路径包围盒（含留白） */
+  bounds: Rect;
+  /** 找不到避开节点的路径，退化的路径穿过了其他节点 */
+  blocked: boolean;
+}
+
+/**
+ * 节点变化记录
+ */
+interface NodeChange {
+  version: number;
+  rect: Rect;
+}
+
+/** 变化记录超过该数量时清空缓存 */
+const MAX_CHANGES = 500;
+
+/**
+ * 依次尝试的留白比例：节点间距小于两倍留白时留白区域互相重叠，端口伸出的线段落在相邻节点的留白内，
+ * 节点之间的通道也被封住，此时缩小留白重新寻路
+ */
+const PADDING_RATIOS = [1, 0.5, 0];
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+export class VisibilityRouter implements EdgeRouterStrategy {
+  private config: Required<Pick<VisibilityRouterConfig, 'padding' | 'cornerRadius' | 'bendPenalty' | 'lengthPenalty'>>;
+  private nodeRects: Map<string, Rect> = new Map();
+  private nodeKeys: Map<string, string> = new Map();
+  private version: number = 0;
+  private changes: NodeChange[] = [];
+  /** 各留白下的可见性图，障碍下标与 nodeRects 的顺序一致 */
+  private graphs: Map<number, OrthogonalVisibilityGraph> = new Map();
+  private cache: Map<string, CachedRoute> = new Map();
+
+  constructor(config: VisibilityRouterConfig = {}) {
+    this.config = {
+      padding: config.padding ?? 20,
+      cornerRadius: config.cornerRadius ?? 0,
+      bendPenalty: config.bendPenalty ?? 40,
+      lengthPenalty: config.lengthPenalty ?? 1
+    };
+  }
+
+  /**
+   * 计算路径
+   * 节点未变化时复用缓存；节点移动、增删后只重新计算端点变化或包围盒与变化区域相交的连线
+   */
+  public route(request: RouteRequest): RouteResult {
+    this.sync([request.source, request.target, ...request.obstacles]);
+
+    const { sourcePort, targetPort } = resolvePorts(request);
+    const key = `${sourcePort.x},${sourcePort.y}>${targetPort.x},${targetPort.y}`;
+    const cached = this.cache.get(request.edge.id);
+    if (cached && cached.key === key && !this.isAffected(cached)) {
+      return toRouteResult(cached.points, this.config.cornerRadius);
+    }
+
+    const { points, blocked } = this.computePath(request, sourcePort, targetPort);
+    this.cache.set(request.edge.id, { key, version: this.version, points, bounds: this.getBounds(points), blocked });
+    return toRouteResult(points, this.config.cornerRadius);
+  }
+
+  /**
+   * 最近一次路由找不到避开节点的路径、退化路径穿过了其他节点的连线
+   */
+  public getBlockedEdges(): string[] {
+    return Array.from(this.cache.entries()).filter(([, route]) => route.blocked).map(([edgeId]) => edgeId);
+  }
+
+  /**
+   * 由路径点生成路由结果
+   */
+  public fromPoints(points: Position[]): RouteResult {
+    return toRouteResult(points, this.config.cornerRadius);
+  }
+
+  /**
+   * 使指定连线的缓存失效，不指定时清空全部缓存
+   */
+  public invalidate(edgeId?: string): void {
+    if (edgeId === undefined) {
+      this.cache.clear();
+      this.changes = [];
+    } else {
+      this.cache.delete(edgeId);
+    }
+  }
+
+  /**
+   * 同步节点几何，记录移动、新增和删除的节点区域
+   */
+  private sync(nodes: RouteNode[]): void {
+    const changed: Rect[] = [];
+    const seen = new Set<string>();
+
+    nodes.forEach(node => {
+      seen.add(node.id);
+      const key = `${node.position.x},${node.position.y},${node.width},${node.height}`;
+      if (this.nodeKeys.get(node.id) === key) {
+        return;
+      }
+      const previous = this.nodeRects.get(node.id);
+      if (previous) {
+        changed.push(previous);
+      }
+      const rect = toBBox(node, this.config.padding);
+      changed.push(rect);
+      this.nodeKeys.set(node.id, key);
+      this.nodeRects.set(node.id, rect);
+    });
+
+    if (this.nodeKeys.size > seen.size) {
+      Array.from(this.nodeKeys.keys()).filter(id => !seen.has(id)).forEach(id => {
+        changed.push(this.nodeRects.get(id)!);
+        this.nodeKeys.delete(id);
+        this.nodeRects.delete(id);
+      });
+    }
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    this.version++;
+    this.graphs.clear();
+    if (this.changes.length + changed.length > MAX_CHANGES) {
+      this.invalidate();
+      return;
+    }
+    changed.forEach(rect => this.changes.push({ version: this.version, rect }));
+  }
+
+  private isAffected(route: CachedRoute): boolean {
+    return this.changes.some(change => change.version > route.version && overlaps(change.rect, route.bounds));
+  }
+
+  /**
+   * 从端口沿出入方向伸出留白距离，再在可见性图上连接两端，只有两端的节点可以被穿过
+   * 端口伸出的线段碰到其他节点或找不到路径时缩小留白重试
+   */
+  private computePath(
+    request: RouteRequest,
+    sourcePort: Position,
+    targetPort: Position
+  ): { points: Position[]; blocked: boolean } {
+    const { bendPenalty, lengthPenalty } = this.config;
+    const sourceSide = getPortSide(request.source, sourcePort);
+    const targetSide = getPortSide(request.target, targetPort);
+    const ids = Array.from(this.nodeRects.keys());
+    const ignore = [ids.indexOf(request.source.id), ids.indexOf(request.target.id)];
+    const isClear = (graph: OrthogonalVisibilityGraph, a: Position, b: Position) =>
+      graph.getObstaclesOn(a, b).every(index => ignore.includes(index));
+
+    for (const ratio of PADDING_RATIOS) {
+      const padding = this.config.padding * ratio;
+      const graph = this.getGraph(padding);
+      const sourceStub = extend(sourcePort, sourceSide, padding);
+      const targetStub = extend(targetPort, targetSide, padding);
+      if (!isClear(graph, sourcePort, sourceStub) || !isClear(graph, targetStub, targetPort)) {
+        continue;
+      }
+      const path = graph.findPath(sourceStub, targetStub, {
+        bendPenalty,
+        lengthPenalty,
+        startHeading: sourceSide,
+        endHeading: oppositeSide(targetSide),
+        ignore
+      });
+      if (path) {
+        return { points: simplifyPath([sourcePort, ...path, targetPort]), blocked: false };
+      }
+    }
+
+    // 没有可行路径（如节点重叠包围端口）时退化为 Z 字形，优先选择不穿过节点的走向
+    const graph = this.getGraph(0);
+    const fallbacks = [
+      zigzag(sourcePort, targetPort, sourceSide, targetSide, this.config.padding, 'y'),
+      zigzag(sourcePort, targetPort, sourceSide, targetSide, this.config.padding, 'x')
+    ];
+    const clear = fallbacks.find(points => points.every((point, i) => i === 0 || isClear(graph, points[i - 1], point)));
+    return { points: clear ?? fallbacks[0], blocked: !clear };
+  }
+
+  /**
+   * 指定留白下的可见性图
+   */
+  private getGraph(padding: number): OrthogonalVisibilityGraph {
+    let graph = this.graphs.get(padding);
+    if (!graph) {
+      const shrink = this.config.padding - padding;
+      graph = new OrthogonalVisibilityGraph(Array.from(this.nodeRects.values()).map(rect => ({
+        x: rect.x + shrink,
+        y: rect.y + shrink,
+        width: rect.width - shrink * 2,
+        height: rect.height - shrink * 2
+      })));
+      this.graphs.set(padding, graph);
+    }
+    return graph;
+  }
+
+  private getBounds(points: Position[]): Rect {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const { padding } = this.config;
+    const x = Math.min(...xs) - padding;
+    const y = Math.min(...ys) - padding;
+    return { x, y, width: Math.max(...xs) + padding - x, height: Math.max(...ys) + padding - y };
+  }
+}
+
+/**
+ * 从端口沿所在一侧向外伸出
+ */
+function extend(port: Position, side: ConnectionSide, length: number): Position {
+  const out = sideVector(side);
+  return { x: port.x + out.x * length, y: port.y + out.y * length };
+}
+
+/**
+ * 从两端伸出后在中线处转折的 Z 字形路径，axis 为中线垂直的坐标轴
+ */
+function zigzag(
+  sourcePort: Position,
+  targetPort: Position,
+  sourceSide: ConnectionSide,
+  targetSide: ConnectionSide,
+  padding: number,
+  axis: 'x' | 'y'
+): Position[] {
+  const sourceStub = extend(sourcePort, sourceSide, padding);
+  const targetStub = extend(targetPort, targetSide, padding);
+  const middle = (sourceStub[axis] + targetStub[axis]) / 2;
+  const turn = (stub: Position) => (axis === 'y' ? { x: stub.x, y: middle } : { x: middle, y: stub.y });
+  return simplifyPath([sourcePort, sourceStub, turn(sourceStub), turn(targetStub), targetStub, targetPort]);
+}
@@ -7,5 +7,11 @@ export { OrthogonalRouter } from './OrthogonalRouter';
 export { PolylineRouter } from './PolylineRouter';
 export { BezierRouter } from './BezierRouter';
 export { RouterFactory, RouterType } from './RouterFactory';
-
+export { BUILT_IN_ROUTERS } from './strategies';
+export { VisibilityRouter, VisibilityRouterConfig } from './VisibilityRouter';
+export { EdgeNudger, EdgeNudgerConfig, NudgeEdge, PortSpan } from './EdgeNudger';
+export { OrthogonalVisibilityGraph, VisibilityPathOptions } from './VisibilityGraph';
+export { createPolylinePath, simplifyPath, getLabelPosition, getArrowAngle, toRouteResult } from './path';
+export { getDefaultPorts, getPortPosition, canConnectPort } from './ports';
+export type { RouteNode, RouteRequest, RouteResult, EdgeRouterStrategy, EdgeRouterFactory } from './types';
 
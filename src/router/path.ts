@@ -0,0 +1,99 @@
+/**
+ * 路径点转换为 SVG 路径、标签位置和箭头角度
+ */
+
+import { Position } from '../types/model';
+import { RouteResult } from './types';
+
+/**
+ * 生成折线路径，radius 大于 0 时拐角使用圆角
+ */
+export function createPolylinePath(points: Position[], radius: number = 0): string {
+  if (points.length < 2) {
+    return '';
+  }
+
+  let path = `M ${points[0].x},${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    const next = points[i + 1];
+    const d1 = Math.hypot(curr.x - prev.x, curr.y - prev.y);
+    const d2 = Math.hypot(next.x - curr.x, next.y - curr.y);
+    if (d1 < 0.1 || d2 < 0.1) {
+      // 点重合，跳过
+      continue;
+    }
+
+    const r = Math.min(radius, d1 / 2, d2 / 2);
+    if (r > 0.5) {
+      const x1 = curr.x - (curr.x - prev.x) * r / d1;
+      const y1 = curr.y - (curr.y - prev.y) * r / d1;
+      const x2 = curr.x + (next.x - curr.x) * r / d2;
+      const y2 = curr.y + (next.y - curr.y) * r / d2;
+      path += ` L ${x1},${y1} Q ${curr.x},${curr.y} ${x2},${y2}`;
+    } else {
+      path += ` L ${curr.x},${curr.y}`;
+    }
+  }
+
+  const last = points[points.length - 1];
+  return `${path} L ${last.x},${last.y}`;
+}
+
+/**
+ * 移除重复点和共线的中间点
+ */
+export function simplifyPath(points: Position[]): Position[] {
+  const result: Position[] = [];
+  points.forEach(point => {
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.x - point.x) < 0.1 && Math.abs(last.y - point.y) < 0.1) {
+      return;
+    }
+    const prev = result[result.length - 2];
+    if (prev && Math.abs((last.x - prev.x) * (point.y - last.y) - (last.y - prev.y) * (point.x - last.x)) < 0.1) {
+      result[result.length - 1] = point;
+      return;
+    }
+    result.push(point);
+  });
+  return result;
+}
+
+/**
+ * 标签位置：路径中间线段的中点
+ */
+export function getLabelPosition(points: Position[]): Position {
+  if (points.length === 0) {
+    return { x: 0, y: 0 };
+  }
+  const midIndex = Math.floor(points.length / 2);
+  const p1 = points[midIndex - 1] || points[0];
+  const p2 = points[midIndex] || points[points.length - 1];
+  return { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+}
+
+/**
+ * 箭头角度：最后一段的方向
+ */
+export function getArrowAngle(points: Position[]): number {
+  if (points.length < 2) {
+    return 0;
+  }
+  const from = points[points.length - 2];
+  const to = points[points.length - 1];
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+/**
+ * 由折线路径点构造路由结果
+ */
+export function toRouteResult(points: Position[], radius: number = 0): RouteResult {
+  return {
+    points,
+    path: createPolylinePath(points, radius),
+    labelPosition: getLabelPosition(points),
+    arrowAngle: getArrowAngle(points)
+  };
+}
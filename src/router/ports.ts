@@ -0,0 +1,119 @@
+/**
+ * 默认端口选择：按两节点的相对位置选择上下左右边的中点，菱形节点使用顶点；
+ * 节点自定义的端口按所在边和相对位置换算为坐标
+ */
+
+import { Position, NodeType, PortDefinition } from '../types';
+import { BBox } from '../types/view';
+import { ConnectionSide } from '../renderer/ConnectionPointManager';
+import { RouteNode, RouteRequest } from './types';
+
+/**
+ * 节点朝向 (dx, dy) 一侧的连接点
+ */
+function getSidePoint(node: RouteNode, dx: number, dy: number): Position {
+  const { position, width, height } = node;
+  const halfW = width / 2;
+  const halfH = height / 2;
+
+  if (node.type === NodeType.CONDITION) {
+    // 菱形节点按角度选择顶点
+    const angle = Math.atan2(dy, dx);
+    if (angle >= -Math.PI / 4 && angle < Math.PI / 4) {
+      return { x: position.x + halfW, y: position.y };
+    }
+    if (angle >= Math.PI / 4 && angle < 3 * Math.PI / 4) {
+      return { x: position.x, y: position.y + halfH };
+    }
+    if (angle >= -3 * Math.PI / 4 && angle < -Math.PI / 4) {
+      return { x: position.x, y: position.y - halfH };
+    }
+    return { x: position.x - halfW, y: position.y };
+  }
+
+  if (Math.abs(dy) > Math.abs(dx)) {
+    return { x: position.x, y: position.y + (dy > 0 ? halfH : -halfH) };
+  }
+  return { x: position.x + (dx > 0 ? halfW : -halfW), y: position.y };
+}
+
+/**
+ * 获取源、目标节点的默认连接点
+ * 以源节点指向目标节点的方向为准，目标节点使用相对的一侧
+ */
+export function getDefaultPorts(source: RouteNode, target: RouteNode): { sourcePort: Position; targetPort: Position } {
+  const dx = target.position.x - source.position.x;
+  const dy = target.position.y - source.position.y;
+  return {
+    sourcePort: getSidePoint(source, dx, dy),
+    targetPort: getSidePoint(target, -dx, -dy)
+  };
+}
+
+/**
+ * 连线端点：优先使用请求中指定的端口，否则按节点相对位置选择
+ */
+export function resolvePorts(request: RouteRequest): { sourcePort: Position; targetPort: Position } {
+  const ports = getDefaultPorts(request.source, request.target);
+  return {
+    sourcePort: request.sourcePort ?? ports.sourcePort,
+    targetPort: request.targetPort ?? ports.targetPort
+  };
+}
+
+/**
+ * 自定义端口的坐标：所在边上按 offset（0~1）取点，菱形节点再沿该边的法向落到菱形轮廓上
+ */
+export function getPortPosition(
+  node: Pick<RouteNode, 'position' | 'width' | 'height'> & Partial<Pick<RouteNode, 'type'>>,
+  port: PortDefinition
+): Position {
+  const { position, width, height } = node;
+  const offset = Math.min(1, Math.max(0, port.offset ?? 0.5));
+  const halfW = width / 2;
+  const halfH = height / 2;
+  const diamond = node.type === NodeType.CONDITION;
+
+  if (port.side === 'top' || port.side === 'bottom') {
+    const dx = width * (offset - 0.5);
+    const depth = diamond ? halfH * (1 - Math.abs(dx) / halfW) : halfH;
+    return { x: position.x + dx, y: port.side === 'top' ? position.y - depth : position.y + depth };
+  }
+  const dy = height * (offset - 0.5);
+  const depth = diamond ? halfW * (1 - Math.abs(dy) / halfH) : halfW;
+  return { x: port.side === 'left' ? position.x - depth : position.x + depth, y: position.y + dy };
+}
+
+/**
+ * 端口能否作为连线的起点（out）或终点（in）
+ */
+export function canConnectPort(port: PortDefinition, end: 'source' | 'target'): boolean {
+  const direction = port.direction ?? 'both';
+  return direction === 'both' || direction === (end === 'source' ? 'out' : 'in');
+}
+
+/**
+ * 端口位于节点的哪一侧
+ */
+export function getPortSide(node: RouteNode, port: Position): ConnectionSide {
+  const dx = (port.x - node.position.x) / node.width;
+  const dy = (port.y - node.position.y) / node.height;
+  if (Math.abs(dy) >= Math.abs(dx)) {
+    return dy < 0 ? ConnectionSide.TOP : ConnectionSide.BOTTOM;
+  }
+  return dx < 0 ? ConnectionSide.LEFT : ConnectionSide.RIGHT;
+}
+
+/**
+ * 节点边界框（可附加留白）
+ */
+export function toBBox(node: RouteNode, padding: number = 0): BBox {
+  return {
+    x: node.position.x - node.width / 2 - padding,
+    y: node.position.y - node.height / 2 - padding,
+    width: node.width + padding * 2,
+    height: node.height + padding * 2,
+    centerX: node.position.x,
+    centerY: node.position.y
+  };
+}
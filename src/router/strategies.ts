@@ -0,0 +1,174 @@
+/**
+ * 内置路由策略：把各路由器适配为统一的 EdgeRouterStrategy
+ */
+
+import { Position } from '../types/model';
+import { BaseRouter, RouterConfig } from './BaseRouter';
+import { OrthogonalRouter } from './OrthogonalRouter';
+import { PolylineRouter } from './PolylineRouter';
+import { BezierRouter } from './BezierRouter';
+import { VisibilityRouter } from './VisibilityRouter';
+import { EdgeRouterFactory, EdgeRouterStrategy, RouteRequest, RouteResult } from './types';
+import { getArrowAngle, toRouteResult } from './path';
+import { getPortSide, resolvePorts, toBBox } from './ports';
+import { ManhattanRouter } from '../renderer/ManhattanRouter';
+import { SmartRouter } from '../renderer/SmartRouter';
+import { SmartEdgeRouter } from '../renderer/SmartEdgeRouter';
+import { OptimizedEdgeRouter } from '../renderer/OptimizedEdgeRouter';
+import { EdgeRouter } from '../renderer/EdgeRouter';
+
+/**
+ * 基于 BaseRouter 折线路由器的策略
+ */
+class PointRouterStrategy implements EdgeRouterStrategy {
+  constructor(private router: BaseRouter, private cornerRadius: number) {}
+
+  public route(request: RouteRequest): RouteResult {
+    const { sourcePort, targetPort } = resolvePorts(request);
+    const points = this.router.route(
+      sourcePort,
+      targetPort,
+      toBBox(request.source),
+      toBBox(request.target),
+      request.obstacles.map(node => toBBox(node))
+    );
+    return toRouteResult(points, this.cornerRadius);
+  }
+
+  public fromPoints(points: Position[]): RouteResult {
+    return toRouteResult(points, this.cornerRadius);
+  }
+}
+
+/**
+ * 贝塞尔曲线策略，followFlow 为 true 时曲线沿流向弯曲，否则水平弯曲
+ */
+function createBezierStrategy(config: RouterConfig, followFlow: boolean): EdgeRouterStrategy {
+  const router = new BezierRouter({ ...config, direction: undefined });
+  return {
+    route: request => {
+      const { sourcePort, targetPort } = resolvePorts(request);
+      router.setConfig({ direction: followFlow ? config.direction ?? request.direction : undefined });
+      const controls = router.route(sourcePort, targetPort);
+      return {
+        points: [sourcePort, targetPort],
+        path: router.toSVGPath(controls),
+        labelPosition: { x: (sourcePort.x + targetPort.x) / 2, y: (sourcePort.y + targetPort.y) / 2 },
+        arrowAngle: getArrowAngle(controls)
+      };
+    }
+  };
+}
+
+/**
+ * 让自行选择端口的路由器支持指定端口：请求中带端口时改用可见性图路由，结果按原路由器的样式生成
+ */
+function withPortSupport(strategy: EdgeRouterStrategy, config: RouterConfig): EdgeRouterStrategy {
+  const fallback = new VisibilityRouter({ ...config, cornerRadius: 0 });
+  return {
+    route: request => {
+      if (!request.sourcePort && !request.targetPort) {
+        return strategy.route(request);
+      }
+      const { points } = fallback.route(request);
+      return strategy.fromPoints ? strategy.fromPoints(points) : toRouteResult(points, config.cornerRadius ?? 0);
+    },
+    fromPoints: strategy.fromPoints
+  };
+}
+
+/**
+ * 内置路由策略
+ * - manhattan：流向感知的正交路由，回路走外侧（折线/正交连线的默认路由）
+ * - smart / smart-edge / optimized：按节点类型和端口选择路径的正交路由
+ *   （manhattan、smart、smart-edge 自行选择端口，连线指定端口时改用 visibility 计算路径）
+ * - astar：在网格上用 A* 避让节点
+ * - visibility：在正交可见性图上全局避障，拐弯最少（带缓存，只重新计算受影响的连线）
+ * - orthogonal / polyline：简单的正交折线
+ * - bezier / smooth：沿流向弯曲 / 水平弯曲的贝塞尔曲线
+ * - straight / step：直线 / 阶梯线
+ */
+export const BUILT_IN_ROUTERS: Record<string, EdgeRouterFactory> = {
+  manhattan: config => {
+    const router = new ManhattanRouter();
+    return withPortSupport({
+      route: request => {
+        router.setDirection(request.direction);
+        const { edge, source } = request;
+        return router.route(edge, edge.source, edge.target, source.width, source.height);
+      },
+      fromPoints: points => router.fromPoints(points)
+    }, config);
+  },
+  smart: config => {
+    const router = new SmartRouter();
+    return withPortSupport({
+      route: ({ edge, source }) => router.calculatePath(edge.source, edge.target, source.width, source.height, {
+        padding: config.padding,
+        cornerRadius: config.cornerRadius
+      })
+    }, config);
+  },
+  'smart-edge': config => {
+    const router = new SmartEdgeRouter({
+      padding: config.padding,
+      cornerRadius: config.cornerRadius,
+      gridSize: config.gridSize,
+      avoidNodes: config.avoidObstacles
+    });
+    return withPortSupport({
+      route: request => router.route(request.source, request.target, request.obstacles, {
+        direction: config.direction ?? request.direction
+      })
+    }, config);
+  },
+  optimized: config => {
+    const router = new OptimizedEdgeRouter({ gridSize: config.gridSize });
+    return {
+      route: request => {
+        const { sourcePort, targetPort } = resolvePorts(request);
+        return router.route(
+          sourcePort,
+          targetPort,
+          getPortSide(request.source, sourcePort),
+          getPortSide(request.target, targetPort),
+          request.edge.id
+        );
+      }
+    };
+  },
+  astar: config => ({
+    route: request => {
+      const { source, target, obstacles } = request;
+      const { sourcePort, targetPort } = resolvePorts(request);
+      const nodes = new Map([source, target, ...obstacles].map(node => [node.id, node]));
+      const router = new EdgeRouter(nodes, { width: source.width, height: source.height });
+      return toRouteResult(router.calculateRoute(source, target, sourcePort, targetPort), config.cornerRadius ?? 0);
+    },
+    fromPoints: points => toRouteResult(points, config.cornerRadius ?? 0)
+  }),
+  visibility: config => new VisibilityRouter(config),
+  orthogonal: config => new PointRouterStrategy(new OrthogonalRouter(config), config.cornerRadius ?? 0),
+  polyline: config => new PointRouterStrategy(new PolylineRouter(config), config.cornerRadius ?? 0),
+  bezier: config => createBezierStrategy(config, true),
+  smooth: config => createBezierStrategy(config, false),
+  straight: () => ({
+    route: request => {
+      const { sourcePort, targetPort } = resolvePorts(request);
+      return toRouteResult([sourcePort, targetPort]);
+    }
+  }),
+  step: () => ({
+    route: request => {
+      const { sourcePort, targetPort } = resolvePorts(request);
+      const midX = (sourcePort.x + targetPort.x) / 2;
+      return toRouteResult([
+        sourcePort,
+        { x: midX, y: sourcePort.y },
+        { x: midX, y: targetPort.y },
+        targetPort
+      ]);
+    },
+    fromPoints: points => toRouteResult(points)
+  })
+};
@@ -0,0 +1,68 @@
+/**
+ * 连线路由策略的统一类型
+ */
+
+import type { FlowEdge } from '../core/Edge';
+import type { Position, EdgeStyle, NodeType } from '../types';
+import type { LayoutDirection } from '../layout/direction';
+import type { RouterConfig } from './BaseRouter';
+
+/**
+ * 参与路由的节点几何信息（position 为节点中心）
+ */
+export interface RouteNode {
+  id: string;
+  type: NodeType | string;
+  position: Position;
+  width: number;
+  height: number;
+}
+
+/**
+ * 连线路由请求
+ */
+export interface RouteRequest {
+  edge: FlowEdge;
+  source: RouteNode;
+  target: RouteNode;
+  /** 指定的起点（源端口），不指定时由路由器选择 */
+  sourcePort?: Position;
+  /** 指定的终点（目标端口），不指定时由路由器选择 */
+  targetPort?: Position;
+  /** 需要避让的其他节点 */
+  obstacles: RouteNode[];
+  /** 流向 */
+  direction: LayoutDirection;
+  /** 连线样式 */
+  style: EdgeStyle;
+}
+
+/**
+ * 连线路由结果
+ */
+export interface RouteResult {
+  /** 路径关键点（起点、折点、终点） */
+  points: Position[];
+  /** SVG 路径 */
+  path: string;
+  /** 标签位置 */
+  labelPosition: Position;
+  /** 终点处的箭头角度（弧度） */
+  arrowAngle: number;
+}
+
+/**
+ * 连线路由策略：所有路由器通过这个接口被渲染器调用
+ */
+export interface EdgeRouterStrategy {
+  route(request: RouteRequest): RouteResult;
+  /**
+   * 由调整后的路径点重建路由结果；正交路由器实现该方法后参与连线分离（nudging）
+   */
+  fromPoints?(points: Position[]): RouteResult;
+}
+
+/**
+ * 路由策略工厂
+ */
+export type EdgeRouterFactory = (config: RouterConfig) => EdgeRouterStrategy;
@@ -0,0 +1,389 @@
+import type { FlowChart } from '../core/FlowChart';
+import type { FlowNode } from '../core/Node';
+import type { FlowEdge } from '../core/Edge';
+import { NodeType, NodeStatus } from '../types';
+import { EventEmitter, FlowChartEvents } from '../events/EventEmitter';
+import { NodeError } from '../utils/errors';
+import { evaluateCondition } from '../expression/ExpressionEvaluator';
+
+/**
+ * 模拟状态
+ */
+export type SimulationStatus = 'idle' | 'running' | 'paused' | 'completed' | 'blocked';
+
+/**
+ * 令牌：表示流程当前所在的位置
+ */
+export interface SimulationToken {
+  /** 令牌ID */
+  id: string;
+  /** 所在节点ID */
+  nodeId: string;
+  /** 到达该节点经过的连线ID */
+  edgeId?: string;
+}
+
+/**
+ * 分支选择记录（用于确定性回放）
+ */
+export interface SimulationChoice {
+  /** 分支节点ID */
+  nodeId: string;
+  /** 选中的连线ID */
+  edgeId: string;
+}
+
+/**
+ * 单步执行结果
+ */
+export interface SimulationStep {
+  /** 步序号（从 1 开始） */
+  index: number;
+  /** 本步处理的节点ID（多个起始节点同时进入时为第一个） */
+  nodeId: string;
+  /** 本步经过的连线ID */
+  edgeIds: string[];
+  /** 本步产生的分支选择 */
+  choice?: SimulationChoice;
+  /** 执行后的令牌 */
+  tokens: SimulationToken[];
+  /** 执行后的模拟状态 */
+  status: SimulationStatus;
+}
+
+/**
+ * 条件求值函数
+ */
+export type ConditionEvaluator = (condition: string, context: Record<string, any>, edge: FlowEdge) => boolean;
+
+/**
+ * 模拟配置
+ */
+export interface SimulatorOptions {
+  /** 条件求值上下文 */
+  context?: Record<string, any>;
+  /** 条件求值函数 */
+  evaluate?: ConditionEvaluator;
+  /** run 时每步间隔（毫秒），默认 500 */
+  interval?: number;
+  /** run 的最大步数（防止死循环），默认 1000 */
+  maxSteps?: number;
+  /** 是否同步渲染到流程图，默认 true */
+  render?: boolean;
+  /** 回放的分支选择记录 */
+  replay?: SimulationChoice[];
+}
+
+/**
+ * 流程模拟器
+ * 令牌从起始节点出发沿连线移动：PARALLEL 节点分叉，MERGE 节点汇合，
+ * 其余节点只走一条出边（按连线顺序取第一个满足条件的连线，无条件连线作为默认分支）
+ */
+export class FlowSimulator extends EventEmitter {
+  private flowChart: FlowChart;
+  private options: Required<Omit<SimulatorOptions, 'replay'>>;
+  private initialStatuses = new Map<string, NodeStatus>();
+  private tokens: SimulationToken[] = [];
+  private choices: SimulationChoice[] = [];
+  private replayChoices: SimulationChoice[] = [];
+  private status: SimulationStatus = 'idle';
+  private stepIndex = 0;
+  private tokenCounter = 0;
+  private runId = 0;
+
+  constructor(flowChart: FlowChart, options: SimulatorOptions = {}) {
+    super();
+    this.flowChart = flowChart;
+    this.options = {
+      context: {},
+      evaluate: evaluateCondition,
+      interval: 500,
+      maxSteps: 1000,
+      render: true,
+      ...options
+    };
+    this.replayChoices = [...(options.replay || [])];
+    flowChart.getAllNodes().forEach(node => this.initialStatuses.set(node.id, node.status));
+  }
+
+  /**
+   * 获取模拟状态
+   */
+  public getStatus(): SimulationStatus {
+    return this.status;
+  }
+
+  /**
+   * 获取当前令牌
+   */
+  public getTokens(): SimulationToken[] {
+    return this.tokens.map(token => ({ ...token }));
+  }
+
+  /**
+   * 获取分支选择记录
+   */
+  public getChoiceLog(): SimulationChoice[] {
+    return this.choices.map(choice => ({ ...choice }));
+  }
+
+  /**
+   * 设置条件求值上下文
+   */
+  public setContext(context: Record<string, any>): void {
+    this.options.context = context;
+  }
+
+  /**
+   * 执行一步，模拟已结束时返回 null
+   */
+  public step(): SimulationStep | null {
+    if (this.status === 'completed' || this.status === 'blocked') {
+      return null;
+    }
+    if (this.status === 'idle') {
+      this.status = 'paused';
+    }
+
+    const changes = new Map<string, NodeStatus>();
+    let result: Omit<SimulationStep, 'index' | 'tokens' | 'status'>;
+
+    if (this.stepIndex === 0) {
+      // 第一步：令牌进入起始节点
+      const startNodes = this.flowChart.findStartNodes();
+      this.tokens = startNodes.map(node => this.createToken(node.id));
+      startNodes.forEach(node => changes.set(node.id, NodeStatus.PROCESSING));
+      result = { nodeId: startNodes[0]?.id ?? '', edgeIds: [] };
+    } else {
+      const token = this.findReadyToken();
+      if (!token) {
+        // 剩余令牌全部在汇合节点互相等待
+        this.status = 'blocked';
+        this.emit(FlowChartEvents.SIMULATION_BLOCKED, { nodeId: this.tokens[0].nodeId, reason: 'deadlock' });
+        result = { nodeId: this.tokens[0].nodeId, edgeIds: [] };
+      } else {
+        result = this.advance(token, changes);
+      }
+    }
+
+    if (this.tokens.length === 0 && this.status !== 'blocked') {
+      this.status = 'completed';
+    }
+
+    this.stepIndex++;
+    this.applyStatuses(changes, result.edgeIds);
+
+    const step: SimulationStep = {
+      ...result,
+      index: this.stepIndex,
+      tokens: this.getTokens(),
+      status: this.status
+    };
+    this.emit(FlowChartEvents.SIMULATION_STEP, step);
+    if (this.status === 'completed') {
+      this.emit(FlowChartEvents.SIMULATION_COMPLETE, step);
+    }
+    return step;
+  }
+
+  /**
+   * 连续执行直到结束、暂停或达到最大步数
+   */
+  public async run(): Promise<SimulationStatus> {
+    if (this.status === 'completed' || this.status === 'blocked' || this.status === 'running') {
+      return this.status;
+    }
+
+    const runId = ++this.runId;
+    let steps = 0;
+    this.status = 'running';
+
+    try {
+      while (this.status === 'running') {
+        this.step();
+        if (this.status !== 'running') {
+          break;
+        }
+        if (++steps >= this.options.maxSteps) {
+          this.pause();
+          break;
+        }
+        if (this.options.interval > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.options.interval));
+          if (runId !== this.runId) {
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      // 出错的一步没有生效，停在出错前的位置
+      if (runId === this.runId) {
+        this.status = 'paused';
+      }
+      throw error;
+    }
+
+    return this.status;
+  }
+
+  /**
+   * 暂停
+   */
+  public pause(): void {
+    if (this.status === 'running') {
+      this.status = 'paused';
+      this.emit(FlowChartEvents.SIMULATION_PAUSE, this.stepIndex);
+    }
+  }
+
+  /**
+   * 重置，恢复节点初始状态
+   */
+  public reset(): void {
+    this.runId++;
+    this.tokens = [];
+    this.choices = [];
+    this.status = 'idle';
+    this.stepIndex = 0;
+    this.tokenCounter = 0;
+
+    const changes = new Map<string, NodeStatus>();
+    this.flowChart.getAllNodes().forEach(node => {
+      changes.set(node.id, this.initialStatuses.get(node.id) ?? NodeStatus.PENDING);
+    });
+    this.applyStatuses(changes, []);
+    this.emit(FlowChartEvents.SIMULATION_RESET);
+  }
+
+  /**
+   * 按选择记录重置并回放
+   */
+  public replay(choices: SimulationChoice[]): Promise<SimulationStatus> {
+    this.reset();
+    this.replayChoices = choices.map(choice => ({ ...choice }));
+    return this.run();
+  }
+
+  /**
+   * 处理一个令牌：完成当前节点并移动到后继节点
+   */
+  private advance(
+    token: SimulationToken,
+    changes: Map<string, NodeStatus>
+  ): Omit<SimulationStep, 'index' | 'tokens' | 'status'> {
+    const node = this.flowChart.getNode(token.nodeId)!;
+    const outgoing = this.flowChart.getAllEdges().filter(edge => edge.source.id === node.id);
+
+    // 先选择分支再修改令牌，回放记录不匹配时模拟状态保持不变
+    let selected: FlowEdge[];
+    let choice: SimulationChoice | undefined;
+    if (node.type === NodeType.PARALLEL || (outgoing.length <= 1 && !outgoing[0]?.condition)) {
+      selected = outgoing;
+    } else {
+      const edge = this.choose(node, outgoing);
+      selected = edge ? [edge] : [];
+      if (edge) {
+        choice = { nodeId: node.id, edgeId: edge.id };
+        this.choices.push(choice);
+      }
+    }
+
+    // 汇合节点：合并所有已到达的令牌
+    this.tokens = this.tokens.filter(
+      item => item !== token && !(node.type === NodeType.MERGE && item.nodeId === node.id)
+    );
+
+    if (outgoing.length > 0 && selected.length === 0) {
+      // 没有满足条件的分支
+      changes.set(node.id, NodeStatus.REJECTED);
+      this.status = 'blocked';
+      this.emit(FlowChartEvents.SIMULATION_BLOCKED, { nodeId: node.id, reason: 'no-branch' });
+      return { nodeId: node.id, edgeIds: [] };
+    }
+
+    changes.set(node.id, node.type === NodeType.APPROVAL ? NodeStatus.APPROVED : NodeStatus.COMPLETED);
+    selected.forEach(edge => {
+      this.tokens.push(this.createToken(edge.target.id, edge.id));
+      changes.set(edge.target.id, NodeStatus.PROCESSING);
+    });
+
+    return { nodeId: node.id, edgeIds: selected.map(edge => edge.id), choice };
+  }
+
+  /**
+   * 选择分支：回放时使用记录，否则按条件求值
+   */
+  private choose(node: FlowNode, outgoing: FlowEdge[]): FlowEdge | undefined {
+    if (this.replayChoices.length > 0) {
+      const recorded = this.replayChoices[0];
+      const edge = outgoing.find(item => item.id === recorded.edgeId);
+      if (recorded.nodeId !== node.id || !edge) {
+        throw new NodeError(
+          `Replay choice ${recorded.nodeId} -> ${recorded.edgeId} does not match node ${node.id}`,
+          node.id
+        );
+      }
+      this.replayChoices.shift();
+      return edge;
+    }
+
+    const { context, evaluate } = this.options;
+    return outgoing.find(edge => edge.condition && evaluate(edge.condition, context, edge))
+      || outgoing.find(edge => !edge.condition);
+  }
+
+  /**
+   * 查找可处理的令牌，汇合节点需等到所有可能到达的令牌都已到达
+   */
+  private findReadyToken(): SimulationToken | undefined {
+    return this.tokens.find(token => {
+      const node = this.flowChart.getNode(token.nodeId);
+      if (!node || node.type !== NodeType.MERGE) {
+        return true;
+      }
+      const arrived = this.tokens.filter(item => item.nodeId === node.id).length;
+      if (arrived >= node.getInputs().length) {
+        return true;
+      }
+      return !this.tokens.some(item => item.nodeId !== node.id && this.canReach(item.nodeId, node.id));
+    });
+  }
+
+  private canReach(fromId: string, toId: string): boolean {
+    const visited = new Set<string>();
+    const stack = [fromId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === toId) {
+        return true;
+      }
+      if (!visited.has(id)) {
+        visited.add(id);
+        this.flowChart.getSuccessors(id).forEach(node => stack.push(node.id));
+      }
+    }
+    return false;
+  }
+
+  private createToken(nodeId: string, edgeId?: string): SimulationToken {
+    return { id: `token_${++this.tokenCounter}`, nodeId, edgeId };
+  }
+
+  /**
+   * 更新节点状态并同步到渲染器
+   */
+  private applyStatuses(changes: Map<string, NodeStatus>, edgeIds: string[]): void {
+    changes.forEach((status, nodeId) => {
+      const node = this.flowChart.getNode(nodeId);
+      if (node && node.status !== status) {
+        node.updateStatus(status);
+        this.emit(FlowChartEvents.SIMULATION_NODE_STATUS, nodeId, status);
+      }
+    });
+
+    if (this.options.render) {
+      this.flowChart.setActiveEdges(edgeIds);
+      this.flowChart.render();
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * 流程模拟执行
+ */
+
+export {
+  FlowSimulator,
+  type SimulationStatus,
+  type SimulationToken,
+  type SimulationChoice,
+  type SimulationStep,
+  type ConditionEvaluator,
+  type SimulatorOptions
+} from './FlowSimulator';
@@ -73,4 +73,11 @@ export const STATUS_COLORS = {
   completed: '#6c757d'
 };
 
-
+/**
+ * 验证问题颜色
+ */
+export const ISSUE_COLORS = {
+  error: '#ff4d4f',
+  warning: '#faad14',
+  info: '#1890ff'
+};
@@ -1,8 +1,8 @@
 /**
- * 边的样式定义
- * 增强hover效果和流动动画
+ * 边的样式定义：增强 hover 效果和流动动画
+ * 打包时不处理 CSS 文件，样式表以字符串形式维护：页面按需注入，导出 SVG 时内联
  */
-
+export const EDGE_CSS = `
 /* 边的基础样式 */
 .flow-edge {
   cursor: pointer;
@@ -159,4 +159,5 @@
     transition: none !important;
     animation: none !important;
   }
-}
\ No newline at end of file
+}
+`;
@@ -206,6 +206,8 @@ export interface ExportConfig {
   scale?: number;
   quality?: number;
   backgroundColor?: string;
+  /** 未指定 backgroundColor 时：solid 填充主题背景色，transparent 保持透明 */
+  background?: 'solid' | 'transparent';
   padding?: number;
 }
 
@@ -0,0 +1,163 @@
+/**
+ * 流程图数据相关类型定义
+ */
+
+import { NodeType, NodeStatus, Position, NodeStyle, EdgeStyle, PortDefinition } from './model';
+import type { LayoutConfig } from './plugin';
+import type { AnimationConfig } from './advanced';
+
+/**
+ * 连线类型
+ */
+export enum EdgeType {
+  STRAIGHT = 'straight',
+  BEZIER = 'bezier',
+  SMOOTH = 'smooth',
+  POLYLINE = 'polyline',
+  STEP = 'step',
+  ORTHOGONAL = 'orthogonal',
+}
+
+/**
+ * 连线动画类型
+ */
+export enum EdgeAnimationType {
+  FLOW = 'flow',
+  DASH = 'dash',
+  PULSE = 'pulse',
+  GLOW = 'glow',
+}
+
+/**
+ * 节点数据
+ */
+export interface NodeData {
+  /** 节点ID */
+  id: string;
+  /** 节点类型 */
+  type: NodeType;
+  /** 节点标签 */
+  label: string;
+  /** 节点位置（中心点） */
+  position: Position;
+  /** 节点状态 */
+  status?: NodeStatus;
+  /** 自定义数据 */
+  data?: Record<string, any>;
+  /** 自定义样式 */
+  style?: NodeStyle;
+  /** 是否手动定位（自动布局时保持位置） */
+  manualPosition?: boolean;
+  /** 自定义端口，指定后连线只能连接到这些端口 */
+  ports?: PortDefinition[];
+}
+
+/**
+ * 边数据
+ */
+export interface EdgeData {
+  /** 边ID */
+  id: string;
+  /** 源节点ID */
+  source: string;
+  /** 目标节点ID */
+  target: string;
+  /** 边标签 */
+  label?: string;
+  /** 条件表达式 */
+  condition?: string;
+  /** 自定义样式 */
+  style?: EdgeStyle;
+  /** 中间折点（不含首尾连接点） */
+  waypoints?: Position[];
+  /** 源节点端口ID（见 NodeData.ports） */
+  sourcePort?: string;
+  /** 目标节点端口ID（见 NodeData.ports） */
+  targetPort?: string;
+}
+
+/**
+ * 视图缩放配置
+ */
+export interface FlowChartZoomConfig {
+  /** 初始缩放比例 */
+  initialScale?: number;
+  /** 最小缩放比例 */
+  minScale?: number;
+  /** 最大缩放比例 */
+  maxScale?: number;
+  /** 缩放步长 */
+  scaleStep?: number;
+  /** 初始位置 */
+  initialPosition?: string | Position;
+  /** 初始化时居中 */
+  centerOnInit?: boolean;
+  /** 初始化时自适应画布 */
+  autoFit?: boolean;
+  /** 自适应时的留白 */
+  fitPadding?: number;
+}
+
+/**
+ * 动画配置：布局或加载数据后节点从旧位置过渡到新位置，视图缩放和平移同样过渡
+ */
+export interface FlowChartAnimationConfig extends Partial<AnimationConfig> {
+  /** 是否启用，默认 true */
+  enabled?: boolean;
+  /** 减少动画：true 时不播放，false 时总是播放，'system' 跟随系统 prefers-reduced-motion（默认） */
+  reducedMotion?: boolean | 'system';
+  /** 视图缩放和平移是否过渡，默认 true */
+  viewport?: boolean;
+}
+
+/**
+ * 流程图配置
+ */
+export interface FlowChartConfig {
+  /** 容器元素或选择器 */
+  container: HTMLElement | string;
+  /** 宽度 */
+  width?: number;
+  /** 高度 */
+  height?: number;
+  /** 同级节点间距 */
+  nodeGap?: number;
+  /** 层级间距 */
+  levelGap?: number;
+  /** 流向：TB 从上到下，BT 从下到上，LR 从左到右，RL 从右到左 */
+  direction?: 'TB' | 'BT' | 'LR' | 'RL';
+  /** 启用拖拽（旧参数，等同于 enablePan） */
+  enableDrag?: boolean;
+  /** 启用缩放 */
+  enableZoom?: boolean;
+  /** 启用画布平移 */
+  enablePan?: boolean;
+  /** 启用节点拖拽 */
+  enableNodeDrag?: boolean;
+  /** 自动布局 */
+  autoLayout?: boolean;
+  /** 布局配置，type 为 LayoutRegistry 中的布局名称（默认 default）；未指定的间距和流向取上面的配置 */
+  layout?: LayoutConfig;
+  /** 主题色 */
+  primaryColor?: string;
+  /** 缩放配置 */
+  zoom?: FlowChartZoomConfig;
+  /** 动画配置，true 使用默认动画（300ms ease-in-out），默认不播放动画 */
+  animation?: boolean | FlowChartAnimationConfig;
+  /** 默认连线路由器名称（见 RouterFactory），不指定时按连线类型选择；单条连线可用 style.router 覆盖 */
+  edgeRouter?: string;
+  /** 连线分离：共用通道的平行线段按间距展开（默认关闭），true 开启（间距 10） */
+  edgeNudging?: boolean | { gap?: number };
+  /** 连线交叉处的跳线（默认关闭）：style 为 arc 弧线或 gap 断开，size 为半径，yield 决定哪条连线让行 */
+  lineJumps?: boolean | {
+    style?: 'arc' | 'gap';
+    size?: number;
+    yield?: 'horizontal' | 'vertical' | 'later' | 'earlier';
+  };
+  /** 节点点击回调 */
+  onNodeClick?: (node: NodeData) => void;
+  /** 边点击回调 */
+  onEdgeClick?: (edge: EdgeData) => void;
+  /** 缩放变化回调 */
+  onZoomChange?: (scale: number) => void;
+}
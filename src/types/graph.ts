@@ -4,6 +4,7 @@
 
 import { NodeModel } from '../core/model/Node';
 import { EdgeModel } from '../core/model/Edge';
+import { Position, Size, NodeStyle, EdgeStyle } from './model';
 
 /**
  * 图配置接口
@@ -90,6 +91,10 @@ export enum GraphEvent {
   // 历史事件
   HISTORY_CHANGE = 'history:change',
 
+  // 事务事件
+  BATCH_START = 'batch:start',
+  BATCH_END = 'batch:end',
+
   // 生命周期事件
   GRAPH_READY = 'graph:ready',
   GRAPH_DESTROY = 'graph:destroy',
@@ -100,6 +105,61 @@ export enum GraphEvent {
  */
 export type EventHandler<T = any> = (event: T) => void;
 
+/**
+ * 模型属性变更，新值、旧值的类型由变更的属性决定
+ */
+export type GraphUpdate =
+  | { property: 'position'; value: Position; oldValue: Position }
+  | { property: 'size'; value: Size; oldValue: Size }
+  | { property: 'style'; value: NodeStyle | EdgeStyle; oldValue: NodeStyle | EdgeStyle }
+  | { property: 'waypoints'; value: Position[]; oldValue: Position[] }
+  | { property: 'data'; /** 数据键 */ key: string; value: unknown; oldValue: unknown };
+
+/**
+ * 模型更新事件（node:updated / edge:updated）
+ */
+export type GraphUpdateEvent = GraphUpdate & {
+  /** 模型ID */
+  id: string;
+  /** 发生变更的模型 */
+  model: NodeModel | EdgeModel;
+};
+
+/**
+ * 各类图变更事件携带的数据
+ */
+export interface GraphChangePayloads {
+  [GraphEvent.NODE_ADDED]: { model: NodeModel };
+  [GraphEvent.EDGE_ADDED]: { model: EdgeModel };
+  [GraphEvent.NODE_REMOVED]: { id: string; model: NodeModel; edges: EdgeModel[] };
+  /** cascade 表示随节点一起移除 */
+  [GraphEvent.EDGE_REMOVED]: { id: string; model: EdgeModel; cascade: boolean };
+  [GraphEvent.NODE_UPDATED]: GraphUpdateEvent;
+  [GraphEvent.EDGE_UPDATED]: GraphUpdateEvent;
+}
+
+/**
+ * 图变更事件
+ */
+export type GraphChangeEvent = keyof GraphChangePayloads;
+
+/**
+ * 单条图变更（事务期间暂存的事件），按 event 区分 payload 的类型
+ */
+export type GraphChange = {
+  [E in GraphChangeEvent]: { event: E; payload: GraphChangePayloads[E] };
+}[GraphChangeEvent];
+
+/**
+ * 事务结束事件（batch:end）
+ */
+export interface GraphBatchEvent {
+  /** 事务期间按顺序发生的变更 */
+  changes: GraphChange[];
+  /** 事务是否已回滚 */
+  rolledBack: boolean;
+}
+
 /**
  * 图数据接口
  */
@@ -8,6 +8,9 @@ export * from './graph';
 // 模型相关类型
 export * from './model';
 
+// 流程图数据类型
+export * from './flowchart';
+
 // 视图相关类型
 export * from './view';
 
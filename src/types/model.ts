@@ -66,6 +66,34 @@ export interface NodeStyle {
   [key: string]: any;
 }
 
+/**
+ * 端口所在的节点边
+ */
+export type PortSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * 端口方向：in 只能作为连线终点，out 只能作为起点，both 均可
+ */
+export type PortDirection = 'in' | 'out' | 'both';
+
+/**
+ * 节点端口定义
+ */
+export interface PortDefinition {
+  /** 端口ID，在节点内唯一 */
+  id: string;
+  /** 所在的边 */
+  side: PortSide;
+  /** 沿边的相对位置（0~1，上下边从左到右，左右边从上到下），默认 0.5 */
+  offset?: number;
+  /** 方向，默认 both */
+  direction?: PortDirection;
+  /** 最多连接的连线数，不指定时不限 */
+  maxConnections?: number;
+  /** 端口标签 */
+  label?: string;
+}
+
 /**
  * 边样式
  */
@@ -75,6 +103,8 @@ export interface EdgeStyle {
   strokeDasharray?: string;
   opacity?: number;
   arrowSize?: number;
+  /** 路由器名称（见 RouterFactory），不指定时按连线类型选择 */
+  router?: string;
   [key: string]: any;
 }
 
@@ -91,6 +121,8 @@ export interface NodeConfig extends BaseModelConfig {
   status?: NodeStatus;
   style?: NodeStyle;
   data?: Record<string, any>;
+  /** 自定义端口，指定后连线只能连接到这些端口 */
+  ports?: PortDefinition[];
 }
 
 /**
@@ -102,6 +134,10 @@ export interface EdgeConfig extends BaseModelConfig {
   label?: string;
   style?: EdgeStyle;
   waypoints?: Position[];
+  /** 源节点端口ID */
+  sourcePort?: string;
+  /** 目标节点端口ID */
+  targetPort?: string;
   data?: Record<string, any>;
 }
 
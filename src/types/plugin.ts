@@ -39,11 +39,17 @@ export interface BehaviorConfig extends PluginConfig {
  * 布局插件配置
  */
 export interface LayoutConfig extends PluginConfig {
-  type?: 'dagre' | 'force' | 'grid' | 'manual';
+  /**
+   * 布局名称：default、dagre、sugiyama、force、grid、tree、circular、manual，
+   * 或 LayoutRegistry 中注册的自定义布局
+   */
+  type?: string;
   direction?: 'TB' | 'BT' | 'LR' | 'RL';
   nodeGap?: number;
   levelGap?: number;
   align?: 'UL' | 'UR' | 'DL' | 'DR';
+  /** 增量布局：首次布局后保持已有节点位置，只放置新增节点 */
+  incremental?: boolean;
 }
 
 /**
@@ -54,6 +60,6 @@ export interface HistoryConfig extends PluginConfig {
   ignoreAdd?: boolean;
   ignoreRemove?: boolean;
   ignoreUpdate?: boolean;
+  /** 同一节点连续移动合并为一步的时间窗口（毫秒） */
+  mergeInterval?: number;
 }
-
-
@@ -1,5 +1,7 @@
 /**
  * 数据验证器
+ * 模型配置的旧版验证接口，错误信息保持原有的英文格式；
+ * 流程图数据的结构化诊断由验证规则注册表的 data-integrity 规则给出
  */
 
 import { NodeConfig, EdgeConfig } from '../types/model';
@@ -45,6 +45,17 @@ export class ValidationError extends FlowChartError {
   }
 }
 
+/**
+ * 表达式错误
+ */
+export class ExpressionError extends FlowChartError {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+  }
+}
+
 /**
  * 布局错误
  */
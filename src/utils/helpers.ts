@@ -7,6 +7,14 @@ export function generateId(prefix: string = 'id'): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * 去掉流程引擎表达式的 ${...} 包装，如 "${amount > 5000}" -> "amount > 5000"
+ */
+export function unwrapExpression(expression: string): string {
+  const match = expression.trim().match(/^\$\{([\s\S]*)\}$/);
+  return match ? match[1].trim() : expression.trim();
+}
+
 /**
  * 计算两点之间的距离
  */
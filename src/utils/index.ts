@@ -5,3 +5,11 @@
 export { EventBus } from './EventBus';
 export { IdGenerator } from './IdGenerator';
 export { Validator } from './Validator';
+export {
+  convertWorkflowToFlowChart,
+  convertFlowChartToWorkflow,
+  type WorkflowNode,
+  type WorkflowDefinition,
+  type UnsupportedEdge,
+  type FlowChartToWorkflowResult
+} from './workflowConverter';
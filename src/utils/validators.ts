@@ -1,4 +1,4 @@
-import { NodeData, EdgeData, NodeType } from '../types';
+import { NodeData, EdgeData, NodeType, PortDefinition } from '../types';
 
 /**
  * 验证节点数据
@@ -22,12 +22,50 @@ export function validateNodeData(data: NodeData): { valid: boolean; errors: stri
     errors.push('节点位置必须包含有效的 x 和 y 坐标');
   }
 
+  if (data.ports) {
+    errors.push(...validatePorts(data.ports));
+  }
+
   return {
     valid: errors.length === 0,
     errors
   };
 }
 
+/**
+ * 验证节点端口定义
+ */
+function validatePorts(ports: PortDefinition[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  ports.forEach(port => {
+    if (!port.id || typeof port.id !== 'string') {
+      errors.push('端口ID必须是非空字符串');
+      return;
+    }
+    if (ids.has(port.id)) {
+      errors.push(`端口ID重复: ${port.id}`);
+    }
+    ids.add(port.id);
+
+    if (!['top', 'right', 'bottom', 'left'].includes(port.side)) {
+      errors.push(`端口 ${port.id} 所在的边无效`);
+    }
+    if (port.offset !== undefined && !(port.offset >= 0 && port.offset <= 1)) {
+      errors.push(`端口 ${port.id} 的偏移必须在 0 到 1 之间`);
+    }
+    if (port.direction !== undefined && !['in', 'out', 'both'].includes(port.direction)) {
+      errors.push(`端口 ${port.id} 的方向无效`);
+    }
+    if (port.maxConnections !== undefined && !(Number.isInteger(port.maxConnections) && port.maxConnections > 0)) {
+      errors.push(`端口 ${port.id} 的最大连接数必须是正整数`);
+    }
+  });
+
+  return errors;
+}
+
 /**
  * 验证边数据
  */
@@ -1,4 +1,6 @@
+import type { FlowChart } from '../core/FlowChart';
 import { NodeData, EdgeData, NodeType, EdgeType } from '../types';
+import { unwrapExpression } from './helpers';
 
 /**
  * 工作流节点定义（来自流程引擎）
@@ -8,8 +10,8 @@ export interface WorkflowNode {
   nodeName: string;
   nodeType: string;
   next?: string;
-  actions?: Array<{ action: string; actionName: string; next: string }>;
-  conditions?: Array<{ conditionName: string; expression: string; next: string }>;
+  actions?: Array<{ action?: string; actionName: string; next: string; [key: string]: any }>;
+  conditions?: Array<{ conditionName: string; expression?: string; next: string; [key: string]: any }>;
   [key: string]: any;
 }
 
@@ -64,10 +66,11 @@ export function convertWorkflowToFlowChart(
     }
 
     // 审批动作
-    node.actions?.forEach(action => {
+    node.actions?.forEach((action, index) => {
       if (action.next) {
         edges.push({
-          id: `edge_${node.nodeId}_${action.action}_${action.next}`,
+          // 部分流程定义的动作没有 action 编码，使用序号保证ID唯一
+          id: `edge_${node.nodeId}_${action.action ?? index}_${action.next}`,
           source: node.nodeId,
           target: action.next,
           label: action.actionName,
@@ -87,6 +90,7 @@ export function convertWorkflowToFlowChart(
         source: node.nodeId,
         target: condition.next,
         label: condition.conditionName,
+        ...(condition.expression ? { condition: unwrapExpression(condition.expression) } : {}),
         style: {
           type: EdgeType.POLYLINE,
           radius: 10,
@@ -99,6 +103,125 @@ export function convertWorkflowToFlowChart(
   return { nodes, edges };
 }
 
+/**
+ * 无法表达为工作流结构的连线
+ */
+export interface UnsupportedEdge {
+  edge: EdgeData;
+  /** 原因 */
+  reason: string;
+}
+
+/**
+ * 流程图转工作流的结果
+ */
+export interface FlowChartToWorkflowResult {
+  definition: WorkflowDefinition;
+  /** 被忽略的连线 */
+  unsupportedEdges: UnsupportedEdge[];
+}
+
+/**
+ * 将流程图转换回工作流数据（convertWorkflowToFlowChart 的逆过程）
+ *
+ * 节点 data 中保存的原始工作流节点会被保留，next/actions/conditions 按出边重建：
+ * 条件节点或带条件表达式的连线生成 conditions，带标签的连线生成 actions，
+ * 无标签的连线生成 next
+ */
+export function convertFlowChartToWorkflow(
+  source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] },
+  base: Omit<WorkflowDefinition, 'nodes'> = {}
+): FlowChartToWorkflowResult {
+  const { nodes, edges } = 'toJSON' in source ? source.toJSON() : source;
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const unsupportedEdges: UnsupportedEdge[] = [];
+
+  const outgoing = new Map<string, EdgeData[]>();
+  edges.forEach(edge => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      unsupportedEdges.push({ edge, reason: 'Edge references an unknown node' });
+      return;
+    }
+    if (!outgoing.has(edge.source)) {
+      outgoing.set(edge.source, []);
+    }
+    outgoing.get(edge.source)!.push(edge);
+  });
+
+  const workflowNodes = nodes.map(node => {
+    const original: Partial<WorkflowNode> = isWorkflowNode(node.data) ? node.data : {};
+    const { next: _next, actions, conditions, ...rest } = original;
+    const workflowNode: WorkflowNode = {
+      ...rest,
+      nodeId: node.id,
+      nodeName: node.label,
+      // 未识别的原始类型会被映射为 process，类型未改动时保留原值
+      nodeType: original.nodeType && mapNodeType(original.nodeType) === node.type
+        ? original.nodeType
+        : node.type
+    };
+
+    const unusedActions = [...(actions || [])];
+    const unusedConditions = [...(conditions || [])];
+
+    (outgoing.get(node.id) || []).forEach(edge => {
+      if (node.type === NodeType.CONDITION || edge.condition) {
+        const conditionName = edge.label || '';
+        const matched = takeMatch(unusedConditions, item =>
+          item.next === edge.target && item.conditionName === conditionName
+        );
+        const condition = { ...matched, conditionName, next: edge.target };
+        if (edge.condition) {
+          // 表达式未改动时保留原始的 ${...} 写法
+          condition.expression = matched?.expression && unwrapExpression(matched.expression) === edge.condition
+            ? matched.expression
+            : edge.condition;
+        } else {
+          delete condition.expression;
+        }
+        workflowNode.conditions = [...(workflowNode.conditions || []), condition];
+      } else if (edge.label) {
+        const matched = takeMatch(unusedActions, item =>
+          item.next === edge.target && item.actionName === edge.label
+        );
+        workflowNode.actions = [
+          ...(workflowNode.actions || []),
+          { ...matched, actionName: edge.label, next: edge.target }
+        ];
+      } else if (!workflowNode.next) {
+        workflowNode.next = edge.target;
+      } else {
+        unsupportedEdges.push({
+          edge,
+          reason: `Node "${node.id}" already has an unlabeled next "${workflowNode.next}"`
+        });
+      }
+    });
+
+    return workflowNode;
+  });
+
+  return {
+    definition: { ...base, nodes: workflowNodes },
+    unsupportedEdges
+  };
+}
+
+/**
+ * 判断节点数据是否为原始工作流节点
+ */
+function isWorkflowNode(data: any): data is WorkflowNode {
+  return !!data && typeof data === 'object' && typeof data.nodeId === 'string';
+}
+
+/**
+ * 取出并移除第一个匹配项
+ */
+function takeMatch<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  const index = items.findIndex(predicate);
+  return index === -1 ? undefined : items.splice(index, 1)[0];
+}
+
 /**
  * 映射节点类型
  */
@@ -114,12 +237,3 @@ function mapNodeType(nodeType: string): NodeType {
   };
   return typeMap[nodeType] || NodeType.PROCESS;
 }
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,162 @@
+import type { FlowChart } from '../core/FlowChart';
+import { NodeData, EdgeData } from '../types';
+import type { ValidationRule } from '../types/advanced';
+import { BUILT_IN_RULES } from './rules';
+
+/**
+ * 诊断严重程度
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * 修复建议
+ */
+export interface ValidationFix {
+  /** 建议说明 */
+  description: string;
+  /** 自动修复（可选） */
+  apply?: (flowChart: FlowChart) => void;
+}
+
+/**
+ * 验证诊断
+ */
+export interface ValidationDiagnostic {
+  /** 产生诊断的规则名称 */
+  rule: string;
+  /** 诊断代码 */
+  code: string;
+  /** 严重程度 */
+  severity: DiagnosticSeverity;
+  /** 描述 */
+  message: string;
+  /** 相关节点ID */
+  nodeId?: string;
+  /** 相关连线ID */
+  edgeId?: string;
+  /** 修复建议 */
+  fix?: ValidationFix;
+}
+
+/**
+ * 规则执行上下文
+ */
+export interface ValidationContext {
+  nodes: NodeData[];
+  edges: EdgeData[];
+  /** 获取节点 */
+  getNode(id: string): NodeData | undefined;
+  /** 获取节点出边 */
+  getOutgoing(id: string): EdgeData[];
+  /** 获取节点入边 */
+  getIncoming(id: string): EdgeData[];
+}
+
+/**
+ * 流程图验证规则
+ * 实现 check 的规则返回结构化诊断；只实现 validator 的规则在返回 false 时生成一条诊断
+ */
+export interface FlowValidationRule extends ValidationRule<ValidationContext> {
+  /** 默认严重程度，默认 error */
+  severity?: DiagnosticSeverity;
+  /** 生成诊断 */
+  check?: (context: ValidationContext) => Array<Omit<ValidationDiagnostic, 'rule'>>;
+}
+
+/**
+ * 验证结果
+ */
+export interface ValidationReport {
+  /** 没有 error 级别的诊断 */
+  valid: boolean;
+  /** error 级别诊断的描述 */
+  errors: string[];
+  /** 全部诊断 */
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * 验证规则注册表
+ * 统一管理流程图验证规则，默认包含内置规则
+ */
+export class ValidationRuleRegistry {
+  private rules: Map<string, FlowValidationRule> = new Map();
+
+  constructor(rules: FlowValidationRule[] = BUILT_IN_RULES) {
+    rules.forEach(rule => this.registerRule(rule));
+  }
+
+  /**
+   * 注册规则（同名规则会被替换）
+   */
+  public registerRule(rule: FlowValidationRule): void {
+    this.rules.set(rule.name, rule);
+  }
+
+  /**
+   * 移除规则
+   */
+  public unregisterRule(name: string): boolean {
+    return this.rules.delete(name);
+  }
+
+  /**
+   * 获取规则
+   */
+  public getRule(name: string): FlowValidationRule | undefined {
+    return this.rules.get(name);
+  }
+
+  /**
+   * 获取所有规则
+   */
+  public getAllRules(): FlowValidationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * 执行所有规则
+   */
+  public validate(source: FlowChart | { nodes: NodeData[]; edges: EdgeData[] }): ValidationReport {
+    const context = createContext('toJSON' in source ? source.toJSON() : source);
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    this.rules.forEach(rule => {
+      if (rule.check) {
+        rule.check(context).forEach(diagnostic => diagnostics.push({ rule: rule.name, ...diagnostic }));
+      } else if (!rule.validator(context)) {
+        diagnostics.push({
+          rule: rule.name,
+          code: rule.name,
+          severity: rule.severity || 'error',
+          message: rule.message || `Validation rule ${rule.name} failed`
+        });
+      }
+    });
+
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    return {
+      valid: errors.length === 0,
+      errors: errors.map(diagnostic => diagnostic.message),
+      diagnostics
+    };
+  }
+}
+
+function createContext(data: { nodes: NodeData[]; edges: EdgeData[] }): ValidationContext {
+  const nodes = new Map(data.nodes.map(node => [node.id, node]));
+  const outgoing = new Map<string, EdgeData[]>();
+  const incoming = new Map<string, EdgeData[]>();
+  data.edges.forEach(edge => {
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) || []), edge]);
+    incoming.set(edge.target, [...(incoming.get(edge.target) || []), edge]);
+  });
+
+  return {
+    nodes: data.nodes,
+    edges: data.edges,
+    getNode: id => nodes.get(id),
+    getOutgoing: id => outgoing.get(id) || [],
+    getIncoming: id => incoming.get(id) || []
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * 流程图验证
+ */
+
+export {
+  ValidationRuleRegistry,
+  type DiagnosticSeverity,
+  type ValidationFix,
+  type ValidationDiagnostic,
+  type ValidationContext,
+  type FlowValidationRule,
+  type ValidationReport
+} from './ValidationRuleRegistry';
+export {
+  defineRule,
+  BUILT_IN_RULES,
+  dataIntegrityRule,
+  startNodeRule,
+  endNodeRule,
+  isolatedNodeRule,
+  conditionOutputsRule,
+  unreachableNodeRule,
+  deadEndRule,
+  parallelMergeRule,
+  infiniteLoopRule,
+  duplicateEdgeRule,
+  conditionLabelRule,
+  conditionExpressionRule,
+  portConstraintRule
+} from './rules';
@@ -0,0 +1,403 @@
+import { NodeType, NodeData, EdgeData, PortDefinition } from '../types';
+import { validateNodeData, validateEdgeData } from '../utils/validators';
+import { generateId } from '../utils/helpers';
+import { validateConditions } from '../expression/analysis';
+import { analyzeGateways, createGatewayNodes, GatewayIssueCode } from '../analysis/GatewayAnalysis';
+import { GraphAlgorithms } from '../analysis/GraphAlgorithms';
+import { canConnectPort } from '../router/ports';
+import type {
+  FlowValidationRule,
+  ValidationContext,
+  ValidationDiagnostic
+} from './ValidationRuleRegistry';
+
+type Diagnostic = Omit<ValidationDiagnostic, 'rule'>;
+
+/**
+ * 定义只生成诊断的规则（validator 由 check 推导）
+ */
+export function defineRule(
+  rule: Omit<FlowValidationRule, 'validator'> & Required<Pick<FlowValidationRule, 'check'>>
+): FlowValidationRule {
+  return {
+    ...rule,
+    validator: context => rule.check(context).every(diagnostic => diagnostic.severity !== 'error')
+  };
+}
+
+/**
+ * 节点和连线数据完整性
+ */
+export const dataIntegrityRule = defineRule({
+  name: 'data-integrity',
+  check: context => {
+    const diagnostics: Diagnostic[] = [];
+    const nodeIds = new Set<string>();
+    context.nodes.forEach(node => {
+      const messages = validateNodeData(node).errors.map(message => `${node.id}: ${message}`);
+      if (nodeIds.has(node.id)) {
+        messages.push(`节点ID重复: ${node.id}`);
+      }
+      nodeIds.add(node.id);
+      messages.forEach(message => {
+        diagnostics.push({ code: 'invalid-node', severity: 'error', message, nodeId: node.id });
+      });
+    });
+    context.edges.forEach(edge => {
+      const messages = validateEdgeData(edge).errors;
+      [edge.source, edge.target].forEach(id => {
+        if (id && !context.getNode(id)) {
+          messages.push(`节点不存在: ${id}`);
+        }
+      });
+      messages.forEach(message => {
+        diagnostics.push({
+          code: 'invalid-edge',
+          severity: 'error',
+          message: `${edge.id}: ${message}`,
+          edgeId: edge.id
+        });
+      });
+    });
+    return diagnostics;
+  }
+});
+
+/**
+ * 必须有起始节点
+ */
+export const startNodeRule = defineRule({
+  name: 'start-node',
+  check: context => (findStartNodes(context).length > 0 ? [] : [{
+    code: 'no-start',
+    severity: 'error',
+    message: 'No start node found',
+    fix: { description: 'Add a START node and connect it to the first step' }
+  }])
+});
+
+/**
+ * 必须有结束节点
+ */
+export const endNodeRule = defineRule({
+  name: 'end-node',
+  check: context => {
+    const hasEnd = context.nodes.some(node => node.type === NodeType.END || context.getOutgoing(node.id).length === 0);
+    return hasEnd ? [] : [{
+      code: 'no-end',
+      severity: 'error',
+      message: 'No end node found',
+      fix: { description: 'Add an END node and connect the last step to it' }
+    }];
+  }
+});
+
+/**
+ * 孤立节点
+ */
+export const isolatedNodeRule = defineRule({
+  name: 'isolated-node',
+  check: context => context.nodes
+    .filter(node => isIsolated(context, node.id))
+    .map(node => ({
+      code: 'isolated-node',
+      severity: 'error',
+      message: `Isolated node found: ${node.id}`,
+      nodeId: node.id,
+      fix: {
+        description: `Connect node ${node.id} or remove it`,
+        apply: flowChart => {
+          flowChart.removeNode(node.id);
+        }
+      }
+    }))
+});
+
+/**
+ * 条件节点至少两个出口
+ */
+export const conditionOutputsRule = defineRule({
+  name: 'condition-outputs',
+  check: context => context.nodes
+    .filter(node => node.type === NodeType.CONDITION && context.getOutgoing(node.id).length < 2)
+    .map(node => ({
+      code: 'condition-outputs',
+      severity: 'error',
+      message: `Condition node ${node.id} should have at least 2 outputs`,
+      nodeId: node.id,
+      fix: { description: `Add another branch to condition node ${node.id}` }
+    }))
+});
+
+/**
+ * 从起始节点不可达的节点
+ */
+export const unreachableNodeRule = defineRule({
+  name: 'unreachable-node',
+  check: context => {
+    const starts = context.nodes.filter(node => node.type === NodeType.START);
+    if (starts.length === 0) {
+      return [];
+    }
+    const reachable = new GraphAlgorithms(context).getReachable(starts.map(node => node.id));
+    return context.nodes
+      .filter(node => !reachable.has(node.id) && !isIsolated(context, node.id))
+      .map(node => ({
+        code: 'unreachable-node',
+        severity: 'error',
+        message: `Node ${node.id} is unreachable from the start node`,
+        nodeId: node.id,
+        fix: { description: `Connect a reachable node to ${node.id} or remove it` }
+      }));
+  }
+});
+
+/**
+ * 非结束节点没有出口
+ */
+export const deadEndRule = defineRule({
+  name: 'dead-end',
+  check: context => {
+    const ends = context.nodes.filter(node => node.type === NodeType.END);
+    return context.nodes
+      .filter(node => node.type !== NodeType.END
+        && context.getOutgoing(node.id).length === 0
+        && !isIsolated(context, node.id))
+      .map(node => ({
+        code: 'dead-end',
+        severity: 'warning',
+        message: `Node ${node.id} has no outgoing edges but is not an END node`,
+        nodeId: node.id,
+        fix: ends.length === 1
+          ? {
+            description: `Connect node ${node.id} to END node ${ends[0].id}`,
+            apply: flowChart => {
+              flowChart.addEdge({ id: generateId('edge'), source: node.id, target: ends[0].id });
+            }
+          }
+          : { description: `Connect node ${node.id} to an END node` }
+      }));
+  }
+});
+
+/**
+ * 网关问题的修复建议
+ */
+const GATEWAY_FIXES: Record<GatewayIssueCode, (nodeId: string) => string> = {
+  'unmatched-parallel': id => `Join all branches of ${id} into one MERGE node`,
+  'unmatched-merge': id => `Add a PARALLEL node before the branches merged by ${id}`,
+  'interleaved-gateways': id => `Join the branches of ${id} before they meet branches of another PARALLEL node`,
+  'deadlock-merge': id => `Replace ${id} with a plain node, or split the branches with a PARALLEL node`
+};
+
+/**
+ * 并行节点与汇合节点配对
+ * 基于支配树分析网关对应关系，检测缺少汇合、分支交叉和可能死锁的汇合节点
+ */
+export const parallelMergeRule = defineRule({
+  name: 'parallel-merge',
+  check: context => analyzeGateways(createGatewayNodes(context.nodes, context.edges)).issues.map(issue => ({
+    code: issue.code,
+    severity: issue.severity,
+    message: issue.message,
+    nodeId: issue.nodeId,
+    fix: { description: GATEWAY_FIXES[issue.code](issue.nodeId) }
+  }))
+});
+
+/**
+ * 没有出口的循环
+ */
+export const infiniteLoopRule = defineRule({
+  name: 'infinite-loop',
+  check: context => new GraphAlgorithms(context).stronglyConnectedComponents()
+    .filter(component => {
+      const members = new Set(component);
+      const cyclic = component.length > 1
+        || context.getOutgoing(component[0]).some(edge => edge.target === component[0]);
+      const hasExit = component.some(id => context.getNode(id)?.type === NodeType.END
+        || context.getOutgoing(id).some(edge => !members.has(edge.target)));
+      return cyclic && !hasExit;
+    })
+    .map(component => ({
+      code: 'infinite-loop',
+      severity: 'error',
+      message: `Loop ${component.join(' -> ')} has no exit`,
+      nodeId: component[0],
+      fix: { description: 'Add a conditional branch that leaves the loop' }
+    }))
+});
+
+/**
+ * 重复连线（相同起止节点和条件）
+ */
+export const duplicateEdgeRule = defineRule({
+  name: 'duplicate-edge',
+  check: context => {
+    const seen = new Map<string, EdgeData>();
+    const diagnostics: Diagnostic[] = [];
+    context.edges.forEach(edge => {
+      const key = JSON.stringify([edge.source, edge.target, edge.condition || '']);
+      const first = seen.get(key);
+      if (!first) {
+        seen.set(key, edge);
+        return;
+      }
+      diagnostics.push({
+        code: 'duplicate-edge',
+        severity: 'warning',
+        message: `Edge ${edge.id} duplicates edge ${first.id}`,
+        edgeId: edge.id,
+        fix: {
+          description: `Remove edge ${edge.id}`,
+          apply: flowChart => {
+            flowChart.removeEdge(edge.id);
+          }
+        }
+      });
+    });
+    return diagnostics;
+  }
+});
+
+/**
+ * 条件节点的分支必须有标签或条件
+ */
+export const conditionLabelRule = defineRule({
+  name: 'condition-label',
+  check: context => context.nodes
+    .filter(node => node.type === NodeType.CONDITION)
+    .flatMap(node => context.getOutgoing(node.id)
+      .filter(edge => !edge.label && !edge.condition)
+      .map(edge => ({
+        code: 'condition-label',
+        severity: 'warning' as const,
+        message: `Branch ${edge.id} of condition node ${node.id} has no label`,
+        nodeId: node.id,
+        edgeId: edge.id,
+        fix: { description: `Add a label or condition to edge ${edge.id}` }
+      })))
+});
+
+/**
+ * 条件表达式语法与分支完整性
+ */
+export const conditionExpressionRule = defineRule({
+  name: 'condition-expression',
+  check: context => validateConditions(context).map(issue => ({
+    code: issue.code,
+    severity: issue.severity,
+    message: issue.message,
+    nodeId: issue.nodeId,
+    edgeId: issue.edgeIds.length === 1 ? issue.edgeIds[0] : undefined
+  }))
+});
+
+/**
+ * 连线引用的端口必须存在于节点上、方向匹配且不超过最大连接数；
+ * 定义了端口的节点，连线应该指定端口（未指定时路由器使用默认连接点，只给出警告）
+ */
+export const portConstraintRule = defineRule({
+  name: 'port-constraints',
+  check: context => {
+    const diagnostics: Diagnostic[] = [];
+    const usage = new Map<PortDefinition, { nodeId: string; edges: EdgeData[] }>();
+
+    context.edges.forEach(edge => {
+      ([['source', edge.source, edge.sourcePort], ['target', edge.target, edge.targetPort]] as const)
+        .forEach(([end, nodeId, portId]) => {
+          const node = context.getNode(nodeId);
+          if (!node) {
+            return;
+          }
+          if (portId === undefined) {
+            if (node.ports && node.ports.length > 0) {
+              const portIds = node.ports.map(port => port.id).join(', ');
+              diagnostics.push({
+                code: 'port-required',
+                severity: 'warning',
+                message: `Edge ${edge.id} must specify a ${end} port of node ${node.id}`,
+                nodeId: node.id,
+                edgeId: edge.id,
+                fix: { description: `Set ${end}Port of edge ${edge.id} to one of: ${portIds}` }
+              });
+            }
+            return;
+          }
+
+          const port = node.ports?.find(item => item.id === portId);
+          if (!port) {
+            diagnostics.push({
+              code: 'unknown-port',
+              severity: 'error',
+              message: `Edge ${edge.id} references unknown port ${portId} on node ${node.id}`,
+              nodeId: node.id,
+              edgeId: edge.id
+            });
+            return;
+          }
+          if (!canConnectPort(port, end)) {
+            const role = end === 'source' ? 'an output' : 'an input';
+            diagnostics.push({
+              code: 'port-direction',
+              severity: 'error',
+              message: `Port ${port.id} of node ${node.id} cannot be used as ${role} (edge ${edge.id})`,
+              nodeId: node.id,
+              edgeId: edge.id
+            });
+          }
+
+          const used = usage.get(port);
+          if (used) {
+            used.edges.push(edge);
+          } else {
+            usage.set(port, { nodeId: node.id, edges: [edge] });
+          }
+        });
+    });
+
+    usage.forEach(({ nodeId, edges }, port) => {
+      if (port.maxConnections !== undefined && edges.length > port.maxConnections) {
+        const { maxConnections } = port;
+        const overflow = edges.slice(maxConnections).map(edge => edge.id).join(', ');
+        diagnostics.push({
+          code: 'port-capacity',
+          severity: 'error',
+          message: `Port ${port.id} of node ${nodeId} allows ${maxConnections} connection(s) but has ${edges.length}`,
+          nodeId,
+          edgeId: edges[edges.length - 1].id,
+          fix: { description: `Move edges ${overflow} to another port` }
+        });
+      }
+    });
+
+    return diagnostics;
+  }
+});
+
+/**
+ * 内置规则
+ */
+export const BUILT_IN_RULES: FlowValidationRule[] = [
+  dataIntegrityRule,
+  startNodeRule,
+  endNodeRule,
+  isolatedNodeRule,
+  conditionOutputsRule,
+  unreachableNodeRule,
+  deadEndRule,
+  parallelMergeRule,
+  infiniteLoopRule,
+  duplicateEdgeRule,
+  conditionLabelRule,
+  conditionExpressionRule,
+  portConstraintRule
+];
+
+function findStartNodes(context: ValidationContext): NodeData[] {
+  return context.nodes.filter(node => node.type === NodeType.START || context.getIncoming(node.id).length === 0);
+}
+
+function isIsolated(context: ValidationContext, id: string): boolean {
+  return context.getIncoming(id).length === 0 && context.getOutgoing(id).length === 0;
+}
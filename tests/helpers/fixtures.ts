@@ -0,0 +1,78 @@
+/**
+ * 测试共用的节点、连线数据和布局断言
+ */
+
+import { expect } from 'vitest';
+import { FlowNode } from '@/core/Node';
+import { NodeType, NodeData, EdgeData, Position } from '@/types';
+
+/**
+ * 节点数据
+ */
+export const node = (id: string, type: NodeType = NodeType.PROCESS, position: Position = { x: 0, y: 0 }): NodeData => ({
+  id,
+  type,
+  label: id,
+  position
+});
+
+/**
+ * 连线数据，ID 形如 'a_b'
+ */
+export const edge = (source: string, target: string, extra: Partial<EdgeData> = {}): EdgeData => ({
+  id: `${source}_${target}`,
+  source,
+  target,
+  ...extra
+});
+
+/**
+ * 批量生成连线数据，pairs 形如 'a>b'
+ */
+export const edges = (...pairs: string[]): EdgeData[] => pairs.map(pair => {
+  const [source, target] = pair.split('>');
+  return edge(source, target);
+});
+
+/**
+ * 向节点图添加节点
+ */
+export const addNode = (nodes: Map<string, FlowNode>, id: string, x = 0, y = 0) => {
+  const flowNode = new FlowNode({ id, type: NodeType.PROCESS, label: id, position: { x, y } });
+  nodes.set(id, flowNode);
+  return flowNode;
+};
+
+/**
+ * 连接节点图中的两个节点
+ */
+export const link = (nodes: Map<string, FlowNode>, source: string, target: string) => {
+  nodes.get(source)!.addOutput(nodes.get(target)!);
+  nodes.get(target)!.addInput(nodes.get(source)!);
+};
+
+/**
+ * 构建节点图，ids 以逗号分隔，pairs 形如 'a>b'
+ */
+export const buildGraph = (ids: string, ...pairs: string[]) => {
+  const nodes = new Map<string, FlowNode>();
+  ids.split(',').forEach(id => addNode(nodes, id));
+  pairs.forEach(pair => link(nodes, ...(pair.split('>') as [string, string])));
+  return nodes;
+};
+
+export const pos = (nodes: Map<string, FlowNode>, id: string) => nodes.get(id)!.position;
+
+/**
+ * 检查节点之间没有重叠（默认节点 160x60）
+ */
+export const expectNoOverlap = (nodes: Map<string, FlowNode>, width = 160, height = 60) => {
+  const list = Array.from(nodes.values());
+  list.forEach((a, i) => {
+    list.slice(i + 1).forEach(b => {
+      const separated = Math.abs(a.position.x - b.position.x) >= width
+        || Math.abs(a.position.y - b.position.y) >= height;
+      expect(separated, `${a.id} / ${b.id}`).toBe(true);
+    });
+  });
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { GraphAlgorithms } from '@/analysis';
+import { Graph } from '@/core/Graph';
+import { NodeError, ValidationError } from '@/utils/errors';
+
+const graphOf = (ids: string, ...pairs: string[]) => new GraphAlgorithms({
+  nodes: ids.split(',').map(id => ({ id })),
+  edges: pairs.map(pair => {
+    const [source, target] = pair.split('>');
+    return { id: `${source}_${target}`, source, target };
+  })
+});
+
+// 审批流：start -> check -> (approve | reject)，驳回后回到 submit
+const approval = () => graphOf(
+  'start,submit,check,approve,reject,end',
+  'start>submit', 'submit>check', 'check>approve', 'check>reject', 'reject>submit', 'approve>end'
+);
+
+describe('GraphAlgorithms', () => {
+  it('应该按层次稳定地拓扑排序', () => {
+    expect(graphOf('a,b,c,d', 'a>c', 'b>c', 'c>d').topologicalSort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('应该在有环时拒绝拓扑排序并给出环上节点', () => {
+    const algorithms = approval();
+    expect(algorithms.isAcyclic()).toBe(false);
+    try {
+      algorithms.topologicalSort();
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).errors).toEqual(['submit', 'check', 'approve', 'reject', 'end']);
+    }
+  });
+
+  it('应该计算强连通分量并枚举所有环', () => {
+    const algorithms = graphOf('a,b,c,d', 'a>b', 'b>a', 'b>c', 'c>a', 'd>d');
+    expect(algorithms.stronglyConnectedComponents()).toEqual([['a', 'b', 'c'], ['d']]);
+    expect(algorithms.findCycles()).toEqual([['a', 'b'], ['a', 'b', 'c'], ['d']]);
+    expect(algorithms.findCycles(1)).toHaveLength(1);
+    expect(approval().findCycles()).toEqual([['submit', 'check', 'reject']]);
+  });
+
+  it('应该列出两点之间的所有简单路径', () => {
+    const algorithms = graphOf('a,b,c,d', 'a>b', 'a>c', 'b>d', 'c>d', 'b>c');
+    expect(algorithms.findAllPaths('a', 'd')).toEqual([['a', 'b', 'd'], ['a', 'b', 'c', 'd'], ['a', 'c', 'd']]);
+    expect(algorithms.findAllPaths('a', 'd', 2)).toHaveLength(2);
+    expect(algorithms.findAllPaths('d', 'a')).toEqual([]);
+    expect(() => algorithms.findAllPaths('a', 'x')).toThrow(NodeError);
+  });
+
+  it('应该计算最短和最长路径', () => {
+    const algorithms = graphOf('a,b,c,d', 'a>b', 'b>c', 'c>d', 'a>d');
+    expect(algorithms.shortestPath('a', 'd')).toEqual(['a', 'd']);
+    expect(algorithms.shortestPath('a', 'd', edge => (edge.id === 'a_d' ? 10 : 1))).toEqual(['a', 'b', 'c', 'd']);
+    expect(algorithms.shortestPath('d', 'a')).toBeNull();
+    expect(algorithms.longestPath('a', 'd')).toEqual(['a', 'b', 'c', 'd']);
+
+    // 忽略驳回回边
+    expect(approval().longestPath('start', 'end')).toEqual(['start', 'submit', 'check', 'approve', 'end']);
+  });
+
+  it('应该计算可达集合和祖先集合', () => {
+    const algorithms = approval();
+    expect(Array.from(algorithms.getReachable('reject')).sort()).toEqual(['approve', 'check', 'end', 'reject', 'submit']);
+    expect(Array.from(algorithms.getAncestors('start'))).toEqual(['start']);
+    expect(Array.from(algorithms.getAncestors('approve')).sort()).toEqual(['approve', 'check', 'reject', 'start', 'submit']);
+  });
+
+  it('应该计算支配和后支配关系', () => {
+    const algorithms = graphOf('s,a,b,m,t', 's>a', 's>b', 'a>m', 'b>m', 'm>t');
+    expect(Object.fromEntries(algorithms.getDominators())).toEqual({ a: 's', b: 's', m: 's', t: 'm' });
+    expect(Object.fromEntries(algorithms.getPostDominators())).toEqual({ s: 'm', a: 'm', b: 'm', m: 't' });
+    expect(Object.fromEntries(algorithms.getDominators('a'))).toEqual({ m: 'a', t: 'm' });
+  });
+
+  it('应该支持新架构的 Graph', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const graph = new Graph({ container });
+    graph.addNode({ id: 'a' });
+    graph.addNode({ id: 'b' });
+    graph.addEdge({ id: 'e1', source: 'a', target: 'b' });
+
+    expect(graph.getGraphAlgorithms().shortestPath('a', 'b')).toEqual(['a', 'b']);
+
+    graph.destroy();
+    container.remove();
+  });
+});
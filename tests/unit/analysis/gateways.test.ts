@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeGateways, createGatewayNodes, computeDominators, dominates } from '@/analysis';
+import { FlowChart } from '@/core/FlowChart';
+import { NodeType, NodeData, EdgeData } from '@/types';
+import { node, edges } from '../../helpers/fixtures';
+
+const analyze = (nodes: NodeData[], edgeList: EdgeData[]) => analyzeGateways(createGatewayNodes(nodes, edgeList));
+
+const issueCodes = (nodes: NodeData[], edgeList: EdgeData[]) =>
+  analyze(nodes, edgeList).issues.map(issue => `${issue.code}:${issue.nodeId}`);
+
+describe('computeDominators', () => {
+  it('应该计算菱形结构的直接支配节点', () => {
+    const graph: Record<string, string[]> = { s: ['a', 'b'], a: ['m'], b: ['m'], m: [] };
+    const predecessors = (id: string) => Object.keys(graph).filter(key => graph[key].includes(id));
+    const idom = computeDominators('s', id => graph[id], predecessors);
+
+    expect(Object.fromEntries(idom)).toEqual({ a: 's', b: 's', m: 's' });
+    expect(dominates(idom, 's', 'm')).toBe(true);
+    expect(dominates(idom, 'a', 'm')).toBe(false);
+  });
+});
+
+describe('analyzeGateways', () => {
+  it('应该配对嵌套的并行和汇合节点', () => {
+    const analysis = analyze(
+      [
+        node('start', NodeType.START),
+        node('f1', NodeType.PARALLEL),
+        node('a'),
+        node('f2', NodeType.PARALLEL),
+        node('b'),
+        node('c'),
+        node('j2', NodeType.MERGE),
+        node('j1', NodeType.MERGE),
+        node('end', NodeType.END)
+      ],
+      edges('start>f1', 'f1>a', 'f1>f2', 'f2>b', 'f2>c', 'b>j2', 'c>j2', 'a>j1', 'j2>j1', 'j1>end')
+    );
+
+    expect(analysis.issues).toEqual([]);
+    expect(analysis.pairs.map(pair => [pair.fork, pair.join, pair.parent, pair.depth])).toEqual([
+      ['f1', 'j1', undefined, 0],
+      ['f2', 'j2', 'f1', 1]
+    ]);
+    expect(analysis.getPair('j1')!.branches).toEqual([['a'], ['f2', 'b', 'c', 'j2']]);
+    expect(analysis.getEnclosingPair('b')!.fork).toBe('f2');
+    expect(analysis.getEnclosingPair('a')!.fork).toBe('f1');
+    expect(analysis.getEnclosingPair('end')).toBeUndefined();
+    expect(analysis.dominators.get('j1')).toBe('f1');
+    expect(analysis.postDominators.get('f2')).toBe('j2');
+  });
+
+  it('应该配对循环中的网关', () => {
+    expect(issueCodes(
+      [
+        node('start', NodeType.START),
+        node('fork', NodeType.PARALLEL),
+        node('a'),
+        node('b'),
+        node('join', NodeType.MERGE),
+        node('check', NodeType.CONDITION),
+        node('end', NodeType.END)
+      ],
+      edges('start>fork', 'fork>a', 'fork>b', 'a>join', 'b>join', 'join>check', 'check>fork', 'check>end')
+    )).toEqual([]);
+  });
+
+  it('应该检测交叉的并行分支', () => {
+    expect(issueCodes(
+      [
+        node('s1', NodeType.START),
+        node('s2', NodeType.START),
+        node('f1', NodeType.PARALLEL),
+        node('f2', NodeType.PARALLEL),
+        node('a'),
+        node('b'),
+        node('c'),
+        node('d'),
+        node('j1', NodeType.MERGE),
+        node('j2', NodeType.MERGE),
+        node('end', NodeType.END)
+      ],
+      edges('s1>f1', 's2>f2', 'f1>a', 'f1>b', 'f2>c', 'f2>d', 'a>j1', 'c>j1', 'b>j2', 'd>j2', 'j1>end', 'j2>end')
+    )).toEqual([
+      'interleaved-gateways:f1',
+      'interleaved-gateways:f2',
+      'unmatched-merge:j1',
+      'unmatched-merge:j2'
+    ]);
+  });
+
+  it('应该检测汇合互斥分支导致的死锁', () => {
+    expect(issueCodes(
+      [
+        node('start', NodeType.START),
+        node('check', NodeType.CONDITION),
+        node('a'),
+        node('b'),
+        node('join', NodeType.MERGE),
+        node('end', NodeType.END)
+      ],
+      edges('start>check', 'check>a', 'check>b', 'a>join', 'b>join', 'join>end')
+    )).toEqual(['deadlock-merge:join']);
+
+    const analysis = analyze(
+      [
+        node('start', NodeType.START),
+        node('fork', NodeType.PARALLEL),
+        node('x'),
+        node('check', NodeType.CONDITION),
+        node('y'),
+        node('z'),
+        node('join', NodeType.MERGE),
+        node('end', NodeType.END)
+      ],
+      edges('start>fork', 'fork>x', 'fork>check', 'check>y', 'check>z', 'x>join', 'y>join', 'z>join', 'join>end')
+    );
+    expect(analysis.getPair('fork')!.join).toBe('join');
+    expect(analysis.issues.map(issue => [issue.code, issue.relatedNodeIds])).toEqual([['deadlock-merge', ['check']]]);
+  });
+
+  it('应该检测分支没有汇合的并行节点', () => {
+    const analysis = analyze(
+      [node('start', NodeType.START), node('fork', NodeType.PARALLEL), node('a'), node('b'), node('end', NodeType.END)],
+      edges('start>fork', 'fork>a', 'fork>b', 'a>end', 'b>end')
+    );
+    expect(analysis.pairs).toEqual([]);
+    expect(analysis.issues).toEqual([{
+      code: 'unmatched-parallel',
+      severity: 'error',
+      message: 'Parallel node fork has no matching merge node',
+      nodeId: 'fork',
+      relatedNodeIds: ['end']
+    }]);
+  });
+
+  it('应该直接分析 FlowChart 的节点', () => {
+    vi.useFakeTimers();
+    const flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false } as any);
+    flowChart.load(
+      [node('start', NodeType.START), node('fork', NodeType.PARALLEL), node('a'), node('b'), node('join', NodeType.MERGE)],
+      edges('start>fork', 'fork>a', 'fork>b', 'a>join', 'b>join')
+    );
+    vi.clearAllTimers();
+
+    expect(flowChart.analyzeGateways().getPair('fork')!.branches).toEqual([['a'], ['b']]);
+
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+});
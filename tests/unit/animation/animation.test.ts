@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Tween, FrameScheduler } from '@/animation/Tween';
+import { EASINGS, cubicBezier, resolveEasing } from '@/animation/easing';
+import { FlowChart } from '@/core/FlowChart';
+import { ConfigError } from '@/utils/errors';
+import { NodeType, NodeData, EdgeData } from '@/types';
+
+/**
+ * 手动推进的帧调度器
+ */
+const createScheduler = () => {
+  let time = 0;
+  let nextId = 1;
+  const callbacks = new Map<number, () => void>();
+  const scheduler: FrameScheduler = {
+    request: callback => {
+      callbacks.set(nextId, callback);
+      return nextId++;
+    },
+    cancel: id => {
+      callbacks.delete(id);
+    },
+    now: () => time
+  };
+  const advance = (ms: number) => {
+    time += ms;
+    const pending = Array.from(callbacks.values());
+    callbacks.clear();
+    pending.forEach(callback => callback());
+  };
+  return { scheduler, advance };
+};
+
+describe('缓动函数', () => {
+  it('应该在端点取 0 和 1 并支持 cubic-bezier', () => {
+    Object.values(EASINGS).forEach(easing => {
+      expect(easing(0)).toBe(0);
+      expect(easing(1)).toBe(1);
+    });
+    expect(EASINGS['ease-in'](0.5)).toBeLessThan(0.5);
+    expect(EASINGS['ease-out'](0.5)).toBeGreaterThan(0.5);
+    expect(resolveEasing('cubic-bezier(0, 0, 1, 1)')(0.3)).toBeCloseTo(0.3);
+    expect(cubicBezier(0.42, 0, 0.58, 1)(0.5)).toBeCloseTo(0.5);
+  });
+
+  it('应该在缓动名称无效时抛出 ConfigError', () => {
+    expect(() => resolveEasing('bounce')).toThrow(ConfigError);
+    expect(() => resolveEasing('cubic-bezier(2, 0, 1, 1)')).toThrow(ConfigError);
+  });
+});
+
+describe('Tween', () => {
+  it('应该按时间推进进度并在结束时停在 1', async () => {
+    const { scheduler, advance } = createScheduler();
+    const frames: number[] = [];
+    const onEnd = vi.fn();
+    const tween = new Tween({ duration: 100, easing: 'linear', scheduler, onFrame: p => frames.push(p), onEnd });
+
+    advance(50);
+    advance(60);
+    expect(frames).toEqual([0, 0.5, 1]);
+    expect(onEnd).toHaveBeenCalledWith(false);
+    await expect(tween.finished).resolves.toBe(true);
+  });
+
+  it('应该支持延迟和重复播放', () => {
+    const { scheduler, advance } = createScheduler();
+    const frames: number[] = [];
+    new Tween({ duration: 100, easing: 'linear', delay: 50, iterations: 2, scheduler, onFrame: p => frames.push(p) });
+
+    advance(40);
+    advance(35);
+    advance(100);
+    advance(100);
+    expect(frames).toEqual([0, 0.25, 0.25, 1]);
+  });
+
+  it('取消后应该不再推进', async () => {
+    const { scheduler, advance } = createScheduler();
+    const frames: number[] = [];
+    const onEnd = vi.fn();
+    const tween = new Tween({ duration: 100, easing: 'linear', scheduler, onFrame: p => frames.push(p), onEnd });
+
+    advance(30);
+    tween.cancel();
+    advance(100);
+    expect(frames).toEqual([0, 0.3]);
+    expect(tween.isCancelled()).toBe(true);
+    expect(onEnd).toHaveBeenCalledWith(true);
+    await expect(tween.finished).resolves.toBe(false);
+  });
+});
+
+describe('FlowChart 动画', () => {
+  const NODES: NodeData[] = ['a', 'b', 'c'].map(id => ({
+    id, type: NodeType.PROCESS, label: id, position: { x: 0, y: 0 }
+  }));
+  const EDGES: EdgeData[] = [
+    { id: 'e1', source: 'a', target: 'b' },
+    { id: 'e2', source: 'b', target: 'c' }
+  ];
+  let flowChart: FlowChart;
+
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ['setTimeout', 'clearTimeout', 'requestAnimationFrame', 'cancelAnimationFrame', 'performance']
+    });
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const create = (animation: Parameters<FlowChart['setAnimation']>[0]) => {
+    flowChart = new FlowChart({ container: document.createElement('div'), animation, layout: { type: 'grid' } });
+    // jsdom 不支持 getBBox，返回空范围以跳过初始视图定位
+    const nodesGroup = flowChart.getRenderer().getSVGElement().querySelector('.nodes-group')!;
+    Object.assign(nodesGroup, { getBBox: () => ({ x: 0, y: 0, width: 0, height: 0 }) });
+    flowChart.load(NODES, EDGES);
+  };
+
+  const displayed = (id: string) => {
+    const element = flowChart.getRenderer().getSVGElement().querySelector(`[data-node-id="${id}"]`)!;
+    return element.getAttribute('transform');
+  };
+
+  it('切换布局时节点应该从旧位置过渡，节点数据直接是最终位置', () => {
+    create({ duration: 100, easing: 'linear', reducedMotion: false });
+    const before = { ...flowChart.getNode('c')!.position };
+
+    flowChart.setLayout('grid', { columns: 1, cellWidth: 200, cellHeight: 100 });
+    const after = { ...flowChart.getNode('c')!.position };
+    expect(after).not.toEqual(before);
+    expect(displayed('c')).toBe(`translate(${before.x}, ${before.y})`);
+
+    vi.advanceTimersByTime(50);
+    const middle = displayed('c');
+    expect(middle).not.toBe(`translate(${before.x}, ${before.y})`);
+    expect(middle).not.toBe(`translate(${after.x}, ${after.y})`);
+    expect(flowChart.getNode('c')!.position).toEqual(after);
+
+    vi.advanceTimersByTime(100);
+    expect(displayed('c')).toBe(`translate(${after.x}, ${after.y})`);
+  });
+
+  it('再次布局应该结束上一段动画并从当前显示位置继续', () => {
+    create({ duration: 100, easing: 'linear', reducedMotion: false });
+    flowChart.setLayout('grid', { columns: 1, cellWidth: 200, cellHeight: 100 });
+    vi.advanceTimersByTime(50);
+    const middle = displayed('c');
+
+    flowChart.setLayout('grid', { columns: 3, cellWidth: 200, cellHeight: 100 });
+    expect(displayed('c')).toBe(middle);
+    vi.advanceTimersByTime(200);
+    const final = flowChart.getNode('c')!.position;
+    expect(displayed('c')).toBe(`translate(${final.x}, ${final.y})`);
+  });
+
+  it('减少动画或未开启动画时应该直接跳到最终位置', () => {
+    create({ duration: 100, reducedMotion: true });
+    flowChart.setLayout('grid', { columns: 1, cellWidth: 200, cellHeight: 100 });
+    const final = flowChart.getNode('c')!.position;
+    expect(displayed('c')).toBe(`translate(${final.x}, ${final.y})`);
+
+    flowChart.setAnimation(false);
+    flowChart.setLayout('grid', { columns: 3, cellWidth: 100, cellHeight: 100 });
+    const next = flowChart.getNode('c')!.position;
+    expect(displayed('c')).toBe(`translate(${next.x}, ${next.y})`);
+  });
+
+  it('视图缩放应该过渡，拖拽画布时取消', () => {
+    create({ duration: 100, easing: 'linear', reducedMotion: false });
+    const renderer = flowChart.getRenderer();
+    renderer.setTransform(0, 0, 1);
+
+    renderer.resetZoom();
+    renderer.focusPoint({ x: 0, y: 0 }, 2);
+    vi.advanceTimersByTime(50);
+    const scale = renderer.getScale();
+    expect(scale).toBeCloseTo(1.5, 1);
+
+    renderer.getSVGElement().dispatchEvent(new MouseEvent('mousedown', { clientX: 0, clientY: 0 }));
+    vi.advanceTimersByTime(100);
+    expect(renderer.getScale()).toBe(scale);
+  });
+});
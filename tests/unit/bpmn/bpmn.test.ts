@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { parseBPMN, exportBPMN } from '@/bpmn';
+import { convertWorkflowToFlowChart } from '@/utils/workflowConverter';
+import { NodeType } from '@/types';
+import simpleApproval from '../../../example/workflows/simple-approval.json';
+import conditionBranch from '../../../example/workflows/condition-branch.json';
+import loopProcess from '../../../example/workflows/loop-process.json';
+
+const SAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn2:definitions xmlns:bpmn2="http://www.omg.org/spec/BPMN/20100524/MODEL"
+  xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"
+  xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"
+  xmlns:di="http://www.omg.org/spec/DD/20100524/DI"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  id="defs" targetNamespace="http://example.com">
+  <bpmn2:process id="leave" name="请假流程">
+    <bpmn2:startEvent id="start" name="开始" />
+    <bpmn2:userTask id="review" name="经理审批" />
+    <bpmn2:exclusiveGateway id="gw" name="天数" />
+    <bpmn2:parallelGateway id="fork" />
+    <bpmn2:serviceTask id="notify" name="通知" />
+    <bpmn2:serviceTask id="archive" name="归档" />
+    <bpmn2:parallelGateway id="join" gatewayDirection="Converging" />
+    <bpmn2:endEvent id="end" name="结束" />
+    <bpmn2:intermediateCatchEvent id="timer" />
+    <bpmn2:sequenceFlow id="f1" sourceRef="start" targetRef="review" />
+    <bpmn2:sequenceFlow id="f2" sourceRef="review" targetRef="gw" />
+    <bpmn2:sequenceFlow id="f3" name="大于3天" sourceRef="gw" targetRef="fork">
+      <bpmn2:conditionExpression xsi:type="bpmn2:tFormalExpression">days &gt; 3</bpmn2:conditionExpression>
+    </bpmn2:sequenceFlow>
+    <bpmn2:sequenceFlow id="f4" sourceRef="gw" targetRef="end" />
+    <bpmn2:sequenceFlow id="f5" sourceRef="fork" targetRef="notify" />
+    <bpmn2:sequenceFlow id="f6" sourceRef="fork" targetRef="archive" />
+    <bpmn2:sequenceFlow id="f7" sourceRef="notify" targetRef="join" />
+    <bpmn2:sequenceFlow id="f8" sourceRef="archive" targetRef="join" />
+    <bpmn2:sequenceFlow id="f9" sourceRef="join" targetRef="end" />
+    <bpmn2:sequenceFlow id="f10" sourceRef="timer" targetRef="end" />
+  </bpmn2:process>
+  <bpmndi:BPMNDiagram id="d">
+    <bpmndi:BPMNPlane id="p" bpmnElement="leave">
+      <bpmndi:BPMNShape id="start_di" bpmnElement="start">
+        <dc:Bounds x="100" y="100" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="review_di" bpmnElement="review">
+        <dc:Bounds x="200" y="80" width="100" height="80" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNEdge id="f4_di" bpmnElement="f4">
+        <di:waypoint x="0" y="0" />
+        <di:waypoint x="10" y="200" />
+        <di:waypoint x="300" y="200" />
+        <di:waypoint x="400" y="400" />
+      </bpmndi:BPMNEdge>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn2:definitions>`;
+
+describe('bpmn', () => {
+  describe('parseBPMN', () => {
+    it('应该解析节点类型、标签和坐标', () => {
+      const result = parseBPMN(SAMPLE);
+      const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+      expect(result.processId).toBe('leave');
+      expect(result.processName).toBe('请假流程');
+      expect(byId.get('start')?.type).toBe(NodeType.START);
+      expect(byId.get('start')?.position).toEqual({ x: 118, y: 118 });
+      expect(byId.get('review')?.type).toBe(NodeType.APPROVAL);
+      expect(byId.get('review')?.position).toEqual({ x: 250, y: 120 });
+      expect(byId.get('gw')?.type).toBe(NodeType.CONDITION);
+      expect(byId.get('fork')?.type).toBe(NodeType.PARALLEL);
+      expect(byId.get('join')?.type).toBe(NodeType.MERGE);
+      expect(byId.get('notify')?.type).toBe(NodeType.PROCESS);
+    });
+
+    it('应该解析连线条件和折点', () => {
+      const result = parseBPMN(SAMPLE);
+      const f3 = result.edges.find(edge => edge.id === 'f3');
+      const f4 = result.edges.find(edge => edge.id === 'f4');
+
+      expect(f3).toMatchObject({ source: 'gw', target: 'fork', label: '大于3天', condition: 'days > 3' });
+      expect(f4?.waypoints).toEqual([{ x: 10, y: 200 }, { x: 300, y: 200 }]);
+    });
+
+    it('应该跳过不支持的元素并给出警告', () => {
+      const result = parseBPMN(SAMPLE);
+
+      expect(result.nodes.find(node => node.id === 'timer')).toBeUndefined();
+      expect(result.edges.find(edge => edge.id === 'f10')).toBeUndefined();
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('应该拒绝无效的XML', () => {
+      expect(() => parseBPMN('<bpmn:definitions')).toThrow('Invalid BPMN XML');
+      expect(() => parseBPMN('<definitions />')).toThrow('no process');
+    });
+  });
+
+  describe('exportBPMN', () => {
+    it('应该生成包含图形信息的BPMN', () => {
+      const xml = exportBPMN(parseBPMN(SAMPLE), { processId: 'leave', processName: '请假流程' });
+      const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(xml).toContain('<bpmn:userTask id="review" name="经理审批">');
+      expect(xml).toContain('gatewayDirection="Converging"');
+      expect(xml).toContain('days &gt; 3</bpmn:conditionExpression>');
+      expect(xml).toContain('<bpmndi:BPMNShape id="review_di" bpmnElement="review">');
+    });
+
+    it.each([
+      ['simple-approval', simpleApproval],
+      ['condition-branch', conditionBranch],
+      ['loop-process', loopProcess]
+    ])('%s 经过BPMN往返后应该保持拓扑、标签和位置', (_name, workflow) => {
+      const original = convertWorkflowToFlowChart(workflow as any);
+      original.nodes.forEach((node, index) => {
+        node.position = { x: 120 + index * 37.5, y: 80 + (index % 3) * 150 };
+      });
+
+      const result = parseBPMN(exportBPMN(original));
+
+      expect(result.nodes.map(({ id, type, label, position }) => ({ id, type, label, position }))).toEqual(
+        original.nodes.map(({ id, type, label, position }) => ({ id, type, label, position }))
+      );
+      expect(result.edges.map(({ id, source, target, label }) => ({ id, source, target, label }))).toEqual(
+        original.edges.map(({ id, source, target, label }) => ({ id, source, target, label }))
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Graph } from '@/core/Graph';
+import { GraphEvent } from '@/types/graph';
+
+describe('Graph.batch', () => {
+  let container: HTMLElement;
+  let graph: Graph;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    graph = new Graph({ container });
+  });
+
+  afterEach(() => {
+    graph.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('应该把事务中的变更合并为一次 batch:end 事件', () => {
+    const added = vi.fn();
+    const batchEnd = vi.fn();
+    graph.on(GraphEvent.NODE_ADDED, added);
+    graph.on(GraphEvent.BATCH_END, batchEnd);
+
+    graph.batch(() => {
+      graph.addNode({ id: 'a' });
+      graph.addNode({ id: 'b' });
+      graph.addEdge({ id: 'e1', source: 'a', target: 'b' });
+    });
+
+    expect(added).not.toHaveBeenCalled();
+    expect(batchEnd).toHaveBeenCalledTimes(1);
+    const { changes, rolledBack } = batchEnd.mock.calls[0][0];
+    expect(rolledBack).toBe(false);
+    expect(changes.map((c: any) => c.event)).toEqual([
+      GraphEvent.NODE_ADDED,
+      GraphEvent.NODE_ADDED,
+      GraphEvent.EDGE_ADDED
+    ]);
+  });
+
+  it('应该延迟到提交时才渲染视图', () => {
+    const renderer = graph.getRenderer();
+
+    graph.startBatch();
+    graph.addNode({ id: 'a' });
+    expect(renderer.getNodeView('a')).toBeUndefined();
+
+    graph.endBatch();
+    expect(renderer.getNodeView('a')).toBeDefined();
+  });
+
+  it('嵌套事务只在最外层提交时触发事件', () => {
+    const batchEnd = vi.fn();
+    graph.on(GraphEvent.BATCH_END, batchEnd);
+
+    graph.batch(() => {
+      graph.addNode({ id: 'a' });
+      graph.batch(() => graph.addNode({ id: 'b' }));
+      expect(batchEnd).not.toHaveBeenCalled();
+    });
+
+    expect(batchEnd).toHaveBeenCalledTimes(1);
+    expect(batchEnd.mock.calls[0][0].changes).toHaveLength(2);
+  });
+
+  it('回调抛出异常时应该回滚所有变更', () => {
+    const node = graph.addNode({ id: 'a', x: 0, y: 0 });
+    graph.addNode({ id: 'b' });
+    graph.addEdge({ id: 'e1', source: 'a', target: 'b' });
+    const batchEnd = vi.fn();
+    graph.on(GraphEvent.BATCH_END, batchEnd);
+
+    expect(() =>
+      graph.batch(() => {
+        node.setPosition({ x: 100, y: 100 });
+        graph.addNode({ id: 'c' });
+        graph.removeNode('b');
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+
+    expect(graph.isBatching()).toBe(false);
+    expect(node.getPosition()).toEqual({ x: 0, y: 0 });
+    expect(graph.getNode('c')).toBeUndefined();
+    expect(graph.getNode('b')).toBeDefined();
+    expect(graph.getEdge('e1')).toBeDefined();
+    expect(graph.getRenderer().getEdgeView('e1')).toBeDefined();
+    expect(batchEnd.mock.calls[0][0]).toEqual({ changes: [], rolledBack: true });
+  });
+
+  it('内层事务回滚不影响外层事务', () => {
+    graph.batch(() => {
+      graph.addNode({ id: 'a' });
+      try {
+        graph.batch(() => {
+          graph.addNode({ id: 'b' });
+          throw new Error('inner');
+        });
+      } catch {
+        // 忽略内层错误
+      }
+    });
+
+    expect(graph.getNode('a')).toBeDefined();
+    expect(graph.getNode('b')).toBeUndefined();
+  });
+
+  it('没有开始事务时调用 endBatch 应该抛出异常', () => {
+    expect(() => graph.endBatch()).toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseDOT, toDOT } from '@/dot';
+import { FlowChart } from '@/core/FlowChart';
+import { NodeType } from '@/types';
+import { ValidationError } from '@/utils/errors';
+
+const SAMPLE = `
+/* 报销流程 */
+strict digraph "expense" {
+  rankdir = LR;
+  node [shape=box, fontname="Arial"];
+  start [shape=circle, label="开始"];
+  submit [label="提交\\n报销单"];
+  check [shape=diamond label="金额"];
+  subgraph cluster_approve {
+    label = "审批";
+    node [style=rounded];
+    manager [label="经理审批"]; director [label="总监审批"]
+  }
+  done [shape=doublecircle label="结束"]
+
+  start -> submit -> check;
+  check -> manager [label="amount <= 5000", xlabel="小额"];
+  check -> director [label="amount > 5000", xlabel="大额"];
+  edge [style=dashed];
+  {manager director} -> done;
+  // 端口会被忽略
+  manager:s -> submit:n [label="退回"];
+}
+`;
+
+describe('DOT', () => {
+  describe('parseDOT', () => {
+    it('应该解析节点、形状、默认属性和 rankdir', () => {
+      const result = parseDOT(SAMPLE);
+      const nodes = Object.fromEntries(result.nodes.map(node => [node.id, node]));
+
+      expect(result.graphId).toBe('expense');
+      expect(result.directed).toBe(true);
+      expect(result.layout.direction).toBe('LR');
+      expect(Object.fromEntries(result.nodes.map(node => [node.id, node.type]))).toEqual({
+        start: NodeType.START,
+        submit: NodeType.PROCESS,
+        check: NodeType.CONDITION,
+        manager: NodeType.APPROVAL,
+        director: NodeType.APPROVAL,
+        done: NodeType.END
+      });
+      expect(nodes.submit.label).toBe('提交\n报销单');
+      expect(nodes.submit.data?.dotAttributes).toEqual({ fontname: 'Arial' });
+    });
+
+    it('应该解析连线、条件和子图簇', () => {
+      const result = parseDOT(SAMPLE);
+
+      expect(result.edges.map(({ source, target }) => `${source}->${target}`)).toEqual([
+        'start->submit',
+        'submit->check',
+        'check->manager',
+        'check->director',
+        'manager->done',
+        'director->done',
+        'manager->submit'
+      ]);
+      expect(result.edges[2]).toMatchObject({ label: '小额', condition: 'amount <= 5000' });
+      expect(result.edges[4].style).toEqual({ strokeDasharray: '5,5' });
+      expect(result.edges[6].label).toBe('退回');
+      expect(result.clusters).toEqual([
+        { id: 'cluster_approve', label: '审批', parent: undefined, nodes: ['manager', 'director'] }
+      ]);
+    });
+
+    it('语法错误时应该抛出 ValidationError', () => {
+      expect(() => parseDOT('flowchart { a }')).toThrow(ValidationError);
+      expect(() => parseDOT('digraph { a -> }')).toThrow(ValidationError);
+      expect(() => parseDOT('digraph { a [label="x] }')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toDOT', () => {
+    it('经过导出再导入应该保持图结构', () => {
+      const original = parseDOT(SAMPLE);
+      const text = toDOT(original, { graphId: 'expense', direction: 'LR', clusters: original.clusters });
+      const result = parseDOT(text);
+
+      expect(text).toContain('check -> manager [label="amount <= 5000", xlabel="小额"];');
+      expect(result.layout.direction).toBe('LR');
+      expect(result.clusters).toEqual(original.clusters);
+      expect(result.edges).toEqual(original.edges);
+
+      const summary = (nodes: typeof original.nodes) =>
+        nodes.map(({ id, type, label }) => ({ id, type, label })).sort((a, b) => a.id.localeCompare(b.id));
+      expect(summary(result.nodes)).toEqual(summary(original.nodes));
+    });
+
+    it('FlowChart.toDOT 应该把节点类型输出为形状', () => {
+      vi.useFakeTimers();
+      const container = document.createElement('div');
+      const flowChart = new FlowChart({ container } as any);
+      flowChart.load(
+        [
+          { id: 'start', type: NodeType.START, label: '开始', position: { x: 0, y: 0 } },
+          { id: 'node', type: NodeType.APPROVAL, label: '审批', position: { x: 0, y: 100 } },
+          { id: 'fork', type: NodeType.PARALLEL, label: '并行', position: { x: 0, y: 200 } }
+        ],
+        [
+          { id: 'e1', source: 'start', target: 'node' },
+          { id: 'e2', source: 'node', target: 'fork', condition: 'approved' }
+        ]
+      );
+
+      const text = flowChart.toDOT();
+      flowChart.destroy();
+      vi.useRealTimers();
+
+      expect(text).toContain('start [label="开始", shape=circle];');
+      expect(text).toContain('"node" [label="审批", shape=box, style=rounded];');
+      expect(text).toContain('fork [label="并行", shape=trapezium];');
+      expect(text).toContain('"node" -> fork [label=approved];');
+    });
+
+    it('FlowChart.toDOT 应该按配置的布局方向输出 rankdir', () => {
+      vi.useFakeTimers();
+      const flowChart = new FlowChart({ container: document.createElement('div'), layout: { direction: 'LR' } });
+      const text = flowChart.toDOT();
+      flowChart.destroy();
+      vi.useRealTimers();
+
+      expect(text).toContain('rankdir=LR;');
+    });
+  });
+});
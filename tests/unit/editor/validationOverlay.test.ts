@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { ValidationPanel, collectIssueMarkers } from '@/editor/ValidationPanel';
+import { FlowChartEvents } from '@/events/EventEmitter';
+import { NodeType, NodeData, EdgeData } from '@/types';
+import { node } from '../../helpers/fixtures';
+
+const NODES: NodeData[] = [
+  node('start', NodeType.START, { x: 0, y: 0 }),
+  node('review', NodeType.APPROVAL, { x: 0, y: 100 }),
+  node('dangling', NodeType.PROCESS, { x: 200, y: 100 }),
+  node('end', NodeType.END, { x: 0, y: 200 })
+];
+
+const EDGES: EdgeData[] = [
+  { id: 'e1', source: 'start', target: 'review' },
+  { id: 'e2', source: 'review', target: 'end' },
+  { id: 'e3', source: 'review', target: 'end' },
+  { id: 'e4', source: 'start', target: 'dangling' }
+];
+
+describe('验证层', () => {
+  let container: HTMLElement;
+  let flowChart: FlowChart;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    flowChart = new FlowChart({ container, autoLayout: false } as any);
+    flowChart.load(NODES, EDGES);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const applyMarkers = () => {
+    const report = flowChart.validate();
+    const { nodeIssues, edgeIssues } = collectIssueMarkers(report.diagnostics);
+    flowChart.getRenderer().setIssueMarkers(nodeIssues, edgeIssues);
+    return report;
+  };
+
+  it('应该按元素汇总诊断并取最严重级别', () => {
+    const { nodeIssues, edgeIssues } = collectIssueMarkers([
+      { rule: 'a', code: 'a', severity: 'warning', message: 'first', nodeId: 'n1' },
+      { rule: 'b', code: 'b', severity: 'error', message: 'second', nodeId: 'n1' },
+      { rule: 'c', code: 'c', severity: 'info', message: 'third', nodeId: 'n1', edgeId: 'e1' }
+    ]);
+    expect(nodeIssues.get('n1')).toEqual({ severity: 'error', messages: ['first', 'second'] });
+    expect(edgeIssues.get('e1')).toEqual({ severity: 'info', messages: ['third'] });
+  });
+
+  it('应该在问题节点上绘制徽标', () => {
+    applyMarkers();
+    const badge = container.querySelector('[data-node-id="dangling"] .validation-badge');
+    expect(badge).not.toBeNull();
+    expect(badge!.classList.contains('validation-warning')).toBe(true);
+    expect(badge!.querySelector('title')!.textContent).toContain('dangling');
+    expect(container.querySelector('[data-node-id="review"] .validation-badge')).toBeNull();
+  });
+
+  it('应该以虚线标记问题连线并在重新渲染后保留', () => {
+    applyMarkers();
+    flowChart.render();
+    const edge = container.querySelector('[data-edge-id="e3"]')!;
+    expect(edge.classList.contains('validation-warning')).toBe(true);
+    expect(edge.querySelector('.edge-path')!.getAttribute('stroke-dasharray')).toBe('6,4');
+    expect(container.querySelector('[data-edge-id="e2"]')!.classList.contains('validation-warning')).toBe(false);
+  });
+
+  it('应该在问题修复后清除标记', () => {
+    applyMarkers();
+    flowChart.removeEdge('e3');
+    flowChart.removeNode('dangling');
+    applyMarkers();
+    expect(container.querySelector('.validation-badge')).toBeNull();
+    expect(container.querySelector('.validation-warning')).toBeNull();
+  });
+
+  it('应该在面板中列出问题并支持折叠', () => {
+    const onIssueClick = vi.fn();
+    const panel = new ValidationPanel({ container, onIssueClick });
+    const element = container.querySelector('.flowchart-validation-panel') as HTMLElement;
+    expect(element.style.display).toBe('none');
+
+    const report = applyMarkers();
+    panel.setDiagnostics(report.diagnostics);
+    const items = element.querySelectorAll<HTMLElement>('.validation-issue');
+    expect(items).toHaveLength(2);
+    items[0].click();
+    expect(onIssueClick).toHaveBeenCalledWith(report.diagnostics[0]);
+
+    (element.querySelector('.validation-panel-header') as HTMLElement).click();
+    expect(panel.isCollapsed()).toBe(true);
+    expect(element.querySelectorAll('.validation-issue')).toHaveLength(0);
+
+    panel.destroy();
+    expect(container.querySelector('.flowchart-validation-panel')).toBeNull();
+  });
+
+  it('应该分别统计错误、警告和提示', () => {
+    const panel = new ValidationPanel({ container });
+    const header = () => container.querySelector('.validation-panel-header')!.textContent;
+    const issue = (severity: 'error' | 'warning' | 'info') => ({ rule: 'test', code: severity, severity, message: severity });
+
+    panel.setDiagnostics([issue('error'), issue('warning'), issue('info'), issue('info')]);
+    expect(header()).toContain('1 个错误 · 1 个警告 · 2 个提示');
+
+    panel.setDiagnostics([issue('warning')]);
+    expect(header()).toContain('0 个错误 · 1 个警告');
+    expect(header()).not.toContain('提示');
+    panel.destroy();
+  });
+
+  it('节点和连线的每种变更都应该触发变更事件', () => {
+    const events: string[] = [];
+    [
+      FlowChartEvents.NODE_ADDED, FlowChartEvents.NODE_REMOVED, FlowChartEvents.NODE_UPDATED,
+      FlowChartEvents.EDGE_ADDED, FlowChartEvents.EDGE_REMOVED, FlowChartEvents.EDGE_UPDATED,
+      FlowChartEvents.CLEAR
+    ].forEach(event => flowChart.on(event, () => events.push(event)));
+
+    flowChart.addNode(node('extra', NodeType.PROCESS, { x: 400, y: 100 }));
+    flowChart.addEdge({ id: 'e5', source: 'review', target: 'extra' });
+    expect(flowChart.updateEdge('e5', { label: '转办' })?.label).toBe('转办');
+    expect(flowChart.updateNode('extra', { label: '加签', position: { x: 420, y: 120 } })?.position).toEqual({ x: 420, y: 120 });
+    flowChart.removeEdge('e5');
+    flowChart.removeNode('extra');
+    expect(flowChart.updateNode('missing', { label: 'x' })).toBeUndefined();
+    flowChart.clear();
+
+    expect(events).toEqual([
+      FlowChartEvents.NODE_ADDED, FlowChartEvents.EDGE_ADDED, FlowChartEvents.EDGE_UPDATED,
+      FlowChartEvents.NODE_UPDATED, FlowChartEvents.EDGE_REMOVED, FlowChartEvents.NODE_REMOVED,
+      FlowChartEvents.CLEAR
+    ]);
+  });
+
+  it('应该将视图居中并缩放到指定位置', () => {
+    vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({ width: 800, height: 600 } as DOMRect);
+    flowChart.getRenderer().focusPoint({ x: 200, y: 100 }, 1.5);
+    expect(flowChart.getRenderer().getTransform()).toEqual({ x: 100, y: 150, scale: 1.5 });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { exportPNG, exportPNGTiles, ExportCanvas } from '@/export';
+import { RenderError } from '@/utils/errors';
+import { THEMES } from '@/theme/Theme';
+import { NodeType } from '@/types';
+
+interface FakeCanvas extends ExportCanvas {
+  calls: any[][];
+}
+
+function createFakeCanvas(width: number, height: number): FakeCanvas {
+  const calls: any[][] = [];
+  const context = {
+    fillStyle: '',
+    fillRect: (...args: any[]) => calls.push(['fillRect', context.fillStyle, ...args]),
+    drawImage: (...args: any[]) => calls.push(['drawImage', ...args])
+  };
+  return {
+    width,
+    height,
+    calls,
+    getContext: () => context,
+    toDataURL: (type?: string) => `data:${type};${width}x${height}`,
+    toBlob: (callback: (blob: Blob | null) => void, type?: string) => callback(new Blob(['png'], { type }))
+  };
+}
+
+describe('exportPNG', () => {
+  let container: HTMLElement;
+  let flowChart: FlowChart;
+  let canvases: FakeCanvas[];
+  let images: string[];
+
+  const options = () => ({
+    padding: 0,
+    canvasFactory: (width: number, height: number) => {
+      const canvas = createFakeCanvas(width, height);
+      canvases.push(canvas);
+      return canvas;
+    },
+    imageLoader: async (svg: string) => {
+      images.push(svg);
+      return { svg };
+    }
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    canvases = [];
+    images = [];
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    flowChart = new FlowChart({ container, autoLayout: false } as any);
+    // 两个节点外框合计 400x160
+    flowChart.load(
+      [
+        { id: 'a', type: NodeType.PROCESS, label: 'A', position: { x: 80, y: 30 } },
+        { id: 'b', type: NodeType.PROCESS, label: 'B', position: { x: 320, y: 130 } }
+      ],
+      []
+    );
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    document.body.removeChild(container);
+    vi.useRealTimers();
+  });
+
+  it('应该按缩放比例栅格化并默认输出透明背景的 Blob', async () => {
+    const result = await exportPNG(flowChart, { ...options(), scale: 2 });
+
+    expect(result).toBeInstanceOf(Blob);
+    expect((result as Blob).type).toBe('image/png');
+    expect(canvases).toHaveLength(1);
+    expect([canvases[0].width, canvases[0].height]).toEqual([800, 320]);
+    expect(canvases[0].calls.map(call => call[0])).toEqual(['drawImage']);
+    expect(images[0]).toContain('viewBox="0 0 400 160"');
+  });
+
+  it('应该支持纯色背景和 data URL 输出', async () => {
+    const result = await exportPNG(flowChart, { ...options(), backgroundColor: '#fff', output: 'dataURL' });
+
+    expect(result).toBe('data:image/png;400x160');
+    expect(canvases[0].calls[0]).toEqual(['fillRect', '#fff', 0, 0, 400, 160]);
+  });
+
+  it('应该应用主题的背景色和强调色', async () => {
+    await exportPNG(flowChart, { ...options(), theme: THEMES.dark });
+
+    expect(images[0]).toContain('fill="#1f2937"');
+    expect(images[0]).toContain('--flowchart-primary-color: #9ca3af');
+  });
+
+  it('background 为 transparent 时应该只应用主题的强调色', async () => {
+    await exportPNG(flowChart, { ...options(), theme: THEMES.dark, background: 'transparent' });
+
+    expect(images[0]).not.toContain('fill="#1f2937"');
+    expect(images[0]).toContain('--flowchart-primary-color: #9ca3af');
+    expect(canvases[0].calls.map(call => call[0])).toEqual(['drawImage']);
+  });
+
+  it('超过 tileSize 时应该分块栅格化后拼接', async () => {
+    await exportPNG(flowChart, { ...options(), tileSize: 256 });
+
+    const draws = canvases[0].calls.filter(call => call[0] === 'drawImage');
+    expect(draws.map(call => call.slice(2))).toEqual([
+      [0, 0, 256, 160],
+      [256, 0, 144, 160]
+    ]);
+    expect(images[1]).toContain('viewBox="256 0 144 160"');
+  });
+
+  it('超出画布尺寸限制时应该报错，并可以分块导出', async () => {
+    await expect(exportPNG(flowChart, { ...options(), maxCanvasSize: 300 })).rejects.toBeInstanceOf(RenderError);
+
+    const tiles = await exportPNGTiles(flowChart, { ...options(), maxCanvasSize: 300, scale: 0.5 });
+    expect(tiles).toHaveLength(1);
+
+    const large = await exportPNGTiles(flowChart, { ...options(), maxCanvasSize: 300 });
+    expect(large.map(({ x, y, width, height }) => [x, y, width, height])).toEqual([
+      [0, 0, 300, 160],
+      [300, 0, 100, 160]
+    ]);
+    expect(large[1].data).toBeInstanceOf(Blob);
+  });
+});
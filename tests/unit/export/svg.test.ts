@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { exportSVG } from '@/export';
+import { THEMES } from '@/theme/Theme';
+import { NodeType } from '@/types';
+
+describe('exportSVG', () => {
+  let container: HTMLElement;
+  let flowChart: FlowChart;
+
+  beforeEach(() => {
+    // 渲染器在定时器中调用 jsdom 未实现的 getBBox
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    flowChart = new FlowChart({ container, autoLayout: false } as any);
+    flowChart.load(
+      [
+        { id: 'start', type: NodeType.START, label: '开始', position: { x: 100, y: 50 } },
+        { id: 'review', type: NodeType.APPROVAL, label: '审批', position: { x: 100, y: 250 } },
+        { id: 'end', type: NodeType.END, label: '结束', position: { x: 100, y: 450 } }
+      ],
+      [
+        { id: 'e1', source: 'start', target: 'review' },
+        { id: 'e2', source: 'review', target: 'end', label: '通过' }
+      ]
+    );
+    flowChart.getRenderer().setTransform(300, 200, 2);
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    document.body.removeChild(container);
+    vi.useRealTimers();
+  });
+
+  const parse = (xml: string) => new DOMParser().parseFromString(xml, 'image/svg+xml').documentElement;
+
+  it('应该导出完整内容并设置紧凑的 viewBox', () => {
+    const svg = parse(exportSVG(flowChart, { padding: 10 }));
+    const [x, y, width, height] = svg.getAttribute('viewBox')!.split(' ').map(Number);
+
+    // 节点外框为 160x60，视口变换不影响导出
+    expect(x).toBe(20 - 10);
+    expect(y).toBe(20 - 10);
+    expect(x + width).toBe(180 + 10);
+    expect(y + height).toBe(480 + 10);
+    expect(svg.querySelector('.nodes-group')?.hasAttribute('transform')).toBe(false);
+    expect(svg.querySelectorAll('.node')).toHaveLength(3);
+    expect(svg.querySelectorAll('.edge-path')).toHaveLength(2);
+  });
+
+  it('应该按节点自身尺寸计算导出边界', () => {
+    flowChart.getNode('end')!.style = { width: 300, height: 100 };
+    const svg = parse(exportSVG(flowChart, { padding: 0 }));
+    const [x, , width, height] = svg.getAttribute('viewBox')!.split(' ').map(Number);
+
+    expect(x).toBe(100 - 150);
+    expect(x + width).toBe(100 + 150);
+    expect(height).toBe(500 - 20);
+  });
+
+  it('应该内联样式并去除交互元素', () => {
+    const renderer = flowChart.getRenderer().getSVGElement() as SVGSVGElement;
+    const edge = renderer.querySelector('.flow-edge')!;
+    const waypoint = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    waypoint.setAttribute('class', 'waypoint');
+    edge.appendChild(waypoint);
+
+    const svg = parse(exportSVG(flowChart, { primaryColor: '#1890ff' }));
+
+    expect(svg.querySelector('style')?.textContent).toContain('--flowchart-primary-color: #1890ff');
+    expect(svg.querySelector('style')?.textContent).toContain('.flow-edge');
+    expect(svg.querySelector('.waypoint')).toBeNull();
+    expect(svg.querySelector('.edge-hover-path')).toBeNull();
+    expect(svg.querySelector('.flow-animation-path')).toBeNull();
+    expect(svg.querySelector('.edge-label rect')?.getAttribute('width')).toBeTruthy();
+  });
+
+  it('应该应用缩放和背景色', () => {
+    const svg = parse(exportSVG(flowChart, { scale: 2, padding: 0, theme: THEMES.dark }));
+    const [, , width, height] = svg.getAttribute('viewBox')!.split(' ').map(Number);
+
+    expect(Number(svg.getAttribute('width'))).toBe(width * 2);
+    expect(Number(svg.getAttribute('height'))).toBe(height * 2);
+    expect(svg.querySelector('rect')?.getAttribute('fill')).toBe(THEMES.dark.backgroundColor);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { FlowSimulator } from '@/simulation';
+import { ValidationRuleRegistry } from '@/validation';
+import { convertWorkflowToFlowChart } from '@/utils/workflowConverter';
+import {
+  parseExpression,
+  evaluateExpression,
+  evaluateCondition,
+  getExpressionVariables,
+  validateConditions
+} from '@/expression';
+import { NodeType, NodeData, EdgeData } from '@/types';
+import { ExpressionError } from '@/utils/errors';
+import workflowData from '../../../example/workflow-data.json';
+
+const context = {
+  amount: 6000,
+  user: { role: 'manager', name: ' Alice ', tags: ['vip', 'cn'] },
+  items: [{ price: 10 }, { price: 25 }],
+  index: 1
+};
+
+describe('条件表达式', () => {
+  describe('parseExpression', () => {
+    it('应该按优先级生成语法树', () => {
+      expect(parseExpression('a.b + 2 * 3 > 7 && !done')).toEqual({
+        type: 'Logical',
+        operator: '&&',
+        left: {
+          type: 'Binary',
+          operator: '>',
+          left: {
+            type: 'Binary',
+            operator: '+',
+            left: { type: 'Variable', path: ['a', 'b'] },
+            right: {
+              type: 'Binary',
+              operator: '*',
+              left: { type: 'Literal', value: 2 },
+              right: { type: 'Literal', value: 3 }
+            }
+          },
+          right: { type: 'Literal', value: 7 }
+        },
+        right: { type: 'Unary', operator: '!', argument: { type: 'Variable', path: ['done'] } }
+      });
+    });
+
+    it('应该报告语法错误及位置', () => {
+      expect(() => parseExpression('amount >')).toThrow(ExpressionError);
+      expect(() => parseExpression("name == 'x")).toThrow(/Unterminated string/);
+      expect(() => parseExpression('a ? b : c')).toThrow(/Unexpected character "\?" at position 2/);
+
+      try {
+        parseExpression('(amount > 1');
+      } catch (error) {
+        expect((error as ExpressionError).position).toBe(11);
+      }
+    });
+
+    it('应该支持 ${...} 包装，错误位置对应原始字符串', () => {
+      expect(parseExpression('${amount <= 5000}')).toEqual(parseExpression('amount <= 5000'));
+      expect(evaluateCondition(' ${amount > 5000} ', context)).toBe(true);
+      expect(() => parseExpression('${amount ?}')).toThrow(/at position 9/);
+    });
+
+    it('应该拒绝未知函数和原型链访问', () => {
+      expect(() => parseExpression('alert(1)')).toThrow(/Unknown function "alert"/);
+      expect(() => parseExpression('user.constructor')).toThrow(/not allowed/);
+      expect(() => parseExpression("user['__proto__']")).toThrow(/not allowed/);
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('应该计算比较、逻辑和算术运算', () => {
+      expect(evaluateExpression('amount > 5000 and user.role == "manager"', context)).toBe(true);
+      expect(evaluateExpression('amount % 7 + -1', context)).toBe(6000 % 7 - 1);
+      expect(evaluateExpression('not (amount <= 5000 || missing)', context)).toBe(true);
+      expect(evaluateExpression('"总额: " + amount', context)).toBe('总额: 6000');
+      expect(evaluateExpression('missing == null && missing.deep == null', context)).toBe(true);
+      expect(evaluateExpression('amount > "5000"', context)).toBe(false);
+    });
+
+    it('应该支持路径、下标和内置函数', () => {
+      expect(evaluateExpression('items[1].price + items[index].price', context)).toBe(50);
+      expect(evaluateExpression('user.tags.length', context)).toBe(2);
+      expect(evaluateExpression('"vip" in user.tags && user.role in ["manager", "director"]', context)).toBe(true);
+      expect(evaluateExpression('contains(user.tags, "cn") && startsWith(lower(trim(user.name)), "ali")', context))
+        .toBe(true);
+      expect(evaluateExpression('max(1, [5, 3]) + sum(2, 3) + round(2.456, 2)', context)).toBe(12.46);
+      expect(evaluateExpression('isEmpty(user.nickname) && length(user) == 3', context)).toBe(true);
+    });
+
+    it('不应该读取原型链上的属性', () => {
+      expect(evaluateExpression('user.toString', context)).toBeUndefined();
+      expect(evaluateCondition('user.hasOwnProperty', context)).toBe(false);
+    });
+
+    it('类型错误时应该抛出 ExpressionError', () => {
+      expect(() => evaluateExpression('user * 2', context)).toThrow(ExpressionError);
+    });
+  });
+
+  describe('示例工作流', () => {
+    const load = (wrapped: boolean) => {
+      const data = convertWorkflowToFlowChart(workflowData as any);
+      if (wrapped) {
+        data.edges.forEach(edge => {
+          edge.condition = edge.condition && `\${${edge.condition}}`;
+        });
+      }
+      return data;
+    };
+
+    it.each([false, true])('应该通过验证并按金额模拟分支（${...} 包装: %s）', async wrapped => {
+      const data = load(wrapped);
+      expect(new ValidationRuleRegistry().validate(data).diagnostics).toEqual([]);
+
+      vi.useFakeTimers();
+      const flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false });
+      flowChart.load(data.nodes, data.edges);
+      const branchOf = async (amount: number) => {
+        const simulator = new FlowSimulator(flowChart, { render: false, interval: 0, context: { amount } });
+        expect(await simulator.run()).toBe('completed');
+        return simulator.getChoiceLog().find(choice => choice.nodeId === 'gateway_amount')!.edgeId;
+      };
+
+      expect(await branchOf(3000)).toBe('edge_gateway_amount_cond_0_task_finance_review');
+      expect(await branchOf(8000)).toBe('edge_gateway_amount_cond_1_task_gm_approval');
+      flowChart.destroy();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('静态检查', () => {
+    it('应该列出引用的变量', () => {
+      expect(getExpressionVariables('amount > 100 && contains(user.tags, "vip") || items[index].price > 0'))
+        .toEqual(['amount', 'user.tags', 'items', 'index']);
+    });
+
+    const node = (id: string, type: NodeType): NodeData => ({ id, type, label: id, position: { x: 0, y: 0 } });
+    const nodes = [node('check', NodeType.CONDITION), node('a', NodeType.PROCESS), node('b', NodeType.PROCESS)];
+
+    it('互斥且有默认分支的条件不应该报告问题', () => {
+      const edges: EdgeData[] = [
+        { id: 'e1', source: 'check', target: 'a', condition: 'amount > 5000' },
+        { id: 'e2', source: 'check', target: 'b', condition: 'amount <= 5000' }
+      ];
+      expect(validateConditions({ nodes, edges })).toEqual([]);
+    });
+
+    it('应该报告语法错误、重叠分支和缺少默认分支', () => {
+      const edges: EdgeData[] = [
+        { id: 'e1', source: 'check', target: 'a', condition: 'amount >= 5000' },
+        { id: 'e2', source: 'check', target: 'b', condition: 'amount <= 5000' },
+        { id: 'e3', source: 'a', target: 'b', condition: 'amount >' }
+      ];
+      const issues = validateConditions({ nodes, edges });
+      expect(issues.map(issue => issue.code)).toEqual(['syntax-error', 'overlapping-branches']);
+      expect(issues[1]).toMatchObject({ nodeId: 'check', edgeIds: ['e1', 'e2'], example: { amount: 5000 } });
+
+      const enumEdges: EdgeData[] = [
+        { id: 'e1', source: 'check', target: 'a', condition: 'user.role == "manager"' },
+        { id: 'e2', source: 'check', target: 'b', condition: 'user.role == "director"' }
+      ];
+      expect(validateConditions({ nodes, edges: enumEdges })).toEqual([
+        expect.objectContaining({ code: 'missing-default', example: { user: { role: 'other' } } })
+      ]);
+
+      enumEdges.push({ id: 'e3', source: 'check', target: 'b' });
+      expect(validateConditions({ nodes, edges: enumEdges })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { LayoutEngine } from '@/layout/LayoutEngine';
+import { DagreLayout } from '@/layout/DagreLayout';
+import { ForceLayout } from '@/layout/ForceLayout';
+import { toFlowFrame, fromFlowFrame, LayoutDirection } from '@/layout/direction';
+import { ManhattanRouter } from '@/renderer/ManhattanRouter';
+import { SmartEdgeRouter } from '@/renderer/SmartEdgeRouter';
+import { FlowNode } from '@/core/Node';
+import { FlowEdge } from '@/core/Edge';
+import { NodeType } from '@/types';
+import { buildGraph } from '../../helpers/fixtures';
+
+const DIRECTIONS: LayoutDirection[] = ['TB', 'BT', 'LR', 'RL'];
+
+/**
+ * 构建 a -> b -> c 以及 a -> d 的节点图
+ */
+const build = () => buildGraph('a,b,c,d', 'a>b', 'b>c', 'a>d');
+
+/**
+ * 检查每条连线在流向上都向下游前进
+ */
+const expectFlow = (nodes: Map<string, FlowNode>, direction: LayoutDirection) => {
+  const along = (id: string) => toFlowFrame(direction, nodes.get(id)!.position).y;
+  expect(along('b'), direction).toBeGreaterThan(along('a'));
+  expect(along('c'), direction).toBeGreaterThan(along('b'));
+  expect(along('d'), direction).toBeGreaterThan(along('a'));
+};
+
+describe('布局方向', () => {
+  it('应该在流向坐标系与画布坐标之间互相转换', () => {
+    DIRECTIONS.forEach(direction => {
+      const point = { x: 12, y: -34 };
+      expect(fromFlowFrame(direction, toFlowFrame(direction, point)), direction).toEqual(point);
+    });
+    expect(fromFlowFrame('LR', { x: 0, y: 10 })).toEqual({ x: 10, y: 0 });
+    expect(fromFlowFrame('RL', { x: 0, y: 10 })).toEqual({ x: -10, y: 0 });
+    expect(fromFlowFrame('BT', { x: 0, y: 10 })).toEqual({ x: 0, y: -10 });
+  });
+
+  it('LayoutEngine 应该支持四个方向', () => {
+    DIRECTIONS.forEach(direction => {
+      const nodes = build();
+      new LayoutEngine({ direction, nodeGap: 40, levelGap: 80 }).layout(nodes);
+      expectFlow(nodes, direction);
+    });
+  });
+
+  it('LayoutEngine 水平方向应该按节点高度排列同层节点', () => {
+    const nodes = build();
+    new LayoutEngine({ direction: 'LR', nodeGap: 40, levelGap: 80 }).layout(nodes);
+    const b = nodes.get('b')!.position;
+    const d = nodes.get('d')!.position;
+    expect(b.x).toBe(d.x);
+    expect(Math.abs(b.y - d.y)).toBe(60 + 40);
+  });
+
+  it('DagreLayout 应该支持四个方向', () => {
+    DIRECTIONS.forEach(direction => {
+      const nodes = build();
+      new DagreLayout({ direction, nodeGap: 200, levelGap: 150 }).layout(nodes);
+      expectFlow(nodes, direction);
+    });
+  });
+
+  it('ForceLayout 应该按流向播种初始位置', () => {
+    DIRECTIONS.forEach(direction => {
+      const nodes = build();
+      new ForceLayout({ direction, iterations: 0 }).layout(nodes);
+      expectFlow(nodes, direction);
+    });
+  });
+
+  it('ManhattanRouter 应该从下游一侧出发、从上游一侧进入', () => {
+    const expected = {
+      TB: { source: { x: 0, y: 30 }, target: { x: 0, y: 170 } },
+      BT: { source: { x: 0, y: -30 }, target: { x: 0, y: -170 } },
+      LR: { source: { x: 80, y: 0 }, target: { x: 120, y: 0 } },
+      RL: { source: { x: -80, y: 0 }, target: { x: -120, y: 0 } }
+    };
+    DIRECTIONS.forEach(direction => {
+      const source = new FlowNode({ id: 's', type: NodeType.PROCESS, label: 's', position: { x: 0, y: 0 } });
+      const target = new FlowNode({
+        id: 't',
+        type: NodeType.PROCESS,
+        label: 't',
+        position: fromFlowFrame(direction, { x: 0, y: 200 })
+      });
+      const edge = new FlowEdge({ id: 'e', source: 's', target: 't' }, source, target);
+      const { points } = new ManhattanRouter(direction).route(edge, source, target, 160, 60);
+      expect(points[0], direction).toEqual(expected[direction].source);
+      expect(points[points.length - 1], direction).toEqual(expected[direction].target);
+    });
+  });
+
+  it('SmartEdgeRouter 应该按流向选择顺流连线的端口', () => {
+    const node = (id: string, x: number, y: number) => ({
+      id,
+      type: NodeType.PROCESS,
+      position: { x, y },
+      width: 160,
+      height: 60
+    });
+    const source = node('s', 0, 0);
+    // 目标在右下方，几何上更偏向下方
+    const target = node('t', 300, 400);
+
+    const geometric = new SmartEdgeRouter().route(source, target);
+    expect(geometric.points[0]).toEqual({ x: 0, y: 30 });
+
+    const flow = new SmartEdgeRouter({ direction: 'LR', gridSize: 1 }).route(source, target);
+    expect(flow.points[0]).toEqual({ x: 80, y: 0 });
+    expect(flow.points[flow.points.length - 1]).toEqual({ x: 220, y: 400 });
+
+    // 逆流连线仍按几何关系选择端口
+    const back = new SmartEdgeRouter({ direction: 'LR', gridSize: 1 }).route(target, source);
+    expect(back.points[0]).toEqual({ x: 300, y: 370 });
+  });
+});
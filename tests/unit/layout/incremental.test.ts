@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { IncrementalLayout } from '@/layout/IncrementalLayout';
+import { LayoutRegistry } from '@/layout/LayoutRegistry';
+import { FlowNode } from '@/core/Node';
+import { addNode, link, buildGraph, expectNoOverlap } from '../../helpers/fixtures';
+
+const snapshot = (nodes: Map<string, FlowNode>) =>
+  new Map(Array.from(nodes.values()).map(node => [node.id, { ...node.position }]));
+
+describe('IncrementalLayout', () => {
+  it('应该在首次布局时交给完整布局', () => {
+    const base = {
+      layout: (nodes: Map<string, FlowNode>) => nodes.forEach(node => node.updatePosition({ x: 1, y: 2 })),
+      updateConfig: () => undefined
+    };
+    const nodes = buildGraph('a,b', 'a>b');
+    new IncrementalLayout({ base }).layout(nodes);
+    expect(nodes.get('b')!.position).toEqual({ x: 1, y: 2 });
+  });
+
+  it('新增节点时应该保持已有节点位置并放在上游节点的下一层', () => {
+    const nodes = buildGraph('a,b,c', 'a>b', 'a>c');
+    const layout = new IncrementalLayout({ levelGap: 40 });
+    layout.layout(nodes);
+    const before = snapshot(nodes);
+
+    addNode(nodes, 'd');
+    link(nodes, 'b', 'd');
+    layout.layout(nodes);
+
+    before.forEach((position, id) => expect(nodes.get(id)!.position).toEqual(position));
+    const b = nodes.get('b')!.position;
+    expect(nodes.get('d')!.position).toEqual({ x: b.x, y: b.y + 60 + 40 });
+  });
+
+  it('目标位置被占用时应该放到旁边的空位', () => {
+    const nodes = buildGraph('a,b', 'a>b');
+    const layout = new IncrementalLayout({ levelGap: 40 });
+    layout.layout(nodes);
+    const before = snapshot(nodes);
+
+    addNode(nodes, 'c');
+    link(nodes, 'a', 'c');
+    layout.layout(nodes);
+
+    before.forEach((position, id) => expect(nodes.get(id)!.position).toEqual(position));
+    expect(nodes.get('c')!.position.y).toBe(nodes.get('b')!.position.y);
+    expectNoOverlap(nodes);
+  });
+
+  it('没有空位时应该最小幅度推开相邻节点，手动节点保持不动', () => {
+    const nodes = buildGraph('a,b,c', 'a>b', 'a>c');
+    const layout = new IncrementalLayout({ levelGap: 40, nodeGap: 40, padding: 20, searchSteps: 0 });
+    layout.layout(nodes);
+    const a = { ...nodes.get('a')!.position };
+    const c = { ...nodes.get('c')!.position };
+
+    // 手动把 b 放在 a 的正下方作为锚点
+    nodes.get('b')!.manualPosition = true;
+    nodes.get('b')!.updatePosition({ x: a.x, y: a.y + 100 });
+    addNode(nodes, 'd');
+    link(nodes, 'a', 'd');
+    layout.layout(nodes);
+
+    expect(nodes.get('b')!.position).toEqual({ x: a.x, y: a.y + 100 });
+    expect(nodes.get('a')!.position).toEqual(a);
+    expectNoOverlap(nodes);
+    // 相邻节点只沿层内方向移动
+    expect(nodes.get('c')!.position.y).toBe(c.y);
+    expect(nodes.get('d')!.position.y).toBe(c.y);
+  });
+
+  it('应该按流向放置新节点并在节点变大时推开邻居', () => {
+    const nodes = buildGraph('a,b', 'a>b');
+    const layout = new IncrementalLayout({ direction: 'LR', levelGap: 40 });
+    layout.layout(nodes);
+    addNode(nodes, 'c');
+    link(nodes, 'b', 'c');
+    layout.layout(nodes);
+    const b = nodes.get('b')!.position;
+    expect(nodes.get('c')!.position).toEqual({ x: b.x + 160 + 40, y: b.y });
+
+    // 手动节点 x 在 b 下方 90 处，b 变高到 200 后需要分开 100 + 30 + 20
+    addNode(nodes, 'x', b.x, b.y + 90).manualPosition = true;
+    layout.layout(nodes);
+    nodes.get('b')!.style = { width: 160, height: 200 };
+    layout.layout(nodes);
+    expect(nodes.get('x')!.position).toEqual({ x: b.x, y: b.y + 90 });
+    expect(nodes.get('b')!.position).toEqual({ x: b.x, y: b.y - 60 });
+  });
+
+  it('invalidate 和 reset 之后应该重新放置节点', () => {
+    const nodes = buildGraph('a,b', 'a>b');
+    const layout = new IncrementalLayout({ levelGap: 40 });
+    layout.layout(nodes);
+    const b = { ...nodes.get('b')!.position };
+
+    nodes.get('b')!.updatePosition({ x: 999, y: 999 });
+    layout.layout(nodes);
+    expect(nodes.get('b')!.position).toEqual({ x: 999, y: 999 });
+
+    layout.invalidate(['b']);
+    layout.layout(nodes);
+    expect(nodes.get('b')!.position).toEqual(b);
+
+    layout.reset();
+    nodes.get('a')!.updatePosition({ x: 500, y: 500 });
+    layout.layout(nodes);
+    expect(nodes.get('a')!.position).not.toEqual({ x: 500, y: 500 });
+  });
+
+  it('注册表应该在 incremental 配置下包装布局', () => {
+    const layout = new LayoutRegistry().create('grid', { incremental: true });
+    expect(layout).toBeInstanceOf(IncrementalLayout);
+  });
+});
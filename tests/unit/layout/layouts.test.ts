@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { GridLayout } from '@/layout/GridLayout';
+import { TreeLayout } from '@/layout/TreeLayout';
+import { CircularLayout } from '@/layout/CircularLayout';
+import { sortByRank } from '@/layout/Layout';
+import { buildGraph, pos, expectNoOverlap } from '../../helpers/fixtures';
+
+describe('布局通用工具', () => {
+  it('应该按流程层级排序并忽略回边', () => {
+    const nodes = buildGraph('end,check,start,submit', 'start>submit', 'submit>check', 'check>submit', 'check>end');
+    expect(sortByRank(nodes).map(node => node.id)).toEqual(['start', 'submit', 'check', 'end']);
+  });
+});
+
+describe('GridLayout', () => {
+  it('应该按流程顺序逐行填充单元格', () => {
+    const nodes = buildGraph('a,b,c,d,e', 'a>b', 'b>c', 'c>d', 'd>e');
+    new GridLayout({ columns: 2, cellWidth: 200, cellHeight: 100 }).layout(nodes);
+    expect(pos(nodes, 'a')).toEqual({ x: 100, y: 50 });
+    expect(pos(nodes, 'b')).toEqual({ x: 300, y: 50 });
+    expect(pos(nodes, 'c')).toEqual({ x: 100, y: 150 });
+    expect(pos(nodes, 'e')).toEqual({ x: 100, y: 250 });
+  });
+
+  it('应该在水平和逆向流向下按列及反向填充', () => {
+    const lr = buildGraph('a,b,c', 'a>b', 'b>c');
+    new GridLayout({ columns: 2, cellWidth: 200, cellHeight: 100, direction: 'LR' }).layout(lr);
+    expect(pos(lr, 'b')).toEqual({ x: 100, y: 150 });
+    expect(pos(lr, 'c')).toEqual({ x: 300, y: 50 });
+
+    const bt = buildGraph('a,b,c', 'a>b', 'b>c');
+    new GridLayout({ columns: 2, cellWidth: 200, cellHeight: 100, direction: 'BT' }).layout(bt);
+    expect(pos(bt, 'a')).toEqual({ x: 100, y: 150 });
+    expect(pos(bt, 'c')).toEqual({ x: 100, y: 50 });
+  });
+
+  it('应该默认按最大节点尺寸计算单元格并跳过手动节点占用的单元格', () => {
+    const nodes = buildGraph('a,b,c,d', 'a>b', 'b>c', 'c>d');
+    nodes.get('a')!.manualPosition = true;
+    nodes.get('a')!.updatePosition({ x: 130, y: 60 });
+    new GridLayout({ nodeGap: 40, levelGap: 40 }).layout(nodes);
+    expect(pos(nodes, 'a')).toEqual({ x: 130, y: 60 });
+    expect(pos(nodes, 'b')).toEqual({ x: 300, y: 50 });
+    expectNoOverlap(nodes);
+  });
+});
+
+describe('TreeLayout', () => {
+  const tree = () => buildGraph(
+    'root,left,right,l1,l2,r1,r2',
+    'root>left', 'root>right', 'left>l1', 'left>l2', 'right>r1', 'right>r2'
+  );
+
+  it('应该把父节点放在子节点中间并逐层向下', () => {
+    const nodes = tree();
+    new TreeLayout({ nodeGap: 20, levelGap: 40 }).layout(nodes);
+    expect(pos(nodes, 'left').x).toBe((pos(nodes, 'l1').x + pos(nodes, 'l2').x) / 2);
+    expect(pos(nodes, 'root').x).toBe((pos(nodes, 'left').x + pos(nodes, 'right').x) / 2);
+    expect(pos(nodes, 'left').y - pos(nodes, 'root').y).toBe(60 + 40);
+    expect(pos(nodes, 'l2').x - pos(nodes, 'l1').x).toBe(160 + 20);
+    expectNoOverlap(nodes);
+  });
+
+  it('紧凑模式应该让子树按轮廓嵌入，非紧凑模式按整棵子树排开', () => {
+    // 左侧子树很深很宽的部分在第三层，右侧是叶子
+    const create = () => buildGraph('root,a,b,a1,a2,a11,a12,a21,a22', 'root>a', 'root>b', 'a>a1', 'a>a2',
+      'a1>a11', 'a1>a12', 'a2>a21', 'a2>a22');
+    const compact = create();
+    new TreeLayout({ nodeGap: 20 }).layout(compact);
+    const loose = create();
+    new TreeLayout({ nodeGap: 20, compact: false }).layout(loose);
+
+    expect(pos(compact, 'b').x - pos(compact, 'a').x).toBe(180);
+    expect(pos(loose, 'b').x - pos(loose, 'a').x).toBeGreaterThan(180);
+    expectNoOverlap(compact);
+    expectNoOverlap(loose);
+  });
+
+  it('应该忽略汇聚和回退连线并支持水平方向', () => {
+    const nodes = buildGraph('start,a,b,merge', 'start>a', 'start>b', 'a>merge', 'b>merge', 'merge>start');
+    new TreeLayout({ direction: 'LR', levelGap: 40 }).layout(nodes);
+    expect(pos(nodes, 'a').x).toBe(pos(nodes, 'b').x);
+    expect(pos(nodes, 'merge').x).toBeGreaterThan(pos(nodes, 'a').x);
+    expect(pos(nodes, 'a').x - pos(nodes, 'start').x).toBe(160 + 40);
+    expectNoOverlap(nodes);
+  });
+});
+
+describe('CircularLayout', () => {
+  it('应该按流程顺序从顶部顺时针排列', () => {
+    const nodes = buildGraph('d,c,b,a', 'a>b', 'b>c', 'c>d');
+    new CircularLayout({ radius: 100 }).layout(nodes);
+    const round = (id: string) => ({ x: Math.round(pos(nodes, id).x), y: Math.round(pos(nodes, id).y) });
+    expect(round('a')).toEqual({ x: 0, y: -100 });
+    expect(round('b')).toEqual({ x: 100, y: 0 });
+    expect(round('c')).toEqual({ x: 0, y: 100 });
+    expect(round('d')).toEqual({ x: -100, y: 0 });
+  });
+
+  it('应该按节点尺寸计算默认半径避免重叠', () => {
+    const nodes = buildGraph('a,b,c,d,e,f,g,h', 'a>b', 'b>c', 'c>d', 'd>e', 'e>f', 'f>g', 'g>h');
+    new CircularLayout({ center: { x: 500, y: 500 } }).layout(nodes);
+    expectNoOverlap(nodes);
+    const distance = Math.hypot(pos(nodes, 'a').x - 500, pos(nodes, 'a').y - 500);
+    expect(Math.hypot(pos(nodes, 'e').x - 500, pos(nodes, 'e').y - 500)).toBeCloseTo(distance);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { LayoutRegistry, layoutRegistry } from '@/layout/LayoutRegistry';
+import { GridLayout } from '@/layout/GridLayout';
+import { FlowChartEvents } from '@/events';
+import { LayoutError } from '@/utils/errors';
+import { NodeData, EdgeData } from '@/types';
+import { node } from '../../helpers/fixtures';
+
+const NODES: NodeData[] = [node('a'), node('b'), node('c')];
+const EDGES: EdgeData[] = [
+  { id: 'e1', source: 'a', target: 'b' },
+  { id: 'e2', source: 'b', target: 'c' }
+];
+
+describe('LayoutRegistry', () => {
+  it('应该包含内置布局并按名称创建', () => {
+    const registry = new LayoutRegistry();
+    expect(registry.getNames()).toEqual(
+      ['default', 'dagre', 'sugiyama', 'force', 'grid', 'tree', 'circular', 'manual']
+    );
+    expect(registry.create('grid', { columns: 3 })).toBeInstanceOf(GridLayout);
+  });
+
+  it('应该在布局未注册时抛出 LayoutError', () => {
+    const registry = new LayoutRegistry();
+    expect(registry.unregister('grid')).toBe(true);
+    expect(registry.has('grid')).toBe(false);
+    expect(() => registry.create('grid')).toThrow(LayoutError);
+  });
+
+  it('应该把名称和配置传给自定义布局工厂', () => {
+    const registry = new LayoutRegistry({});
+    const factory = vi.fn(() => ({ layout: vi.fn(), updateConfig: vi.fn() }));
+    registry.register('custom', factory);
+    registry.create('custom', { nodeGap: 10 });
+    expect(factory).toHaveBeenCalledWith({ nodeGap: 10, type: 'custom' });
+  });
+});
+
+describe('FlowChart 布局切换', () => {
+  let flowChart: FlowChart;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    layoutRegistry.unregister('stack');
+    vi.useRealTimers();
+  });
+
+  const create = (config: Partial<ConstructorParameters<typeof FlowChart>[0]> = {}) => {
+    flowChart = new FlowChart({ container: document.createElement('div'), ...config });
+    flowChart.load(NODES, EDGES);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+    return flowChart;
+  };
+
+  it('应该按配置中的布局名称创建布局', () => {
+    create({ layout: { type: 'grid', columns: 3, cellWidth: 200, cellHeight: 100 } });
+    expect(flowChart.getLayoutConfig()).toMatchObject({ type: 'grid', direction: 'TB' });
+    expect(flowChart.getNode('c')!.position).toEqual({ x: 500, y: 50 });
+  });
+
+  it('setLayout 应该重新布局并触发布局事件', () => {
+    create({ autoLayout: false });
+    const events: string[] = [];
+    flowChart.on(FlowChartEvents.LAYOUT_START, ({ type }) => events.push(`start:${type}`));
+    flowChart.on(FlowChartEvents.LAYOUT_END, ({ type }) => events.push(`end:${type}`));
+
+    flowChart.setLayout('grid', { columns: 1, cellWidth: 100, cellHeight: 100 });
+    expect(events).toEqual(['start:grid', 'end:grid']);
+    expect(flowChart.getNode('c')!.position).toEqual({ x: 50, y: 250 });
+    expect(flowChart.getRenderer().getSVGElement().querySelectorAll('[data-node-id]').length).toBe(3);
+  });
+
+  it('应该支持注册到全局注册表的自定义布局', () => {
+    layoutRegistry.register('stack', config => ({
+      layout: nodes => {
+        Array.from(nodes.values()).forEach((item, index) => {
+          item.updatePosition({ x: 0, y: index * config.levelGap! });
+        });
+      },
+      updateConfig: () => undefined
+    }));
+    create({ autoLayout: false, levelGap: 70 });
+    flowChart.setLayout('stack');
+    expect(flowChart.getNode('c')!.position).toEqual({ x: 0, y: 140 });
+  });
+
+  it('切换到未注册的布局时应该抛错并保留原布局', () => {
+    create({ autoLayout: false });
+    expect(() => flowChart.setLayout('missing')).toThrow(LayoutError);
+    expect(flowChart.getLayoutConfig().type).toBe('default');
+  });
+
+  it('增量布局下 relayout 应该重新完整布局', () => {
+    create({ layout: { type: 'grid', columns: 3, cellWidth: 200, cellHeight: 100, incremental: true } });
+    flowChart.getNode('c')!.updatePosition({ x: 900, y: 900 });
+    flowChart.render();
+    expect(flowChart.getNode('c')!.position).toEqual({ x: 900, y: 900 });
+
+    flowChart.relayout();
+    expect(flowChart.getNode('c')!.position).toEqual({ x: 500, y: 50 });
+  });
+
+  it('manual 布局应该保持节点位置', () => {
+    create({ autoLayout: false });
+    flowChart.getNode('b')!.updatePosition({ x: 321, y: 123 });
+    flowChart.setLayout('manual');
+    expect(flowChart.getNode('b')!.position).toEqual({ x: 321, y: 123 });
+  });
+});
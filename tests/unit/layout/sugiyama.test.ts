@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { SugiyamaLayout } from '@/layout/SugiyamaLayout';
+import { FlowNode } from '@/core/Node';
+import { buildGraph, pos, expectNoOverlap } from '../../helpers/fixtures';
+
+/**
+ * 统计相邻层连线交叉数（按 y 分层）
+ */
+const crossings = (nodes: Map<string, FlowNode>, edges: string[]) => {
+  const segments = edges.map(pair => pair.split('>').map(id => pos(nodes, id)));
+  let count = 0;
+  segments.forEach(([a1, a2], i) => {
+    segments.slice(i + 1).forEach(([b1, b2]) => {
+      if (a1.y === b1.y && a2.y === b2.y && (a1.x - b1.x) * (a2.x - b2.x) < 0) {
+        count++;
+      }
+    });
+  });
+  return count;
+};
+
+describe('SugiyamaLayout', () => {
+  it('应该用网络单纯形缩短连线跨度', () => {
+    const edges = ['a>b', 'b>c', 'd>c'];
+    const simplex = buildGraph('a,b,c,d', ...edges);
+    new SugiyamaLayout().layout(simplex);
+    expect(pos(simplex, 'd').y).toBe(pos(simplex, 'b').y);
+
+    const longest = buildGraph('a,b,c,d', ...edges);
+    new SugiyamaLayout({ ranker: 'longest-path' }).layout(longest);
+    expect(pos(longest, 'd').y).toBe(pos(longest, 'a').y);
+  });
+
+  it('应该反转回边以处理驳回循环', () => {
+    const nodes = buildGraph('start,submit,check,end', 'start>submit', 'submit>check', 'check>submit', 'check>end');
+    new SugiyamaLayout().layout(nodes);
+    const ys = ['start', 'submit', 'check', 'end'].map(id => pos(nodes, id).y);
+    expect([...ys].sort((a, b) => a - b)).toEqual(ys);
+    expect(new Set(ys).size).toBe(4);
+  });
+
+  it('应该通过排序消除可避免的交叉', () => {
+    const edges = ['r>s1', 'r>s2', 'r>s3', 's1>t3', 's2>t2', 's3>t1', 't1>u', 't2>u', 't3>u'];
+    const nodes = buildGraph('r,s1,s2,s3,t1,t2,t3,u', ...edges);
+    new SugiyamaLayout().layout(nodes);
+    expect(crossings(nodes, edges)).toBe(0);
+    expectNoOverlap(nodes);
+  });
+
+  it('应该为长连线预留空间并避免节点重叠', () => {
+    const nodes = buildGraph('a,b,c,d,e,f', 'a>b', 'b>c', 'c>d', 'a>d', 'a>e', 'e>d', 'b>f', 'f>d');
+    for (const align of [undefined, 'UL', 'UR', 'DL', 'DR'] as const) {
+      new SugiyamaLayout({ align }).layout(nodes);
+      expectNoOverlap(nodes);
+    }
+  });
+
+  it('应该按真实节点尺寸计算间距', () => {
+    const nodes = buildGraph('root,wide,narrow', 'root>wide', 'root>narrow');
+    nodes.get('wide')!.style = { width: 400, height: 120 };
+    new SugiyamaLayout({ nodeGap: 20, levelGap: 50 }).layout(nodes);
+
+    const wide = pos(nodes, 'wide');
+    const narrow = pos(nodes, 'narrow');
+    expect(Math.abs(wide.x - narrow.x)).toBeGreaterThanOrEqual((400 + 160) / 2 + 20);
+    expect(wide.y).toBe(narrow.y);
+    // 第二层厚度取最大节点高度
+    expect(wide.y - pos(nodes, 'root').y).toBe(60 / 2 + 50 + 120 / 2);
+  });
+
+  it('应该支持四个布局方向', () => {
+    const cases = {
+      TB: (a: any, b: any) => b.y > a.y && b.x === a.x,
+      BT: (a: any, b: any) => b.y < a.y && b.x === a.x,
+      LR: (a: any, b: any) => b.x > a.x && b.y === a.y,
+      RL: (a: any, b: any) => b.x < a.x && b.y === a.y
+    };
+    Object.entries(cases).forEach(([direction, check]) => {
+      const nodes = buildGraph('a,b', 'a>b');
+      new SugiyamaLayout({ direction: direction as keyof typeof cases }).layout(nodes);
+      expect(check(pos(nodes, 'a'), pos(nodes, 'b')), direction).toBe(true);
+    });
+  });
+
+  it('应该保持手动定位节点的位置', () => {
+    const nodes = buildGraph('a,b,c', 'a>b', 'b>c');
+    nodes.get('b')!.manualPosition = true;
+    nodes.get('b')!.updatePosition({ x: 999, y: 999 });
+    new SugiyamaLayout().layout(nodes);
+    expect(pos(nodes, 'b')).toEqual({ x: 999, y: 999 });
+    expect(pos(nodes, 'c').y).toBeGreaterThan(pos(nodes, 'a').y);
+  });
+});
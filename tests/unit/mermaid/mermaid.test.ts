@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { parseMermaid, toMermaid } from '@/mermaid';
+import { convertWorkflowToFlowChart } from '@/utils/workflowConverter';
+import { NodeType } from '@/types';
+import { ValidationError } from '@/utils/errors';
+import loopProcess from '../../../example/workflows/loop-process.json';
+
+const SAMPLE = `
+%% 请假流程
+flowchart LR
+  start([开始]) --> apply[提交申请]
+  apply --> check{天数 > 3?}
+  check -->|是| director(总监审批)
+  check -- 否 --> manager(经理审批)
+  subgraph approvals [审批环节]
+    director
+    manager
+  end
+  director & manager --> notify[["通知"]]; notify -.-> done([结束])
+  style done fill:#f00
+`;
+
+describe('Mermaid', () => {
+  describe('parseMermaid', () => {
+    it('应该解析节点形状、连线标签和方向', () => {
+      const result = parseMermaid(SAMPLE);
+      const types = Object.fromEntries(result.nodes.map(node => [node.id, node.type]));
+
+      expect(result.layout.direction).toBe('LR');
+      expect(types).toEqual({
+        start: NodeType.START,
+        apply: NodeType.PROCESS,
+        check: NodeType.CONDITION,
+        director: NodeType.APPROVAL,
+        manager: NodeType.APPROVAL,
+        notify: NodeType.PROCESS,
+        done: NodeType.END
+      });
+      expect(result.nodes.find(node => node.id === 'check')?.label).toBe('天数 > 3?');
+      expect(result.edges.map(({ source, target, label }) => [source, target, label])).toEqual([
+        ['start', 'apply', undefined],
+        ['apply', 'check', undefined],
+        ['check', 'director', '是'],
+        ['check', 'manager', '否'],
+        ['director', 'notify', undefined],
+        ['manager', 'notify', undefined],
+        ['notify', 'done', undefined]
+      ]);
+      expect(result.edges[6].style).toEqual({ strokeDasharray: '5,5' });
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('应该记录子图及节点归属', () => {
+      const result = parseMermaid(SAMPLE);
+
+      expect(result.subgraphs).toEqual([{ id: 'approvals', label: '审批环节', parent: undefined, nodes: ['director', 'manager'] }]);
+      expect(result.nodes.find(node => node.id === 'manager')?.data?.subgraph).toBe('approvals');
+    });
+
+    it('应该区分并行与汇聚网关', () => {
+      const result = parseMermaid('graph TD\n a{{拆分}} --> b & c\n b & c --> d{{汇聚}}');
+
+      expect(result.layout.direction).toBe('TB');
+      expect(result.nodes.find(node => node.id === 'a')?.type).toBe(NodeType.PARALLEL);
+      expect(result.nodes.find(node => node.id === 'd')?.type).toBe(NodeType.MERGE);
+    });
+
+    it('语法错误时应该抛出 ValidationError', () => {
+      expect(() => parseMermaid('sequenceDiagram\n A->>B: hi')).toThrow(ValidationError);
+      expect(() => parseMermaid('flowchart TD\n A[未闭合 --> B')).toThrow(ValidationError);
+      expect(() => parseMermaid('flowchart TD\n subgraph s\n A')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('应该保留类型、标签、子图和连线样式', () => {
+      const original = parseMermaid(SAMPLE);
+      const text = toMermaid(original, { direction: original.layout.direction, subgraphs: original.subgraphs });
+      const result = parseMermaid(text);
+
+      expect(text).toContain('subgraph approvals ["审批环节"]');
+      expect(result.layout.direction).toBe('LR');
+      expect(result.subgraphs).toEqual(original.subgraphs);
+      // 子图中的节点在子图块内输出，顺序会变化
+      const summary = (nodes: typeof original.nodes) =>
+        nodes.map(({ id, type, label }) => ({ id, type, label })).sort((a, b) => a.id.localeCompare(b.id));
+      expect(summary(result.nodes)).toEqual(summary(original.nodes));
+      expect(result.edges).toEqual(original.edges);
+    });
+
+    it('应该处理保留字ID和特殊字符', () => {
+      const { nodes, edges } = convertWorkflowToFlowChart(loopProcess as any);
+      nodes[1].label = '提交 "资料" #1';
+      const text = toMermaid({ nodes, edges });
+
+      expect(text).toContain('end_(["完成"])');
+      const result = parseMermaid(text);
+      expect(result.nodes[1].label).toBe('提交 "资料" #1');
+      expect(result.nodes.map(node => node.type)).toEqual(nodes.map(node => node.type));
+      expect(result.edges.map(edge => edge.label)).toEqual(edges.map(edge => edge.label));
+    });
+
+    it('应该按流程图配置的布局方向输出', () => {
+      vi.useFakeTimers();
+      const flowChart = new FlowChart({ container: document.createElement('div'), layout: { direction: 'RL' } });
+      flowChart.load(parseMermaid(SAMPLE).nodes, []);
+
+      expect(flowChart.toMermaid().split('\n')[0]).toBe('flowchart RL');
+      expect(flowChart.toMermaid({ direction: 'BT' }).split('\n')[0]).toBe('flowchart BT');
+      flowChart.destroy();
+      vi.useRealTimers();
+    });
+  });
+});
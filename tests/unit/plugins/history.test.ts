@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Graph } from '@/core/Graph';
+import { HistoryPlugin, snapshotNode } from '@/plugins/history';
+
+describe('HistoryPlugin', () => {
+  let container: HTMLElement;
+  let graph: Graph;
+  let history: HistoryPlugin;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    graph = new Graph({ container });
+    history = new HistoryPlugin({ mergeInterval: 0 });
+    graph.use(history);
+  });
+
+  afterEach(() => {
+    graph.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('应该记录添加节点并支持撤销/重做', () => {
+    graph.addNode({ id: 'a', label: 'A', x: 10, y: 20 });
+    expect(history.canUndo()).toBe(true);
+
+    history.undo();
+    expect(graph.getNode('a')).toBeUndefined();
+
+    history.redo();
+    expect(graph.getNode('a')?.getPosition()).toEqual({ x: 10, y: 20 });
+    expect(graph.getNode('a')?.label).toBe('A');
+  });
+
+  it('撤销删除节点时应该恢复相连的边', () => {
+    graph.addNode({ id: 'a' });
+    graph.addNode({ id: 'b' });
+    graph.addNode({ id: 'c' });
+    graph.addEdge({ id: 'e1', source: 'a', target: 'b', label: '通过' });
+    graph.addEdge({ id: 'e2', source: 'b', target: 'c' });
+
+    graph.removeNode('b');
+    expect(graph.getEdges()).toHaveLength(0);
+    expect(history.getHistory().undoStack).toBe(6);
+
+    history.undo();
+    expect(graph.getNode('b')).toBeDefined();
+    expect(graph.getEdge('e1')?.label).toBe('通过');
+    expect(graph.getEdge('e2')).toBeDefined();
+    expect(graph.getNode('b')?.getIncomingEdges()).toEqual(['e1']);
+
+    history.redo();
+    expect(graph.getNode('b')).toBeUndefined();
+    expect(graph.getEdges()).toHaveLength(0);
+  });
+
+  it('应该记录节点移动、样式和数据变更', () => {
+    const node = graph.addNode({ id: 'a', x: 0, y: 0, style: { fill: '#fff' } });
+
+    node.setPosition({ x: 50, y: 60 });
+    node.setStyle({ fill: '#000', stroke: '#f00' });
+    node.setData('approver', 'alice');
+
+    history.undo();
+    expect(node.getData('approver')).toBeUndefined();
+
+    history.undo();
+    expect(node.getStyle().fill).toBe('#fff');
+    expect(node.getStyle().stroke).toBeUndefined();
+
+    history.undo();
+    expect(node.getPosition()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('应该合并时间窗口内同一节点的连续移动', () => {
+    const merged = new HistoryPlugin({ mergeInterval: 10000 });
+    graph.unuse(history.name);
+    graph.use(merged);
+
+    const node = graph.addNode({ id: 'a', x: 0, y: 0 });
+    node.setPosition({ x: 10, y: 0 });
+    node.setPosition({ x: 20, y: 0 });
+    node.setPosition({ x: 30, y: 0 });
+    expect(merged.getHistory().undoStack).toBe(2);
+
+    merged.undo();
+    expect(node.getPosition()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('应该记录节点尺寸变更', () => {
+    const node = graph.addNode({ id: 'a', width: 100, height: 40 });
+
+    node.setSize({ width: 160, height: 60 });
+    history.undo();
+    expect(node.getSize()).toEqual({ width: 100, height: 40 });
+
+    history.redo();
+    expect(node.getSize()).toEqual({ width: 160, height: 60 });
+    expect(snapshotNode(node)).toMatchObject({ id: 'a', width: 160, height: 60 });
+  });
+
+  it('应该记录边路径点变更', () => {
+    graph.addNode({ id: 'a' });
+    graph.addNode({ id: 'b' });
+    const edge = graph.addEdge({ id: 'e1', source: 'a', target: 'b' });
+
+    edge.addWaypoint({ x: 5, y: 5 });
+    history.undo();
+    expect(edge.getWaypoints()).toEqual([]);
+
+    history.redo();
+    expect(edge.getWaypoints()).toEqual([{ x: 5, y: 5 }]);
+  });
+
+  it('应该遵守 ignoreAdd 和 maxStack 配置', () => {
+    graph.unuse(history.name);
+    const limited = new HistoryPlugin({ ignoreAdd: true, maxStack: 2, mergeInterval: 0 });
+    graph.use(limited);
+
+    const node = graph.addNode({ id: 'a', x: 0, y: 0 });
+    expect(limited.canUndo()).toBe(false);
+
+    node.setData('k', 1);
+    node.setData('k', 2);
+    node.setData('k', 3);
+    expect(limited.getHistory().undoStack).toBe(2);
+  });
+
+  it('撤销过程中不应该记录新的命令', () => {
+    graph.addNode({ id: 'a' });
+    history.undo();
+    expect(history.getHistory()).toMatchObject({ undoStack: 0, redoStack: 1 });
+  });
+
+  it('应该把事务记录为一个撤销步骤', () => {
+    graph.batch(() => {
+      graph.addNode({ id: 'a' });
+      graph.addNode({ id: 'b' });
+      graph.addEdge({ id: 'e1', source: 'a', target: 'b' });
+    });
+    expect(history.getHistory().undoStack).toBe(1);
+
+    history.undo();
+    expect(graph.getNodes()).toHaveLength(0);
+    expect(graph.getEdges()).toHaveLength(0);
+
+    history.redo();
+    expect(graph.getNodes()).toHaveLength(2);
+    expect(graph.getEdge('e1')).toBeDefined();
+  });
+
+  it('回滚的事务不应该被记录', () => {
+    expect(() =>
+      graph.batch(() => {
+        graph.addNode({ id: 'a' });
+        throw new Error('boom');
+      })
+    ).toThrow();
+    expect(history.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { EdgeCrossingIndex, addLineJumps, LineJumpYield } from '@/renderer/LineJumps';
+import { NodeType, NodeData } from '@/types';
+
+const HORIZONTAL = { id: 'h', points: [{ x: 0, y: 50 }, { x: 100, y: 50 }] };
+const VERTICAL = { id: 'v', points: [{ x: 50, y: 0 }, { x: 50, y: 100 }] };
+
+describe('EdgeCrossingIndex', () => {
+  it('应该按让行规则把交叉点分配给其中一条连线', () => {
+    const jumpsOf = (rule: LineJumpYield) => new EdgeCrossingIndex().update([VERTICAL, HORIZONTAL], rule);
+
+    expect(jumpsOf('horizontal')).toEqual(new Map([['h', [{ x: 50, y: 50 }]]]));
+    expect(jumpsOf('vertical')).toEqual(new Map([['v', [{ x: 50, y: 50 }]]]));
+    expect(jumpsOf('later')).toEqual(new Map([['h', [{ x: 50, y: 50 }]]]));
+    expect(jumpsOf('earlier')).toEqual(new Map([['v', [{ x: 50, y: 50 }]]]));
+  });
+
+  it('端点相接、平行的线段不算交叉', () => {
+    const index = new EdgeCrossingIndex();
+    const touching = { id: 't', points: [{ x: 100, y: 0 }, { x: 100, y: 50 }] };
+    const parallel = { id: 'p', points: [{ x: 0, y: 60 }, { x: 100, y: 60 }] };
+    expect(index.update([HORIZONTAL, touching, parallel]).size).toBe(0);
+  });
+
+  it('应该只重新检测路径变化的连线，并移除已删除连线的交叉', () => {
+    const index = new EdgeCrossingIndex();
+    const detect = vi.spyOn(index as unknown as { detect: (ids: string[]) => void }, 'detect');
+    const other = { id: 'o', points: [{ x: 20, y: 0 }, { x: 20, y: 100 }] };
+
+    expect(index.update([HORIZONTAL, VERTICAL, other]).get('h')).toHaveLength(2);
+    index.update([HORIZONTAL, VERTICAL, other]);
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    const moved = { id: 'v', points: [{ x: 150, y: 0 }, { x: 150, y: 100 }] };
+    expect(index.update([HORIZONTAL, moved, other]).get('h')).toEqual([{ x: 20, y: 50 }]);
+    expect(detect).toHaveBeenLastCalledWith(['v']);
+
+    expect(index.update([HORIZONTAL, moved]).size).toBe(0);
+  });
+});
+
+describe('addLineJumps', () => {
+  it('应该在直线段上画弧线或断开', () => {
+    const jump = [{ x: 50, y: 50 }];
+    expect(addLineJumps('M 0,50 L 100,50', jump)).toBe('M 0,50 L 45,50 A 5,5 0 0 1 55,50 L 100,50');
+    expect(addLineJumps('M 100,50 L 0,50', jump, { size: 4 })).toBe('M 100,50 L 54,50 A 4,4 0 0 0 46,50 L 0,50');
+    expect(addLineJumps('M 0,50 L 100,50', jump, { style: 'gap' })).toBe('M 0,50 L 45,50 M 55,50 L 100,50');
+  });
+
+  it('应该保留圆角，并跳过放不下的跳线', () => {
+    const path = 'M 0,0 L 0,40 Q 0,50 10,50 L 100,50';
+    expect(addLineJumps(path, [{ x: 60, y: 50 }, { x: 0, y: 38 }, { x: 64, y: 50 }]))
+      .toBe('M 0,0 L 0,40 Q 0,50 10,50 L 55,50 A 5,5 0 0 1 65,50 L 100,50');
+  });
+});
+
+describe('FlowChart 跳线', () => {
+  let flowChart: FlowChart;
+
+  const NODES: NodeData[] = [
+    { id: 'a', type: NodeType.PROCESS, label: 'a', position: { x: 0, y: 0 } },
+    { id: 'b', type: NodeType.PROCESS, label: 'b', position: { x: 400, y: 0 } },
+    { id: 'c', type: NodeType.PROCESS, label: 'c', position: { x: 200, y: -200 } },
+    { id: 'd', type: NodeType.PROCESS, label: 'd', position: { x: 200, y: 200 } }
+  ];
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const render = (lineJumps?: boolean) => {
+    vi.useFakeTimers();
+    flowChart = new FlowChart({
+      container: document.createElement('div'),
+      autoLayout: false,
+      edgeRouter: 'step',
+      lineJumps
+    });
+    flowChart.load(NODES, [{ id: 'e1', source: 'a', target: 'b' }, { id: 'e2', source: 'c', target: 'd' }]);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+    const svg = flowChart.getRenderer().getSVGElement();
+    return ['e1', 'e2'].map(id => svg.querySelector(`[data-edge-id="${id}"] .edge-path`)!.getAttribute('d'));
+  };
+
+  it('开启 lineJumps 后水平连线在交叉处画跳线', () => {
+    expect(render(true)).toEqual([
+      'M 80,0 L 195,0 A 5,5 0 0 1 205,0 L 320,0',
+      'M 200,-170 L 200,170'
+    ]);
+  });
+
+  it('默认不画跳线', () => {
+    render().forEach(path => expect(path).not.toContain('A'));
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { FlowNode } from '@/core/Node';
+import { EdgeNudger } from '@/router/EdgeNudger';
+import { ConnectionPointManager, ConnectionSide } from '@/renderer/ConnectionPointManager';
+import { NodeType, NodeData } from '@/types';
+
+describe('EdgeNudger', () => {
+  it('应该按间距展开共线重叠的线段，并按两端走向排序避免交叉', () => {
+    const nudged = new EdgeNudger({ gap: 10 }).nudge([
+      { id: 'below', points: [{ x: 50, y: 100 }, { x: 50, y: 50 }, { x: 150, y: 50 }, { x: 150, y: 100 }] },
+      { id: 'above', points: [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 200, y: 50 }, { x: 200, y: 0 }] }
+    ]);
+
+    expect(nudged.get('above')).toEqual([{ x: 0, y: 0 }, { x: 0, y: 45 }, { x: 200, y: 45 }, { x: 200, y: 0 }]);
+    expect(nudged.get('below')).toEqual([{ x: 50, y: 100 }, { x: 50, y: 55 }, { x: 150, y: 55 }, { x: 150, y: 100 }]);
+  });
+
+  it('应该让汇入同一端口的连线沿节点边分开', () => {
+    const span = { axis: 'x' as const, min: 60, max: 140 };
+    const nudged = new EdgeNudger({ gap: 10 }).nudge([
+      { id: 'right', points: [{ x: 200, y: 0 }, { x: 200, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }], targetSpan: span },
+      { id: 'middle', points: [{ x: 100, y: 0 }, { x: 100, y: 100 }], sourceSpan: span, targetSpan: span },
+      { id: 'left', points: [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }], targetSpan: span }
+    ]);
+
+    expect(nudged.get('left')!.slice(-2)).toEqual([{ x: 90, y: 50 }, { x: 90, y: 100 }]);
+    expect(nudged.get('middle')).toEqual([{ x: 100, y: 0 }, { x: 100, y: 100 }]);
+    expect(nudged.get('right')!.slice(-2)).toEqual([{ x: 110, y: 50 }, { x: 110, y: 100 }]);
+  });
+
+  it('应该在端口范围不足时按比例收拢，固定端口保持原位', () => {
+    const narrow = { axis: 'x' as const, min: 96, max: 104 };
+    const nudged = new EdgeNudger({ gap: 10 }).nudge([
+      { id: 'left', points: [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }], targetSpan: narrow },
+      { id: 'right', points: [{ x: 200, y: 0 }, { x: 200, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }], targetSpan: narrow }
+    ]);
+    expect(nudged.get('left')![3]).toEqual({ x: 96, y: 100 });
+    expect(nudged.get('right')![3]).toEqual({ x: 104, y: 100 });
+
+    const fixed = new EdgeNudger({ gap: 10 }).nudge([
+      { id: 'left', points: [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }] },
+      { id: 'right', points: [{ x: 200, y: 0 }, { x: 200, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }] }
+    ]);
+    expect(fixed.get('left')![3]).toEqual({ x: 100, y: 100 });
+    expect(fixed.get('right')![3]).toEqual({ x: 100, y: 100 });
+  });
+
+  it('应该把坐标相差不超过容差的线段归为同一通道', () => {
+    // 按固定步长取整时 50.24 与 50.26 会被分到不同的组
+    const nudged = new EdgeNudger({ gap: 10 }).nudge([
+      { id: 'a', points: [{ x: 0, y: 0 }, { x: 0, y: 50.24 }, { x: 200, y: 50.24 }, { x: 200, y: 0 }] },
+      { id: 'b', points: [{ x: 50, y: 100 }, { x: 50, y: 50.26 }, { x: 150, y: 50.26 }, { x: 150, y: 100 }] }
+    ]);
+    expect(nudged.get('b')![1].y - nudged.get('a')![1].y).toBeCloseTo(10, 1);
+  });
+});
+
+describe('ConnectionPointManager 端口范围', () => {
+  it('矩形节点的端口可以沿边滑动，菱形节点的端口在顶点附近滑动', () => {
+    const manager = new ConnectionPointManager();
+    const rect = new FlowNode({ id: 'r', type: NodeType.PROCESS, label: 'r', position: { x: 100, y: 100 } });
+    const diamond = new FlowNode({ id: 'd', type: NodeType.CONDITION, label: 'd', position: { x: 100, y: 100 } });
+
+    expect(manager.getPortSpan(rect, 100, 40, ConnectionSide.TOP)).toEqual({ axis: 'x', min: 70, max: 130 });
+    expect(manager.getPortSpan(rect, 100, 40, ConnectionSide.LEFT)).toEqual({ axis: 'y', min: 88, max: 112 });
+    expect(manager.getPortSpan(diamond, 100, 40, ConnectionSide.TOP)).toEqual({ axis: 'x', min: 88, max: 112 });
+  });
+
+  it('应该把滑动后的端口落回圆形和菱形的轮廓', () => {
+    const manager = new ConnectionPointManager();
+    const rect = new FlowNode({ id: 'r', type: NodeType.PROCESS, label: 'r', position: { x: 100, y: 100 } });
+    const diamond = new FlowNode({ id: 'd', type: NodeType.CONDITION, label: 'd', position: { x: 100, y: 100 } });
+    const circle = new FlowNode({ id: 'c', type: NodeType.END, label: 'c', position: { x: 100, y: 100 } });
+
+    expect(manager.projectToOutline(rect, 100, 40, ConnectionSide.TOP, { x: 110, y: 80 })).toEqual({ x: 110, y: 80 });
+    expect(manager.projectToOutline(diamond, 100, 40, ConnectionSide.TOP, { x: 110, y: 80 })).toEqual({ x: 110, y: 84 });
+    expect(manager.projectToOutline(circle, 60, 60, ConnectionSide.LEFT, { x: 70, y: 118 })).toEqual({ x: 76, y: 118 });
+  });
+});
+
+describe('FlowChart 连线分离', () => {
+  let flowChart: FlowChart;
+
+  const NODES: NodeData[] = [
+    { id: 'a', type: NodeType.PROCESS, label: 'a', position: { x: 0, y: 0 } },
+    { id: 'b', type: NodeType.PROCESS, label: 'b', position: { x: 0, y: 100 } },
+    { id: 'c', type: NodeType.PROCESS, label: 'c', position: { x: 400, y: 50 } }
+  ];
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const render = (edgeNudging?: boolean, target: NodeType = NodeType.PROCESS) => {
+    vi.useFakeTimers();
+    flowChart = new FlowChart({
+      container: document.createElement('div'),
+      autoLayout: false,
+      edgeRouter: 'step',
+      edgeNudging
+    });
+    flowChart.load(
+      NODES.map(node => (node.id === 'c' ? { ...node, type: target } : node)),
+      [{ id: 'e1', source: 'a', target: 'c' }, { id: 'e2', source: 'b', target: 'c' }]
+    );
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+    const svg = flowChart.getRenderer().getSVGElement();
+    return ['e1', 'e2'].map(id => svg.querySelector(`[data-edge-id="${id}"] .edge-path`)!.getAttribute('d'));
+  };
+
+  it('开启 edgeNudging 时应该分离汇入同一节点的连线', () => {
+    expect(render(true)).toEqual([
+      'M 80,0 L 200,0 L 200,45 L 320,45',
+      'M 80,100 L 200,100 L 200,55 L 320,55'
+    ]);
+  });
+
+  it('默认不分离连线，保持路由结果', () => {
+    const routed = [
+      'M 80,0 L 200,0 L 200,50 L 320,50',
+      'M 80,100 L 200,100 L 200,50 L 320,50'
+    ];
+    expect(render()).toEqual(routed);
+    flowChart.destroy();
+    expect(render(false)).toEqual(routed);
+  });
+
+  it('汇入圆形结束节点的连线应该分开并落在轮廓上', () => {
+    const ends = render(true, NodeType.END).map(d => d!.split(' L ').pop()!.split(',').map(Number));
+    expect(ends[0][1]).not.toBe(ends[1][1]);
+    ends.forEach(([x, y]) => expect(Math.hypot(x - 400, y - 50)).toBeCloseTo(30));
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { EdgeDrawer } from '@/editor/EdgeDrawer';
+import { ValidationRuleRegistry } from '@/validation';
+import { getPortPosition, canConnectPort } from '@/router/ports';
+import { NodeType, NodeData, EdgeData, PortDefinition } from '@/types';
+
+const APPROVAL_PORTS: PortDefinition[] = [
+  { id: 'in', side: 'top', direction: 'in' },
+  { id: 'approve', side: 'right', direction: 'out', maxConnections: 1, label: '同意' },
+  { id: 'reject', side: 'bottom', offset: 0.25, direction: 'out', label: '驳回' }
+];
+
+const NODES: NodeData[] = [
+  { id: 'start', type: NodeType.START, label: 'start', position: { x: 0, y: -200 } },
+  { id: 'approval', type: NodeType.APPROVAL, label: 'approval', position: { x: 0, y: 0 }, ports: APPROVAL_PORTS },
+  { id: 'end', type: NodeType.END, label: 'end', position: { x: 400, y: 0 } },
+  { id: 'back', type: NodeType.PROCESS, label: 'back', position: { x: 0, y: 300 } }
+];
+
+describe('端口定义', () => {
+  it('应该按所在边和相对位置换算端口坐标', () => {
+    const node = { position: { x: 100, y: 100 }, width: 160, height: 60 };
+    expect(getPortPosition(node, { id: 'a', side: 'top' })).toEqual({ x: 100, y: 70 });
+    expect(getPortPosition(node, { id: 'b', side: 'bottom', offset: 0.25 })).toEqual({ x: 60, y: 130 });
+    expect(getPortPosition(node, { id: 'c', side: 'left', offset: 0 })).toEqual({ x: 20, y: 70 });
+    expect(getPortPosition(node, { id: 'd', side: 'right', offset: 2 })).toEqual({ x: 180, y: 130 });
+  });
+
+  it('条件节点的端口应该落在菱形轮廓上', () => {
+    const node = { type: NodeType.CONDITION, position: { x: 100, y: 100 }, width: 160, height: 60 };
+    expect(getPortPosition(node, { id: 'a', side: 'top' })).toEqual({ x: 100, y: 70 });
+    expect(getPortPosition(node, { id: 'b', side: 'bottom', offset: 0.25 })).toEqual({ x: 60, y: 115 });
+    expect(getPortPosition(node, { id: 'c', side: 'left', offset: 0.75 })).toEqual({ x: 60, y: 115 });
+    expect(getPortPosition(node, { id: 'd', side: 'right', offset: 0 })).toEqual({ x: 100, y: 70 });
+  });
+
+  it('应该按方向判断端口能否作为起点或终点', () => {
+    expect(canConnectPort({ id: 'a', side: 'top', direction: 'in' }, 'source')).toBe(false);
+    expect(canConnectPort({ id: 'a', side: 'top', direction: 'in' }, 'target')).toBe(true);
+    expect(canConnectPort({ id: 'b', side: 'top' }, 'source')).toBe(true);
+  });
+});
+
+describe('端口验证', () => {
+  const codes = (edges: EdgeData[], nodes: NodeData[] = NODES) =>
+    new ValidationRuleRegistry().validate({ nodes, edges }).diagnostics
+      .filter(item => item.rule === 'port-constraints' || item.code === 'invalid-node')
+      .map(item => `${item.code}:${item.edgeId || item.nodeId}`);
+
+  it('合法的端口连线不应该产生诊断', () => {
+    expect(codes([
+      { id: 'e1', source: 'start', target: 'approval', targetPort: 'in' },
+      { id: 'e2', source: 'approval', target: 'end', sourcePort: 'approve' },
+      { id: 'e3', source: 'approval', target: 'back', sourcePort: 'reject' }
+    ])).toEqual([]);
+  });
+
+  it('应该检测缺失、不存在、方向错误和超出连接数的端口', () => {
+    expect(codes([
+      { id: 'e1', source: 'start', target: 'approval' },
+      { id: 'e2', source: 'approval', target: 'end', sourcePort: 'approve' },
+      { id: 'e3', source: 'approval', target: 'back', sourcePort: 'approve' },
+      { id: 'e4', source: 'approval', target: 'end', sourcePort: 'in' },
+      { id: 'e5', source: 'back', target: 'approval', targetPort: 'missing' }
+    ])).toEqual([
+      'port-required:e1',
+      'port-direction:e4',
+      'unknown-port:e5',
+      'port-capacity:e3'
+    ]);
+  });
+
+  it('未指定端口只给出警告，其余端口问题是错误', () => {
+    const report = new ValidationRuleRegistry().validate({
+      nodes: NODES,
+      edges: [
+        { id: 'e1', source: 'start', target: 'approval' },
+        { id: 'e5', source: 'back', target: 'approval', targetPort: 'missing' }
+      ]
+    });
+    const severity = (code: string) => report.diagnostics.find(item => item.code === code)!.severity;
+    expect(severity('port-required')).toBe('warning');
+    expect(severity('unknown-port')).toBe('error');
+    expect(report.errors.join()).not.toContain('must specify');
+  });
+
+  it('应该检测无效的端口定义', () => {
+    const nodes = [{ ...NODES[1], ports: [{ id: 'a', side: 'top' as const }, { id: 'a', side: 'top' as const, offset: 2 }] }];
+    const report = new ValidationRuleRegistry().validate({ nodes, edges: [] });
+    expect(report.diagnostics.find(item => item.code === 'invalid-node')!.message).toContain('端口ID重复: a');
+    expect(report.errors.join()).toContain('端口 a 的偏移必须在 0 到 1 之间');
+  });
+});
+
+describe('FlowChart 端口', () => {
+  let flowChart: FlowChart;
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const create = (edges: EdgeData[]) => {
+    vi.useFakeTimers();
+    flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false });
+    flowChart.load(NODES, edges);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+    return flowChart;
+  };
+
+  const getPoints = (edgeId: string) => flowChart.getRenderer().getSVGElement()
+    .querySelector(`[data-edge-id="${edgeId}"] .edge-path`)!.getAttribute('d')!
+    .match(/-?\d+(\.\d+)?,-?\d+(\.\d+)?/g)!;
+
+  it('默认路由器应该从连线指定的端口出发并到达指定端口', () => {
+    create([
+      { id: 'e1', source: 'start', target: 'approval', targetPort: 'in' },
+      { id: 'e2', source: 'approval', target: 'end', sourcePort: 'approve' },
+      { id: 'e3', source: 'approval', target: 'back', sourcePort: 'reject' }
+    ]);
+
+    expect(getPoints('e2')[0]).toBe('80,0');
+    expect(getPoints('e3')[0]).toBe('-40,30');
+    expect(getPoints('e1').slice(-1)[0]).toBe('0,-30');
+  });
+
+  it('应该在导出的数据中保留端口', () => {
+    create([{ id: 'e2', source: 'approval', target: 'end', sourcePort: 'approve' }]);
+    expect(flowChart.getNode('approval')!.toJSON().ports).toEqual(APPROVAL_PORTS);
+    expect(flowChart.getEdge('e2')!.toJSON().sourcePort).toBe('approve');
+  });
+
+  it('EdgeDrawer 应该从可用的输出端口出发并吸附到输入端口', () => {
+    create([{ id: 'e2', source: 'approval', target: 'end', sourcePort: 'approve' }]);
+    const canvas = flowChart.getRenderer().getSVGElement().parentElement as HTMLElement;
+    const onEdgeAdd = vi.fn();
+    const drawer = new EdgeDrawer({ canvas, flowChart, enabled: true, onEdgeAdd });
+    const move = (x: number, y: number) => canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: x, clientY: y }));
+
+    // approve 已达到最大连接数，从 reject 出发
+    move(80, 0);
+    drawer.handleNodeClick(NODES[1]);
+    move(10, 265);
+    drawer.handleNodeClick(NODES[3]);
+    expect(onEdgeAdd).toHaveBeenLastCalledWith(expect.objectContaining({
+      source: 'approval',
+      target: 'back',
+      sourcePort: 'reject',
+      targetPort: undefined
+    }));
+
+    // 靠近 in 端口时吸附
+    drawer.handleNodeClick(NODES[3]);
+    move(3, -28);
+    drawer.handleNodeClick(NODES[1]);
+    expect(onEdgeAdd).toHaveBeenLastCalledWith(expect.objectContaining({ source: 'back', targetPort: 'in' }));
+    drawer.destroy();
+  });
+
+  it('EdgeDrawer 应该按画布的平移和缩放换算鼠标位置', () => {
+    create([]);
+    flowChart.getRenderer().setTransform(100, 50, 2);
+    const canvas = flowChart.getRenderer().getSVGElement().parentElement as HTMLElement;
+    const onEdgeAdd = vi.fn();
+    const drawer = new EdgeDrawer({ canvas, flowChart, enabled: true, onEdgeAdd });
+    const move = (x: number, y: number) => canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: x, clientY: y }));
+
+    // 屏幕 (100, -10) 对应流程图 (0, -30)，即 in 端口
+    drawer.handleNodeClick(NODES[3]);
+    move(100, -10);
+    const line = canvas.querySelector('line')!;
+    expect([line.getAttribute('x2'), line.getAttribute('y2')]).toEqual(['0', '-30']);
+    expect(line.getAttribute('transform')).toBe('translate(100, 50) scale(2)');
+    drawer.handleNodeClick(NODES[1]);
+    expect(onEdgeAdd).toHaveBeenLastCalledWith(expect.objectContaining({ source: 'back', targetPort: 'in' }));
+    drawer.destroy();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { FlowNode } from '@/core/Node';
+import { FlowEdge } from '@/core/Edge';
+import { RouterFactory, RouterType } from '@/router/RouterFactory';
+import { RouteRequest } from '@/router/types';
+import { toRouteResult } from '@/router/path';
+import { ConfigError } from '@/utils/errors';
+import { NodeType, NodeData, EdgeData } from '@/types';
+
+const BUILT_IN: RouterType[] = [
+  'manhattan', 'smart', 'smart-edge', 'optimized', 'astar', 'visibility',
+  'orthogonal', 'polyline', 'bezier', 'smooth', 'straight', 'step'
+];
+
+const createRequest = (): RouteRequest => {
+  const a = new FlowNode({ id: 'a', type: NodeType.PROCESS, label: 'a', position: { x: 100, y: 100 } });
+  const b = new FlowNode({ id: 'b', type: NodeType.PROCESS, label: 'b', position: { x: 300, y: 300 } });
+  const edge = new FlowEdge({ id: 'e', source: 'a', target: 'b' }, a, b);
+  const geometry = (node: FlowNode) => ({ id: node.id, type: node.type, position: node.position, width: 120, height: 60 });
+  return {
+    edge,
+    source: geometry(a),
+    target: geometry(b),
+    obstacles: [{ id: 'c', type: NodeType.PROCESS, position: { x: 200, y: 200 }, width: 120, height: 60 }],
+    direction: 'TB',
+    style: {}
+  };
+};
+
+describe('RouterFactory', () => {
+  afterEach(() => {
+    RouterFactory.unregister('diagonal');
+  });
+
+  it('应该按名称创建所有内置路由器并返回统一的路由结果', () => {
+    expect(RouterFactory.getAvailableTypes()).toEqual(BUILT_IN);
+
+    BUILT_IN.forEach(type => {
+      const result = RouterFactory.create(type).route(createRequest());
+      expect(result.points.length, type).toBeGreaterThanOrEqual(2);
+      expect(result.path.startsWith('M'), type).toBe(true);
+      expect(Number.isFinite(result.arrowAngle), type).toBe(true);
+      expect(Number.isFinite(result.labelPosition.x + result.labelPosition.y), type).toBe(true);
+    });
+  });
+
+  it('应该使用请求中指定的端口', () => {
+    const request = { ...createRequest(), sourcePort: { x: 160, y: 100 }, targetPort: { x: 240, y: 300 } };
+    const result = RouterFactory.create('straight').route(request);
+    expect(result.points).toEqual([{ x: 160, y: 100 }, { x: 240, y: 300 }]);
+    expect(result.path).toBe('M 160,100 L 240,300');
+  });
+
+  it('应该在路由器未注册时抛出 ConfigError', () => {
+    expect(RouterFactory.has('diagonal')).toBe(false);
+    expect(() => RouterFactory.create('diagonal')).toThrow(ConfigError);
+  });
+
+  it('应该把配置传给自定义路由器工厂', () => {
+    const factory = vi.fn(() => ({
+      route: ({ source, target }: RouteRequest) => toRouteResult([source.position, target.position])
+    }));
+    RouterFactory.register('diagonal', factory);
+    RouterFactory.create('diagonal', { padding: 5 });
+    expect(factory).toHaveBeenCalledWith({ padding: 5 });
+  });
+});
+
+describe('FlowChart 连线路由', () => {
+  let flowChart: FlowChart;
+
+  const NODES: NodeData[] = [
+    { id: 'a', type: NodeType.PROCESS, label: 'a', position: { x: 100, y: 100 } },
+    { id: 'b', type: NodeType.PROCESS, label: 'b', position: { x: 100, y: 300 } }
+  ];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    RouterFactory.register('diagonal', () => ({
+      route: ({ source, target }) => toRouteResult([source.position, target.position])
+    }));
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    RouterFactory.unregister('diagonal');
+    vi.useRealTimers();
+  });
+
+  const create = (edges: EdgeData[], config: Partial<ConstructorParameters<typeof FlowChart>[0]> = {}) => {
+    flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false, ...config });
+    flowChart.load(NODES, edges);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+    return flowChart;
+  };
+
+  const getPath = (edgeId: string) => flowChart.getRenderer().getSVGElement()
+    .querySelector(`[data-edge-id="${edgeId}"] .edge-path`)!.getAttribute('d');
+
+  it('应该按 EdgeStyle.router 为单条连线选择路由器', () => {
+    create([
+      { id: 'e1', source: 'a', target: 'b', style: { router: 'diagonal' } },
+      { id: 'e2', source: 'b', target: 'a' }
+    ]);
+    expect(getPath('e1')).toBe('M 100,100 L 100,300');
+    expect(getPath('e2')).not.toBe('M 100,300 L 100,100');
+  });
+
+  it('setEdgeRouter 应该切换默认路由器，单条连线的设置优先', () => {
+    create([
+      { id: 'e1', source: 'a', target: 'b', style: { router: 'straight' } },
+      { id: 'e2', source: 'b', target: 'a' }
+    ]);
+    flowChart.setEdgeRouter('diagonal');
+    expect(getPath('e1')).toBe('M 100,130 L 100,270');
+    expect(getPath('e2')).toBe('M 100,300 L 100,100');
+  });
+
+  it('应该在默认路由器未注册时抛出 ConfigError', () => {
+    expect(() => create([], { edgeRouter: 'missing' })).toThrow(ConfigError);
+    flowChart = new FlowChart({ container: document.createElement('div') });
+  });
+});
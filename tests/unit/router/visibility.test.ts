@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FlowNode } from '@/core/Node';
+import { FlowEdge } from '@/core/Edge';
+import { VisibilityRouter } from '@/router/VisibilityRouter';
+import { OrthogonalVisibilityGraph } from '@/router/VisibilityGraph';
+import { RouteNode, RouteRequest } from '@/router/types';
+import { EdgeRouter } from '@/renderer/EdgeRouter';
+import { NodeType, Position } from '@/types';
+
+const WIDTH = 100;
+const HEIGHT = 40;
+
+const routeNode = (id: string, x: number, y: number): RouteNode => ({
+  id, type: NodeType.PROCESS, position: { x, y }, width: WIDTH, height: HEIGHT
+});
+
+const createRequest = (nodes: RouteNode[], sourceId: string, targetId: string, edgeId = 'e'): RouteRequest => {
+  const source = nodes.find(node => node.id === sourceId)!;
+  const target = nodes.find(node => node.id === targetId)!;
+  const flowNode = (node: RouteNode) => new FlowNode({ id: node.id, type: NodeType.PROCESS, label: node.id, position: node.position });
+  return {
+    edge: new FlowEdge({ id: edgeId, source: sourceId, target: targetId }, flowNode(source), flowNode(target)),
+    source,
+    target,
+    obstacles: nodes.filter(node => node !== source && node !== target),
+    direction: 'TB',
+    style: {}
+  };
+};
+
+/** 线段是否穿过节点内部 */
+const crossesNode = (a: Position, b: Position, node: RouteNode): boolean => {
+  const left = node.position.x - node.width / 2;
+  const right = node.position.x + node.width / 2;
+  const top = node.position.y - node.height / 2;
+  const bottom = node.position.y + node.height / 2;
+  if (a.y === b.y) {
+    return a.y > top && a.y < bottom && Math.max(a.x, b.x) > left && Math.min(a.x, b.x) < right;
+  }
+  return a.x > left && a.x < right && Math.max(a.y, b.y) > top && Math.min(a.y, b.y) < bottom;
+};
+
+const expectOrthogonalAndClear = (points: Position[], obstacles: RouteNode[]) => {
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [points[i - 1], points[i]];
+    expect(a.x === b.x || a.y === b.y).toBe(true);
+    obstacles.forEach(node => expect(crossesNode(a, b, node), `${node.id}`).toBe(false));
+  }
+};
+
+describe('VisibilityRouter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('应该在没有障碍时走直线', () => {
+    const nodes = [routeNode('a', 0, 0), routeNode('b', 0, 200)];
+    const result = new VisibilityRouter().route(createRequest(nodes, 'a', 'b'));
+    expect(result.points).toEqual([{ x: 0, y: 20 }, { x: 0, y: 180 }]);
+  });
+
+  it('应该绕开两端之间的节点并使拐弯最少', () => {
+    const nodes = [routeNode('a', 0, 0), routeNode('c', 0, 100), routeNode('b', 0, 200)];
+    const request = createRequest(nodes, 'a', 'b');
+    const result = new VisibilityRouter().route(request);
+
+    expectOrthogonalAndClear(result.points, request.obstacles);
+    // 出口向下、入口向下，绕过中间节点至少需要四次拐弯
+    expect(result.points.length).toBe(6);
+    expect(result.points[0]).toEqual({ x: 0, y: 20 });
+    expect(result.points[5]).toEqual({ x: 0, y: 180 });
+  });
+
+  it('应该在 300 个节点的密集图中避开所有非端点节点', () => {
+    const nodes: RouteNode[] = [];
+    for (let row = 0; row < 15; row++) {
+      for (let col = 0; col < 20; col++) {
+        nodes.push(routeNode(`n${row}-${col}`, col * 160, row * 100));
+      }
+    }
+    const router = new VisibilityRouter();
+    const pairs = [['n0-0', 'n14-19'], ['n0-19', 'n14-0'], ['n7-3', 'n2-16'], ['n14-10', 'n0-10']];
+    pairs.forEach(([source, target], index) => {
+      const request = createRequest(nodes, source, target, `e${index}`);
+      const result = router.route(request);
+      expectOrthogonalAndClear(result.points, request.obstacles);
+      expect(result.points.length).toBeLessThanOrEqual(8);
+    });
+  });
+
+  it('节点间距小于两倍留白时，300 条连线都不应该穿过非端点节点', () => {
+    // 间距 30，留白区域互相重叠
+    const nodes: RouteNode[] = [];
+    for (let index = 0; index < 300; index++) {
+      nodes.push(routeNode(`n${index}`, (index % 20) * 130, Math.floor(index / 20) * 70));
+    }
+    const router = new VisibilityRouter();
+    for (let index = 0; index < 300; index++) {
+      const source = (index * 37) % 300;
+      const target = (source + 1 + (index * 13) % 40) % 300;
+      const request = createRequest(nodes, `n${source}`, `n${target}`, `e${index}`);
+      const { points } = router.route(request);
+      const crossed = request.obstacles
+        .filter(node => points.some((point, i) => i > 0 && crossesNode(points[i - 1], point, node)))
+        .map(node => node.id);
+      expect(crossed, `n${source} -> n${target}`).toEqual([]);
+    }
+    expect(router.getBlockedEdges()).toEqual([]);
+  });
+
+  it('找不到避开节点的路径时应该记录被阻挡的连线', () => {
+    const cover = { ...routeNode('cover', 0, 300), width: 300, height: 200 };
+    const request = createRequest([routeNode('a', 0, 0), routeNode('b', 0, 300), cover], 'a', 'b');
+    const router = new VisibilityRouter();
+
+    const result = router.route(request);
+    expect(router.getBlockedEdges()).toEqual(['e']);
+    expect(result.points[0]).toEqual({ x: 0, y: 20 });
+    expect(result.points[result.points.length - 1]).toEqual({ x: 0, y: 280 });
+  });
+
+  it('应该缓存路径，移动节点后只重新计算受影响的连线', () => {
+    const nodes = [
+      routeNode('a', 0, 0), routeNode('b', 0, 300),
+      routeNode('c', 400, 0), routeNode('d', 400, 300),
+      routeNode('far', 1000, 1000)
+    ];
+    const router = new VisibilityRouter();
+    const findPath = vi.spyOn(OrthogonalVisibilityGraph.prototype, 'findPath');
+    const routeAll = () => {
+      router.route(createRequest(nodes, 'a', 'b', 'left'));
+      return router.route(createRequest(nodes, 'c', 'd', 'right'));
+    };
+
+    routeAll();
+    expect(findPath).toHaveBeenCalledTimes(2);
+    routeAll();
+    expect(findPath).toHaveBeenCalledTimes(2);
+
+    // 远处节点移动不影响两条连线
+    nodes[4] = routeNode('far', 1200, 1000);
+    routeAll();
+    expect(findPath).toHaveBeenCalledTimes(2);
+
+    // 节点移到右侧连线上：只重新计算右侧连线
+    nodes[4] = routeNode('far', 400, 150);
+    const result = routeAll();
+    expect(findPath).toHaveBeenCalledTimes(3);
+    expectOrthogonalAndClear(result.points, [nodes[4]]);
+
+    // 端点移动时重新计算
+    nodes[0] = routeNode('a', 50, 0);
+    routeAll();
+    expect(findPath).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('EdgeRouter', () => {
+  it('A* 路由应该避开挡在 Z 字形路径上的节点', () => {
+    const a = { id: 'a', position: { x: 0, y: 0 } };
+    const c = { id: 'c', position: { x: 100, y: 100 } };
+    const b = { id: 'b', position: { x: 200, y: 200 } };
+    const router = new EdgeRouter(new Map([a, b, c].map(node => [node.id, node])), { width: WIDTH, height: HEIGHT });
+
+    const points = router.calculateRoute(a, b, { x: 0, y: 20 }, { x: 200, y: 180 });
+    expectOrthogonalAndClear(points, [routeNode('c', 100, 100)]);
+    expect(points[0]).toEqual({ x: 0, y: 20 });
+    expect(points[points.length - 1]).toEqual({ x: 200, y: 180 });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { FlowSimulator } from '@/simulation';
+import { FlowChartEvents } from '@/events';
+import { NodeType, NodeStatus, NodeData, EdgeData } from '@/types';
+import { NodeError } from '@/utils/errors';
+import { node } from '../../helpers/fixtures';
+
+const NODES: NodeData[] = [
+  node('start', NodeType.START),
+  node('check', NodeType.CONDITION),
+  node('fork', NodeType.PARALLEL),
+  node('finance', NodeType.APPROVAL),
+  node('manager', NodeType.APPROVAL),
+  node('join', NodeType.MERGE),
+  node('auto', NodeType.PROCESS),
+  node('end', NodeType.END)
+];
+
+const EDGES: EdgeData[] = [
+  { id: 'e1', source: 'start', target: 'check' },
+  { id: 'e2', source: 'check', target: 'fork', condition: 'order.large' },
+  { id: 'e3', source: 'check', target: 'auto' },
+  { id: 'e4', source: 'fork', target: 'finance' },
+  { id: 'e5', source: 'fork', target: 'manager' },
+  { id: 'e6', source: 'finance', target: 'join' },
+  { id: 'e7', source: 'manager', target: 'join' },
+  { id: 'e8', source: 'join', target: 'end' },
+  { id: 'e9', source: 'auto', target: 'end' }
+];
+
+describe('FlowSimulator', () => {
+  let flowChart: FlowChart;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false } as any);
+    flowChart.load(NODES, EDGES);
+    // 跳过初始视图定位（jsdom 不支持 getBBox）
+    vi.clearAllTimers();
+  });
+
+  afterEach(() => {
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+
+  const statuses = () => Object.fromEntries(flowChart.getAllNodes().map(item => [item.id, item.status]));
+
+  it('应该按条件选择分支并逐步更新节点状态', () => {
+    const simulator = new FlowSimulator(flowChart, { render: false, context: { order: { large: false } } });
+
+    expect(simulator.step()).toMatchObject({ index: 1, nodeId: 'start', edgeIds: [], status: 'paused' });
+    expect(flowChart.getNode('start')!.status).toBe(NodeStatus.PROCESSING);
+
+    simulator.step();
+    const step = simulator.step();
+    expect(step).toMatchObject({ nodeId: 'check', edgeIds: ['e3'], choice: { nodeId: 'check', edgeId: 'e3' } });
+    expect(step!.tokens).toEqual([{ id: 'token_3', nodeId: 'auto', edgeId: 'e3' }]);
+
+    simulator.step();
+    const last = simulator.step();
+    expect(last!.status).toBe('completed');
+    expect(simulator.step()).toBeNull();
+    expect(statuses()).toMatchObject({
+      start: NodeStatus.COMPLETED,
+      check: NodeStatus.COMPLETED,
+      auto: NodeStatus.COMPLETED,
+      end: NodeStatus.COMPLETED,
+      fork: NodeStatus.PENDING
+    });
+  });
+
+  it('应该在并行节点分叉并在汇合节点等待所有分支', async () => {
+    const simulator = new FlowSimulator(flowChart, {
+      render: false,
+      interval: 0,
+      context: { order: { large: true } }
+    });
+    const steps: string[] = [];
+    simulator.on(FlowChartEvents.SIMULATION_STEP, step => steps.push(`${step.nodeId}:${step.edgeIds.join(',')}`));
+
+    expect(await simulator.run()).toBe('completed');
+    expect(steps).toEqual([
+      'start:',
+      'start:e1',
+      'check:e2',
+      'fork:e4,e5',
+      'finance:e6',
+      'manager:e7',
+      'join:e8',
+      'end:'
+    ]);
+    expect(statuses()).toMatchObject({
+      finance: NodeStatus.APPROVED,
+      manager: NodeStatus.APPROVED,
+      join: NodeStatus.COMPLETED,
+      auto: NodeStatus.PENDING
+    });
+  });
+
+  it('没有满足条件的分支时应该阻塞', () => {
+    flowChart.removeNode('auto');
+    const simulator = new FlowSimulator(flowChart, { render: false });
+    const blocked = vi.fn();
+    simulator.on(FlowChartEvents.SIMULATION_BLOCKED, blocked);
+
+    simulator.step();
+    simulator.step();
+    simulator.step();
+
+    expect(simulator.getStatus()).toBe('blocked');
+    expect(blocked).toHaveBeenCalledWith({ nodeId: 'check', reason: 'no-branch' });
+    expect(flowChart.getNode('check')!.status).toBe(NodeStatus.REJECTED);
+  });
+
+  it('应该支持暂停、重置并按选择记录回放', async () => {
+    const simulator = new FlowSimulator(flowChart, {
+      render: false,
+      interval: 100,
+      context: { order: { large: true } }
+    });
+
+    const running = simulator.run();
+    await vi.advanceTimersByTimeAsync(250);
+    simulator.pause();
+    await vi.runAllTimersAsync();
+    expect(await running).toBe('paused');
+    expect(simulator.getChoiceLog()).toEqual([{ nodeId: 'check', edgeId: 'e2' }]);
+
+    const log = simulator.getChoiceLog();
+    simulator.reset();
+    expect(simulator.getStatus()).toBe('idle');
+    expect(Object.values(statuses()).every(status => status === NodeStatus.PENDING)).toBe(true);
+
+    // 回放时忽略上下文，使用记录的选择
+    simulator.setContext({ order: { large: false } });
+    const replaying = simulator.replay(log);
+    await vi.runAllTimersAsync();
+    expect(await replaying).toBe('completed');
+    expect(simulator.getChoiceLog()).toEqual(log);
+    expect(flowChart.getNode('fork')!.status).toBe(NodeStatus.COMPLETED);
+  });
+
+  it('回放记录与流程不一致时应该抛出 NodeError', () => {
+    const simulator = new FlowSimulator(flowChart, { render: false, replay: [{ nodeId: 'check', edgeId: 'e9' }] });
+
+    simulator.step();
+    simulator.step();
+    const tokens = simulator.getTokens();
+    expect(() => simulator.step()).toThrow(NodeError);
+    expect(simulator.getTokens()).toEqual(tokens);
+    expect(simulator.getStatus()).toBe('paused');
+  });
+
+  it('回放出错时不应该停留在运行状态', async () => {
+    const simulator = new FlowSimulator(flowChart, { render: false, interval: 0 });
+
+    await expect(simulator.replay([{ nodeId: 'check', edgeId: 'e9' }])).rejects.toThrow(NodeError);
+    expect(simulator.getStatus()).toBe('paused');
+    expect(simulator.getTokens().map(token => token.nodeId)).toEqual(['check']);
+  });
+
+  it('应该把经过的连线标记为动画', () => {
+    const simulator = new FlowSimulator(flowChart);
+    simulator.step();
+    simulator.step();
+
+    const container = flowChart.getRenderer().getSVGElement();
+    const animated = Array.from(container.querySelectorAll('.flow-edge.animated'))
+      .map(group => (group as Element).getAttribute('data-edge-id'));
+    expect(animated).toEqual(['e1']);
+  });
+});
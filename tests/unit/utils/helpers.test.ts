@@ -5,7 +5,8 @@ import {
   midpoint,
   deepClone,
   merge,
-  rectContainsPoint
+  rectContainsPoint,
+  unwrapExpression
 } from '@/utils/helpers';
 
 describe('helpers', () => {
@@ -93,5 +94,12 @@ describe('helpers', () => {
       expect(rectContainsPoint(rect, { x: 50, y: 101 })).toBe(false);
     });
   });
-});
 
+  describe('unwrapExpression', () => {
+    it('应该去掉 ${...} 包装', () => {
+      expect(unwrapExpression('${amount <= 5000}')).toBe('amount <= 5000');
+      expect(unwrapExpression(' ${ a && b } ')).toBe('a && b');
+      expect(unwrapExpression('amount > 5000')).toBe('amount > 5000');
+    });
+  });
+});
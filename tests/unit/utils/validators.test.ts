@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { validateNodeData, validateEdgeData } from '@/utils/validators';
+import { Validator } from '@/utils/Validator';
 import { NodeType } from '@/types';
 
 describe('validators', () => {
@@ -94,5 +95,26 @@ describe('validators', () => {
       expect(result.errors).toContain('边ID必须是非空字符串');
     });
   });
-});
 
+  describe('Validator', () => {
+    it('应该允许模型节点省略类型和标签，并保持原有的错误信息', () => {
+      expect(Validator.validateNode({ id: 'a', type: 'custom' }).valid).toBe(true);
+      expect(Validator.validateNode({ id: 'a', width: -1 }).errors).toEqual(['Node width must be a positive number']);
+      expect(Validator.validateEdge({ id: 'e1', source: 'a', target: 'a' }).errors)
+        .toEqual(['Edge source and target cannot be the same']);
+    });
+
+    it('整图数据的错误信息应该保持原有的格式', () => {
+      const result = Validator.validateGraphData({
+        nodes: [{ id: 'a' }, { id: 'a', x: 'x' as any }],
+        edges: [{ id: 'e1', source: 'a', target: 'missing' }]
+      });
+
+      expect(result.errors).toEqual([
+        'Node[1]: Node x must be a number',
+        'Duplicate node id: a',
+        'Edge[0]: target node "missing" not found'
+      ]);
+    });
+  });
+});
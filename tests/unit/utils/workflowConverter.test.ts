@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FlowChart } from '@/core/FlowChart';
+import { convertWorkflowToFlowChart, convertFlowChartToWorkflow } from '@/utils/workflowConverter';
+import { NodeType } from '@/types';
+import simpleApproval from '../../../example/workflows/simple-approval.json';
+import conditionBranch from '../../../example/workflows/condition-branch.json';
+import loopProcess from '../../../example/workflows/loop-process.json';
+import workflowData from '../../../example/workflow-data.json';
+
+describe('convertWorkflowToFlowChart', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('没有 action 编码的动作也应该生成唯一的连线ID并能载入流程图', () => {
+    const { nodes, edges } = convertWorkflowToFlowChart(conditionBranch as any);
+    const ids = edges.map(edge => edge.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain('edge_manager_approval_0_end');
+    expect(ids).toContain('edge_manager_approval_1_end');
+
+    vi.useFakeTimers();
+    const flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false });
+    expect(() => flowChart.fromJSON({ nodes, edges })).not.toThrow();
+    expect(flowChart.getAllEdges()).toHaveLength(edges.length);
+    flowChart.destroy();
+  });
+});
+
+describe('convertFlowChartToWorkflow', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['simple-approval', simpleApproval],
+    ['condition-branch', conditionBranch],
+    ['loop-process', loopProcess],
+    ['workflow-data', workflowData]
+  ])('%s 应该无损往返', (_name, workflow) => {
+    const { nodes: _nodes, ...base } = workflow;
+    const result = convertFlowChartToWorkflow(convertWorkflowToFlowChart(workflow as any), base);
+
+    expect(result.unsupportedEdges).toEqual([]);
+    expect(JSON.parse(JSON.stringify(result.definition))).toEqual(workflow);
+  });
+
+  it('经过流程图实例往返时应该保留多个未命名的动作', () => {
+    const workflow = {
+      processName: '报销',
+      nodes: [
+        { nodeId: 'start', nodeName: '开始', nodeType: 'start', next: 'review' },
+        {
+          nodeId: 'review',
+          nodeName: '审批',
+          nodeType: 'approval',
+          actions: [
+            { actionName: '同意', next: 'end' },
+            { actionName: '拒绝', next: 'end' },
+            { actionName: '退回', next: 'start' }
+          ]
+        },
+        { nodeId: 'end', nodeName: '结束', nodeType: 'end' }
+      ]
+    };
+    const { nodes: _nodes, ...base } = workflow;
+
+    vi.useFakeTimers();
+    const flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false });
+    flowChart.fromJSON(convertWorkflowToFlowChart(workflow));
+    const result = convertFlowChartToWorkflow(flowChart, base);
+    flowChart.destroy();
+
+    expect(result.unsupportedEdges).toEqual([]);
+    expect(JSON.parse(JSON.stringify(result.definition))).toEqual(workflow);
+  });
+
+  it('应该去掉条件表达式的 ${...} 包装', () => {
+    const { edges } = convertWorkflowToFlowChart(workflowData as any);
+    expect(edges.filter(edge => edge.condition).map(edge => edge.condition)).toEqual([
+      'amount <= 5000',
+      'amount > 5000'
+    ]);
+  });
+
+  it('应该根据编辑后的连线重建流转关系', () => {
+    const data = convertWorkflowToFlowChart({
+      nodes: [
+        { nodeId: 'start', nodeName: '开始', nodeType: 'start', next: 'review', owner: 'alice' },
+        {
+          nodeId: 'review',
+          nodeName: '审批',
+          nodeType: 'approval',
+          actions: [{ action: 'pass', actionName: '同意', next: 'end' }]
+        },
+        { nodeId: 'end', nodeName: '结束', nodeType: 'end' }
+      ]
+    });
+
+    data.nodes.push({ id: 'check', type: NodeType.CONDITION, label: '金额', position: { x: 0, y: 0 } });
+    data.nodes[1].label = '经理审批';
+    data.edges = data.edges.filter(edge => edge.source !== 'start');
+    data.edges.push(
+      { id: 'e1', source: 'start', target: 'check' },
+      { id: 'e2', source: 'check', target: 'review', label: '大额', condition: 'amount > 1000' },
+      { id: 'e3', source: 'check', target: 'end', label: '小额' },
+      { id: 'e4', source: 'review', target: 'start', label: '退回' }
+    );
+
+    const { definition } = convertFlowChartToWorkflow(data);
+    const [start, review, , check] = definition.nodes;
+
+    expect(start).toEqual({ nodeId: 'start', nodeName: '开始', nodeType: 'start', next: 'check', owner: 'alice' });
+    expect(review.nodeName).toBe('经理审批');
+    expect(review.actions).toEqual([
+      { action: 'pass', actionName: '同意', next: 'end' },
+      { actionName: '退回', next: 'start' }
+    ]);
+    expect(check).toEqual({
+      nodeId: 'check',
+      nodeName: '金额',
+      nodeType: 'condition',
+      conditions: [
+        { conditionName: '大额', expression: 'amount > 1000', next: 'review' },
+        { conditionName: '小额', next: 'end' }
+      ]
+    });
+  });
+
+  it('应该报告无法表达的连线', () => {
+    const { definition, unsupportedEdges } = convertFlowChartToWorkflow({
+      nodes: [
+        { id: 'a', type: NodeType.PROCESS, label: 'A', position: { x: 0, y: 0 } },
+        { id: 'b', type: NodeType.PROCESS, label: 'B', position: { x: 0, y: 0 } },
+        { id: 'c', type: NodeType.PROCESS, label: 'C', position: { x: 0, y: 0 } }
+      ],
+      edges: [
+        { id: 'e1', source: 'a', target: 'b' },
+        { id: 'e2', source: 'a', target: 'c' },
+        { id: 'e3', source: 'a', target: 'missing' }
+      ]
+    });
+
+    expect(definition.nodes[0].next).toBe('b');
+    expect(unsupportedEdges.map(item => item.edge.id)).toEqual(['e3', 'e2']);
+  });
+});
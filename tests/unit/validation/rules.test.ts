@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ValidationRuleRegistry, BUILT_IN_RULES, defineRule } from '@/validation';
+import { FlowChart } from '@/core/FlowChart';
+import { NodeType, NodeData, EdgeData } from '@/types';
+import { node, edge } from '../../helpers/fixtures';
+
+const codes = (nodes: NodeData[], edges: EdgeData[]) =>
+  new ValidationRuleRegistry().validate({ nodes, edges }).diagnostics.map(item => `${item.code}:${item.nodeId || item.edgeId || ''}`);
+
+describe('ValidationRuleRegistry', () => {
+  it('合法流程不应该产生诊断', () => {
+    const report = new ValidationRuleRegistry().validate({
+      nodes: [node('start', NodeType.START), node('check', NodeType.CONDITION), node('a'), node('b'), node('end', NodeType.END)],
+      edges: [
+        edge('start', 'check'),
+        edge('check', 'a', { label: '同意', condition: 'approved' }),
+        edge('check', 'b', { label: '驳回' }),
+        edge('a', 'end'),
+        edge('b', 'start')
+      ]
+    });
+
+    expect(report).toEqual({ valid: true, errors: [], diagnostics: [] });
+  });
+
+  it('应该检测不可达节点和非结束节点的死路', () => {
+    expect(codes(
+      [node('start', NodeType.START), node('a'), node('orphan'), node('end', NodeType.END)],
+      [edge('start', 'a'), edge('orphan', 'end')]
+    )).toEqual(['unreachable-node:orphan', 'unreachable-node:end', 'dead-end:a']);
+  });
+
+  it('应该检测未配对的并行和汇合节点', () => {
+    const nodes = [
+      node('start', NodeType.START),
+      node('fork', NodeType.PARALLEL),
+      node('a'),
+      node('b'),
+      node('join', NodeType.MERGE),
+      node('fork2', NodeType.PARALLEL),
+      node('c'),
+      node('d'),
+      node('end', NodeType.END)
+    ];
+    const edges = [
+      edge('start', 'fork'),
+      edge('fork', 'a'),
+      edge('fork', 'b'),
+      edge('a', 'join'),
+      edge('b', 'join'),
+      edge('join', 'fork2'),
+      edge('fork2', 'c'),
+      edge('fork2', 'd'),
+      edge('c', 'end'),
+      edge('d', 'end')
+    ];
+    expect(codes(nodes, edges)).toEqual(['unmatched-parallel:fork2']);
+
+    edges.splice(3, 1, edge('a', 'end'));
+    expect(codes(nodes, edges)).toEqual(['unmatched-parallel:fork', 'unmatched-parallel:fork2', 'unmatched-merge:join']);
+  });
+
+  it('应该检测没有出口的循环', () => {
+    const report = new ValidationRuleRegistry().validate({
+      nodes: [node('start', NodeType.START), node('a'), node('b'), node('end', NodeType.END)],
+      edges: [edge('start', 'a'), edge('a', 'b'), edge('b', 'a'), edge('start', 'end')]
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ rule: 'infinite-loop', code: 'infinite-loop', nodeId: 'a', message: 'Loop a -> b has no exit' })
+    ]);
+  });
+
+  it('应该检测重复连线和无标签的条件分支', () => {
+    expect(codes(
+      [node('start', NodeType.START), node('check', NodeType.CONDITION), node('end', NodeType.END)],
+      [
+        edge('start', 'check'),
+        edge('check', 'end', { label: '是' }),
+        edge('check', 'end', { id: 'dup' }),
+        edge('start', 'check', { id: 'dup2' })
+      ]
+    )).toEqual(['duplicate-edge:dup', 'duplicate-edge:dup2', 'condition-label:check']);
+  });
+
+  it('应该包含条件表达式和数据完整性检查', () => {
+    expect(codes(
+      [node('start', NodeType.START), node('check', NodeType.CONDITION), node('end', NodeType.END), { ...node('x'), label: '' }],
+      [
+        edge('start', 'check'),
+        edge('check', 'end', { label: '是', condition: 'amount >' }),
+        edge('check', 'x', { label: '否' }),
+        edge('x', 'missing')
+      ]
+    )).toEqual(['invalid-node:x', 'invalid-edge:x_missing', 'syntax-error:check']);
+  });
+
+  it('应该支持注册自定义规则和普通 ValidationRule', () => {
+    const registry = new ValidationRuleRegistry([]);
+    registry.registerRule({
+      name: 'max-nodes',
+      validator: context => context.nodes.length <= 1,
+      message: '节点过多',
+      severity: 'warning'
+    });
+    registry.registerRule(defineRule({
+      name: 'approval-label',
+      check: context => context.nodes
+        .filter(item => item.type === NodeType.APPROVAL && !item.label.includes('审批'))
+        .map(item => ({ code: 'approval-label', severity: 'info', message: `${item.id} 标签应包含审批`, nodeId: item.id }))
+    }));
+
+    const report = registry.validate({ nodes: [node('a', NodeType.APPROVAL), node('b')], edges: [] });
+    expect(report.valid).toBe(true);
+    expect(report.diagnostics).toEqual([
+      { rule: 'max-nodes', code: 'max-nodes', severity: 'warning', message: '节点过多' },
+      { rule: 'approval-label', code: 'approval-label', severity: 'info', message: 'a 标签应包含审批', nodeId: 'a' }
+    ]);
+
+    expect(registry.unregisterRule('max-nodes')).toBe(true);
+    expect(registry.getAllRules().map(rule => rule.name)).toEqual(['approval-label']);
+    expect(new ValidationRuleRegistry().getAllRules()).toEqual(BUILT_IN_RULES);
+  });
+
+  it('FlowChart.validate 应该返回诊断并能应用修复建议', () => {
+    vi.useFakeTimers();
+    const flowChart = new FlowChart({ container: document.createElement('div'), autoLayout: false } as any);
+    [node('start', NodeType.START), node('a'), node('end', NodeType.END)].forEach(item => flowChart.addNode(item));
+    flowChart.addEdge(edge('start', 'a'));
+    flowChart.addEdge(edge('start', 'end'));
+
+    const report = flowChart.validate();
+    expect(report.valid).toBe(true);
+    const deadEnd = report.diagnostics.find(item => item.code === 'dead-end')!;
+    expect(deadEnd.fix?.description).toBe('Connect node a to END node end');
+
+    deadEnd.fix!.apply!(flowChart);
+    expect(flowChart.validate().diagnostics).toEqual([]);
+    expect(flowChart.getAllEdges().filter(item => item.source.id === 'a' && item.target.id === 'end')).toHaveLength(1);
+
+    flowChart.destroy();
+    vi.useRealTimers();
+  });
+});